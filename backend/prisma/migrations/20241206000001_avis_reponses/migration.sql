@@ -0,0 +1,19 @@
+-- backend/prisma/migrations/20241206000001_avis_reponses/migration.sql
+-- AVIS : RÉPONSE DU VENDEUR ET LIEN AVEC L'ANNONCE
+
+-- ==============================================
+-- RÉPONSE UNIQUE DU VENDEUR
+-- ==============================================
+
+ALTER TABLE "avis" ADD COLUMN "reponse" TEXT;
+ALTER TABLE "avis" ADD COLUMN "reponseAt" TIMESTAMP(3);
+
+-- ==============================================
+-- INDEX ET CLÉS ÉTRANGÈRES
+-- ==============================================
+
+CREATE INDEX IF NOT EXISTS "avis_annonceId_idx" ON "avis"("annonceId");
+
+ALTER TABLE "avis" DROP CONSTRAINT IF EXISTS "avis_annonceId_fkey";
+ALTER TABLE "avis" ADD CONSTRAINT "avis_annonceId_fkey"
+    FOREIGN KEY ("annonceId") REFERENCES "annonces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
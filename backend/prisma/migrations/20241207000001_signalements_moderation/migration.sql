@@ -0,0 +1,55 @@
+-- backend/prisma/migrations/20241207000001_signalements_moderation/migration.sql
+-- SIGNALEMENTS : FILE DE MODÉRATION ET MASQUAGE AUTOMATIQUE
+
+-- ==============================================
+-- STATUT D'ANNONCE EN MODÉRATION
+-- ==============================================
+
+ALTER TYPE "StatutAnnonce" ADD VALUE IF NOT EXISTS 'EN_MODERATION';
+
+-- ==============================================
+-- ENUMS DES SIGNALEMENTS
+-- ==============================================
+
+DO $$ BEGIN
+    CREATE TYPE "MotifSignalement" AS ENUM ('CONTENU_INAPPROPRIE', 'FAUSSE_ANNONCE', 'PRIX_SUSPECT', 'SPAM', 'ARNAQUE', 'PRODUIT_ILLEGAL', 'AUTRE');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "StatutSignalement" AS ENUM ('EN_ATTENTE', 'EN_COURS', 'TRAITE', 'REJETE');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- ==============================================
+-- COLONNES DU WORKFLOW DE TRAITEMENT
+-- ==============================================
+
+ALTER TABLE "signalements" ADD COLUMN IF NOT EXISTS "preuves" JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE "signalements" ADD COLUMN IF NOT EXISTS "statut" "StatutSignalement" NOT NULL DEFAULT 'EN_ATTENTE';
+ALTER TABLE "signalements" ADD COLUMN IF NOT EXISTS "traitePar" TEXT;
+ALTER TABLE "signalements" ADD COLUMN IF NOT EXISTS "traiteAt" TIMESTAMP(3);
+
+-- Reprise de l'ancien booléen "traite"
+DO $$ BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'signalements' AND column_name = 'traite'
+    ) THEN
+        UPDATE "signalements" SET "statut" = 'TRAITE' WHERE "traite" = true;
+        ALTER TABLE "signalements" DROP COLUMN "traite";
+    END IF;
+END $$;
+
+ALTER TABLE "signalements"
+    ALTER COLUMN "motif" TYPE "MotifSignalement" USING "motif"::"MotifSignalement";
+
+-- ==============================================
+-- INDEX
+-- ==============================================
+
+CREATE INDEX IF NOT EXISTS "signalements_annonceId_idx" ON "signalements"("annonceId");
+CREATE INDEX IF NOT EXISTS "signalements_statut_idx" ON "signalements"("statut");
+CREATE INDEX IF NOT EXISTS "signalements_annonceId_statut_idx" ON "signalements"("annonceId", "statut");
@@ -0,0 +1,19 @@
+-- backend/prisma/migrations/20241208000001_user_roles/migration.sql
+-- RÔLES UTILISATEURS (RBAC)
+
+-- ==============================================
+-- ENUM DES RÔLES
+-- ==============================================
+
+CREATE TYPE "UserRole" AS ENUM ('USER', 'MODERATOR', 'ADMIN', 'SUPPORT');
+
+-- ==============================================
+-- COLONNE ET INDEX
+-- ==============================================
+
+ALTER TABLE "users" ADD COLUMN "role" "UserRole" NOT NULL DEFAULT 'USER';
+
+CREATE INDEX "users_role_idx" ON "users"("role");
+
+-- Le compte administrateur du seed
+UPDATE "users" SET "role" = 'ADMIN' WHERE "email" = 'admin@petites-annonces-ci.com';
@@ -0,0 +1,26 @@
+-- backend/prisma/migrations/20241209000001_paiements_boosts/migration.sql
+-- PAIEMENTS MOBILES DES BOOSTS ET DATES DE FIN DE MISE EN AVANT
+
+-- ==============================================
+-- STATUTS DE PAIEMENT
+-- ==============================================
+
+ALTER TYPE "StatutPaiement" ADD VALUE IF NOT EXISTS 'ECHOUE';
+ALTER TYPE "StatutPaiement" ADD VALUE IF NOT EXISTS 'ANNULE';
+
+-- ==============================================
+-- IDENTIFIANTS EXTERNES DES OPÉRATEURS
+-- ==============================================
+
+ALTER TABLE "paiements" ADD COLUMN IF NOT EXISTS "stripeId" TEXT;
+ALTER TABLE "paiements" ADD COLUMN IF NOT EXISTS "orangeMoneyId" TEXT;
+ALTER TABLE "paiements" ADD COLUMN IF NOT EXISTS "waveId" TEXT;
+ALTER TABLE "paiements" ADD COLUMN "moovMoneyId" TEXT;
+
+-- ==============================================
+-- FIN DES MISES EN AVANT
+-- ==============================================
+
+ALTER TABLE "annonces" ADD COLUMN "datePremiumFin" TIMESTAMP(3);
+ALTER TABLE "annonces" ADD COLUMN "datePromotionFin" TIMESTAMP(3);
+ALTER TABLE "annonces" ADD COLUMN "dateUrgenceFin" TIMESTAMP(3);
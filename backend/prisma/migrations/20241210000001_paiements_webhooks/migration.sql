@@ -0,0 +1,17 @@
+-- backend/prisma/migrations/20241210000001_paiements_webhooks/migration.sql
+-- RECHERCHE DES PAIEMENTS PAR IDENTIFIANT OPÉRATEUR (WEBHOOKS) ET RÉCONCILIATION
+
+-- ==============================================
+-- IDENTIFIANTS EXTERNES
+-- ==============================================
+
+CREATE INDEX "paiements_stripeId_idx" ON "paiements"("stripeId");
+CREATE INDEX "paiements_orangeMoneyId_idx" ON "paiements"("orangeMoneyId");
+CREATE INDEX "paiements_waveId_idx" ON "paiements"("waveId");
+CREATE INDEX "paiements_moovMoneyId_idx" ON "paiements"("moovMoneyId");
+
+-- ==============================================
+-- PAIEMENTS EN ATTENTE LES PLUS ANCIENS
+-- ==============================================
+
+CREATE INDEX "paiements_statut_createdAt_idx" ON "paiements"("statut", "createdAt");
@@ -0,0 +1,42 @@
+-- backend/prisma/migrations/20241211000001_abonnements/migration.sql
+-- ABONNEMENTS PRO : ALIGNEMENT SUR LE SCHÉMA PRISMA
+
+-- ==============================================
+-- TYPES D'ABONNEMENT
+-- ==============================================
+
+ALTER TYPE "TypeAbonnement" RENAME VALUE 'GRATUIT' TO 'BASIC';
+ALTER TYPE "TypeAbonnement" RENAME VALUE 'BUSINESS' TO 'PRO';
+
+-- ==============================================
+-- STATUT (REMPLACE LE BOOLÉEN "actif")
+-- ==============================================
+
+CREATE TYPE "StatutAbonnement" AS ENUM ('ACTIF', 'EXPIRE', 'SUSPENDU', 'ANNULE');
+
+ALTER TABLE "abonnements" ADD COLUMN "statut" "StatutAbonnement" NOT NULL DEFAULT 'ACTIF';
+
+UPDATE "abonnements" SET "statut" = CASE
+  WHEN "dateFin" < CURRENT_TIMESTAMP THEN 'EXPIRE'::"StatutAbonnement"
+  WHEN "actif" THEN 'ACTIF'::"StatutAbonnement"
+  ELSE 'ANNULE'::"StatutAbonnement"
+END;
+
+ALTER TABLE "abonnements" DROP COLUMN "actif";
+
+-- ==============================================
+-- MÉTADONNÉES
+-- ==============================================
+
+ALTER TABLE "abonnements" ADD COLUMN "avantages" JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE "abonnements" ADD COLUMN "metadata" JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE "abonnements" ALTER COLUMN "updatedAt" SET DEFAULT CURRENT_TIMESTAMP;
+
+-- ==============================================
+-- INDEX
+-- ==============================================
+
+CREATE INDEX "abonnements_userId_idx" ON "abonnements"("userId");
+CREATE INDEX "abonnements_statut_idx" ON "abonnements"("statut");
+CREATE INDEX "abonnements_dateFin_idx" ON "abonnements"("dateFin");
+CREATE INDEX "abonnements_userId_statut_dateFin_idx" ON "abonnements"("userId", "statut", "dateFin");
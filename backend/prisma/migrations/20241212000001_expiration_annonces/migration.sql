@@ -0,0 +1,14 @@
+-- backend/prisma/migrations/20241212000001_expiration_annonces/migration.sql
+-- EXPIRATION PLANIFIÉE DES ANNONCES ET RAPPELS AUX PROPRIÉTAIRES
+
+-- ==============================================
+-- SUIVI DES RAPPELS
+-- ==============================================
+
+ALTER TABLE "annonces" ADD COLUMN "dateRappelExpiration" TIMESTAMP(3);
+
+-- ==============================================
+-- INDEX DES TÂCHES PLANIFIÉES
+-- ==============================================
+
+CREATE INDEX "annonces_statut_dateExpiration_idx" ON "annonces"("statut", "dateExpiration");
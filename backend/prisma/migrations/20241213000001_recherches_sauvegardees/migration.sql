@@ -0,0 +1,58 @@
+-- backend/prisma/migrations/20241213000001_recherches_sauvegardees/migration.sql
+-- RECHERCHES SAUVEGARDÉES ET ALERTES NOUVELLES ANNONCES
+
+-- ==============================================
+-- FRÉQUENCE DES ALERTES
+-- ==============================================
+
+CREATE TYPE "FrequenceAlerte" AS ENUM ('INSTANTANEE', 'QUOTIDIENNE', 'HEBDOMADAIRE');
+
+-- ==============================================
+-- RECHERCHES SAUVEGARDÉES
+-- ==============================================
+
+CREATE TABLE "recherches_sauvegardees" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "nom" TEXT NOT NULL,
+    "filtres" JSONB NOT NULL DEFAULT '{}',
+    "frequence" "FrequenceAlerte" NOT NULL DEFAULT 'INSTANTANEE',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "categorie" TEXT,
+    "region" TEXT,
+    "derniereNotification" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recherches_sauvegardees_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "recherches_sauvegardees_userId_idx" ON "recherches_sauvegardees"("userId");
+CREATE INDEX "recherches_sauvegardees_active_categorie_region_idx" ON "recherches_sauvegardees"("active", "categorie", "region");
+CREATE INDEX "recherches_sauvegardees_active_frequence_idx" ON "recherches_sauvegardees"("active", "frequence");
+
+ALTER TABLE "recherches_sauvegardees" ADD CONSTRAINT "recherches_sauvegardees_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ==============================================
+-- ANNONCES CORRESPONDANTES (ENVOI IMMÉDIAT OU DIGEST)
+-- ==============================================
+
+CREATE TABLE "alertes_annonces" (
+    "id" TEXT NOT NULL,
+    "rechercheId" TEXT NOT NULL,
+    "annonceId" TEXT NOT NULL,
+    "envoyeeAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alertes_annonces_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "alertes_annonces_rechercheId_annonceId_key" ON "alertes_annonces"("rechercheId", "annonceId");
+CREATE INDEX "alertes_annonces_rechercheId_envoyeeAt_idx" ON "alertes_annonces"("rechercheId", "envoyeeAt");
+
+ALTER TABLE "alertes_annonces" ADD CONSTRAINT "alertes_annonces_rechercheId_fkey"
+    FOREIGN KEY ("rechercheId") REFERENCES "recherches_sauvegardees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "alertes_annonces" ADD CONSTRAINT "alertes_annonces_annonceId_fkey"
+    FOREIGN KEY ("annonceId") REFERENCES "annonces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
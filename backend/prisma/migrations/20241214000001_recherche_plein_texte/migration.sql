@@ -0,0 +1,34 @@
+-- backend/prisma/migrations/20241214000001_recherche_plein_texte/migration.sql
+-- RECHERCHE PLEIN TEXTE : RACINISATION FRANÇAISE, ACCENTS IGNORÉS, PONDÉRATION
+
+-- ==============================================
+-- CONFIGURATION FRANÇAISE SANS ACCENTS
+-- ==============================================
+
+-- "telephone" doit trouver "téléphone" : unaccent avant la racinisation
+CREATE TEXT SEARCH CONFIGURATION "french_unaccent" (COPY = french);
+
+ALTER TEXT SEARCH CONFIGURATION "french_unaccent"
+    ALTER MAPPING FOR hword, hword_part, word
+    WITH unaccent, french_stem;
+
+-- ==============================================
+-- VECTEUR DE RECHERCHE PONDÉRÉ
+-- ==============================================
+
+-- Poids : titre (A) > mots-clés (B) > description (C)
+ALTER TABLE "annonces" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('french_unaccent'::regconfig, COALESCE("titre", '')), 'A') ||
+        setweight(to_tsvector('french_unaccent'::regconfig, COALESCE("motsCles", '')), 'B') ||
+        setweight(to_tsvector('french_unaccent'::regconfig, COALESCE("description", '')), 'C')
+    ) STORED;
+
+-- ==============================================
+-- INDEX
+-- ==============================================
+
+-- L'index d'expression initial n'est plus utilisé par les requêtes
+DROP INDEX IF EXISTS "annonces_fulltext_idx";
+
+CREATE INDEX "annonces_searchVector_idx" ON "annonces" USING gin("searchVector");
@@ -0,0 +1,13 @@
+-- backend/prisma/migrations/20241215000001_recherche_geographique/migration.sql
+-- RECHERCHE "AUTOUR DE MOI" : RAYON ET TRI PAR DISTANCE
+
+-- ==============================================
+-- INDEX DU PRÉFILTRE RECTANGULAIRE
+-- ==============================================
+
+-- Le rectangle englobant du rayon est filtré sur (latitude, longitude)
+-- avant le calcul haversine
+CREATE INDEX "annonces_latitude_longitude_idx" ON "annonces"("latitude", "longitude");
+
+-- L'index gist initial dépend de l'extension earthdistance, non utilisée
+DROP INDEX IF EXISTS "annonces_location_idx";
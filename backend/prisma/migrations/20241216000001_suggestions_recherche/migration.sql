@@ -0,0 +1,44 @@
+-- backend/prisma/migrations/20241216000001_suggestions_recherche/migration.sql
+-- AUTOCOMPLÉTION ET SUGGESTIONS DE RECHERCHE
+
+-- ==============================================
+-- REQUÊTES POPULAIRES
+-- ==============================================
+
+CREATE TABLE "requetes_recherche" (
+    "id" TEXT NOT NULL,
+    "requete" TEXT NOT NULL,
+    "compteur" INTEGER NOT NULL DEFAULT 1,
+    "dernierTotal" INTEGER NOT NULL DEFAULT 0,
+    "derniereRecherche" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "requetes_recherche_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "requetes_recherche_requete_key" ON "requetes_recherche"("requete");
+CREATE INDEX "requetes_recherche_compteur_idx" ON "requetes_recherche"("compteur");
+
+-- Complétion par préfixe (LIKE 'iph%')
+CREATE INDEX "requetes_recherche_requete_prefixe_idx" ON "requetes_recherche"("requete" text_pattern_ops);
+
+-- ==============================================
+-- MARQUES ET MODÈLES
+-- ==============================================
+
+-- Colonnes renseignées depuis les propriétés à la création des annonces ;
+-- reprise des annonces existantes (propriétés stockées en objet ou en chaîne JSON)
+UPDATE "annonces" a
+SET "marque" = COALESCE(a."marque", p."valeur" ->> 'marque'),
+    "modele" = COALESCE(a."modele", p."valeur" ->> 'modele')
+FROM (
+    SELECT "id",
+        CASE WHEN jsonb_typeof("proprietes") = 'string'
+            THEN ("proprietes" #>> '{}')::jsonb
+            ELSE "proprietes"
+        END AS "valeur"
+    FROM "annonces"
+) p
+WHERE p."id" = a."id"
+    AND (a."marque" IS NULL OR a."modele" IS NULL)
+    AND jsonb_typeof(p."valeur") = 'object';
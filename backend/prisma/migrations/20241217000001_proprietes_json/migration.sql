@@ -0,0 +1,11 @@
+-- backend/prisma/migrations/20241217000001_proprietes_json/migration.sql
+-- PROPRIÉTÉS DES ANNONCES EN OBJET JSON (FACETTES PAR CHAMP SPÉCIFIQUE)
+
+-- ==============================================
+-- CONVERSION DES CHAÎNES JSON
+-- ==============================================
+
+-- Les annonces créées par l'API stockaient JSON.stringify(proprietes)
+UPDATE "annonces"
+SET "proprietes" = ("proprietes" #>> '{}')::jsonb
+WHERE jsonb_typeof("proprietes") = 'string';
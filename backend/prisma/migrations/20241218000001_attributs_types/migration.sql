@@ -0,0 +1,66 @@
+-- backend/prisma/migrations/20241218000001_attributs_types/migration.sql
+-- ATTRIBUTS TYPÉS DES CATÉGORIES (FILTRES SUR LES CHEMINS JSON)
+
+-- ==============================================
+-- NOMBRES SAISIS EN TEXTE
+-- ==============================================
+
+-- Les filtres min/max comparent des nombres JSON : "2015" devient 2015
+UPDATE "annonces" a
+SET "proprietes" = a."proprietes" || (
+  SELECT jsonb_object_agg(champ, replace(regexp_replace(a."proprietes" ->> champ, '\s', '', 'g'), ',', '.')::numeric)
+  FROM unnest(ARRAY[
+    'superficie', 'nombreChambres', 'nombreSallesBain', 'annee', 'kilometrage',
+    'tarif', 'experience', 'salaire', 'age'
+  ]) AS champ
+  WHERE jsonb_typeof(a."proprietes" -> champ) = 'string'
+    AND regexp_replace(a."proprietes" ->> champ, '\s', '', 'g') ~ '^[0-9]+([.,][0-9]+)?$'
+)
+WHERE jsonb_typeof(a."proprietes") = 'object'
+  AND EXISTS (
+    SELECT 1
+    FROM unnest(ARRAY[
+      'superficie', 'nombreChambres', 'nombreSallesBain', 'annee', 'kilometrage',
+      'tarif', 'experience', 'salaire', 'age'
+    ]) AS champ
+    WHERE jsonb_typeof(a."proprietes" -> champ) = 'string'
+      AND regexp_replace(a."proprietes" ->> champ, '\s', '', 'g') ~ '^[0-9]+([.,][0-9]+)?$'
+  );
+
+-- ==============================================
+-- BOOLÉENS SAISIS EN TEXTE
+-- ==============================================
+
+UPDATE "annonces" a
+SET "proprietes" = a."proprietes" || (
+  SELECT jsonb_object_agg(champ, lower(trim(a."proprietes" ->> champ)) IN ('true', 'oui', '1'))
+  FROM unnest(ARRAY['parking', 'jardin', 'garantie']) AS champ
+  WHERE lower(trim(a."proprietes" ->> champ)) IN ('true', 'oui', '1', 'false', 'non', '0')
+    AND jsonb_typeof(a."proprietes" -> champ) <> 'boolean'
+)
+WHERE jsonb_typeof(a."proprietes") = 'object'
+  AND EXISTS (
+    SELECT 1
+    FROM unnest(ARRAY['parking', 'jardin', 'garantie']) AS champ
+    WHERE lower(trim(a."proprietes" ->> champ)) IN ('true', 'oui', '1', 'false', 'non', '0')
+      AND jsonb_typeof(a."proprietes" -> champ) <> 'boolean'
+  );
+
+-- ==============================================
+-- VALEURS D'ÉNUMÉRATION EN MINUSCULES
+-- ==============================================
+
+UPDATE "annonces" a
+SET "proprietes" = a."proprietes" || (
+  SELECT jsonb_object_agg(champ, lower(trim(a."proprietes" ->> champ)))
+  FROM unnest(ARRAY['carburant', 'transmission', 'diplome', 'niveau']) AS champ
+  WHERE jsonb_typeof(a."proprietes" -> champ) = 'string'
+    AND a."proprietes" ->> champ <> lower(trim(a."proprietes" ->> champ))
+)
+WHERE jsonb_typeof(a."proprietes") = 'object'
+  AND EXISTS (
+    SELECT 1
+    FROM unnest(ARRAY['carburant', 'transmission', 'diplome', 'niveau']) AS champ
+    WHERE jsonb_typeof(a."proprietes" -> champ) = 'string'
+      AND a."proprietes" ->> champ <> lower(trim(a."proprietes" ->> champ))
+  );
@@ -0,0 +1,11 @@
+-- backend/prisma/migrations/20241219000001_arbre_categories/migration.sql
+-- ARBRE DES CATÉGORIES ADMINISTRABLE
+
+-- ==============================================
+-- NOMS UNIQUES PAR NIVEAU
+-- ==============================================
+
+-- "Électroménager" existe sous Électronique et sous Maison & Jardin
+DROP INDEX IF EXISTS "categories_nom_key";
+
+CREATE UNIQUE INDEX "categories_parentId_nom_key" ON "categories"("parentId", "nom");
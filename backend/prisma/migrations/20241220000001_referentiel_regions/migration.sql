@@ -0,0 +1,17 @@
+-- backend/prisma/migrations/20241220000001_referentiel_regions/migration.sql
+-- RÉFÉRENTIEL DES RÉGIONS EN BASE
+
+-- ==============================================
+-- SLUG DES RÉGIONS
+-- ==============================================
+
+-- Clé stockée dans annonces.region ("San-Pédro" -> "san-pedro"), figée
+-- même si la région est renommée
+ALTER TABLE "regions_ci" ADD COLUMN "slug" TEXT;
+
+UPDATE "regions_ci"
+SET "slug" = trim(both '-' from regexp_replace(lower(unaccent("nom")), '[^a-z0-9]+', '-', 'g'));
+
+ALTER TABLE "regions_ci" ALTER COLUMN "slug" SET NOT NULL;
+
+CREATE UNIQUE INDEX "regions_ci_slug_key" ON "regions_ci"("slug");
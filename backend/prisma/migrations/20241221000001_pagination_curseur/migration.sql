@@ -0,0 +1,17 @@
+-- backend/prisma/migrations/20241221000001_pagination_curseur/migration.sql
+-- PAGINATION PAR CURSEUR (KEYSET)
+
+-- ==============================================
+-- INDEX CLÉ DE TRI + ID
+-- ==============================================
+
+-- "Après le curseur" : (clé < x) OU (clé = x ET id < y), parcours d'index
+-- dans un sens ou dans l'autre selon le tri
+CREATE INDEX "annonces_datePublication_id_idx" ON "annonces"("datePublication", "id");
+
+CREATE INDEX "annonces_prix_id_idx" ON "annonces"("prix", "id");
+
+-- Mes annonces et favoris : derniers ajoutés d'abord
+CREATE INDEX "annonces_userId_createdAt_id_idx" ON "annonces"("userId", "createdAt", "id");
+
+CREATE INDEX "favoris_userId_createdAt_id_idx" ON "favoris"("userId", "createdAt", "id");
@@ -0,0 +1,10 @@
+-- backend/prisma/migrations/20241222000001_suivi_vues/migration.sql
+-- COMPTAGE DES VUES PAR LOTS
+
+-- ==============================================
+-- INDEX VUES RÉCENTES PAR ANNONCE
+-- ==============================================
+
+-- Dédoublonnage entre instances et rattachement de la durée de visite :
+-- vues d'une annonce depuis le début de la fenêtre
+CREATE INDEX "vues_annonces_annonceId_createdAt_idx" ON "vues_annonces"("annonceId", "createdAt");
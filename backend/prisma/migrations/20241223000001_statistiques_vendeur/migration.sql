@@ -0,0 +1,31 @@
+-- backend/prisma/migrations/20241223000001_statistiques_vendeur/migration.sql
+-- STATISTIQUES VENDEUR : SÉRIES TEMPORELLES PAR ANNONCE
+
+-- ==============================================
+-- COMPTEURS QUOTIDIENS (AFFICHAGES EN RECHERCHE, CLICS CONTACT)
+-- ==============================================
+
+CREATE TABLE "statistiques_annonces_jour" (
+    "annonceId" TEXT NOT NULL,
+    "jour" DATE NOT NULL,
+    "affichages" INTEGER NOT NULL DEFAULT 0,
+    "sommePositions" INTEGER NOT NULL DEFAULT 0,
+    "clicsTelephone" INTEGER NOT NULL DEFAULT 0,
+    "clicsWhatsapp" INTEGER NOT NULL DEFAULT 0,
+    "clicsEmail" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "statistiques_annonces_jour_pkey" PRIMARY KEY ("annonceId", "jour")
+);
+
+CREATE INDEX "statistiques_annonces_jour_jour_idx" ON "statistiques_annonces_jour"("jour");
+
+ALTER TABLE "statistiques_annonces_jour" ADD CONSTRAINT "statistiques_annonces_jour_annonceId_fkey"
+    FOREIGN KEY ("annonceId") REFERENCES "annonces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ==============================================
+-- SÉRIES PAR ANNONCE SUR UNE PÉRIODE
+-- ==============================================
+
+CREATE INDEX "favoris_annonceId_createdAt_idx" ON "favoris"("annonceId", "createdAt");
+
+CREATE INDEX "messages_annonceId_dateEnvoi_idx" ON "messages"("annonceId", "dateEnvoi");
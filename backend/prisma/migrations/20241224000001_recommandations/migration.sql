@@ -0,0 +1,10 @@
+-- backend/prisma/migrations/20241224000001_recommandations/migration.sql
+-- RECOMMANDATIONS PERSONNALISÉES : HISTORIQUE D'UN UTILISATEUR
+
+-- ==============================================
+-- VUES ET MESSAGES ENVOYÉS RÉCENTS D'UN UTILISATEUR
+-- ==============================================
+
+CREATE INDEX "vues_annonces_userId_createdAt_idx" ON "vues_annonces"("userId", "createdAt");
+
+CREATE INDEX "messages_senderId_dateEnvoi_idx" ON "messages"("senderId", "dateEnvoi");
@@ -0,0 +1,38 @@
+-- backend/prisma/migrations/20241225000001_tendances/migration.sql
+-- FIL TENDANCES : ENGAGEMENT RÉCENT DES ANNONCES
+
+-- ==============================================
+-- ENGAGEMENT PAR ANNONCE, RECALCULÉ PÉRIODIQUEMENT
+-- ==============================================
+
+CREATE TABLE "tendances_annonces" (
+    "annonceId" TEXT NOT NULL,
+    "categorie" TEXT NOT NULL,
+    "region" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "vues24h" INTEGER NOT NULL DEFAULT 0,
+    "vues7j" INTEGER NOT NULL DEFAULT 0,
+    "favoris24h" INTEGER NOT NULL DEFAULT 0,
+    "favoris7j" INTEGER NOT NULL DEFAULT 0,
+    "messages24h" INTEGER NOT NULL DEFAULT 0,
+    "messages7j" INTEGER NOT NULL DEFAULT 0,
+    "calculeAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tendances_annonces_pkey" PRIMARY KEY ("annonceId")
+);
+
+CREATE INDEX "tendances_annonces_score_idx" ON "tendances_annonces"("score");
+CREATE INDEX "tendances_annonces_region_score_idx" ON "tendances_annonces"("region", "score");
+CREATE INDEX "tendances_annonces_categorie_score_idx" ON "tendances_annonces"("categorie", "score");
+CREATE INDEX "tendances_annonces_region_categorie_score_idx" ON "tendances_annonces"("region", "categorie", "score");
+
+ALTER TABLE "tendances_annonces" ADD CONSTRAINT "tendances_annonces_annonceId_fkey"
+    FOREIGN KEY ("annonceId") REFERENCES "annonces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ==============================================
+-- SCORE D'ENGAGEMENT SUR L'ANNONCE (TRI PAR PERTINENCE)
+-- ==============================================
+
+ALTER TABLE "annonces" ADD COLUMN "scoreEngagement" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+CREATE INDEX "annonces_scoreEngagement_idx" ON "annonces"("scoreEngagement");
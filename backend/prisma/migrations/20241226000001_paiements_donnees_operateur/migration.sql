@@ -0,0 +1,14 @@
+-- backend/prisma/migrations/20241226000001_paiements_donnees_operateur/migration.sql
+-- DONNÉES OPÉRATEUR DES PAIEMENTS, HORS DES MÉTADONNÉES VISIBLES PAR LE PAYEUR
+
+ALTER TABLE "paiements" ADD COLUMN "donneesOperateur" JSONB NOT NULL DEFAULT '{}';
+
+-- Reprise des paiements existants : jeton de notification et webhooks reçus
+UPDATE "paiements"
+SET "donneesOperateur" = (
+        SELECT jsonb_object_agg(key, value)
+        FROM jsonb_each("metadata")
+        WHERE key IN ('operateur', 'webhookEvents', 'webhooks')
+    ),
+    "metadata" = "metadata" - 'operateur' - 'webhookEvents' - 'webhooks'
+WHERE "metadata" ?| ARRAY['operateur', 'webhookEvents', 'webhooks'];
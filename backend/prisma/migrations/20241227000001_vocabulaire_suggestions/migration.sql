@@ -0,0 +1,22 @@
+-- backend/prisma/migrations/20241227000001_vocabulaire_suggestions/migration.sql
+-- VOCABULAIRE DES ANNONCES ACTIVES POUR LA CORRECTION ORTHOGRAPHIQUE ("VOULIEZ-VOUS DIRE…")
+
+-- Mots des titres et mots-clés (sans accents), comptés une fois par annonce.
+-- Rafraîchi périodiquement par la tâche vocabulaire-suggestions
+CREATE MATERIALIZED VIEW "vocabulaire_annonces" AS
+SELECT mots."mot", COUNT(DISTINCT mots."annonceId")::int AS "frequence"
+FROM (
+    SELECT a."id" AS "annonceId",
+        unaccent(regexp_split_to_table(lower(a."titre" || ' ' || COALESCE(a."motsCles", '')), '[^[:alnum:]]+')) AS "mot"
+    FROM "annonces" a
+    WHERE a."statut" = 'ACTIVE'
+        AND a."dateExpiration" > NOW()
+) mots
+WHERE length(mots."mot") >= 3
+GROUP BY mots."mot";
+
+-- Requise par REFRESH MATERIALIZED VIEW CONCURRENTLY
+CREATE UNIQUE INDEX "vocabulaire_annonces_mot_key" ON "vocabulaire_annonces"("mot");
+
+-- Mot le plus proche (opérateur % et similarity de pg_trgm)
+CREATE INDEX "vocabulaire_annonces_mot_trgm_idx" ON "vocabulaire_annonces" USING GIN ("mot" gin_trgm_ops);
@@ -0,0 +1,27 @@
+-- backend/prisma/migrations/20241228000001_contacts_reveles/migration.sql
+-- COORDONNÉES RÉVÉLÉES : LIEN ACHETEUR / ANNONCE POUR LES AVIS
+
+-- ==============================================
+-- TABLE CONTACTS RÉVÉLÉS
+-- ==============================================
+
+CREATE TABLE "contacts_reveles" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "annonceId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contacts_reveles_pkey" PRIMARY KEY ("id")
+);
+
+-- ==============================================
+-- INDEX ET CLÉS ÉTRANGÈRES
+-- ==============================================
+
+CREATE UNIQUE INDEX "contacts_reveles_userId_annonceId_key" ON "contacts_reveles"("userId", "annonceId");
+CREATE INDEX "contacts_reveles_annonceId_idx" ON "contacts_reveles"("annonceId");
+
+ALTER TABLE "contacts_reveles" ADD CONSTRAINT "contacts_reveles_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "contacts_reveles" ADD CONSTRAINT "contacts_reveles_annonceId_fkey"
+    FOREIGN KEY ("annonceId") REFERENCES "annonces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
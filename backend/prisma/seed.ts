@@ -4,6 +4,9 @@
 
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import slugify from 'slugify';
+import { ATTRIBUTS_CATEGORIES, CATEGORIES_CI } from '../../shared/src/types';
+import type { CategorieCode } from '../../shared/src/types';
 
 const prisma = new PrismaClient();
 
@@ -11,14 +14,108 @@ const prisma = new PrismaClient();
 // DONNÉES RÉGIONS CÔTE D'IVOIRE COMPLÈTES
 // ==============================================
 
+// Communes avec leurs coordonnées et les quartiers les plus recherchés
+// (gazetteer chargé dans RegionCI.coordonnees et RegionCI.quartiers). Données
+// initiales seulement : la table s'administre ensuite via /api/regions
 const REGIONS_COTE_IVOIRE = [
   {
     nom: 'Abidjan',
     code: 'AB',
     communes: [
-      'Abobo', 'Adjamé', 'Attécoubé', 'Cocody', 'Koumassi', 
-      'Marcory', 'Plateau', 'Port-Bouët', 'Treichville', 'Yopougon',
-      'Bingerville', 'Songon'
+      {
+        nom: 'Abobo', lat: 5.416667, lng: -4.016667,
+        quartiers: [
+          { nom: 'Abobo Gare', lat: 5.420000, lng: -4.020000 },
+          { nom: 'PK 18', lat: 5.450000, lng: -4.030000 },
+          { nom: 'Avocatier', lat: 5.430000, lng: -4.040000 },
+          { nom: 'Anador', lat: 5.410000, lng: -4.025000 },
+          { nom: 'Samaké', lat: 5.435000, lng: -4.015000 }
+        ]
+      },
+      {
+        nom: 'Adjamé', lat: 5.366667, lng: -4.016667,
+        quartiers: [
+          { nom: 'Williamsville', lat: 5.370000, lng: -4.025000 },
+          { nom: '220 Logements', lat: 5.360000, lng: -4.015000 },
+          { nom: 'Liberté', lat: 5.362000, lng: -4.020000 }
+        ]
+      },
+      {
+        nom: 'Attécoubé', lat: 5.340000, lng: -4.050000,
+        quartiers: [
+          { nom: 'Locodjro', lat: 5.335000, lng: -4.060000 },
+          { nom: 'Santé', lat: 5.345000, lng: -4.040000 }
+        ]
+      },
+      {
+        nom: 'Cocody', lat: 5.354000, lng: -3.987000,
+        quartiers: [
+          { nom: 'Riviera', lat: 5.360000, lng: -3.960000 },
+          { nom: 'Riviera Palmeraie', lat: 5.375000, lng: -3.945000 },
+          { nom: 'Angré', lat: 5.395000, lng: -3.987000 },
+          { nom: 'Deux Plateaux', lat: 5.370000, lng: -4.000000 },
+          { nom: 'Blockhauss', lat: 5.330000, lng: -3.998000 },
+          { nom: 'Danga', lat: 5.335000, lng: -4.005000 },
+          { nom: 'Attoban', lat: 5.378000, lng: -3.970000 },
+          { nom: 'M\'Pouto', lat: 5.330000, lng: -3.920000 }
+        ]
+      },
+      {
+        nom: 'Koumassi', lat: 5.290000, lng: -3.950000,
+        quartiers: [
+          { nom: 'Remblais', lat: 5.295000, lng: -3.960000 },
+          { nom: 'Grand Campement', lat: 5.285000, lng: -3.950000 },
+          { nom: 'Sicogi', lat: 5.290000, lng: -3.945000 }
+        ]
+      },
+      {
+        nom: 'Marcory', lat: 5.300000, lng: -3.983000,
+        quartiers: [
+          { nom: 'Zone 4', lat: 5.292000, lng: -3.978000 },
+          { nom: 'Biétry', lat: 5.280000, lng: -3.972000 },
+          { nom: 'Anoumabo', lat: 5.295000, lng: -3.995000 },
+          { nom: 'Résidentiel', lat: 5.302000, lng: -3.985000 }
+        ]
+      },
+      {
+        nom: 'Plateau', lat: 5.323000, lng: -4.020000,
+        quartiers: [
+          { nom: 'Centre-ville', lat: 5.323000, lng: -4.020000 },
+          { nom: 'Cité Administrative', lat: 5.327000, lng: -4.017000 }
+        ]
+      },
+      {
+        nom: 'Port-Bouët', lat: 5.256000, lng: -3.926000,
+        quartiers: [
+          { nom: 'Vridi', lat: 5.258000, lng: -4.000000 },
+          { nom: 'Gonzagueville', lat: 5.240000, lng: -3.890000 },
+          { nom: 'Adjouffou', lat: 5.248000, lng: -3.920000 },
+          { nom: 'Aéroport', lat: 5.255000, lng: -3.930000 }
+        ]
+      },
+      {
+        nom: 'Treichville', lat: 5.292000, lng: -4.013000,
+        quartiers: [
+          { nom: 'Arras', lat: 5.295000, lng: -4.010000 },
+          { nom: 'Biafra', lat: 5.288000, lng: -4.008000 },
+          { nom: 'Gare de Bassam', lat: 5.298000, lng: -4.004000 }
+        ]
+      },
+      {
+        nom: 'Yopougon', lat: 5.345000, lng: -4.090000,
+        quartiers: [
+          { nom: 'Niangon', lat: 5.330000, lng: -4.110000 },
+          { nom: 'Sicogi', lat: 5.335000, lng: -4.080000 },
+          { nom: 'Selmer', lat: 5.350000, lng: -4.075000 },
+          { nom: 'Toits Rouges', lat: 5.342000, lng: -4.082000 },
+          { nom: 'Andokoi', lat: 5.370000, lng: -4.070000 },
+          { nom: 'Ananeraie', lat: 5.355000, lng: -4.095000 },
+          { nom: 'Gesco', lat: 5.352000, lng: -4.130000 }
+        ]
+      },
+      { nom: 'Bingerville', lat: 5.355000, lng: -3.885000, quartiers: [] },
+      { nom: 'Songon', lat: 5.313000, lng: -4.264000, quartiers: [] },
+      { nom: 'Anyama', lat: 5.495000, lng: -4.052000, quartiers: [] }
     ],
     coordonnees: { lat: 5.345317, lng: -4.024429 },
     population: 6321017,
@@ -27,7 +124,24 @@ const REGIONS_COTE_IVOIRE = [
   {
     nom: 'Bouaké',
     code: 'BK',
-    communes: ['Bouaké', 'Béoumi', 'Bodokro', 'Botro', 'Kondé', 'Sakassou'],
+    communes: [
+      {
+        nom: 'Bouaké', lat: 7.693900, lng: -5.030300,
+        quartiers: [
+          { nom: 'Commerce', lat: 7.690000, lng: -5.030000 },
+          { nom: 'Koko', lat: 7.698000, lng: -5.038000 },
+          { nom: 'Air France', lat: 7.675000, lng: -5.025000 },
+          { nom: 'Dar-es-Salam', lat: 7.715000, lng: -5.020000 },
+          { nom: 'Belleville', lat: 7.685000, lng: -5.015000 },
+          { nom: 'Ahougnansou', lat: 7.670000, lng: -5.040000 }
+        ]
+      },
+      { nom: 'Béoumi', lat: 7.674000, lng: -5.580000, quartiers: [] },
+      { nom: 'Bodokro', lat: 7.900000, lng: -5.100000, quartiers: [] },
+      { nom: 'Botro', lat: 7.850000, lng: -5.310000, quartiers: [] },
+      { nom: 'Kondé', lat: 7.550000, lng: -5.200000, quartiers: [] },
+      { nom: 'Sakassou', lat: 7.455000, lng: -5.292000, quartiers: [] }
+    ],
     coordonnees: { lat: 7.694444, lng: -5.030556 },
     population: 1573000,
     superficie: 7956
@@ -35,7 +149,20 @@ const REGIONS_COTE_IVOIRE = [
   {
     nom: 'Yamoussoukro',
     code: 'YS',
-    communes: ['Yamoussoukro', 'Attiégouakro', 'Tiébissou'],
+    communes: [
+      {
+        nom: 'Yamoussoukro', lat: 6.820600, lng: -5.276700,
+        quartiers: [
+          { nom: 'Habitat', lat: 6.820000, lng: -5.280000 },
+          { nom: 'Dioulabougou', lat: 6.830000, lng: -5.270000 },
+          { nom: 'Millionnaire', lat: 6.810000, lng: -5.265000 },
+          { nom: 'Morofé', lat: 6.835000, lng: -5.290000 }
+        ]
+      },
+      { nom: 'Attiégouakro', lat: 6.780000, lng: -5.120000, quartiers: [] },
+      { nom: 'Tiébissou', lat: 7.158000, lng: -5.225000, quartiers: [] },
+      { nom: 'Toumodi', lat: 6.557000, lng: -5.019000, quartiers: [] }
+    ],
     coordonnees: { lat: 6.816667, lng: -5.283333 },
     population: 355573,
     superficie: 3500
@@ -43,7 +170,24 @@ const REGIONS_COTE_IVOIRE = [
   {
     nom: 'Korhogo',
     code: 'KH',
-    communes: ['Korhogo', 'Dikodougou', 'Guiembé', 'Kanoroba', 'Komborodougou', 'Napiélédougou', 'Sinématiali'],
+    communes: [
+      {
+        nom: 'Korhogo', lat: 9.458000, lng: -5.629600,
+        quartiers: [
+          { nom: 'Soba', lat: 9.460000, lng: -5.620000 },
+          { nom: 'Petit Paris', lat: 9.450000, lng: -5.635000 },
+          { nom: 'Koko', lat: 9.465000, lng: -5.640000 }
+        ]
+      },
+      { nom: 'Dikodougou', lat: 9.067000, lng: -5.770000, quartiers: [] },
+      { nom: 'Guiembé', lat: 9.100000, lng: -5.980000, quartiers: [] },
+      { nom: 'Kanoroba', lat: 9.100000, lng: -6.120000, quartiers: [] },
+      { nom: 'Komborodougou', lat: 9.245000, lng: -5.590000, quartiers: [] },
+      { nom: 'Napiélédougou', lat: 9.270000, lng: -5.630000, quartiers: [] },
+      { nom: 'Sinématiali', lat: 9.583000, lng: -5.383000, quartiers: [] },
+      { nom: 'Boundiali', lat: 9.521700, lng: -6.486900, quartiers: [] },
+      { nom: 'Ferkessédougou', lat: 9.592800, lng: -5.194400, quartiers: [] }
+    ],
     coordonnees: { lat: 9.458056, lng: -5.629167 },
     population: 1040000,
     superficie: 12500
@@ -51,7 +195,21 @@ const REGIONS_COTE_IVOIRE = [
   {
     nom: 'San-Pédro',
     code: 'SP',
-    communes: ['San-Pédro', 'Sassandra', 'Soubré', 'Grand-Béréby'],
+    communes: [
+      {
+        nom: 'San-Pédro', lat: 4.748500, lng: -6.636300,
+        quartiers: [
+          { nom: 'Bardot', lat: 4.760000, lng: -6.645000 },
+          { nom: 'Cité', lat: 4.745000, lng: -6.630000 },
+          { nom: 'Lac', lat: 4.755000, lng: -6.625000 },
+          { nom: 'Séwéké', lat: 4.765000, lng: -6.650000 }
+        ]
+      },
+      { nom: 'Sassandra', lat: 4.950000, lng: -6.083300, quartiers: [] },
+      { nom: 'Soubré', lat: 5.785600, lng: -6.608300, quartiers: [] },
+      { nom: 'Grand-Béréby', lat: 4.650000, lng: -6.920000, quartiers: [] },
+      { nom: 'Tabou', lat: 4.423000, lng: -7.353000, quartiers: [] }
+    ],
     coordonnees: { lat: 4.748611, lng: -6.636111 },
     population: 1133000,
     superficie: 25600
@@ -59,7 +217,20 @@ const REGIONS_COTE_IVOIRE = [
   {
     nom: 'Daloa',
     code: 'DL',
-    communes: ['Daloa', 'Issia', 'Vavoua', 'Zoukougbeu'],
+    communes: [
+      {
+        nom: 'Daloa', lat: 6.877400, lng: -6.450200,
+        quartiers: [
+          { nom: 'Lobia', lat: 6.885000, lng: -6.445000 },
+          { nom: 'Tazibouo', lat: 6.870000, lng: -6.430000 },
+          { nom: 'Orly', lat: 6.865000, lng: -6.460000 }
+        ]
+      },
+      { nom: 'Issia', lat: 6.492200, lng: -6.585600, quartiers: [] },
+      { nom: 'Vavoua', lat: 7.381900, lng: -6.477800, quartiers: [] },
+      { nom: 'Zoukougbeu', lat: 6.760000, lng: -6.860000, quartiers: [] },
+      { nom: 'Zuénoula', lat: 7.430000, lng: -6.050000, quartiers: [] }
+    ],
     coordonnees: { lat: 6.877500, lng: -6.450000 },
     population: 1430000,
     superficie: 15200
@@ -67,7 +238,22 @@ const REGIONS_COTE_IVOIRE = [
   {
     nom: 'Man',
     code: 'MN',
-    communes: ['Man', 'Bangolo', 'Biankouma', 'Danané', 'Logoualé', 'Sipilou', 'Zouan-Hounien'],
+    communes: [
+      {
+        nom: 'Man', lat: 7.412500, lng: -7.553800,
+        quartiers: [
+          { nom: 'Libreville', lat: 7.405000, lng: -7.550000 },
+          { nom: 'Domoraud', lat: 7.420000, lng: -7.560000 },
+          { nom: 'Grand Gbapleu', lat: 7.398000, lng: -7.565000 }
+        ]
+      },
+      { nom: 'Bangolo', lat: 7.012000, lng: -7.486000, quartiers: [] },
+      { nom: 'Biankouma', lat: 7.739000, lng: -7.614000, quartiers: [] },
+      { nom: 'Danané', lat: 7.259600, lng: -8.155000, quartiers: [] },
+      { nom: 'Logoualé', lat: 7.180000, lng: -7.570000, quartiers: [] },
+      { nom: 'Sipilou', lat: 7.870000, lng: -8.100000, quartiers: [] },
+      { nom: 'Zouan-Hounien', lat: 6.920000, lng: -8.210000, quartiers: [] }
+    ],
     coordonnees: { lat: 7.412500, lng: -7.554167 },
     population: 1200000,
     superficie: 16600
@@ -75,7 +261,13 @@ const REGIONS_COTE_IVOIRE = [
   {
     nom: 'Divo',
     code: 'DV',
-    communes: ['Divo', 'Fresco', 'Guitry', 'Lakota', 'Lauzoua'],
+    communes: [
+      { nom: 'Divo', lat: 5.837200, lng: -5.357200, quartiers: [] },
+      { nom: 'Fresco', lat: 5.083000, lng: -5.570000, quartiers: [] },
+      { nom: 'Guitry', lat: 5.520000, lng: -5.240000, quartiers: [] },
+      { nom: 'Lakota', lat: 5.850000, lng: -5.680000, quartiers: [] },
+      { nom: 'Lauzoua', lat: 5.250000, lng: -5.400000, quartiers: [] }
+    ],
     coordonnees: { lat: 5.839722, lng: -5.357500 },
     population: 961100,
     superficie: 15688
@@ -86,119 +278,18 @@ const REGIONS_COTE_IVOIRE = [
 // CATÉGORIES D'ANNONCES CÔTE D'IVOIRE
 // ==============================================
 
-const CATEGORIES_BASE = [
-  {
-    nom: 'Véhicules',
-    slug: 'vehicules',
-    description: 'Voitures, motos, camions, pièces détachées',
-    icone: '🚗',
-    couleur: '#3B82F6',
-    sousCategories: [
-      { nom: 'Voitures', slug: 'voitures', icone: '🚙' },
-      { nom: 'Motos', slug: 'motos', icone: '🏍️' },
-      { nom: 'Camions & Utilitaires', slug: 'camions', icone: '🚚' },
-      { nom: 'Pièces & Accessoires', slug: 'pieces-auto', icone: '🔧' },
-      { nom: 'Bateaux', slug: 'bateaux', icone: '⛵' }
-    ]
-  },
-  {
-    nom: 'Immobilier',
-    slug: 'immobilier',
-    description: 'Ventes, locations, terrains',
-    icone: '🏠',
-    couleur: '#10B981',
-    sousCategories: [
-      { nom: 'Ventes Immobilières', slug: 'vente-immobilier', icone: '🏡' },
-      { nom: 'Locations', slug: 'location', icone: '🏠' },
-      { nom: 'Colocations', slug: 'colocation', icone: '🤝' },
-      { nom: 'Terrains', slug: 'terrains', icone: '🌍' },
-      { nom: 'Bureaux & Commerces', slug: 'bureaux', icone: '🏢' }
-    ]
-  },
-  {
-    nom: 'Emplois & Services',
-    slug: 'emplois-services',
-    description: 'Offres d\'emploi, services professionnels',
-    icone: '💼',
-    couleur: '#8B5CF6',
-    sousCategories: [
-      { nom: 'Offres d\'Emploi', slug: 'emploi', icone: '👔' },
-      { nom: 'Services à Domicile', slug: 'services-domicile', icone: '🏠' },
-      { nom: 'Cours Particuliers', slug: 'cours', icone: '📚' },
-      { nom: 'Événementiel', slug: 'evenementiel', icone: '🎉' },
-      { nom: 'Beauté & Bien-être', slug: 'beaute', icone: '💄' }
-    ]
-  },
-  {
-    nom: 'Électronique',
-    slug: 'electronique',
-    description: 'Téléphones, informatique, électroménager',
-    icone: '📱',
-    couleur: '#F59E0B',
-    sousCategories: [
-      { nom: 'Téléphones', slug: 'telephones', icone: '📱' },
-      { nom: 'Informatique', slug: 'informatique', icone: '💻' },
-      { nom: 'TV & Audio', slug: 'tv-audio', icone: '📺' },
-      { nom: 'Électroménager', slug: 'electromenager', icone: '🏠' },
-      { nom: 'Gaming', slug: 'gaming', icone: '🎮' }
-    ]
-  },
-  {
-    nom: 'Mode & Beauté',
-    slug: 'mode-beaute',
-    description: 'Vêtements, chaussures, accessoires',
-    icone: '👗',
-    couleur: '#EC4899',
-    sousCategories: [
-      { nom: 'Vêtements Femmes', slug: 'vetements-femmes', icone: '👗' },
-      { nom: 'Vêtements Hommes', slug: 'vetements-hommes', icone: '👔' },
-      { nom: 'Chaussures', slug: 'chaussures', icone: '👠' },
-      { nom: 'Sacs & Accessoires', slug: 'sacs-accessoires', icone: '👜' },
-      { nom: 'Bijoux & Montres', slug: 'bijoux', icone: '💍' }
-    ]
-  },
-  {
-    nom: 'Maison & Jardin',
-    slug: 'maison-jardin',
-    description: 'Meubles, décoration, jardinage',
-    icone: '🪴',
-    couleur: '#059669',
-    sousCategories: [
-      { nom: 'Meubles', slug: 'meubles', icone: '🪑' },
-      { nom: 'Décoration', slug: 'decoration', icone: '🖼️' },
-      { nom: 'Jardinage', slug: 'jardinage', icone: '🌱' },
-      { nom: 'Bricolage', slug: 'bricolage', icone: '🔨' },
-      { nom: 'Piscine & Spa', slug: 'piscine', icone: '🏊' }
-    ]
-  },
-  {
-    nom: 'Loisirs & Divertissement',
-    slug: 'loisirs',
-    description: 'Sports, livres, musique, voyages',
-    icone: '🎯',
-    couleur: '#DC2626',
-    sousCategories: [
-      { nom: 'Sports & Fitness', slug: 'sport', icone: '⚽' },
-      { nom: 'Livres & BD', slug: 'livres', icone: '📚' },
-      { nom: 'Musique & Cinéma', slug: 'musique', icone: '🎵' },
-      { nom: 'Voyages', slug: 'voyages', icone: '✈️' },
-      { nom: 'Collection', slug: 'collection', icone: '🏆' }
-    ]
-  },
-  {
-    nom: 'Agriculture & Élevage',
-    slug: 'agriculture',
-    description: 'Matériel agricole, animaux, productions locales',
-    icone: '🌾',
-    couleur: '#65A30D',
-    sousCategories: [
-      { nom: 'Matériel Agricole', slug: 'materiel-agricole', icone: '🚜' },
-      { nom: 'Animaux', slug: 'animaux', icone: '🐄' },
-      { nom: 'Semences & Plants', slug: 'semences', icone: '🌱' },
-      { nom: 'Produits Fermiers', slug: 'produits-fermiers', icone: '🥬' }
-    ]
-  }
-];
+// L'arbre est construit depuis le référentiel partagé CATEGORIES_CI (et ses
+// attributs typés) ; il s'administre ensuite en base via /api/categories
+const PRESENTATION_CATEGORIES: Record<CategorieCode, { description: string; couleur: string }> = {
+  'immobilier': { description: 'Ventes, locations, terrains', couleur: '#10B981' },
+  'vehicules': { description: 'Voitures, motos, camions, pièces détachées', couleur: '#3B82F6' },
+  'electronique': { description: 'Téléphones, informatique, électroménager', couleur: '#F59E0B' },
+  'mode-beaute': { description: 'Vêtements, chaussures, accessoires', couleur: '#EC4899' },
+  'services': { description: 'Services à domicile, cours, événementiel', couleur: '#8B5CF6' },
+  'emploi': { description: 'Offres d\'emploi et stages', couleur: '#6366F1' },
+  'maison-jardin': { description: 'Meubles, décoration, jardinage', couleur: '#059669' },
+  'loisirs': { description: 'Sports, livres, musique, collection', couleur: '#DC2626' }
+};
 
 // ==============================================
 // UTILISATEURS DE DÉMONSTRATION
@@ -215,6 +306,7 @@ const USERS_DEMO = [
     region: 'Abidjan',
     commune: 'Plateau',
     status: 'ACTIVE',
+    role: 'ADMIN',
     emailVerified: true,
     phoneVerified: true
   },
@@ -257,9 +349,9 @@ const ANNONCES_DEMO = [
     description: 'Toyota Corolla 2018 en excellent état, climatisée, vitres électriques, radio MP3. Entretien régulier chez Toyota CI. Papiers à jour. Visible à Cocody.',
     prix: 12500000,
     categorie: 'vehicules',
-    sousCategorie: 'voitures',
+    sousCategorie: 'Voitures',
     etat: 'TRES_BON_ETAT',
-    region: 'Abidjan',
+    region: 'abidjan',
     commune: 'Cocody',
     quartier: 'Riviera',
     telephone: '+22507123456',
@@ -286,8 +378,8 @@ const ANNONCES_DEMO = [
     description: 'Bel appartement 3 pièces au 2ème étage, salon, 2 chambres, cuisine équipée, salle de bain. Quartier calme proche des transports.',
     prix: 180000,
     categorie: 'immobilier',
-    sousCategorie: 'location',
-    region: 'Abidjan',
+    sousCategorie: 'Appartements',
+    region: 'abidjan',
     commune: 'Marcory',
     quartier: 'Zone 4',
     telephone: '+22501987654',
@@ -314,9 +406,9 @@ const ANNONCES_DEMO = [
     description: 'iPhone 13 Pro 128GB couleur graphite, acheté il y a 6 mois. Très peu utilisé, comme neuf. Boîte et accessoires inclus.',
     prix: 650000,
     categorie: 'electronique',
-    sousCategorie: 'telephones',
+    sousCategorie: 'Téléphones',
     etat: 'TRES_BON_ETAT',
-    region: 'Abidjan',
+    region: 'abidjan',
     commune: 'Plateau',
     quartier: 'Centre-ville',
     telephone: '+22507000001',
@@ -338,6 +430,9 @@ const ANNONCES_DEMO = [
 // FONCTIONS D'AIDE
 // ==============================================
 
+// Mêmes options que CategorieService et RegionService
+const slugNom = (nom: string) => slugify(nom, { lower: true, strict: true });
+
 async function clearDatabase() {
   console.log('🗑️ Nettoyage de la base de données...');
   
@@ -368,9 +463,23 @@ async function seedRegions() {
       data: {
         id: region.code.toLowerCase(),
         nom: region.nom,
+        slug: slugNom(region.nom), // Valeur stockée dans annonce.region
         code: region.code,
-        communes: region.communes,
-        coordonnees: region.coordonnees,
+        communes: region.communes.map(commune => commune.nom),
+        // Centre de la région et de chacune de ses communes
+        coordonnees: {
+          ...region.coordonnees,
+          communes: Object.fromEntries(
+            region.communes.map(commune => [commune.nom, { lat: commune.lat, lng: commune.lng }])
+          )
+        },
+        // Quartiers par commune
+        quartiers: Object.fromEntries(
+          region.communes.map(commune => [
+            commune.nom,
+            Object.fromEntries(commune.quartiers.map(quartier => [quartier.nom, { lat: quartier.lat, lng: quartier.lng }]))
+          ])
+        ),
         population: region.population,
         superficie: region.superficie
       }
@@ -383,26 +492,29 @@ async function seedRegions() {
 async function seedCategories() {
   console.log('📂 Création des catégories d\'annonces...');
   
-  for (const [index, cat] of CATEGORIES_BASE.entries()) {
-    // Créer la catégorie principale
+  for (const [index, [code, cat]] of Object.entries(CATEGORIES_CI).entries()) {
+    const categorieCode = code as CategorieCode;
+    const attributs = ATTRIBUTS_CATEGORIES[categorieCode] as Record<string, object>;
+    
+    // Créer la catégorie principale (le slug est la clé stockée dans les annonces)
     const parentCategorie = await prisma.categorie.create({
       data: {
         nom: cat.nom,
-        slug: cat.slug,
-        description: cat.description,
-        icone: cat.icone,
-        couleur: cat.couleur,
+        slug: categorieCode,
+        description: PRESENTATION_CATEGORIES[categorieCode].description,
+        icone: cat.icon,
+        couleur: PRESENTATION_CATEGORIES[categorieCode].couleur,
+        champsPersonnalises: cat.champsSpecifiques.map(cle => ({ cle, ...attributs[cle] })),
         ordre: index
       }
     });
     
     // Créer les sous-catégories
-    for (const [subIndex, subCat] of cat.sousCategories.entries()) {
+    for (const [subIndex, nom] of cat.sousCategories.entries()) {
       await prisma.categorie.create({
         data: {
-          nom: subCat.nom,
-          slug: subCat.slug,
-          icone: subCat.icone,
+          nom,
+          slug: `${categorieCode}-${slugNom(nom)}`,
           parentId: parentCategorie.id,
           ordre: subIndex
         }
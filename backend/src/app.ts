@@ -7,6 +7,20 @@ import dotenv from 'dotenv';
 import path from 'path';
 import { errorHandler, notFoundHandler } from './middleware/errorMiddleware';
 import { requestLogging, metricsEndpoint, debugLogging } from './middleware/loggingMiddleware';
+import { initSocketGateway } from './sockets/socketGateway';
+import annonceRoutes from './routes/annonceRoutes';
+import messageRoutes from './routes/messageRoutes';
+import avisRoutes from './routes/avisRoutes';
+import moderationRoutes from './routes/moderationRoutes';
+import paymentRoutes from './routes/paymentRoutes';
+import abonnementRoutes from './routes/abonnementRoutes';
+import rechercheRoutes from './routes/rechercheRoutes';
+import geoRoutes from './routes/geoRoutes';
+import categorieRoutes from './routes/categorieRoutes';
+import regionRoutes from './routes/regionRoutes';
+import { startJobs } from './jobs';
+import VueService from './services/vueService';
+import StatistiqueService from './services/statistiqueService';
 
 
 // Configuration des variables d'environnement
@@ -112,6 +126,8 @@ app.use(express.json({
     if (buf.length > 10 * 1024 * 1024) { // 10MB
       throw new Error('Payload trop volumineux');
     }
+    // Corps brut conservé pour vérifier la signature des webhooks
+    (req as express.Request).rawBody = buf;
   }
 }));
 
@@ -200,8 +216,14 @@ app.get('/api', (req, res) => {
       users: '/api/users',
       annonces: '/api/annonces',
       categories: '/api/categories',
+      regions: '/api/regions',
       messages: '/api/messages',
-      payments: '/api/payments'
+      avis: '/api/avis',
+      moderation: '/api/moderation',
+      payments: '/api/payments',
+      abonnements: '/api/abonnements',
+      recherches: '/api/recherches',
+      geo: '/api/geo'
     }
   });
 });
@@ -215,18 +237,35 @@ app.post('/api/auth/login', (req, res) => {
   res.json({ message: 'Route de connexion - À implémenter' });
 });
 
-// Routes des annonces (placeholder)
-app.get('/api/annonces', (req, res) => {
-  res.json({ 
-    message: 'Liste des annonces - À implémenter',
-    count: 0,
-    data: []
-  });
-});
+// Annonces, favoris et administration des annonces (chemins complets)
+app.use(annonceRoutes);
 
-app.post('/api/annonces', (req, res) => {
-  res.json({ message: 'Création d\'annonce - À implémenter' });
-});
+// Messagerie acheteur / vendeur
+app.use('/api/messages', messageRoutes);
+
+// Avis et réputation des vendeurs
+app.use('/api/avis', avisRoutes);
+
+// File de modération des signalements
+app.use('/api/moderation', moderationRoutes);
+
+// Paiements mobiles des boosts
+app.use('/api/payments', paymentRoutes);
+
+// Abonnements Pro et droits des plans
+app.use('/api/abonnements', abonnementRoutes);
+
+// Recherches sauvegardées et alertes nouvelles annonces
+app.use('/api/recherches', rechercheRoutes);
+
+// Géocodage et géocodage inverse (gazetteer des régions)
+app.use('/api/geo', geoRoutes);
+
+// Arbre des catégories et son administration
+app.use('/api/categories', categorieRoutes);
+
+// Référentiel des régions, communes et quartiers
+app.use('/api/regions', regionRoutes);
 
 app.get('/metrics', metricsEndpoint);
 
@@ -252,7 +291,10 @@ app.use('*', (req, res) => {
       'POST /api/auth/register': 'Inscription utilisateur',
       'POST /api/auth/login': 'Connexion utilisateur',
       'GET /api/annonces': 'Liste des annonces',
-      'POST /api/annonces': 'Création d\'annonce'
+      'POST /api/annonces': 'Création d\'annonce',
+      'GET /api/messages/conversations': 'Conversations de l\'utilisateur',
+      'GET /api/avis/utilisateurs/:userId': 'Avis reçus par un vendeur',
+      'GET /api/abonnements/plans': 'Plans et droits associés'
     }
   });
 });
@@ -299,12 +341,18 @@ app.use((error: Error, req: express.Request, res: express.Response, next: expres
 // Gestion gracieuse de l'arrêt
 process.on('SIGTERM', () => {
   console.log('🛑 Signal SIGTERM reçu, arrêt du serveur...');
-  process.exit(0);
+  // Vues et compteurs encore en attente d'enregistrement
+  Promise.all([VueService.flush(), StatistiqueService.flush()])
+    .catch(console.error)
+    .finally(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
   console.log('🛑 Signal SIGINT reçu, arrêt du serveur...');
-  process.exit(0);
+  // Vues et compteurs encore en attente d'enregistrement
+  Promise.all([VueService.flush(), StatistiqueService.flush()])
+    .catch(console.error)
+    .finally(() => process.exit(0));
 });
 
 
@@ -333,6 +381,12 @@ const server = app.listen(appConfig.port, () => {
   console.log('');
 });
 
+// WebSocket temps réel (messagerie, notifications)
+initSocketGateway(server, appConfig.corsOrigins);
+
+// Tâches planifiées (expirations, rappels, réconciliation des paiements)
+startJobs();
+
 // Gestion des erreurs de démarrage
 server.on('error', (error: NodeJS.ErrnoException) => {
   if (error.syscall !== 'listen') {
@@ -0,0 +1,229 @@
+// backend/src/controllers/abonnementController.ts
+// CONTRÔLEUR ABONNEMENTS PRO
+
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import AbonnementService from '../services/abonnementService';
+import { AppError } from '../middleware/errorMiddleware';
+import { PLANS, TypeAbonnement, abonnementSchema } from '../../../shared/src/types';
+import type { ApiResponse } from '../../../shared/src/types';
+
+// ==============================================
+// RATE LIMITING SPÉCIALISÉ
+// ==============================================
+
+// Rate limiting des paiements d'abonnement (chaque appel initie un paiement)
+export const abonnementPaymentLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 heure
+  max: 5, // 5 tentatives par heure
+  message: {
+    error: 'Trop de tentatives de paiement d\'abonnement',
+    retryAfter: 60
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ==============================================
+// CONTRÔLEUR ABONNEMENTCONTROLLER
+// ==============================================
+
+export class AbonnementController {
+
+  // ==============================================
+  // CATALOGUE DES PLANS
+  // ==============================================
+
+  static async getPlans(_req: Request, res: Response): Promise<void> {
+    const plans = Object.values(TypeAbonnement).map(type => ({ type, ...PLANS[type] }));
+
+    const response: ApiResponse<typeof plans> = {
+      success: true,
+      message: 'Plans disponibles',
+      data: plans,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+
+    res.status(200).json(response);
+  }
+
+  // ==============================================
+  // PLAN DE L'UTILISATEUR
+  // ==============================================
+
+  static async getMonPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = await AbonnementService.getMonPlan(req.user!.id);
+
+      const response: ApiResponse<typeof plan> = {
+        success: true,
+        message: 'Plan récupéré',
+        data: plan,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur récupération plan:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la récupération du plan';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'PLAN_FETCH_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  // ==============================================
+  // SOUSCRIPTION ET RENOUVELLEMENT
+  // ==============================================
+
+  static async souscrire(req: Request, res: Response): Promise<void> {
+    return AbonnementController.handlePayment(req, res, 'souscrire');
+  }
+
+  static async renouveler(req: Request, res: Response): Promise<void> {
+    return AbonnementController.handlePayment(req, res, 'renouveler');
+  }
+
+  // ==============================================
+  // RÉSILIATION
+  // ==============================================
+
+  static async resilier(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      console.log('🛑 Résiliation abonnement:', { userId });
+
+      const abonnement = await AbonnementService.resilier(userId);
+
+      const response: ApiResponse<typeof abonnement> = {
+        success: true,
+        message: `Abonnement résilié : vos avantages restent actifs jusqu'au ${abonnement.dateFin.toLocaleDateString('fr-FR')}`,
+        data: abonnement,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur résiliation abonnement:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la résiliation';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'ABONNEMENT_CANCEL_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async handlePayment(
+    req: Request,
+    res: Response,
+    action: 'souscrire' | 'renouveler'
+  ): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const validationResult = abonnementSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Paiement d\'abonnement invalide',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ZOD_VALIDATION_ERROR'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      console.log('💳 Paiement abonnement:', { userId, action, methode: validationResult.data.methode });
+
+      const initie = action === 'souscrire'
+        ? await AbonnementService.souscrire(userId, validationResult.data)
+        : await AbonnementService.renouveler(userId, validationResult.data);
+
+      const response: ApiResponse<typeof initie> = {
+        success: true,
+        message: 'Paiement initié : finalisez-le pour activer votre abonnement Pro',
+        data: initie,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(202).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur paiement abonnement:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du paiement de l\'abonnement';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: action === 'souscrire' ? 'ABONNEMENT_SUBSCRIBE_ERROR' : 'ABONNEMENT_RENEW_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+}
+
+export default AbonnementController;
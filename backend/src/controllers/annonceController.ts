@@ -7,17 +7,32 @@ import rateLimit from 'express-rate-limit';
 import multer from 'multer';
 import { v2 as cloudinary } from 'cloudinary';
 import AnnonceService from '../services/annonceService';
+import SuggestionService from '../services/suggestionService';
+import CategorieService from '../services/categorieService';
+import RegionService from '../services/regionService';
+import PaymentService from '../services/paymentService';
+import VueService from '../services/vueService';
+import StatistiqueService from '../services/statistiqueService';
+import ContactService from '../services/contactService';
+import type { ContexteVisite } from '../services/vueService';
+import { AppError, QuotaError } from '../middleware/errorMiddleware';
 import type { 
   ApiResponse, 
   SearchFilters, 
-  StatutAnnonce, 
   EtatProduit 
 } from '../../../shared/src/types';
 import { 
+  StatutAnnonce,
   annonceSchema, 
+  boostSchema,
   searchSchema, 
-  CATEGORIES_CI, 
-  REGIONS_COTE_IVOIRE,
+  filtresAttributsSchema,
+  suggestionsSchema,
+  paginationSchema,
+  dureeVisiteSchema,
+  contactAnnonceSchema,
+  recommandationsSchema,
+  tendancesSchema,
   LIMITS 
 } from '../../../shared/src/types';
 
@@ -128,8 +143,8 @@ export const validateCreateAnnonce = [
     .trim()
     .notEmpty()
     .withMessage('Catégorie requise')
-    .custom((value) => {
-      if (!CATEGORIES_CI[value as keyof typeof CATEGORIES_CI]) {
+    .custom(async (value) => {
+      if (!(await CategorieService.isCategorieValide(value))) {
         throw new Error('Catégorie invalide');
       }
       return true;
@@ -138,10 +153,10 @@ export const validateCreateAnnonce = [
   body('sousCategorie')
     .optional()
     .trim()
-    .custom((value, { req }) => {
+    .custom(async (value, { req }) => {
       if (value && req.body.categorie) {
-        const category = CATEGORIES_CI[req.body.categorie as keyof typeof CATEGORIES_CI];
-        if (category && !category.sousCategories.includes(value)) {
+        const category = await CategorieService.getCategorie(req.body.categorie);
+        if (category && !category.sousCategories.some(sousCategorie => sousCategorie.nom === value)) {
           throw new Error('Sous-catégorie invalide pour cette catégorie');
         }
       }
@@ -152,8 +167,8 @@ export const validateCreateAnnonce = [
     .trim()
     .notEmpty()
     .withMessage('Région requise')
-    .custom((value) => {
-      if (!REGIONS_COTE_IVOIRE[value as keyof typeof REGIONS_COTE_IVOIRE]) {
+    .custom(async (value) => {
+      if (!(await RegionService.isRegionValide(value))) {
         throw new Error('Région invalide');
       }
       return true;
@@ -163,10 +178,10 @@ export const validateCreateAnnonce = [
     .trim()
     .notEmpty()
     .withMessage('Commune requise')
-    .custom((value, { req }) => {
+    .custom(async (value, { req }) => {
       if (value && req.body.region) {
-        const region = REGIONS_COTE_IVOIRE[req.body.region as keyof typeof REGIONS_COTE_IVOIRE];
-        if (region && !region.communes.includes(value)) {
+        const region = await RegionService.getRegion(req.body.region);
+        if (region && !region.communes.some(commune => commune.nom === value)) {
           throw new Error('Commune invalide pour cette région');
         }
       }
@@ -225,8 +240,8 @@ export const validateSearchAnnonces = [
   query('categorie')
     .optional()
     .trim()
-    .custom((value) => {
-      if (value && !CATEGORIES_CI[value as keyof typeof CATEGORIES_CI]) {
+    .custom(async (value) => {
+      if (value && !(await CategorieService.isCategorieValide(value))) {
         throw new Error('Catégorie invalide');
       }
       return true;
@@ -235,13 +250,23 @@ export const validateSearchAnnonces = [
   query('region')
     .optional()
     .trim()
-    .custom((value) => {
-      if (value && !REGIONS_COTE_IVOIRE[value as keyof typeof REGIONS_COTE_IVOIRE]) {
+    .custom(async (value) => {
+      if (value && !(await RegionService.isRegionValide(value))) {
         throw new Error('Région invalide');
       }
       return true;
     }),
 
+  query('commune')
+    .optional()
+    .trim()
+    .custom(async (value, { req }) => {
+      if (value && req.query?.['region'] && !(await RegionService.isCommuneValide(req.query['region'], value))) {
+        throw new Error('Commune invalide pour cette région');
+      }
+      return true;
+    }),
+
   query('prixMin')
     .optional()
     .isFloat({ min: 0 })
@@ -283,6 +308,11 @@ export const validateSearchAnnonces = [
     .optional()
     .isFloat({ min: -180, max: 180 })
     .withMessage('Longitude invalide'),
+
+  query('rayon')
+    .optional()
+    .isFloat({ min: 1, max: 100 })
+    .withMessage('Rayon doit être entre 1 et 100 km'),
 ];
 
 export const validateAnnonceId = [
@@ -296,6 +326,44 @@ export const validateAnnonceId = [
     .withMessage('ID contient des caractères invalides'),
 ];
 
+export const validateAdminAnnonces = [
+  query('statut')
+    .optional()
+    .isIn(Object.values(StatutAnnonce))
+    .withMessage('Statut invalide'),
+
+  query('userId')
+    .optional()
+    .trim()
+    .matches(/^[a-zA-Z0-9]+$/)
+    .withMessage('ID utilisateur invalide'),
+
+  query('dateDebut')
+    .optional()
+    .isISO8601()
+    .withMessage('Date de début invalide (ISO 8601)'),
+
+  query('dateFin')
+    .optional()
+    .isISO8601()
+    .withMessage('Date de fin invalide (ISO 8601)'),
+
+  query('signalementsMin')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Nombre minimum de signalements invalide'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page doit être un entier positif'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limite doit être entre 1 et 100'),
+];
+
 // ==============================================
 // MIDDLEWARE DE GESTION D'ERREURS
 // ==============================================
@@ -444,13 +512,14 @@ export class AnnonceController {
       console.error('❌ Erreur création annonce:', error);
 
       const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la création';
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
       
       const response: ApiResponse = {
         success: false,
         message: errorMessage,
         errors: [{
           message: errorMessage,
-          code: 'ANNONCE_CREATION_ERROR'
+          code: error instanceof QuotaError ? 'PLAN_QUOTA_EXCEEDED' : 'ANNONCE_CREATION_ERROR'
         }],
         meta: {
           timestamp: new Date().toISOString(),
@@ -458,7 +527,7 @@ export class AnnonceController {
         }
       };
 
-      res.status(400).json(response);
+      res.status(statusCode).json(response);
     }
   }
 
@@ -547,6 +616,10 @@ export class AnnonceController {
         limite: req.query.limit ? parseInt(req.query.limit as string) : 20,
         prixMin: req.query.prixMin ? parseFloat(req.query.prixMin as string) : undefined,
         prixMax: req.query.prixMax ? parseFloat(req.query.prixMax as string) : undefined,
+        latitude: req.query['latitude'] ? parseFloat(req.query['latitude'] as string) : undefined,
+        longitude: req.query['longitude'] ? parseFloat(req.query['longitude'] as string) : undefined,
+        rayon: req.query['rayon'] ? parseFloat(req.query['rayon'] as string) : undefined,
+        totalApproximatif: req.query['totalApproximatif'] === 'true',
       });
 
       if (!validationResult.success) {
@@ -567,27 +640,93 @@ export class AnnonceController {
         return;
       }
 
-      const { page, limite, tri, ...filters } = validationResult.data;
+      const {
+        page, limite, tri, latitude, longitude, rayon, attributs, pagination, curseur, totalApproximatif, ...filters
+      } = validationResult.data;
 
-      // Position géographique de l'utilisateur (optionnelle)
-      const userLocation = (req.query.latitude && req.query.longitude) ? {
-        latitude: parseFloat(req.query.latitude as string),
-        longitude: parseFloat(req.query.longitude as string)
-      } : undefined;
+      // Filtres sur les attributs typés de la catégorie
+      const attributsResult = attributs
+        ? filtresAttributsSchema(await CategorieService.getAttributs(filters.categorie!, filters.sousCategorie)).safeParse(attributs)
+        : null;
 
-      // Appel du service de recherche avancée
-      const result = await AnnonceService.searchAnnonces({
-        filters: filters as SearchFilters,
+      if (attributsResult && !attributsResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Filtres d\'attributs invalides',
+          errors: attributsResult.error.errors.map(err => ({
+            field: ['attributs', ...err.path].join('.'),
+            message: err.message,
+            code: 'SEARCH_VALIDATION_ERROR'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      // Position géographique de l'utilisateur (optionnelle)
+      const userLocation = (latitude !== undefined && longitude !== undefined)
+        ? { latitude, longitude }
+        : undefined;
+
+      const searchOptions = {
+        filters: {
+          ...filters,
+          ...(attributsResult?.success && { attributs: attributsResult.data })
+        } as SearchFilters,
         page,
         limit: limite,
         sortBy: tri,
-        userLocation
-      });
+        userLocation,
+        rayonKm: rayon,
+        totalApproximatif
+      };
+
+      // Défilement infini : lot suivant le curseur, sans total
+      if (pagination === 'curseur' || curseur) {
+        const { cache, ...lot } = await AnnonceService.searchAnnoncesCurseur(searchOptions, curseur);
+
+        // Position dans les résultats : connue pour le premier lot seulement
+        if (!curseur) {
+          StatistiqueService.recordImpressions(lot.annonces.map(annonce => annonce.id), 1, req.get('user-agent'));
+        }
+
+        const response: ApiResponse<typeof lot> = {
+          success: true,
+          message: `${lot.annonces.length} annonce(s)`,
+          data: lot,
+          meta: {
+            pagination: {
+              limit: limite,
+              nextCursor: lot.nextCursor
+            },
+            cache,
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+
+        res.status(200).json(response);
+        return;
+      }
+
+      // Appel du service de recherche avancée
+      const { cache, ...result } = await AnnonceService.searchAnnonces(searchOptions);
+
+      StatistiqueService.recordImpressions(
+        result.annonces.map(annonce => annonce.id),
+        (result.page - 1) * limite + 1,
+        req.get('user-agent')
+      );
 
       console.log('✅ Recherche réussie:', {
         total: result.total,
         page: result.page,
-        annonces: result.annonces.length
+        annonces: result.annonces.length,
+        cache
       });
 
       const response: ApiResponse<typeof result> = {
@@ -599,8 +738,10 @@ export class AnnonceController {
             page: result.page,
             limit: limite,
             total: result.total,
-            totalPages: result.totalPages
+            totalPages: result.totalPages,
+            ...(result.totalApproximatif && { totalApproximatif: true })
           },
+          cache,
           timestamp: new Date().toISOString(),
           version: '1.0.0'
         }
@@ -624,6 +765,72 @@ export class AnnonceController {
         }
       };
 
+      // Curseur invalide : 400
+      res.status(error instanceof AppError ? error.statusCode : 500).json(response);
+    }
+  }
+
+  // ==============================================
+  // AUTOCOMPLÉTION DE LA RECHERCHE
+  // ==============================================
+
+  static async getSuggestions(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = suggestionsSchema.safeParse({
+        q: req.query['q'],
+        limite: req.query['limit'] ? parseInt(req.query['limit'] as string) : undefined,
+        soumise: req.query['soumise'] === 'true'
+      });
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Saisie invalide',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ZOD_VALIDATION_ERROR'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { q, limite, soumise } = validationResult.data;
+      const result = await SuggestionService.getSuggestions(q, limite, soumise);
+
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        message: `${result.suggestions.length} suggestion(s)`,
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur suggestions:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors du calcul des suggestions',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur de suggestions',
+          code: 'SUGGESTIONS_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
       res.status(500).json(response);
     }
   }
@@ -639,7 +846,7 @@ export class AnnonceController {
 
       console.log('👀 Consultation annonce:', { annonceId: id, userId });
 
-      const annonce = await AnnonceService.getAnnonceById(id, userId);
+      const annonce = await AnnonceService.getAnnonceById(id, userId, AnnonceController.contexteVisite(req));
 
       if (!annonce) {
         const response: ApiResponse = {
@@ -696,6 +903,140 @@ export class AnnonceController {
     }
   }
 
+  // ==============================================
+  // AFFICHAGE DES COORDONNÉES DU VENDEUR
+  // ==============================================
+
+  static async revealContact(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = contactAnnonceSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Canal de contact invalide',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'INVALID_CONTACT_CHANNEL'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const contact = await ContactService.revealContact(req.params['id']!, validationResult.data.canal, {
+        ...AnnonceController.contexteVisite(req),
+        userId: req.user?.id
+      });
+
+      const response: ApiResponse<typeof contact> = {
+        success: true,
+        message: 'Coordonnées du vendeur',
+        data: contact,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      // Jamais en cache (navigateur ou proxy)
+      res.set('Cache-Control', 'no-store');
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur affichage coordonnées:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: error instanceof AppError ? error.message : 'Erreur lors de l\'affichage des coordonnées',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur coordonnées',
+          code: 'CONTACT_REVEAL_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      // Quota anti-collecte : 429, connexion requise : 401
+      res.status(error instanceof AppError ? error.statusCode : 500).json(response);
+    }
+  }
+
+  // ==============================================
+  // DURÉE DE VISITE (BEACON)
+  // ==============================================
+
+  /**
+   * Appel navigator.sendBeacon à la fermeture de la page : corps JSON envoyé
+   * en text/plain (pas de requête préalable CORS). Réponse vide, le
+   * navigateur ne la lit pas
+   */
+  static async recordVisitDuration(req: Request, res: Response): Promise<void> {
+    try {
+      let corps: unknown = req.body;
+      if (typeof corps === 'string') {
+        try {
+          corps = JSON.parse(corps);
+        } catch {
+          corps = null;
+        }
+      }
+
+      const validationResult = dureeVisiteSchema.safeParse(corps);
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Durée de visite invalide',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'INVALID_VISIT_DURATION'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      await VueService.recordVisitDuration(
+        req.params['id']!,
+        { ...AnnonceController.contexteVisite(req), userId: req.user?.id },
+        validationResult.data.dureeVisite
+      );
+
+      res.status(204).end();
+
+    } catch (error) {
+      console.error('❌ Erreur durée de visite:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors de l\'enregistrement de la durée de visite',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur durée de visite',
+          code: 'VISIT_DURATION_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
   // ==============================================
   // GESTION DES FAVORIS
   // ==============================================
@@ -705,9 +1046,12 @@ export class AnnonceController {
       const { id } = req.params;
       const userId = req.user!.id;
 
-      console.log('⭐ Toggle favori:', { annonceId: id, userId });
+      // POST ajoute, DELETE retire
+      const souhaite = req.method !== 'DELETE';
+
+      console.log('⭐ Toggle favori:', { annonceId: id, userId, souhaite });
 
-      const result = await AnnonceService.toggleFavorite(id, userId);
+      const result = await AnnonceService.toggleFavorite(id!, userId, souhaite);
 
       console.log('✅ Favori mis à jour:', result);
 
@@ -781,11 +1125,7 @@ export class AnnonceController {
       console.error('❌ Erreur mise à jour annonce:', error);
 
       const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la mise à jour';
-      let statusCode = 400;
-
-      if (errorMessage.includes('non trouvée') || errorMessage.includes('non autorisée')) {
-        statusCode = 404;
-      }
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
 
       const response: ApiResponse = {
         success: false,
@@ -815,7 +1155,7 @@ export class AnnonceController {
 
       console.log('🗑️ Suppression annonce:', { annonceId: id, userId });
 
-      await AnnonceService.deleteAnnonce(id, userId);
+      await AnnonceService.deleteAnnonce(id!, userId);
 
       console.log('✅ Annonce supprimée:', { annonceId: id });
 
@@ -834,11 +1174,7 @@ export class AnnonceController {
       console.error('❌ Erreur suppression annonce:', error);
 
       const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la suppression';
-      let statusCode = 400;
-
-      if (errorMessage.includes('non trouvée') || errorMessage.includes('non autorisée')) {
-        statusCode = 404;
-      }
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
 
       const response: ApiResponse = {
         success: false,
@@ -857,6 +1193,56 @@ export class AnnonceController {
     }
   }
 
+  // ==============================================
+  // ANNONCE VENDUE
+  // ==============================================
+
+  static async markAsSold(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      console.log('🏷️ Passage en vendue:', { annonceId: id, userId });
+
+      const annonce = await AnnonceService.markAsSold(id!, userId);
+
+      console.log('✅ Annonce vendue:', { annonceId: id });
+
+      const response: ApiResponse<typeof annonce> = {
+        success: true,
+        message: 'Annonce marquée comme vendue',
+        data: annonce,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur annonce vendue:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du passage en vendue';
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'ANNONCE_SOLD_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
   // ==============================================
   // STATISTIQUES ANNONCE
   // ==============================================
@@ -934,7 +1320,7 @@ export class AnnonceController {
 
       console.log('🎯 Récupération annonces similaires:', { annonceId: id, limit });
 
-      const similarAnnonces = await AnnonceService.getSimilarAnnonces(id, limit);
+      const { annonces: similarAnnonces, cache } = await AnnonceService.getSimilarAnnonces(id, limit);
 
       console.log('✅ Annonces similaires trouvées:', similarAnnonces.length);
 
@@ -943,6 +1329,7 @@ export class AnnonceController {
         message: `${similarAnnonces.length} annonce(s) similaire(s) trouvée(s)`,
         data: similarAnnonces,
         meta: {
+          cache: { similaires: cache },
           timestamp: new Date().toISOString(),
           version: '1.0.0'
         }
@@ -970,6 +1357,135 @@ export class AnnonceController {
     }
   }
 
+  // ==============================================
+  // FIL « POUR VOUS » (RECOMMANDATIONS PERSONNALISÉES)
+  // ==============================================
+
+  static async getPourVous(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = recommandationsSchema.safeParse({
+        region: req.query['region'],
+        limite: req.query['limit'] ? parseInt(req.query['limit'] as string) : undefined
+      });
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Paramètres invalides',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ZOD_VALIDATION_ERROR'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { annonces, cache } = await AnnonceService.getPourVous(req.user?.id, validationResult.data);
+
+      const response: ApiResponse<typeof annonces> = {
+        success: true,
+        message: `${annonces.length} annonce(s) recommandée(s)`,
+        data: annonces,
+        meta: {
+          cache: { pourVous: cache },
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur fil pour vous:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors de la récupération des recommandations',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur recommandations',
+          code: 'RECOMMANDATIONS_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // ==============================================
+  // FIL TENDANCES (ENGAGEMENT RÉCENT)
+  // ==============================================
+
+  static async getTendances(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = tendancesSchema.safeParse({
+        region: req.query['region'],
+        categorie: req.query['categorie'],
+        limite: req.query['limit'] ? parseInt(req.query['limit'] as string) : undefined
+      });
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Paramètres invalides',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ZOD_VALIDATION_ERROR'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { annonces, cache } = await AnnonceService.getTendances(validationResult.data);
+
+      const response: ApiResponse<typeof annonces> = {
+        success: true,
+        message: `${annonces.length} annonce(s) en tendance`,
+        data: annonces,
+        meta: {
+          cache: { tendances: cache },
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur tendances:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors de la récupération des tendances',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur tendances',
+          code: 'TENDANCES_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
   // ==============================================
   // MES ANNONCES (UTILISATEUR CONNECTÉ)
   // ==============================================
@@ -977,43 +1493,37 @@ export class AnnonceController {
   static async getMyAnnonces(req: Request, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
       const statut = req.query.statut as StatutAnnonce;
 
-      console.log('📋 Récupération mes annonces:', { userId, page, limit, statut });
+      const validationResult = paginationSchema.safeParse({
+        ...req.query,
+        page: req.query['page'] ? parseInt(req.query['page'] as string) : 1,
+        limite: req.query['limit'] ? parseInt(req.query['limit'] as string) : 20
+      });
 
-      // Construire les filtres pour les annonces de l'utilisateur
-      const filters: SearchFilters = {};
-      if (statut && Object.values(StatutAnnonce).includes(statut)) {
-        // Note: Cette logique serait adaptée dans le service pour filtrer par statut
-        filters.q = ''; // Placeholder - le service gérera le filtrage par utilisateur
+      if (!validationResult.success) {
+        AnnonceController.sendPaginationErrors(res, validationResult.error.errors);
+        return;
       }
 
-      // Pour l'instant, utiliser une approche simplifiée
-      // TODO: Créer une méthode dédiée getUserAnnonces dans AnnonceService
-      const result = await AnnonceService.searchAnnonces({
-        filters,
+      const { page, limite, pagination, curseur } = validationResult.data;
+
+      console.log('📋 Récupération mes annonces:', { userId, page, limite, pagination, statut });
+
+      const result = await AnnonceService.getUserAnnonces(userId, {
         page,
-        limit,
-        sortBy: 'recent',
-        // Ajouter un filtre utilisateur (à implémenter dans le service)
+        limit: limite,
+        modeCurseur: pagination === 'curseur' || !!curseur,
+        curseur,
+        statut: statut && Object.values(StatutAnnonce).includes(statut) ? statut : undefined
       });
 
-      // Filtrer côté contrôleur (temporaire - à optimiser dans le service)
-      const userAnnonces = result.annonces.filter(annonce => annonce.userId === userId);
-
-      const response: ApiResponse<typeof userAnnonces> = {
+      const response: ApiResponse<typeof result.annonces> = {
         success: true,
-        message: `${userAnnonces.length} de vos annonces récupérées`,
-        data: userAnnonces,
+        message: `${result.annonces.length} de vos annonces récupérées`,
+        data: result.annonces,
         meta: {
-          pagination: {
-            page,
-            limit,
-            total: userAnnonces.length,
-            totalPages: Math.ceil(userAnnonces.length / limit)
-          },
+          pagination: AnnonceController.listPagination(result, page, limite),
           timestamp: new Date().toISOString(),
           version: '1.0.0'
         }
@@ -1037,7 +1547,7 @@ export class AnnonceController {
         }
       };
 
-      res.status(500).json(response);
+      res.status(error instanceof AppError ? error.statusCode : 500).json(response);
     }
   }
 
@@ -1048,27 +1558,35 @@ export class AnnonceController {
   static async getMyFavorites(req: Request, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
 
-      console.log('⭐ Récupération mes favoris:', { userId, page, limit });
+      const validationResult = paginationSchema.safeParse({
+        ...req.query,
+        page: req.query['page'] ? parseInt(req.query['page'] as string) : 1,
+        limite: req.query['limit'] ? parseInt(req.query['limit'] as string) : 20
+      });
 
-      // TODO: Créer une méthode dédiée getUserFavorites dans AnnonceService
-      // Pour l'instant, retourner un placeholder
-      
-      const favorites: any[] = []; // Placeholder
+      if (!validationResult.success) {
+        AnnonceController.sendPaginationErrors(res, validationResult.error.errors);
+        return;
+      }
+
+      const { page, limite, pagination, curseur } = validationResult.data;
 
-      const response: ApiResponse<any[]> = {
+      console.log('⭐ Récupération mes favoris:', { userId, page, limite, pagination });
+
+      const result = await AnnonceService.getUserFavorites(userId, {
+        page,
+        limit: limite,
+        modeCurseur: pagination === 'curseur' || !!curseur,
+        curseur
+      });
+
+      const response: ApiResponse<typeof result.annonces> = {
         success: true,
-        message: `${favorites.length} favori(s) récupéré(s)`,
-        data: favorites,
+        message: `${result.annonces.length} favori(s) récupéré(s)`,
+        data: result.annonces,
         meta: {
-          pagination: {
-            page,
-            limit,
-            total: favorites.length,
-            totalPages: Math.ceil(favorites.length / limit)
-          },
+          pagination: AnnonceController.listPagination(result, page, limite),
           timestamp: new Date().toISOString(),
           version: '1.0.0'
         }
@@ -1092,7 +1610,7 @@ export class AnnonceController {
         }
       };
 
-      res.status(500).json(response);
+      res.status(error instanceof AppError ? error.statusCode : 500).json(response);
     }
   }
 
@@ -1103,20 +1621,19 @@ export class AnnonceController {
   static async boostAnnonce(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { type } = req.body; // 'premium', 'promue', 'urgente'
       const userId = req.user!.id;
 
-      console.log('🚀 Boost d\'annonce:', { annonceId: id, userId, type });
+      const validationResult = boostSchema.safeParse(req.body);
 
-      if (!['premium', 'promue', 'urgente'].includes(type)) {
+      if (!validationResult.success) {
         const response: ApiResponse = {
           success: false,
-          message: 'Type de boost invalide',
-          errors: [{
-            field: 'type',
-            message: 'Type doit être: premium, promue ou urgente',
-            code: 'INVALID_BOOST_TYPE'
-          }],
+          message: 'Demande de boost invalide',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'INVALID_BOOST_REQUEST'
+          })),
           meta: {
             timestamp: new Date().toISOString(),
             version: '1.0.0'
@@ -1126,38 +1643,38 @@ export class AnnonceController {
         return;
       }
 
-      await AnnonceService.boostAnnonce(id, userId, type);
+      const { type, methode } = validationResult.data;
 
-      console.log('✅ Annonce boostée:', { annonceId: id, type });
+      console.log('🚀 Boost d\'annonce:', { annonceId: id, userId, type, methode });
+
+      // Le boost ne sera appliqué qu'après validation du paiement par l'opérateur
+      const result = await PaymentService.createBoostPayment(userId, id!, validationResult.data);
+
+      console.log('💳 Paiement de boost initié:', { annonceId: id, paiementId: result.paiement.id });
 
       const messages = {
-        premium: 'Annonce mise en premium pour 30 jours',
-        promue: 'Annonce promue pour 7 jours',
-        urgente: 'Annonce marquée urgente pour 3 jours'
+        premium: 'Finalisez le paiement pour passer votre annonce en premium pendant 30 jours',
+        promue: 'Finalisez le paiement pour promouvoir votre annonce pendant 7 jours',
+        urgente: 'Finalisez le paiement pour marquer votre annonce urgente pendant 3 jours'
       };
 
-      const response: ApiResponse = {
+      const response: ApiResponse<typeof result> = {
         success: true,
-        message: messages[type as keyof typeof messages],
+        message: messages[type],
+        data: result,
         meta: {
           timestamp: new Date().toISOString(),
           version: '1.0.0'
         }
       };
 
-      res.status(200).json(response);
+      res.status(202).json(response);
 
     } catch (error) {
       console.error('❌ Erreur boost annonce:', error);
 
       const errorMessage = error instanceof Error ? error.message : 'Erreur lors du boost';
-      let statusCode = 400;
-
-      if (errorMessage.includes('premium requis')) {
-        statusCode = 402; // Payment Required
-      } else if (errorMessage.includes('non autorisée')) {
-        statusCode = 403;
-      }
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
 
       const response: ApiResponse = {
         success: false,
@@ -1176,6 +1693,54 @@ export class AnnonceController {
     }
   }
 
+  // ==============================================
+  // RENOUVELLEMENT D'ANNONCE
+  // ==============================================
+
+  static async renewAnnonce(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      console.log('🔁 Renouvellement d\'annonce:', { annonceId: id, userId });
+
+      const annonce = await AnnonceService.renewAnnonce(id!, userId);
+
+      const response: ApiResponse<typeof annonce> = {
+        success: true,
+        message: 'Annonce renouvelée avec succès !',
+        data: annonce,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur renouvellement annonce:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du renouvellement';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: error instanceof QuotaError ? 'PLAN_QUOTA_EXCEEDED' : 'ANNONCE_RENEW_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
   // ==============================================
   // CATÉGORIES DISPONIBLES
   // ==============================================
@@ -1184,13 +1749,7 @@ export class AnnonceController {
     try {
       console.log('📂 Récupération des catégories');
 
-      const categories = Object.entries(CATEGORIES_CI).map(([key, value]) => ({
-        id: key,
-        nom: value.nom,
-        icon: value.icon,
-        sousCategories: value.sousCategories,
-        champsSpecifiques: value.champsSpecifiques
-      }));
+      const categories = await CategorieService.getArbre();
 
       const response: ApiResponse<typeof categories> = {
         success: true,
@@ -1232,11 +1791,7 @@ export class AnnonceController {
     try {
       console.log('🌍 Récupération des régions CI');
 
-      const regions = Object.entries(REGIONS_COTE_IVOIRE).map(([key, value]) => ({
-        id: key,
-        nom: value.nom,
-        communes: value.communes
-      }));
+      const regions = await RegionService.getArbre();
 
       const response: ApiResponse<typeof regions> = {
         success: true,
@@ -1269,6 +1824,106 @@ export class AnnonceController {
       res.status(500).json(response);
     }
   }
+
+  // ==============================================
+  // ADMINISTRATION DES ANNONCES
+  // ==============================================
+
+  static async getAdminAnnonces(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 50;
+
+      const filters = {
+        statut: req.query['statut'] as StatutAnnonce | undefined,
+        userId: req.query['userId'] as string | undefined,
+        dateDebut: req.query['dateDebut'] ? new Date(req.query['dateDebut'] as string) : undefined,
+        dateFin: req.query['dateFin'] ? new Date(req.query['dateFin'] as string) : undefined,
+        signalementsMin: req.query['signalementsMin'] ? parseInt(req.query['signalementsMin'] as string) : undefined
+      };
+
+      console.log('🛡️ Liste admin annonces:', { adminId: req.user!.id, role: req.user!.role, filters, page, limit });
+
+      const result = await AnnonceService.getAdminAnnonces({ filters, page, limit });
+
+      const response: ApiResponse<typeof result.annonces> = {
+        success: true,
+        message: `${result.total} annonce(s) trouvée(s)`,
+        data: result.annonces,
+        meta: {
+          pagination: {
+            page: result.page,
+            limit,
+            total: result.total,
+            totalPages: result.totalPages
+          },
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur liste admin annonces:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors de la récupération des annonces',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur administration',
+          code: 'ADMIN_ANNONCES_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  // Origine de la consultation, pour le comptage des vues et des contacts
+  private static contexteVisite(req: Request): ContexteVisite {
+    return {
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+      referer: req.get('referer')
+    };
+  }
+
+  // meta.pagination d'une liste personnelle : total en mode page, curseur sinon
+  private static listPagination(
+    result: { total?: number; nextCursor: string | null },
+    page: number,
+    limit: number
+  ): NonNullable<NonNullable<ApiResponse['meta']>['pagination']> {
+    return result.total !== undefined
+      ? { page, limit, total: result.total, totalPages: Math.ceil(result.total / limit) }
+      : { limit, nextCursor: result.nextCursor };
+  }
+
+  private static sendPaginationErrors(res: Response, errors: { path: (string | number)[]; message: string }[]): void {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Paramètres de pagination invalides',
+      errors: errors.map(err => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: 'PAGINATION_VALIDATION_ERROR'
+      })),
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(400).json(response);
+  }
 }
 
 // ==============================================
@@ -1291,6 +1946,11 @@ export const annonceIdValidation = [
   handleValidationErrors
 ];
 
+export const adminAnnoncesValidation = [
+  ...validateAdminAnnonces,
+  handleValidationErrors
+];
+
 // Middleware d'upload avec gestion d'erreurs
 export const handleImageUpload = (req: Request, res: Response, next: NextFunction) => {
   uploadImages(req, res, (error) => {
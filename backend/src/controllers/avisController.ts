@@ -0,0 +1,290 @@
+// backend/src/controllers/avisController.ts
+// CONTRÔLEUR AVIS ET RÉPUTATION
+
+import { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import AvisService from '../services/avisService';
+import { AppError } from '../middleware/errorMiddleware';
+import type { ApiResponse } from '../../../shared/src/types';
+import { avisSchema } from '../../../shared/src/types';
+
+// ==============================================
+// RATE LIMITING SPÉCIALISÉ
+// ==============================================
+
+// Rate limiting pour le dépôt d'avis
+export const createAvisLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 heure
+  max: 10, // 10 avis par heure
+  message: {
+    error: 'Limite de dépôt d\'avis atteinte',
+    retryAfter: 60
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ==============================================
+// VALIDATEURS EXPRESS-VALIDATOR
+// ==============================================
+
+export const validateUserAvis = [
+  param('userId')
+    .trim()
+    .notEmpty()
+    .withMessage('ID utilisateur requis')
+    .matches(/^[a-zA-Z0-9]+$/)
+    .withMessage('ID utilisateur invalide'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page doit être un entier positif'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limite doit être entre 1 et 50'),
+];
+
+export const validateReponseAvis = [
+  param('id')
+    .trim()
+    .notEmpty()
+    .withMessage('ID avis requis')
+    .matches(/^[a-zA-Z0-9]+$/)
+    .withMessage('ID avis invalide'),
+
+  body('reponse')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Réponse requise (1-1000 caractères)')
+    .matches(/^[^<>{}]*$/)
+    .withMessage('Réponse contient des caractères interdits'),
+];
+
+// ==============================================
+// MIDDLEWARE DE GESTION D'ERREURS
+// ==============================================
+
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formattedErrors = errors.array().map(error => ({
+      ...(error.type === 'field' && { field: error.path }),
+      message: error.msg,
+      code: 'VALIDATION_ERROR'
+    }));
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Données invalides',
+      errors: formattedErrors,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+
+    return void res.status(400).json(response);
+  }
+  next();
+};
+
+// ==============================================
+// CONTRÔLEUR AVISCONTROLLER
+// ==============================================
+
+export class AvisController {
+
+  // ==============================================
+  // DÉPÔT D'AVIS
+  // ==============================================
+
+  static async createAvis(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const validationResult = avisSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Avis invalide',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ZOD_VALIDATION_ERROR'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      console.log('⭐ Dépôt d\'avis:', {
+        annonceId: validationResult.data.annonceId,
+        evaluateurId: userId,
+        note: validationResult.data.note
+      });
+
+      const avis = await AvisService.createAvis(userId, validationResult.data);
+
+      const response: ApiResponse<typeof avis> = {
+        success: true,
+        message: 'Merci pour votre avis !',
+        data: avis,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur dépôt avis:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du dépôt de l\'avis';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'AVIS_CREATION_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  // ==============================================
+  // RÉPONSE DU VENDEUR
+  // ==============================================
+
+  static async replyToAvis(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      console.log('💬 Réponse à un avis:', { avisId: id, vendeurId: userId });
+
+      const avis = await AvisService.replyToAvis(id!, userId, req.body.reponse);
+
+      const response: ApiResponse<typeof avis> = {
+        success: true,
+        message: 'Réponse publiée',
+        data: avis,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur réponse avis:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la réponse';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'AVIS_REPLY_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  // ==============================================
+  // AVIS REÇUS PAR UN UTILISATEUR
+  // ==============================================
+
+  static async getUserAvis(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 10;
+
+      console.log('📋 Avis utilisateur:', { userId, page, limit });
+
+      const result = await AvisService.getUserAvis(userId!, { page, limit });
+
+      const response: ApiResponse<{ avis: typeof result.avis; resume: typeof result.resume }> = {
+        success: true,
+        message: `${result.total} avis`,
+        data: {
+          avis: result.avis,
+          resume: result.resume
+        },
+        meta: {
+          pagination: {
+            page: result.page,
+            limit,
+            total: result.total,
+            totalPages: result.totalPages
+          },
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur avis utilisateur:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors de la récupération des avis',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur avis',
+          code: 'AVIS_FETCH_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(500).json(response);
+    }
+  }
+}
+
+// ==============================================
+// MIDDLEWARE D'EXPORTS AVEC VALIDATION
+// ==============================================
+
+export const userAvisValidation = [
+  ...validateUserAvis,
+  handleValidationErrors
+];
+
+export const reponseAvisValidation = [
+  ...validateReponseAvis,
+  handleValidationErrors
+];
+
+export default AvisController;
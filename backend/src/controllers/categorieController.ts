@@ -0,0 +1,198 @@
+// backend/src/controllers/categorieController.ts
+// CONTRÔLEUR ADMINISTRATION DES CATÉGORIES
+
+import { Request, Response } from 'express';
+import CategorieService from '../services/categorieService';
+import { AppError } from '../middleware/errorMiddleware';
+import {
+  categorieSchema,
+  ordreCategoriesSchema,
+  updateCategorieSchema
+} from '../../../shared/src/types';
+import type { ApiResponse, ChampPersonnalise } from '../../../shared/src/types';
+
+// ==============================================
+// CONTRÔLEUR CATEGORIECONTROLLER
+// ==============================================
+
+export class CategorieController {
+
+  // ==============================================
+  // ARBRE COMPLET (CATÉGORIES DÉSACTIVÉES COMPRISES)
+  // ==============================================
+
+  static async getArbreAdmin(_req: Request, res: Response): Promise<void> {
+    try {
+      const categories = await CategorieService.getArbre({ inclureInactives: true });
+
+      const response: ApiResponse<typeof categories> = {
+        success: true,
+        message: `${categories.length} catégorie(s) principale(s)`,
+        data: categories,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur arbre des catégories:', error);
+      CategorieController.sendError(res, error, 'Erreur lors de la récupération des catégories', 'CATEGORIES_ERROR');
+    }
+  }
+
+  // ==============================================
+  // CRÉATION
+  // ==============================================
+
+  static async createCategorie(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = categorieSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        CategorieController.sendZodErrors(res, 'Catégorie invalide', validationResult.error.errors);
+        return;
+      }
+
+      const categorie = await CategorieService.createCategorie({
+        ...validationResult.data,
+        champsPersonnalises: validationResult.data.champsPersonnalises as ChampPersonnalise[]
+      });
+
+      const response: ApiResponse<typeof categorie> = {
+        success: true,
+        message: 'Catégorie créée',
+        data: categorie,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur création catégorie:', error);
+      CategorieController.sendError(res, error, 'Erreur lors de la création de la catégorie', 'CATEGORIE_CREATE_ERROR');
+    }
+  }
+
+  // ==============================================
+  // MODIFICATION, DÉSACTIVATION ET DÉPLACEMENT
+  // ==============================================
+
+  static async updateCategorie(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = updateCategorieSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        CategorieController.sendZodErrors(res, 'Modification invalide', validationResult.error.errors);
+        return;
+      }
+
+      const categorie = await CategorieService.updateCategorie(req.params['id']!, {
+        ...validationResult.data,
+        champsPersonnalises: validationResult.data.champsPersonnalises as ChampPersonnalise[] | undefined
+      });
+
+      const response: ApiResponse<typeof categorie> = {
+        success: true,
+        message: categorie.active ? 'Catégorie mise à jour' : 'Catégorie mise à jour (désactivée)',
+        data: categorie,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur mise à jour catégorie:', error);
+      CategorieController.sendError(res, error, 'Erreur lors de la mise à jour de la catégorie', 'CATEGORIE_UPDATE_ERROR');
+    }
+  }
+
+  // ==============================================
+  // ORDRE D'AFFICHAGE
+  // ==============================================
+
+  static async reorderCategories(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = ordreCategoriesSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        CategorieController.sendZodErrors(res, 'Ordre invalide', validationResult.error.errors);
+        return;
+      }
+
+      const { parentId, ids } = validationResult.data;
+      const categories = await CategorieService.reorderCategories(parentId, ids);
+
+      const response: ApiResponse<typeof categories> = {
+        success: true,
+        message: 'Ordre des catégories mis à jour',
+        data: categories,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur ordre des catégories:', error);
+      CategorieController.sendError(res, error, 'Erreur lors du réordonnancement des catégories', 'CATEGORIE_ORDER_ERROR');
+    }
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static sendZodErrors(
+    res: Response,
+    message: string,
+    errors: { path: (string | number)[]; message: string }[]
+  ): void {
+    const response: ApiResponse = {
+      success: false,
+      message,
+      errors: errors.map(err => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: 'ZOD_VALIDATION_ERROR'
+      })),
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(400).json(response);
+  }
+
+  private static sendError(res: Response, error: unknown, fallback: string, code: string): void {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+    const response: ApiResponse = {
+      success: false,
+      message: errorMessage,
+      errors: [{
+        message: errorMessage,
+        code
+      }],
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+
+    res.status(statusCode).json(response);
+  }
+}
+
+export default CategorieController;
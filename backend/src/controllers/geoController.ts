@@ -0,0 +1,170 @@
+// backend/src/controllers/geoController.ts
+// CONTRÔLEUR GÉOCODAGE (GAZETTEER CÔTE D'IVOIRE)
+
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import GazetteerService from '../services/gazetteerService';
+import { geocodageSchema, positionSchema } from '../../../shared/src/types';
+import type { ApiResponse } from '../../../shared/src/types';
+
+// ==============================================
+// RATE LIMITING SPÉCIALISÉ
+// ==============================================
+
+export const geoLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60, // 60 requêtes par minute
+  message: {
+    error: 'Trop de requêtes de géocodage',
+    retryAfter: 1
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ==============================================
+// CONTRÔLEUR GEOCONTROLLER
+// ==============================================
+
+export class GeoController {
+
+  // ==============================================
+  // GÉOCODAGE D'UNE ADRESSE
+  // ==============================================
+
+  static async geocode(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = geocodageSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        GeoController.sendZodErrors(res, 'Adresse invalide', validationResult.error.errors);
+        return;
+      }
+
+      const { region, commune, quartier } = validationResult.data;
+      const position = await GazetteerService.geocode(region, commune, quartier);
+
+      if (!position) {
+        GeoController.sendNotFound(res, 'Lieu introuvable dans le référentiel des régions');
+        return;
+      }
+
+      const response: ApiResponse<typeof position> = {
+        success: true,
+        message: 'Lieu localisé',
+        data: position,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur géocodage:', error);
+      GeoController.sendServerError(res, 'Erreur lors du géocodage', 'GEOCODE_ERROR');
+    }
+  }
+
+  // ==============================================
+  // GÉOCODAGE INVERSE (CLIENTS MOBILES)
+  // ==============================================
+
+  static async reverseGeocode(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = positionSchema.safeParse({
+        latitude: req.query['latitude'] ? parseFloat(req.query['latitude'] as string) : undefined,
+        longitude: req.query['longitude'] ? parseFloat(req.query['longitude'] as string) : undefined
+      });
+
+      if (!validationResult.success) {
+        GeoController.sendZodErrors(res, 'Position invalide', validationResult.error.errors);
+        return;
+      }
+
+      const { latitude, longitude } = validationResult.data;
+      const lieu = await GazetteerService.reverseGeocode(latitude, longitude);
+
+      if (!lieu) {
+        GeoController.sendNotFound(res, 'Aucune commune couverte à proximité de cette position');
+        return;
+      }
+
+      const response: ApiResponse<typeof lieu> = {
+        success: true,
+        message: `Position située à ${lieu.commune}`,
+        data: lieu,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur géocodage inverse:', error);
+      GeoController.sendServerError(res, 'Erreur lors du géocodage inverse', 'REVERSE_GEOCODE_ERROR');
+    }
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static sendZodErrors(
+    res: Response,
+    message: string,
+    errors: { path: (string | number)[]; message: string }[]
+  ): void {
+    const response: ApiResponse = {
+      success: false,
+      message,
+      errors: errors.map(err => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: 'ZOD_VALIDATION_ERROR'
+      })),
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(400).json(response);
+  }
+
+  private static sendNotFound(res: Response, message: string): void {
+    const response: ApiResponse = {
+      success: false,
+      message,
+      errors: [{
+        message,
+        code: 'LOCATION_NOT_FOUND'
+      }],
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(404).json(response);
+  }
+
+  private static sendServerError(res: Response, message: string, code: string): void {
+    const response: ApiResponse = {
+      success: false,
+      message,
+      errors: [{
+        message,
+        code
+      }],
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(500).json(response);
+  }
+}
+
+export default GeoController;
@@ -0,0 +1,323 @@
+// backend/src/controllers/messageController.ts
+// CONTRÔLEUR MESSAGERIE ACHETEUR / VENDEUR
+
+import { Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import MessageService from '../services/messageService';
+import { AppError } from '../middleware/errorMiddleware';
+import type { ApiResponse } from '../../../shared/src/types';
+import { messageSchema } from '../../../shared/src/types';
+
+// ==============================================
+// RATE LIMITING SPÉCIALISÉ
+// ==============================================
+
+// Rate limiting pour l'envoi de messages (anti-spam)
+export const sendMessageLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 20, // 20 messages par minute
+  message: {
+    error: 'Trop de messages envoyés, patientez un instant',
+    retryAfter: 1
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ==============================================
+// VALIDATEURS EXPRESS-VALIDATOR
+// ==============================================
+
+export const validateThreadParams = [
+  param('annonceId')
+    .trim()
+    .notEmpty()
+    .withMessage('ID annonce requis')
+    .matches(/^[a-zA-Z0-9]+$/)
+    .withMessage('ID annonce invalide'),
+
+  param('userId')
+    .trim()
+    .notEmpty()
+    .withMessage('ID interlocuteur requis')
+    .matches(/^[a-zA-Z0-9]+$/)
+    .withMessage('ID interlocuteur invalide'),
+];
+
+export const validateThreadPagination = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page doit être un entier positif'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limite doit être entre 1 et 100'),
+];
+
+// ==============================================
+// MIDDLEWARE DE GESTION D'ERREURS
+// ==============================================
+
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formattedErrors = errors.array().map(error => ({
+      ...(error.type === 'field' && { field: error.path }),
+      message: error.msg,
+      code: 'VALIDATION_ERROR'
+    }));
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Données invalides',
+      errors: formattedErrors,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+
+    return void res.status(400).json(response);
+  }
+  next();
+};
+
+// ==============================================
+// CONTRÔLEUR MESSAGECONTROLLER
+// ==============================================
+
+export class MessageController {
+
+  // ==============================================
+  // ENVOI DE MESSAGE
+  // ==============================================
+
+  static async sendMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const validationResult = messageSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Message invalide',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ZOD_VALIDATION_ERROR'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      console.log('✉️ Envoi de message:', {
+        annonceId: validationResult.data.annonceId,
+        senderId: userId,
+        receiverId: validationResult.data.receiverId
+      });
+
+      const message = await MessageService.sendMessage(userId, validationResult.data);
+
+      const response: ApiResponse<typeof message> = {
+        success: true,
+        message: 'Message envoyé',
+        data: message,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur envoi message:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors de l\'envoi';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'MESSAGE_SEND_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  // ==============================================
+  // LISTE DES CONVERSATIONS
+  // ==============================================
+
+  static async getConversations(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      console.log('💬 Récupération conversations:', { userId });
+
+      const conversations = await MessageService.getConversations(userId);
+
+      const response: ApiResponse<typeof conversations> = {
+        success: true,
+        message: `${conversations.length} conversation(s) récupérée(s)`,
+        data: conversations,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur conversations:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors de la récupération des conversations',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur conversations',
+          code: 'CONVERSATIONS_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // ==============================================
+  // FIL DE DISCUSSION
+  // ==============================================
+
+  static async getThread(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { annonceId, userId: otherUserId } = req.params;
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 30;
+
+      console.log('📜 Fil de discussion:', { annonceId, userId, otherUserId, page });
+
+      const result = await MessageService.getThread(userId, annonceId!, otherUserId!, { page, limit });
+
+      const response: ApiResponse<typeof result.messages> = {
+        success: true,
+        message: `${result.messages.length} message(s) récupéré(s)`,
+        data: result.messages,
+        meta: {
+          pagination: {
+            page: result.page,
+            limit,
+            total: result.total,
+            totalPages: result.totalPages
+          },
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur fil de discussion:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors de la récupération des messages',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur messages',
+          code: 'THREAD_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // ==============================================
+  // MARQUER COMME LU
+  // ==============================================
+
+  static async markAsRead(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { annonceId, userId: otherUserId } = req.params;
+
+      console.log('👁️ Marquage lecture:', { annonceId, userId, otherUserId });
+
+      const result = await MessageService.markConversationAsRead(userId, annonceId!, otherUserId!);
+
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        message: `${result.count} message(s) marqué(s) comme lu(s)`,
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur marquage lecture:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors du marquage des messages',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur lecture',
+          code: 'MARK_READ_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(500).json(response);
+    }
+  }
+}
+
+// ==============================================
+// MIDDLEWARE D'EXPORTS AVEC VALIDATION
+// ==============================================
+
+export const threadValidation = [
+  ...validateThreadParams,
+  ...validateThreadPagination,
+  handleValidationErrors
+];
+
+export const markAsReadValidation = [
+  ...validateThreadParams,
+  handleValidationErrors
+];
+
+export default MessageController;
@@ -0,0 +1,243 @@
+// backend/src/controllers/paymentController.ts
+// CONTRÔLEUR PAIEMENTS MOBILES
+
+import { Request, Response, NextFunction } from 'express';
+import { param, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import PaymentService from '../services/paymentService';
+import { AppError } from '../middleware/errorMiddleware';
+import { StatutPaiement } from '../../../shared/src/types';
+import type { ApiResponse } from '../../../shared/src/types';
+
+// ==============================================
+// RATE LIMITING SPÉCIALISÉ
+// ==============================================
+
+// Rate limiting des vérifications (chaque appel interroge l'opérateur)
+export const verifyPaymentLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 10, // 10 vérifications par minute
+  message: {
+    error: 'Trop de vérifications de paiement',
+    retryAfter: 1
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ==============================================
+// VALIDATEURS EXPRESS-VALIDATOR
+// ==============================================
+
+export const validatePaymentId = [
+  param('id')
+    .trim()
+    .notEmpty()
+    .withMessage('ID paiement requis')
+    .matches(/^[a-zA-Z0-9]+$/)
+    .withMessage('ID paiement invalide'),
+];
+
+// ==============================================
+// MIDDLEWARE DE GESTION D'ERREURS
+// ==============================================
+
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formattedErrors = errors.array().map(error => ({
+      ...(error.type === 'field' && { field: error.path }),
+      message: error.msg,
+      code: 'VALIDATION_ERROR'
+    }));
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Données invalides',
+      errors: formattedErrors,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+
+    return void res.status(400).json(response);
+  }
+  next();
+};
+
+// ==============================================
+// CONTRÔLEUR PAYMENTCONTROLLER
+// ==============================================
+
+export class PaymentController {
+
+  // ==============================================
+  // DÉTAIL D'UN PAIEMENT
+  // ==============================================
+
+  static async getPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const paiement = await PaymentService.getPayment(id!, userId);
+
+      const response: ApiResponse<typeof paiement> = {
+        success: true,
+        message: 'Paiement récupéré',
+        data: paiement,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur récupération paiement:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la récupération du paiement';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'PAYMENT_FETCH_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  // ==============================================
+  // VÉRIFICATION AUPRÈS DE L'OPÉRATEUR
+  // ==============================================
+
+  static async verifyPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      console.log('🔎 Vérification paiement:', { paiementId: id, userId });
+
+      const paiement = await PaymentService.verifyPayment(id!, userId);
+
+      const messages: Record<StatutPaiement, string> = {
+        [StatutPaiement.EN_ATTENTE]: 'Paiement toujours en attente de confirmation',
+        [StatutPaiement.VALIDE]: 'Paiement validé',
+        [StatutPaiement.ECHOUE]: 'Paiement échoué',
+        [StatutPaiement.REMBOURSE]: 'Paiement remboursé',
+        [StatutPaiement.ANNULE]: 'Paiement annulé'
+      };
+
+      const response: ApiResponse<typeof paiement> = {
+        success: true,
+        message: messages[paiement.statut],
+        data: paiement,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur vérification paiement:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la vérification du paiement';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'PAYMENT_VERIFY_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  // ==============================================
+  // WEBHOOKS DES OPÉRATEURS
+  // ==============================================
+
+  /**
+   * Toujours 200 pour une notification authentique, même sans effet :
+   * seules les erreurs (signature, conflit) provoquent un renvoi
+   */
+  static async handleWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const { provider } = req.params;
+
+      const result = await PaymentService.handleWebhook(provider!, {
+        rawBody: req.rawBody || Buffer.from(JSON.stringify(req.body || {})),
+        headers: req.headers,
+        query: req.query as Record<string, any>,
+        body: req.body
+      });
+
+      console.log(`📨 Webhook ${provider}:`, result);
+
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        message: 'Notification reçue',
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur webhook paiement:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du traitement de la notification';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'PAYMENT_WEBHOOK_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+}
+
+// ==============================================
+// MIDDLEWARE D'EXPORTS AVEC VALIDATION
+// ==============================================
+
+export const paymentIdValidation = [
+  ...validatePaymentId,
+  handleValidationErrors
+];
+
+export default PaymentController;
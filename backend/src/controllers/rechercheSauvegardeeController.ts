@@ -0,0 +1,189 @@
+// backend/src/controllers/rechercheSauvegardeeController.ts
+// CONTRÔLEUR RECHERCHES SAUVEGARDÉES ET ALERTES
+
+import { Request, Response } from 'express';
+import RechercheSauvegardeeService from '../services/rechercheSauvegardeeService';
+import { AppError } from '../middleware/errorMiddleware';
+import {
+  rechercheSauvegardeeSchema,
+  updateRechercheSauvegardeeSchema
+} from '../../../shared/src/types';
+import type { ApiResponse, SearchFilters } from '../../../shared/src/types';
+
+// ==============================================
+// CONTRÔLEUR RECHERCHESAUVEGARDEECONTROLLER
+// ==============================================
+
+export class RechercheSauvegardeeController {
+
+  // ==============================================
+  // LISTE DES RECHERCHES
+  // ==============================================
+
+  static async getRecherches(req: Request, res: Response): Promise<void> {
+    try {
+      const recherches = await RechercheSauvegardeeService.getRecherches(req.user!.id);
+
+      const response: ApiResponse<typeof recherches> = {
+        success: true,
+        message: `${recherches.length} recherche(s) sauvegardée(s)`,
+        data: recherches,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur récupération recherches:', error);
+      RechercheSauvegardeeController.sendError(res, error, 'Erreur lors de la récupération des recherches', 'RECHERCHES_FETCH_ERROR');
+    }
+  }
+
+  // ==============================================
+  // CRÉATION
+  // ==============================================
+
+  static async createRecherche(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const validationResult = rechercheSauvegardeeSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        RechercheSauvegardeeController.sendZodErrors(res, 'Recherche invalide', validationResult.error.errors);
+        return;
+      }
+
+      console.log('🔔 Nouvelle recherche sauvegardée:', { userId, nom: validationResult.data.nom });
+
+      const recherche = await RechercheSauvegardeeService.createRecherche(userId, {
+        ...validationResult.data,
+        filtres: validationResult.data.filtres as SearchFilters
+      });
+
+      const response: ApiResponse<typeof recherche> = {
+        success: true,
+        message: 'Recherche sauvegardée : vous serez alerté des nouvelles annonces',
+        data: recherche,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur création recherche:', error);
+      RechercheSauvegardeeController.sendError(res, error, 'Erreur lors de la sauvegarde de la recherche', 'RECHERCHE_CREATE_ERROR');
+    }
+  }
+
+  // ==============================================
+  // MISE À JOUR ET SUPPRESSION
+  // ==============================================
+
+  static async updateRecherche(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = updateRechercheSauvegardeeSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        RechercheSauvegardeeController.sendZodErrors(res, 'Modification invalide', validationResult.error.errors);
+        return;
+      }
+
+      const recherche = await RechercheSauvegardeeService.updateRecherche(
+        req.params['id']!,
+        req.user!.id,
+        validationResult.data
+      );
+
+      const response: ApiResponse<typeof recherche> = {
+        success: true,
+        message: 'Recherche mise à jour',
+        data: recherche,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur mise à jour recherche:', error);
+      RechercheSauvegardeeController.sendError(res, error, 'Erreur lors de la mise à jour de la recherche', 'RECHERCHE_UPDATE_ERROR');
+    }
+  }
+
+  static async deleteRecherche(req: Request, res: Response): Promise<void> {
+    try {
+      await RechercheSauvegardeeService.deleteRecherche(req.params['id']!, req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Recherche supprimée',
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur suppression recherche:', error);
+      RechercheSauvegardeeController.sendError(res, error, 'Erreur lors de la suppression de la recherche', 'RECHERCHE_DELETE_ERROR');
+    }
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static sendZodErrors(
+    res: Response,
+    message: string,
+    errors: { path: (string | number)[]; message: string }[]
+  ): void {
+    const response: ApiResponse = {
+      success: false,
+      message,
+      errors: errors.map(err => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: 'ZOD_VALIDATION_ERROR'
+      })),
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(400).json(response);
+  }
+
+  private static sendError(res: Response, error: unknown, fallback: string, code: string): void {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+    const response: ApiResponse = {
+      success: false,
+      message: errorMessage,
+      errors: [{
+        message: errorMessage,
+        code
+      }],
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+
+    res.status(statusCode).json(response);
+  }
+}
+
+export default RechercheSauvegardeeController;
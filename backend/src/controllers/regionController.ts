@@ -0,0 +1,154 @@
+// backend/src/controllers/regionController.ts
+// CONTRÔLEUR ADMINISTRATION DU RÉFÉRENTIEL GÉOGRAPHIQUE
+
+import { Request, Response } from 'express';
+import RegionService from '../services/regionService';
+import { AppError } from '../middleware/errorMiddleware';
+import { regionSchema, updateRegionSchema } from '../../../shared/src/types';
+import type { ApiResponse } from '../../../shared/src/types';
+
+// ==============================================
+// CONTRÔLEUR REGIONCONTROLLER
+// ==============================================
+
+export class RegionController {
+
+  // ==============================================
+  // RÉFÉRENTIEL COMPLET (RÉGIONS DÉSACTIVÉES COMPRISES)
+  // ==============================================
+
+  static async getArbreAdmin(_req: Request, res: Response): Promise<void> {
+    try {
+      const regions = await RegionService.getArbre({ inclureInactives: true });
+
+      const response: ApiResponse<typeof regions> = {
+        success: true,
+        message: `${regions.length} région(s)`,
+        data: regions,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur référentiel des régions:', error);
+      RegionController.sendError(res, error, 'Erreur lors de la récupération des régions', 'REGIONS_ERROR');
+    }
+  }
+
+  // ==============================================
+  // CRÉATION
+  // ==============================================
+
+  static async createRegion(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = regionSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        RegionController.sendZodErrors(res, 'Région invalide', validationResult.error.errors);
+        return;
+      }
+
+      const region = await RegionService.createRegion(validationResult.data);
+
+      const response: ApiResponse<typeof region> = {
+        success: true,
+        message: 'Région créée',
+        data: region,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur création région:', error);
+      RegionController.sendError(res, error, 'Erreur lors de la création de la région', 'REGION_CREATE_ERROR');
+    }
+  }
+
+  // ==============================================
+  // MODIFICATION, COMMUNES ET QUARTIERS
+  // ==============================================
+
+  static async updateRegion(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = updateRegionSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        RegionController.sendZodErrors(res, 'Modification invalide', validationResult.error.errors);
+        return;
+      }
+
+      const region = await RegionService.updateRegion(req.params['id']!, validationResult.data);
+
+      const response: ApiResponse<typeof region> = {
+        success: true,
+        message: region.actif ? 'Région mise à jour' : 'Région mise à jour (désactivée)',
+        data: region,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur mise à jour région:', error);
+      RegionController.sendError(res, error, 'Erreur lors de la mise à jour de la région', 'REGION_UPDATE_ERROR');
+    }
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static sendZodErrors(
+    res: Response,
+    message: string,
+    errors: { path: (string | number)[]; message: string }[]
+  ): void {
+    const response: ApiResponse = {
+      success: false,
+      message,
+      errors: errors.map(err => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: 'ZOD_VALIDATION_ERROR'
+      })),
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(400).json(response);
+  }
+
+  private static sendError(res: Response, error: unknown, fallback: string, code: string): void {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+    const response: ApiResponse = {
+      success: false,
+      message: errorMessage,
+      errors: [{
+        message: errorMessage,
+        code
+      }],
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+
+    res.status(statusCode).json(response);
+  }
+}
+
+export default RegionController;
@@ -0,0 +1,369 @@
+// backend/src/controllers/signalementController.ts
+// CONTRÔLEUR SIGNALEMENTS ET MODÉRATION
+
+import { Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import SignalementService from '../services/signalementService';
+import { AppError } from '../middleware/errorMiddleware';
+import type { ApiResponse } from '../../../shared/src/types';
+import {
+  MotifSignalement,
+  StatutSignalement,
+  decisionSignalementSchema,
+  signalementSchema
+} from '../../../shared/src/types';
+
+// ==============================================
+// RATE LIMITING SPÉCIALISÉ
+// ==============================================
+
+// Rate limiting pour les signalements (anti-abus)
+export const signalementLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 heure
+  max: 10, // 10 signalements par heure
+  message: {
+    error: 'Limite de signalements atteinte',
+    retryAfter: 60
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ==============================================
+// VALIDATEURS EXPRESS-VALIDATOR
+// ==============================================
+
+export const validateQueue = [
+  query('statut')
+    .optional()
+    .isIn(Object.values(StatutSignalement))
+    .withMessage('Statut de signalement invalide'),
+
+  query('motif')
+    .optional()
+    .isIn(Object.values(MotifSignalement))
+    .withMessage('Motif de signalement invalide'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page doit être un entier positif'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limite doit être entre 1 et 100'),
+];
+
+export const validateSignalementId = [
+  param('id')
+    .trim()
+    .notEmpty()
+    .withMessage('ID signalement requis')
+    .matches(/^[a-zA-Z0-9]+$/)
+    .withMessage('ID signalement invalide'),
+];
+
+// ==============================================
+// MIDDLEWARE DE GESTION D'ERREURS
+// ==============================================
+
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formattedErrors = errors.array().map(error => ({
+      ...(error.type === 'field' && { field: error.path }),
+      message: error.msg,
+      code: 'VALIDATION_ERROR'
+    }));
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Données invalides',
+      errors: formattedErrors,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+
+    return void res.status(400).json(response);
+  }
+  next();
+};
+
+// ==============================================
+// CONTRÔLEUR SIGNALEMENTCONTROLLER
+// ==============================================
+
+export class SignalementController {
+
+  // ==============================================
+  // SIGNALER UNE ANNONCE
+  // ==============================================
+
+  static async createSignalement(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const validationResult = signalementSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Signalement invalide',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ZOD_VALIDATION_ERROR'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+      console.log('🚩 Signalement annonce:', {
+        annonceId: id,
+        userId,
+        motif: validationResult.data.motif,
+        preuves: files.length
+      });
+
+      const signalement = await SignalementService.createSignalement(userId, id!, {
+        ...validationResult.data,
+        preuves: files.map(file => file.buffer)
+      });
+
+      const response: ApiResponse<typeof signalement> = {
+        success: true,
+        message: 'Signalement enregistré, merci pour votre vigilance',
+        data: signalement,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur signalement:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du signalement';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'SIGNALEMENT_CREATION_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  // ==============================================
+  // FILE DE MODÉRATION
+  // ==============================================
+
+  static async getQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const statut = (req.query['statut'] as StatutSignalement) || StatutSignalement.EN_ATTENTE;
+      const motif = req.query['motif'] as MotifSignalement | undefined;
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 20;
+
+      const result = await SignalementService.getQueue({ statut, motif, page, limit });
+
+      const response: ApiResponse<typeof result.signalements> = {
+        success: true,
+        message: `${result.total} signalement(s) ${statut}`,
+        data: result.signalements,
+        meta: {
+          pagination: {
+            page: result.page,
+            limit,
+            total: result.total,
+            totalPages: result.totalPages
+          },
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur file de modération:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        message: 'Erreur lors de la récupération des signalements',
+        errors: [{
+          message: error instanceof Error ? error.message : 'Erreur signalements',
+          code: 'MODERATION_QUEUE_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // ==============================================
+  // PRISE EN CHARGE
+  // ==============================================
+
+  static async prendreEnCharge(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const moderateurId = req.user!.id;
+
+      console.log('🛡️ Prise en charge signalement:', { signalementId: id, moderateurId });
+
+      const signalement = await SignalementService.prendreEnCharge(id!, moderateurId);
+
+      const response: ApiResponse<typeof signalement> = {
+        success: true,
+        message: 'Signalement pris en charge',
+        data: signalement,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur prise en charge:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors de la prise en charge';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'MODERATION_CLAIM_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  // ==============================================
+  // DÉCISION DE MODÉRATION
+  // ==============================================
+
+  static async resoudre(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const moderateurId = req.user!.id;
+
+      const validationResult = decisionSignalementSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Décision invalide',
+          errors: validationResult.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ZOD_VALIDATION_ERROR'
+          })),
+          meta: {
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          }
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      console.log('⚖️ Décision signalement:', {
+        signalementId: id,
+        moderateurId,
+        statut: validationResult.data.statut,
+        suspendreAnnonce: validationResult.data.suspendreAnnonce
+      });
+
+      const signalement = await SignalementService.resoudre(id!, moderateurId, validationResult.data);
+
+      const response: ApiResponse<typeof signalement> = {
+        success: true,
+        message: validationResult.data.suspendreAnnonce
+          ? 'Signalement traité, annonce suspendue'
+          : `Signalement ${validationResult.data.statut === StatutSignalement.TRAITE ? 'traité' : 'rejeté'}`,
+        data: signalement,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur décision signalement:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Erreur lors du traitement';
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+      const response: ApiResponse = {
+        success: false,
+        message: errorMessage,
+        errors: [{
+          message: errorMessage,
+          code: 'MODERATION_DECISION_ERROR'
+        }],
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+}
+
+// ==============================================
+// MIDDLEWARE D'EXPORTS AVEC VALIDATION
+// ==============================================
+
+export const queueValidation = [
+  ...validateQueue,
+  handleValidationErrors
+];
+
+export const signalementIdValidation = [
+  ...validateSignalementId,
+  handleValidationErrors
+];
+
+export default SignalementController;
@@ -0,0 +1,132 @@
+// backend/src/controllers/statistiqueController.ts
+// CONTRÔLEUR STATISTIQUES VENDEUR
+
+import { Request, Response } from 'express';
+import StatistiqueService from '../services/statistiqueService';
+import { AppError } from '../middleware/errorMiddleware';
+import { periodeStatistiquesSchema } from '../../../shared/src/types';
+import type { ApiResponse } from '../../../shared/src/types';
+
+// ==============================================
+// CONTRÔLEUR STATISTIQUECONTROLLER
+// ==============================================
+
+export class StatistiqueController {
+
+  // ==============================================
+  // STATISTIQUES DU COMPTE VENDEUR
+  // ==============================================
+
+  static async getStatistiquesVendeur(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = periodeStatistiquesSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        StatistiqueController.sendZodErrors(res, 'Période invalide', validationResult.error.errors);
+        return;
+      }
+
+      const statistiques = await StatistiqueService.getStatistiquesVendeur(req.user!.id, validationResult.data);
+
+      const response: ApiResponse<typeof statistiques> = {
+        success: true,
+        message: 'Statistiques récupérées avec succès',
+        data: statistiques,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur statistiques vendeur:', error);
+      StatistiqueController.sendError(res, error, 'Erreur lors de la récupération des statistiques', 'STATS_ERROR');
+    }
+  }
+
+  // ==============================================
+  // STATISTIQUES D'UNE ANNONCE (PROPRIÉTAIRE)
+  // ==============================================
+
+  static async getStatistiquesAnnonce(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = periodeStatistiquesSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        StatistiqueController.sendZodErrors(res, 'Période invalide', validationResult.error.errors);
+        return;
+      }
+
+      const statistiques = await StatistiqueService.getStatistiquesAnnonce(
+        req.params['id']!,
+        req.user!.id,
+        validationResult.data
+      );
+
+      const response: ApiResponse<typeof statistiques> = {
+        success: true,
+        message: 'Statistiques récupérées avec succès',
+        data: statistiques,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error) {
+      console.error('❌ Erreur statistiques annonce:', error);
+      StatistiqueController.sendError(res, error, 'Erreur lors de la récupération des statistiques', 'STATS_ERROR');
+    }
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static sendZodErrors(
+    res: Response,
+    message: string,
+    errors: { path: (string | number)[]; message: string }[]
+  ): void {
+    const response: ApiResponse = {
+      success: false,
+      message,
+      errors: errors.map(err => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: 'ZOD_VALIDATION_ERROR'
+      })),
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(400).json(response);
+  }
+
+  private static sendError(res: Response, error: unknown, fallback: string, code: string): void {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+
+    const response: ApiResponse = {
+      success: false,
+      message: errorMessage,
+      errors: [{
+        message: errorMessage,
+        code
+      }],
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+
+    res.status(statusCode).json(response);
+  }
+}
+
+export default StatistiqueController;
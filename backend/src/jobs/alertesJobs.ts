@@ -0,0 +1,17 @@
+// backend/src/jobs/alertesJobs.ts
+// DIGESTS DES ALERTES DE RECHERCHES SAUVEGARDÉES
+
+import RechercheSauvegardeeService from '../services/rechercheSauvegardeeService';
+import { FrequenceAlerte } from '../../../shared/src/types';
+import type { JobDefinition } from './jobRunner';
+
+const DIGEST_INTERVAL_MS = parseInt(process.env['ALERTES_DIGEST_INTERVAL_MS'] || '3600000'); // 1 heure
+
+export const digestAlertesJob: JobDefinition = {
+  name: 'digests-alertes',
+  intervalMs: DIGEST_INTERVAL_MS,
+  run: async () => ({
+    digestsQuotidiens: await RechercheSauvegardeeService.sendDigests(FrequenceAlerte.QUOTIDIENNE),
+    digestsHebdomadaires: await RechercheSauvegardeeService.sendDigests(FrequenceAlerte.HEBDOMADAIRE)
+  })
+};
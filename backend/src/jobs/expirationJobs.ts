@@ -0,0 +1,27 @@
+// backend/src/jobs/expirationJobs.ts
+// TÂCHES D'EXPIRATION DES ANNONCES, BOOSTS ET ABONNEMENTS
+
+import ExpirationService from '../services/expirationService';
+import type { JobDefinition } from './jobRunner';
+
+const EXPIRATION_INTERVAL_MS = parseInt(process.env['EXPIRATION_JOB_INTERVAL_MS'] || '900000'); // 15 minutes
+const RAPPEL_INTERVAL_MS = parseInt(process.env['RAPPEL_JOB_INTERVAL_MS'] || '3600000'); // 1 heure
+
+export const expirationJob: JobDefinition = {
+  name: 'expiration-annonces',
+  intervalMs: EXPIRATION_INTERVAL_MS,
+  runOnStart: true,
+  run: async () => ({
+    annoncesExpirees: await ExpirationService.expireAnnonces(),
+    boostsTermines: await ExpirationService.expireBoosts(),
+    abonnementsExpires: await ExpirationService.expireAbonnements()
+  })
+};
+
+export const rappelExpirationJob: JobDefinition = {
+  name: 'rappels-expiration',
+  intervalMs: RAPPEL_INTERVAL_MS,
+  run: async () => ({
+    rappelsEnvoyes: await ExpirationService.sendExpirationReminders()
+  })
+};
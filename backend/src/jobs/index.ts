@@ -0,0 +1,18 @@
+// backend/src/jobs/index.ts
+// ENREGISTREMENT DES TÂCHES PLANIFIÉES
+
+import { registerJob, startJobs, stopJobs } from './jobRunner';
+import { paymentReconciliationJob } from './paymentReconciliation';
+import { expirationJob, rappelExpirationJob } from './expirationJobs';
+import { digestAlertesJob } from './alertesJobs';
+import { tendancesJob } from './tendancesJobs';
+import { vocabulaireJob } from './suggestionsJobs';
+
+registerJob(paymentReconciliationJob);
+registerJob(expirationJob);
+registerJob(rappelExpirationJob);
+registerJob(digestAlertesJob);
+registerJob(tendancesJob);
+registerJob(vocabulaireJob);
+
+export { startJobs, stopJobs };
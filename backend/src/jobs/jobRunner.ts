@@ -0,0 +1,93 @@
+// backend/src/jobs/jobRunner.ts
+// PLANIFICATEUR DES TÂCHES DE FOND (EXPIRATIONS, RAPPELS, RÉCONCILIATION)
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<Record<string, number> | void>;
+  runOnStart?: boolean;
+}
+
+interface JobState {
+  definition: JobDefinition;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  lastRunAt?: Date;
+  lastDurationMs?: number;
+  lastError?: string;
+}
+
+const jobs = new Map<string, JobState>();
+
+// ==============================================
+// ENREGISTREMENT ET EXÉCUTION
+// ==============================================
+
+export const registerJob = (definition: JobDefinition): void => {
+  if (jobs.has(definition.name)) {
+    throw new Error(`Tâche déjà enregistrée: ${definition.name}`);
+  }
+  jobs.set(definition.name, { definition, timer: null, running: false });
+};
+
+/**
+ * Exécute une tâche ; ignorée si l'exécution précédente n'est pas terminée
+ */
+export const runJob = async (name: string): Promise<void> => {
+  const state = jobs.get(name);
+  if (!state || state.running) return;
+
+  state.running = true;
+  const startedAt = Date.now();
+
+  try {
+    const report = await state.definition.run();
+    delete state.lastError;
+
+    if (report && Object.values(report).some(count => count > 0)) {
+      console.log(`⏱️ Tâche ${name}:`, report);
+    }
+
+  } catch (error) {
+    state.lastError = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Erreur tâche ${name}:`, error);
+  } finally {
+    state.running = false;
+    state.lastRunAt = new Date(startedAt);
+    state.lastDurationMs = Date.now() - startedAt;
+  }
+};
+
+/**
+ * Démarre toutes les tâches enregistrées. Désactivable par JOBS_ENABLED=false,
+ * par exemple pour ne les exécuter que sur une seule instance.
+ */
+export const startJobs = (): void => {
+  if (process.env['NODE_ENV'] === 'test' || process.env['JOBS_ENABLED'] === 'false') return;
+
+  for (const [name, state] of jobs) {
+    if (state.timer) continue;
+
+    state.timer = setInterval(() => runJob(name), state.definition.intervalMs);
+    state.timer.unref();
+
+    if (state.definition.runOnStart) {
+      setImmediate(() => runJob(name));
+    }
+
+    console.log(`⏱️ Tâche ${name} toutes les ${Math.round(state.definition.intervalMs / 60000)} min`);
+  }
+};
+
+export const stopJobs = (): void => {
+  for (const state of jobs.values()) {
+    if (state.timer) {
+      clearInterval(state.timer);
+      state.timer = null;
+    }
+  }
+};
@@ -0,0 +1,33 @@
+// backend/src/jobs/paymentReconciliation.ts
+// RÉCONCILIATION PÉRIODIQUE DES PAIEMENTS EN ATTENTE
+
+import PaymentService from '../services/paymentService';
+import type { JobDefinition } from './jobRunner';
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const RECONCILIATION_CONFIG = {
+  INTERVAL_MS: parseInt(process.env['PAYMENT_RECONCILIATION_INTERVAL_MS'] || '600000'), // 10 minutes
+  PENDING_TIMEOUT_MIN: parseInt(process.env['PAYMENT_PENDING_TIMEOUT_MIN'] || '15'),
+  ABANDON_AFTER_HOURS: parseInt(process.env['PAYMENT_ABANDON_AFTER_HOURS'] || '24'),
+  BATCH_SIZE: 50
+};
+
+// ==============================================
+// TÂCHE
+// ==============================================
+
+export const paymentReconciliationJob: JobDefinition = {
+  name: 'reconciliation-paiements',
+  intervalMs: RECONCILIATION_CONFIG.INTERVAL_MS,
+  run: async () => {
+    const report = await PaymentService.reconcilePendingPayments({
+      olderThanMinutes: RECONCILIATION_CONFIG.PENDING_TIMEOUT_MIN,
+      abandonAfterHours: RECONCILIATION_CONFIG.ABANDON_AFTER_HOURS,
+      batchSize: RECONCILIATION_CONFIG.BATCH_SIZE
+    });
+    return { ...report };
+  }
+};
@@ -0,0 +1,15 @@
+// backend/src/jobs/suggestionsJobs.ts
+// RAFRAÎCHISSEMENT DU VOCABULAIRE DE CORRECTION ORTHOGRAPHIQUE
+
+import SuggestionService from '../services/suggestionService';
+import type { JobDefinition } from './jobRunner';
+
+const VOCABULAIRE_INTERVAL_MS = parseInt(process.env['VOCABULAIRE_JOB_INTERVAL_MS'] || '3600000'); // 1 heure
+
+export const vocabulaireJob: JobDefinition = {
+  name: 'vocabulaire-suggestions',
+  intervalMs: VOCABULAIRE_INTERVAL_MS,
+  run: async () => ({
+    mots: await SuggestionService.refreshVocabulaire()
+  })
+};
@@ -0,0 +1,16 @@
+// backend/src/jobs/tendancesJobs.ts
+// RECALCUL DU FIL TENDANCES
+
+import TendanceService from '../services/tendanceService';
+import type { JobDefinition } from './jobRunner';
+
+const TENDANCES_INTERVAL_MS = parseInt(process.env['TENDANCES_JOB_INTERVAL_MS'] || '900000'); // 15 minutes
+
+export const tendancesJob: JobDefinition = {
+  name: 'tendances-annonces',
+  intervalMs: TENDANCES_INTERVAL_MS,
+  runOnStart: true,
+  run: async () => ({
+    annoncesEnTendance: await TendanceService.recompute()
+  })
+};
@@ -0,0 +1,168 @@
+// backend/src/lib/cacheStore.ts
+// STOCKAGE DE CACHE AVEC ÉTIQUETTES (MÉMOIRE OU REDIS)
+
+import Redis from 'ioredis';
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+export interface CacheSetOptions {
+  ttlSeconds: number;
+  tags: string[];
+}
+
+/**
+ * Contrat commun aux stockages de cache. Les valeurs sont sérialisées en
+ * JSON (les dates ressortent en chaînes ISO, comme dans les réponses de l'API).
+ * Invalider une étiquette supprime toutes les entrées qui la portent
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, options: CacheSetOptions): Promise<void>;
+  /** Retourne le nombre d'entrées supprimées */
+  invalidateTags(tags: string[]): Promise<number>;
+}
+
+// ==============================================
+// IMPLÉMENTATION EN MÉMOIRE (INSTANCE UNIQUE)
+// ==============================================
+
+const MEMORY_MAX_ENTRIES = 2000;
+
+export class InMemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number; tags: string[] }>();
+  private keysByTag = new Map<string, Set<string>>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return null;
+    }
+
+    return JSON.parse(entry.value) as T;
+  }
+
+  async set<T>(key: string, value: T, options: CacheSetOptions): Promise<void> {
+    this.delete(key);
+
+    if (this.entries.size >= MEMORY_MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.delete(oldest);
+    }
+
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: Date.now() + options.ttlSeconds * 1000,
+      tags: options.tags
+    });
+
+    for (const tag of options.tags) {
+      const keys = this.keysByTag.get(tag) || new Set<string>();
+      keys.add(key);
+      this.keysByTag.set(tag, keys);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let count = 0;
+
+    for (const tag of tags) {
+      for (const key of this.keysByTag.get(tag) || []) {
+        if (this.delete(key)) count++;
+      }
+      this.keysByTag.delete(tag);
+    }
+
+    return count;
+  }
+
+  private delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    this.entries.delete(key);
+
+    for (const tag of entry.tags) {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.keysByTag.delete(tag);
+    }
+
+    return true;
+  }
+}
+
+// ==============================================
+// IMPLÉMENTATION REDIS (MULTI-INSTANCES)
+// ==============================================
+
+// Les ensembles d'étiquettes survivent aux entrées qu'ils référencent
+const TAG_TTL_SECONDS = 24 * 60 * 60;
+
+export class RedisCacheStore implements CacheStore {
+  constructor(private readonly redis: Redis) {}
+
+  private entryKey(key: string): string {
+    return `cache:entry:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `cache:tag:${tag}`;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.redis.get(this.entryKey(key));
+    return value === null ? null : JSON.parse(value) as T;
+  }
+
+  async set<T>(key: string, value: T, options: CacheSetOptions): Promise<void> {
+    const multi = this.redis
+      .multi()
+      .set(this.entryKey(key), JSON.stringify(value), 'EX', options.ttlSeconds);
+
+    for (const tag of options.tags) {
+      multi
+        .sadd(this.tagKey(tag), key)
+        .expire(this.tagKey(tag), TAG_TTL_SECONDS);
+    }
+
+    await multi.exec();
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    if (tags.length === 0) return 0;
+
+    const members = await Promise.all(tags.map(tag => this.redis.smembers(this.tagKey(tag))));
+    const keys = [...new Set(members.flat())];
+
+    const multi = this.redis.multi();
+    if (keys.length > 0) multi.del(...keys.map(key => this.entryKey(key)));
+    multi.del(...tags.map(tag => this.tagKey(tag)));
+
+    const results = await multi.exec();
+
+    return keys.length > 0 ? Number(results?.[0]?.[1] || 0) : 0;
+  }
+}
+
+// ==============================================
+// FABRIQUE
+// ==============================================
+
+/**
+ * Redis si REDIS_URL est défini (plusieurs instances), mémoire sinon
+ */
+export const createCacheStore = (): CacheStore => {
+  if (process.env['REDIS_URL']) {
+    console.log('🗄️ Cache: stockage Redis');
+    // Redis indisponible : échec rapide, la requête est servie sans cache
+    return new RedisCacheStore(new Redis(process.env['REDIS_URL'], { maxRetriesPerRequest: 1 }));
+  }
+
+  console.log('🗄️ Cache: stockage en mémoire');
+  return new InMemoryCacheStore();
+};
@@ -5,6 +5,7 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import type { ApiResponse, User, UserStatus } from '../../../shared/src/types';
+import { UserRole } from '../../../shared/src/types';
 
 const prisma = new PrismaClient();
 
@@ -15,6 +16,7 @@ const prisma = new PrismaClient();
 interface TokenPayload {
   userId: string;
   email: string;
+  role?: UserRole;
   type: 'access' | 'refresh' | 'verification' | 'reset';
   iat?: number;
   exp?: number;
@@ -40,6 +42,7 @@ declare global {
         iat: number;
         exp: number;
       };
+      rawBody?: Buffer;
     }
   }
 }
@@ -195,6 +198,7 @@ export const authenticateToken = async (
             emailVerified: true,
             phoneVerified: true,
             status: true,
+            role: true,
             createdAt: true,
             updatedAt: true,
             lastLoginAt: true
@@ -286,12 +290,15 @@ export const authenticateToken = async (
       return;
     }
 
-    // Vérifier la cohérence email du token vs DB
-    if (user.email !== payload.email) {
-      console.warn('⚠️ Incohérence email token/DB:', {
+    // Vérifier la cohérence email et rôle du token vs DB
+    // (un changement de rôle impose une reconnexion)
+    if (user.email !== payload.email || (payload.role && payload.role !== user.role)) {
+      console.warn('⚠️ Incohérence token/DB:', {
         userId: user.id,
         tokenEmail: payload.email,
-        dbEmail: user.email
+        dbEmail: user.email,
+        tokenRole: payload.role,
+        dbRole: user.role
       });
       
       revokedTokens.add(token);
@@ -529,6 +536,59 @@ export const requirePhoneVerified = (
   next();
 };
 
+/**
+ * Middleware pour vérifier que l'utilisateur possède l'un des rôles donnés
+ * Le rôle est lu depuis la base (req.user), jamais depuis le seul token
+ */
+export const requireRole = (...roles: UserRole[]) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Authentification requise',
+      errors: [{
+        message: 'Vous devez être connecté',
+        code: 'AUTHENTICATION_REQUIRED'
+      }],
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  if (!roles.includes(req.user.role)) {
+    console.warn('⛔ Accès refusé (rôle):', {
+      userId: req.user.id,
+      role: req.user.role,
+      requis: roles,
+      url: req.originalUrl
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Accès refusé',
+      errors: [{
+        message: 'Vous n\'avez pas les droits nécessaires pour cette action',
+        code: 'ROLE_REQUIRED'
+      }],
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    };
+    res.status(403).json(response);
+    return;
+  }
+
+  next();
+};
+
 // ==============================================
 // MIDDLEWARE COMBINÉS
 // ==============================================
@@ -558,10 +618,40 @@ export const requireFullVerification = [
   requirePhoneVerified
 ];
 
+/**
+ * Middleware combiné : Authentification + Modérateur ou administrateur
+ */
+export const requireModerator = [
+  authenticateToken,
+  requireRole(UserRole.MODERATOR, UserRole.ADMIN)
+];
+
 // ==============================================
 // FONCTIONS UTILITAIRES
 // ==============================================
 
+/**
+ * Vérifie un access token hors requête HTTP (WebSocket, etc.)
+ * Lève une erreur si le token est révoqué, invalide ou d'un autre type
+ */
+export const verifyAccessToken = (token: string): TokenPayload => {
+  if (revokedTokens.has(token)) {
+    throw new Error('Token révoqué');
+  }
+
+  const payload = jwt.verify(token, JWT_CONFIG.SECRET, {
+    issuer: JWT_CONFIG.ISSUER,
+    audience: JWT_CONFIG.AUDIENCE,
+    algorithms: [JWT_CONFIG.ALGORITHM]
+  }) as TokenPayload;
+
+  if (payload.type !== 'access') {
+    throw new Error('Type de token invalide');
+  }
+
+  return payload;
+};
+
 /**
  * Révoque un token spécifique
  */
@@ -673,9 +763,11 @@ export default {
   requireProfessional,
   requireEmailVerified,
   requirePhoneVerified,
+  requireRole,
   requireAuthAndEmailVerified,
   requireAuthAndProfessional,
   requireFullVerification,
+  requireModerator,
   revokeToken,
   revokeAllUserTokens,
   clearUserCache,
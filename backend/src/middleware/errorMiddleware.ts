@@ -169,6 +169,12 @@ export class PaymentError extends AppError {
   }
 }
 
+export class QuotaError extends AppError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 402, ErrorTypes.BUSINESS_LOGIC_ERROR, true, context);
+  }
+}
+
 // ==============================================
 // MAPPAGE ERREURS EXTERNES
 // ==============================================
@@ -590,6 +596,7 @@ export default {
   DuplicateError,
   RateLimitError,
   PaymentError,
+  QuotaError,
   
   // Enums
   ErrorTypes,
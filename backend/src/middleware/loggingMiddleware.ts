@@ -99,6 +99,44 @@ interface SecurityEvent {
 // DÉTECTION ACTIVITÉS SUSPECTES
 // ==============================================
 
+// Bots malveillants (aspirateurs, scripts)
+const MALICIOUS_BOTS = [
+  /scrapy/i,
+  /crawler/i,
+  /bot/i,
+  /spider/i,
+  /harvest/i,
+  /extract/i,
+  /libwww-perl/i,
+  /python-requests/i,
+  /curl/i,
+  /wget/i
+];
+
+// Exception pour les bots légitimes (moteurs de recherche, aperçus de liens)
+const LEGITIMATE_BOTS = [
+  /googlebot/i,
+  /bingbot/i,
+  /slurp/i,
+  /duckduckbot/i,
+  /baiduspider/i,
+  /yandexbot/i,
+  /facebookexternalhit/i,
+  /twitterbot/i,
+  /linkedinbot/i,
+  /whatsapp/i
+];
+
+/**
+ * Nature du client d'après son User-Agent : bot malveillant, bot légitime,
+ * ou null pour un navigateur
+ */
+export const detectBot = (userAgent: string): 'MALICIOUS' | 'LEGITIMATE' | null => {
+  if (LEGITIMATE_BOTS.some(pattern => pattern.test(userAgent))) return 'LEGITIMATE';
+  if (MALICIOUS_BOTS.some(pattern => pattern.test(userAgent))) return 'MALICIOUS';
+  return null;
+};
+
 /**
  * Détecte les patterns suspects dans les requêtes
  */
@@ -160,38 +198,8 @@ const detectSuspiciousActivity = (req: Request): SecurityEvent | null => {
     }
   }
   
-  // Détection bots malveillants
-  const maliciousBots = [
-    /scrapy/i,
-    /crawler/i,
-    /bot/i,
-    /spider/i,
-    /harvest/i,
-    /extract/i,
-    /libwww-perl/i,
-    /python-requests/i,
-    /curl/i,
-    /wget/i
-  ];
-  
-  // Exception pour les bots légitimes
-  const legitimateBots = [
-    /googlebot/i,
-    /bingbot/i,
-    /slurp/i,
-    /duckduckbot/i,
-    /baiduspider/i,
-    /yandexbot/i,
-    /facebookexternalhit/i,
-    /twitterbot/i,
-    /linkedinbot/i,
-    /whatsapp/i
-  ];
-  
-  const isMalicious = maliciousBots.some(pattern => pattern.test(userAgent));
-  const isLegitimate = legitimateBots.some(pattern => pattern.test(userAgent));
-  
-  if (isMalicious && !isLegitimate) {
+  // Détection bots malveillants (les bots légitimes sont tolérés)
+  if (detectBot(userAgent) === 'MALICIOUS') {
     return {
       type: 'SUSPICIOUS_REQUEST',
       severity: 'MEDIUM',
@@ -5,8 +5,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodSchema, ZodError } from 'zod';
 import { 
-  REGIONS_COTE_IVOIRE, 
-  CATEGORIES_CI, 
   StatutAnnonce, 
   EtatProduit,
   MethodePaiement,
@@ -16,6 +14,8 @@ import {
 import rateLimit from 'express-rate-limit';
 import validator from 'validator';
 import { createHash } from 'crypto';
+import CategorieService from '../services/categorieService';
+import RegionService from '../services/regionService';
 
 // ==============================================
 // UTILITAIRES DE VALIDATION CÔTE D'IVOIRE
@@ -79,6 +79,45 @@ const validateContentSafety = (text: string): boolean => {
   return !suspiciousPatterns.some(pattern => pattern.test(text));
 };
 
+/**
+ * Commune rattachée à sa région dans le référentiel (table regions_ci).
+ * Ne vérifie rien tant que la région ou la commune manque
+ */
+const communeDansRegion = async (
+  data: { region?: string | undefined; commune?: string | undefined },
+  ctx: z.RefinementCtx
+): Promise<void> => {
+  if (!data.region || !data.commune) return;
+
+  if (await RegionService.isRegionValide(data.region) && !(await RegionService.isCommuneValide(data.region, data.commune))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Commune invalide pour cette région',
+      path: ['commune']
+    });
+  }
+};
+
+/**
+ * Sous-catégorie active de sa catégorie dans le référentiel (table categories).
+ * Ne vérifie rien tant que la catégorie ou la sous-catégorie manque
+ */
+const sousCategorieDansCategorie = async (
+  data: { categorie?: string | undefined; sousCategorie?: string | undefined },
+  ctx: z.RefinementCtx
+): Promise<void> => {
+  if (!data.categorie || !data.sousCategorie) return;
+
+  const sousCategories = await CategorieService.getSousCategories(data.categorie);
+  if (sousCategories.length > 0 && !sousCategories.includes(data.sousCategorie)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Sous-catégorie invalide pour cette catégorie',
+      path: ['sousCategorie']
+    });
+  }
+};
+
 // ==============================================
 // SCHÉMAS ZOD RÉVOLUTIONNAIRES
 // ==============================================
@@ -196,29 +235,21 @@ const createAnnonceSchema = z.object({
   negociable: z.boolean().default(true),
   
   categorie: z.string()
-    .refine(val => Object.keys(CATEGORIES_CI).includes(val), 'Catégorie invalide'),
+    .refine(async val => await CategorieService.isCategorieValide(val), 'Catégorie invalide'),
     
+  // Appartenance à la catégorie vérifiée par sousCategorieDansCategorie
   sousCategorie: z.string()
-    .optional()
-    .refine((val, ctx) => {
-      if (!val) return true;
-      const categorie = ctx.parent.categorie;
-      const category = CATEGORIES_CI[categorie as keyof typeof CATEGORIES_CI];
-      return category?.sousCategories?.includes(val);
-    }, 'Sous-catégorie invalide pour cette catégorie'),
+    .optional(),
     
   etat: z.nativeEnum(EtatProduit).optional(),
   
   // Géolocalisation Côte d'Ivoire
   region: z.string()
-    .refine(val => Object.keys(REGIONS_COTE_IVOIRE).includes(val), 'Région invalide'),
+    .refine(val => RegionService.isRegionValide(val), 'Région invalide'),
     
+  // Appartenance à la région vérifiée par communeDansRegion
   commune: z.string()
-    .refine((val, ctx) => {
-      const region = ctx.parent.region;
-      const regionData = REGIONS_COTE_IVOIRE[region as keyof typeof REGIONS_COTE_IVOIRE];
-      return regionData?.communes?.includes(val);
-    }, 'Commune invalide pour cette région'),
+    .min(1, 'Commune requise'),
     
   quartier: z.string()
     .max(100, 'Quartier trop long (max 100 caractères)')
@@ -308,11 +339,11 @@ const searchSchema = z.object({
     .transform(val => val?.trim()),
     
   categorie: z.string()
-    .refine(val => !val || Object.keys(CATEGORIES_CI).includes(val), 'Catégorie invalide')
+    .refine(async val => !val || await CategorieService.isCategorieValide(val), 'Catégorie invalide')
     .optional(),
     
   region: z.string()
-    .refine(val => !val || Object.keys(REGIONS_COTE_IVOIRE).includes(val), 'Région invalide')
+    .refine(async val => !val || await RegionService.isRegionValide(val), 'Région invalide')
     .optional(),
     
   commune: z.string().optional(),
@@ -452,20 +483,23 @@ export const validateLogin = createValidationMiddleware(loginSchema, 'body');
 /**
  * 📢 Validation création d'annonce
  */
-export const validateCreateAnnonce = createValidationMiddleware(createAnnonceSchema, 'body');
+export const validateCreateAnnonce = createValidationMiddleware(
+  createAnnonceSchema.superRefine(communeDansRegion).superRefine(sousCategorieDansCategorie),
+  'body'
+);
 
 /**
  * 📝 Validation modification d'annonce (schema partiel)
  */
 export const validateUpdateAnnonce = createValidationMiddleware(
-  createAnnonceSchema.partial(), 
+  createAnnonceSchema.partial().superRefine(communeDansRegion).superRefine(sousCategorieDansCategorie),
   'body'
 );
 
 /**
  * 🔍 Validation recherche avancée
  */
-export const validateSearch = createValidationMiddleware(searchSchema, 'query');
+export const validateSearch = createValidationMiddleware(searchSchema.superRefine(communeDansRegion), 'query');
 
 /**
  * 💰 Validation boost d'annonce
@@ -0,0 +1,68 @@
+// backend/src/routes/abonnementRoutes.ts
+// ROUTES ABONNEMENTS PRO
+
+import { Router } from 'express';
+import AbonnementController, { abonnementPaymentLimit } from '../controllers/abonnementController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// ==============================================
+// ROUTES PUBLIQUES
+// ==============================================
+
+/**
+ * 📋 GET /api/abonnements/plans
+ * Plans et droits associés (quotas, durée des annonces, images, boosts inclus)
+ */
+router.get('/plans',
+  AbonnementController.getPlans
+);
+
+// ==============================================
+// ROUTES AUTHENTIFIÉES
+// ==============================================
+
+/**
+ * 👤 GET /api/abonnements/moi
+ * Plan courant, abonnement en cours et consommation des quotas
+ */
+router.get('/moi',
+  authenticateToken,
+  AbonnementController.getMonPlan
+);
+
+/**
+ * 💳 POST /api/abonnements
+ * Souscrire à l'abonnement Pro mensuel
+ *
+ * Body params:
+ * - methode: ORANGE_MONEY | WAVE | MOOV_MONEY | STRIPE
+ * - numeroTelephone: requis pour le paiement mobile
+ */
+router.post('/',
+  abonnementPaymentLimit,
+  authenticateToken,
+  AbonnementController.souscrire
+);
+
+/**
+ * 🔁 POST /api/abonnements/renouveler
+ * Payer une période supplémentaire (réactive un abonnement résilié)
+ */
+router.post('/renouveler',
+  abonnementPaymentLimit,
+  authenticateToken,
+  AbonnementController.renouveler
+);
+
+/**
+ * 🛑 POST /api/abonnements/resilier
+ * Résilier en fin de période
+ */
+router.post('/resilier',
+  authenticateToken,
+  AbonnementController.resilier
+);
+
+export default router;
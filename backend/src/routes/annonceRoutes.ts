@@ -2,26 +2,19 @@
 // ROUTES ANNONCES RÉVOLUTIONNAIRES - NIVEAU GOOGLE/TESLA
 // Créé pour dominer le marché des petites annonces en Côte d'Ivoire
 
-import { Router } from 'express';
+import { Router, text } from 'express';
 import multer from 'multer';
 import { rateLimit } from 'express-rate-limit';
-import {
-  creerAnnonce,
-  obtenirAnnonces,
-  obtenirAnnonceParId,
-  modifierAnnonce,
-  supprimerAnnonce,
-  obtenirMesAnnonces,
-  ajouterAuxFavoris,
-  supprimerDesFavoris,
-  obtenirFavoris,
-  boosterAnnonce,
-  marquerCommeVendue,
-  obtenirRecommandations,
-  rechercherAnnonces,
-  obtenirStatistiques
+import AnnonceController, {
+  adminAnnoncesValidation,
+  createAnnonceValidation,
+  handleImageUpload,
+  uploadLimit
 } from '../controllers/annonceController';
-import { authenticateJWT, optionalAuth } from '../middleware/authMiddleware';
+import SignalementController, { signalementLimit } from '../controllers/signalementController';
+import StatistiqueController from '../controllers/statistiqueController';
+import { authenticateToken, optionalAuth, requireRole } from '../middleware/authMiddleware';
+import { UserRole } from '../../../shared/src/types';
 
 const router = Router();
 
@@ -103,6 +96,59 @@ const actionLimit = rateLimit({
   }
 });
 
+// Rate limiting affichage des coordonnées - Anti-collecte des numéros
+// Par compte si connecté (plafond plus large), par IP sinon
+const contactLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 heure
+  max: (req) => (req.user ? 30 : 10),
+  keyGenerator: (req) => (req.user ? `user:${req.user.id}` : `ip:${req.ip}`),
+  message: {
+    error: '📵 Trop de coordonnées affichées',
+    message: 'Réessayez dans une heure ou connectez-vous',
+    retryAfter: '1 heure'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// ==============================================
+// ROUTES UTILISATEUR PERSONNEL
+// (déclarées avant /api/annonces/:id qui les masquerait)
+// ==============================================
+
+/**
+ * 👤 GET /api/annonces/mes-annonces
+ * Obtenir toutes les annonces de l'utilisateur connecté
+ * Inclut brouillons, actives, vendues et supprimées
+ * Statistiques détaillées par annonce
+ *
+ * Query params:
+ * - statut: Filtrer par statut
+ * - page, limit: Pagination par page (défaut)
+ * - pagination=curseur, curseur: Défilement infini (meta.pagination.nextCursor)
+ */
+router.get('/api/annonces/mes-annonces',
+  readLimit,
+  authenticateToken,
+  AnnonceController.getMyAnnonces
+);
+
+/**
+ * 📊 GET /api/annonces/mes-annonces/statistiques
+ * Statistiques cumulées de toutes les annonces du vendeur, avec le détail par annonce
+ * Vues, favoris, messages, clics contact, affichages et position moyenne en recherche
+ * Série temporelle et sources de trafic
+ *
+ * Query params:
+ * - debut, fin: Dates AAAA-MM-JJ incluses (défaut: 30 derniers jours)
+ * - granularite: jour | semaine | mois (défaut: jour)
+ */
+router.get('/api/annonces/mes-annonces/statistiques',
+  readLimit,
+  authenticateToken,
+  StatistiqueController.getStatistiquesVendeur
+);
+
 // ==============================================
 // ROUTES PUBLIQUES (LECTURE SANS AUTHENTIFICATION)
 // ==============================================
@@ -120,113 +166,192 @@ const actionLimit = rateLimit({
  * - commune: Filtrer par commune
  * - prixMin: Prix minimum en XOF
  * - prixMax: Prix maximum en XOF
- * - q: Recherche textuelle
- * - sortBy: Tri (recent, prix_asc, prix_desc, popularite)
+ * - q: Recherche plein texte (français, accents ignorés)
+ * - sortBy: Tri (recent, prix_asc, prix_desc, pertinence, distance)
+ * - latitude, longitude: Position de l'utilisateur (tri par distance)
+ * - rayon: Rayon de recherche en km autour de la position (1 à 100)
+ * - totalApproximatif: true pour un total mis en cache (pages SEO, mode page)
+ * - pagination: page (défaut) ou curseur (défilement infini, sans total)
+ * - curseur: meta.pagination.nextCursor de la réponse précédente
  */
-router.get('/api/annonces', readLimit, optionalAuth, obtenirAnnonces);
+router.get('/api/annonces', readLimit, optionalAuth, AnnonceController.searchAnnonces);
 
 /**
  * 🔍 GET /api/annonces/rechercher
  * Recherche avancée avec IA et géolocalisation
  * Supporte la recherche sémantique et les suggestions automatiques
  */
-router.get('/api/annonces/rechercher', searchLimit, optionalAuth, rechercherAnnonces);
+router.get('/api/annonces/rechercher', searchLimit, optionalAuth, AnnonceController.searchAnnonces);
+
+/**
+ * 💡 GET /api/annonces/suggestions
+ * Autocomplétion de la barre de recherche (requêtes populaires, titres, mots-clés,
+ * sous-catégories, marques et modèles) et "Vouliez-vous dire…" si aucun résultat
+ *
+ * Query params:
+ * - q: Saisie en cours (2 caractères minimum)
+ * - limit: Nombre de suggestions (défaut: 10, max: 20)
+ * - soumise: true quand la requête est validée (correction orthographique)
+ */
+router.get('/api/annonces/suggestions', searchLimit, AnnonceController.getSuggestions);
+
+/**
+ * ✨ GET /api/annonces/pour-vous
+ * Fil personnalisé : annonces classées selon les consultations, favoris,
+ * messages et recherches sauvegardées de l'utilisateur (catégorie, prix,
+ * proximité, fraîcheur). Visiteur anonyme : tendances de sa région
+ *
+ * Query params:
+ * - limit: Nombre d'annonces (défaut: 20, max: 50)
+ * - region: Région des tendances (défaut: région du profil)
+ */
+router.get('/api/annonces/pour-vous', readLimit, optionalAuth, AnnonceController.getPourVous);
+
+/**
+ * 🔥 GET /api/annonces/tendances
+ * Annonces les plus consultées, mises en favori et contactées ces 7 derniers
+ * jours (activité récente favorisée), recalculées toutes les 15 minutes
+ *
+ * Query params:
+ * - region: Tendances d'une région
+ * - categorie: Tendances d'une catégorie
+ * - limit: Nombre d'annonces (défaut: 20, max: 50)
+ */
+router.get('/api/annonces/tendances', readLimit, AnnonceController.getTendances);
 
 /**
  * 👁️ GET /api/annonces/:id
  * Obtenir les détails d'une annonce spécifique
- * Incrémente automatiquement le compteur de vues
+ * Compte une vue par visiteur toutes les 30 minutes (hors propriétaire et bots)
  * Retourne les annonces similaires via IA
  */
-router.get('/api/annonces/:id', readLimit, optionalAuth, obtenirAnnonceParId);
+router.get('/api/annonces/:id', readLimit, optionalAuth, AnnonceController.getAnnonceById);
+
+/**
+ * ⏱️ POST /api/annonces/:id/duree-visite
+ * Durée passée sur l'annonce, envoyée par navigator.sendBeacon à la fermeture de la page
+ *
+ * Body (JSON, accepté en text/plain):
+ * - dureeVisite: Durée en secondes (max: 24 h)
+ */
+router.post('/api/annonces/:id/duree-visite',
+  readLimit,
+  text({ type: 'text/plain', limit: '1kb' }),
+  optionalAuth,
+  AnnonceController.recordVisitDuration
+);
+
+/**
+ * 📞 POST /api/annonces/:id/contact
+ * Afficher une coordonnée du vendeur (masquée dans les listes et le détail)
+ * Compté comme un clic contact dans les statistiques du vendeur
+ * Connecté : enregistré comme contact acheteur (avis possible une fois l'annonce vendue)
+ * WhatsApp : lien wa.me avec un message prérempli citant l'annonce
+ * Limité par compte ou par IP, et en nombre d'annonces distinctes par jour
+ *
+ * Body params:
+ * - canal: telephone | whatsapp | email
+ */
+router.post('/api/annonces/:id/contact',
+  optionalAuth,
+  contactLimit,
+  AnnonceController.revealContact
+);
 
 /**
  * 🎯 GET /api/annonces/:id/recommandations
  * Obtenir les recommandations IA pour une annonce
  * Basé sur la similarité, l'historique utilisateur et la géolocalisation
  */
-router.get('/api/annonces/:id/recommandations', readLimit, optionalAuth, obtenirRecommandations);
+router.get('/api/annonces/:id/recommandations', readLimit, optionalAuth, AnnonceController.getSimilarAnnonces);
 
 // ==============================================
 // ROUTES AUTHENTIFIÉES (GESTION DES ANNONCES)
 // ==============================================
 
 /**
- * ✨ POST /api/annonces
- * Créer une nouvelle annonce avec upload d'images
+ * 📷 POST /api/annonces/images
+ * Upload des images d'une annonce (multipart, champ "images")
  * Support Cloudinary avec optimisation WebP automatique
+ * Retourne les URLs à transmettre dans le champ images de la création
+ */
+router.post('/api/annonces/images',
+  uploadLimit,
+  authenticateToken,
+  handleImageUpload,
+  AnnonceController.uploadImages
+);
+
+/**
+ * ✨ POST /api/annonces
+ * Créer une nouvelle annonce (images déjà envoyées via /api/annonces/images)
  * Estimation de prix automatique par IA
  * Géolocalisation et validation complète
  */
 router.post('/api/annonces', 
   createLimit,
-  authenticateJWT,
-  upload.array('images', 8), // Maximum 8 images
-  creerAnnonce
+  authenticateToken,
+  createAnnonceValidation,
+  AnnonceController.createAnnonce
 );
 
 /**
  * 📝 PUT /api/annonces/:id
  * Modifier une annonce existante
  * Seul le propriétaire peut modifier
- * Support ajout/suppression d'images
  */
 router.put('/api/annonces/:id',
   actionLimit,
-  authenticateJWT,
-  upload.array('images', 8),
-  modifierAnnonce
+  authenticateToken,
+  AnnonceController.updateAnnonce
 );
 
 /**
  * 🗑️ DELETE /api/annonces/:id
- * Supprimer définitivement une annonce
- * Seul le propriétaire ou admin peut supprimer
- * Supprime automatiquement les images Cloudinary
+ * Supprimer une annonce (suppression logique, statut SUPPRIMEE)
+ * Seul le propriétaire peut supprimer
  */
 router.delete('/api/annonces/:id',
   actionLimit,
-  authenticateJWT,
-  supprimerAnnonce
+  authenticateToken,
+  AnnonceController.deleteAnnonce
 );
 
 /**
  * ✅ PATCH /api/annonces/:id/vendue
- * Marquer une annonce comme vendue
- * Change le statut et archive l'annonce
+ * Marquer une annonce active ou expirée comme vendue
+ * Retire l'annonce des listes et ouvre les avis aux acheteurs contactés
  */
 router.patch('/api/annonces/:id/vendue',
   actionLimit,
-  authenticateJWT,
-  marquerCommeVendue
+  authenticateToken,
+  AnnonceController.markAsSold
 );
 
-// ==============================================
-// ROUTES UTILISATEUR PERSONNEL
-// ==============================================
-
 /**
- * 👤 GET /api/annonces/mes-annonces
- * Obtenir toutes les annonces de l'utilisateur connecté
- * Inclut brouillons, actives, vendues et supprimées
- * Statistiques détaillées par annonce
+ * 🔁 POST /api/annonces/:id/renouveler
+ * Republier une annonce expirée (ou prolonger une annonce qui expire dans 3 jours)
+ * Durée selon le plan ; 402 si le quota d'annonces actives est atteint
  */
-router.get('/api/annonces/mes-annonces',
-  readLimit,
-  authenticateJWT,
-  obtenirMesAnnonces
+router.post('/api/annonces/:id/renouveler',
+  actionLimit,
+  authenticateToken,
+  AnnonceController.renewAnnonce
 );
 
 /**
- * 📊 GET /api/annonces/mes-annonces/statistiques
- * Statistiques détaillées des annonces utilisateur
- * Vues, favoris, messages, conversions
- * Graphiques et analytics avancés
+ * 📈 GET /api/annonces/:id/statistiques
+ * Statistiques d'une annonce pour son propriétaire
+ * Série temporelle, sources de trafic et comparaison avec la médiane de la catégorie
+ *
+ * Query params:
+ * - debut, fin: Dates AAAA-MM-JJ incluses (défaut: 30 derniers jours)
+ * - granularite: jour | semaine | mois (défaut: jour)
  */
-router.get('/api/annonces/mes-annonces/statistiques',
+router.get('/api/annonces/:id/statistiques',
   readLimit,
-  authenticateJWT,
-  obtenirStatistiques
+  authenticateToken,
+  StatistiqueController.getStatistiquesAnnonce
 );
 
 // ==============================================
@@ -240,8 +365,8 @@ router.get('/api/annonces/mes-annonces/statistiques',
  */
 router.post('/api/annonces/:id/favoris',
   actionLimit,
-  authenticateJWT,
-  ajouterAuxFavoris
+  authenticateToken,
+  AnnonceController.toggleFavorite
 );
 
 /**
@@ -250,19 +375,20 @@ router.post('/api/annonces/:id/favoris',
  */
 router.delete('/api/annonces/:id/favoris',
   actionLimit,
-  authenticateJWT,
-  supprimerDesFavoris
+  authenticateToken,
+  AnnonceController.toggleFavorite
 );
 
 /**
  * 📋 GET /api/favoris
  * Obtenir tous les favoris de l'utilisateur
  * Groupés par catégories avec métadonnées
+ * Pagination par page ou par curseur (pagination=curseur, curseur)
  */
 router.get('/api/favoris',
   readLimit,
-  authenticateJWT,
-  obtenirFavoris
+  authenticateToken,
+  AnnonceController.getMyFavorites
 );
 
 // ==============================================
@@ -271,18 +397,40 @@ router.get('/api/favoris',
 
 /**
  * 🚀 POST /api/annonces/:id/boost
- * Booster une annonce (premium, urgent, promue)
- * Système de paiement intégré (Orange Money, Wave, Stripe)
+ * Booster une annonce (premium, urgente, promue)
+ * Crée un paiement EN_ATTENTE (Orange Money, Wave, Moov Money, Stripe) ;
+ * le boost n'est appliqué qu'une fois le paiement validé par l'opérateur
  * 
  * Body params:
- * - type: 'premium' | 'urgent' | 'promue'
- * - duree: Durée en jours (1-30)
- * - paiement: Méthode de paiement
+ * - type: 'premium' (30j) | 'promue' (7j) | 'urgente' (3j)
+ * - methode: 'ORANGE_MONEY' | 'WAVE' | 'MOOV_MONEY' | 'STRIPE'
+ * - numeroTelephone: Requis pour le paiement mobile
  */
 router.post('/api/annonces/:id/boost',
   actionLimit,
-  authenticateJWT,
-  boosterAnnonce
+  authenticateToken,
+  AnnonceController.boostAnnonce
+);
+
+// ==============================================
+// SIGNALEMENTS
+// ==============================================
+
+/**
+ * 🚩 POST /api/annonces/:id/signaler
+ * Signaler une annonce à la modération
+ * Masquage automatique au-delà d'un nombre de signaleurs distincts
+ *
+ * Body params (multipart):
+ * - motif: MotifSignalement
+ * - description?: Détails (max 1000 caractères)
+ * - preuves: Captures d'écran (max 5 images)
+ */
+router.post('/api/annonces/:id/signaler',
+  signalementLimit,
+  authenticateToken,
+  upload.array('preuves', 5),
+  SignalementController.createSignalement
 );
 
 // ==============================================
@@ -291,25 +439,22 @@ router.post('/api/annonces/:id/boost',
 
 /**
  * 🛡️ GET /api/admin/annonces
- * Interface admin pour gérer toutes les annonces
- * Filtres avancés, modération, statistiques globales
+ * Interface admin pour gérer toutes les annonces (tous statuts)
+ * Réservée aux rôles ADMIN, MODERATOR et SUPPORT
+ *
+ * Query params:
+ * - statut: Filtrer par statut
+ * - userId: Annonces d'un utilisateur
+ * - dateDebut / dateFin: Période de création (ISO 8601)
+ * - signalementsMin: Nombre minimum de signalements reçus
+ * - page, limit: Pagination (défaut: 1, 50)
  */
 router.get('/api/admin/annonces',
   readLimit,
-  authenticateJWT,
-  // TODO: Ajouter middleware admin
-  (req, res) => {
-    res.status(501).json({
-      message: '🚧 Interface administrateur en développement',
-      status: 'coming_soon',
-      features: [
-        'Modération automatique par IA',
-        'Dashboard analytics avancé', 
-        'Gestion des signalements',
-        'Statistiques en temps réel'
-      ]
-    });
-  }
+  authenticateToken,
+  requireRole(UserRole.ADMIN, UserRole.MODERATOR, UserRole.SUPPORT),
+  adminAnnoncesValidation,
+  AnnonceController.getAdminAnnonces
 );
 
 // ==============================================
@@ -387,6 +532,12 @@ router.get('/api/annonces/docs', (req, res) => {
               schema: { type: 'integer', minimum: 1 },
               description: 'Numéro de page'
             },
+            {
+              name: 'curseur',
+              in: 'query',
+              schema: { type: 'string' },
+              description: 'Défilement infini : meta.pagination.nextCursor de la réponse précédente'
+            },
             {
               name: 'categorie', 
               in: 'query',
@@ -0,0 +1,60 @@
+// backend/src/routes/avisRoutes.ts
+// ROUTES AVIS ET RÉPUTATION DES VENDEURS
+
+import { Router } from 'express';
+import AvisController, {
+  createAvisLimit,
+  userAvisValidation,
+  reponseAvisValidation
+} from '../controllers/avisController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// ==============================================
+// ROUTES PUBLIQUES
+// ==============================================
+
+/**
+ * 📋 GET /api/avis/utilisateurs/:userId
+ * Avis reçus par un vendeur avec note globale, moyennes détaillées et répartition
+ *
+ * Query params:
+ * - page: Numéro de page (défaut: 1)
+ * - limit: Avis par page (défaut: 10, max: 50)
+ */
+router.get('/utilisateurs/:userId',
+  userAvisValidation,
+  AvisController.getUserAvis
+);
+
+// ==============================================
+// ROUTES AUTHENTIFIÉES
+// ==============================================
+
+/**
+ * ⭐ POST /api/avis
+ * Évaluer le vendeur d'une annonce
+ * Autorisé après un échange de messages avec le vendeur sur l'annonce ou, une fois
+ * l'annonce vendue, après avoir affiché les coordonnées du vendeur
+ *
+ * Body params:
+ * - annonceId, note (1-5), commentaire?, communication?, ponctualite?, description?
+ */
+router.post('/',
+  createAvisLimit,
+  authenticateToken,
+  AvisController.createAvis
+);
+
+/**
+ * 💬 POST /api/avis/:id/reponse
+ * Réponse unique du vendeur évalué
+ */
+router.post('/:id/reponse',
+  authenticateToken,
+  reponseAvisValidation,
+  AvisController.replyToAvis
+);
+
+export default router;
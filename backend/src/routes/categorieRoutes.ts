@@ -0,0 +1,77 @@
+// backend/src/routes/categorieRoutes.ts
+// ROUTES RÉFÉRENTIEL ET ADMINISTRATION DES CATÉGORIES
+
+import { Router } from 'express';
+import AnnonceController from '../controllers/annonceController';
+import CategorieController from '../controllers/categorieController';
+import { authenticateToken, requireRole } from '../middleware/authMiddleware';
+import { UserRole } from '../../../shared/src/types';
+
+const router = Router();
+
+const requireAdmin = [authenticateToken, requireRole(UserRole.ADMIN)];
+
+// ==============================================
+// ROUTES PUBLIQUES
+// ==============================================
+
+/**
+ * 📂 GET /api/categories
+ * Arbre des catégories actives, avec leurs sous-catégories et attributs typés
+ */
+router.get('/',
+  AnnonceController.getCategories
+);
+
+// ==============================================
+// ROUTES ADMINISTRATEUR
+// ==============================================
+
+/**
+ * 🛡️ GET /api/categories/admin
+ * Arbre complet, catégories désactivées comprises
+ */
+router.get('/admin',
+  requireAdmin,
+  CategorieController.getArbreAdmin
+);
+
+/**
+ * ➕ POST /api/categories
+ * Ajouter une catégorie (ou une sous-catégorie avec parentId)
+ *
+ * Body params:
+ * - nom, description?, icone?, image?, couleur?
+ * - slug?: généré depuis le nom si absent, figé ensuite
+ * - parentId?: catégorie principale parente
+ * - champsPersonnalises: attributs typés [{ cle, type, libelle, min?, max?, valeurs? }]
+ */
+router.post('/',
+  requireAdmin,
+  CategorieController.createCategorie
+);
+
+/**
+ * 🔃 PUT /api/categories/ordre
+ * Réordonner les catégories d'un même niveau
+ *
+ * Body params:
+ * - parentId: catégorie parente (null pour les catégories principales)
+ * - ids: toutes les catégories du niveau, dans le nouvel ordre
+ */
+router.put('/ordre',
+  requireAdmin,
+  CategorieController.reorderCategories
+);
+
+/**
+ * ✏️ PATCH /api/categories/:id
+ * Modifier, désactiver (active: false) ou déplacer (parentId) une catégorie.
+ * Les annonces existantes sont reclassées avec elle
+ */
+router.patch('/:id',
+  requireAdmin,
+  CategorieController.updateCategorie
+);
+
+export default router;
@@ -0,0 +1,39 @@
+// backend/src/routes/geoRoutes.ts
+// ROUTES GÉOCODAGE (GAZETTEER CÔTE D'IVOIRE)
+
+import { Router } from 'express';
+import GeoController, { geoLimit } from '../controllers/geoController';
+
+const router = Router();
+
+// ==============================================
+// ROUTES PUBLIQUES
+// ==============================================
+
+/**
+ * 📍 GET /api/geo/geocoder
+ * Coordonnées d'une adresse (quartier, sinon commune, sinon région)
+ *
+ * Query params:
+ * - region: nom, clé ou code de la région
+ * - commune: nom de la commune (variantes d'orthographe tolérées)
+ * - quartier: nom du quartier (optionnel)
+ */
+router.get('/geocoder',
+  geoLimit,
+  GeoController.geocode
+);
+
+/**
+ * 🧭 GET /api/geo/inverse
+ * Commune (et quartier) les plus proches d'une position GPS
+ *
+ * Query params:
+ * - latitude, longitude: position du téléphone
+ */
+router.get('/inverse',
+  geoLimit,
+  GeoController.reverseGeocode
+);
+
+export default router;
@@ -0,0 +1,67 @@
+// backend/src/routes/messageRoutes.ts
+// ROUTES MESSAGERIE ACHETEUR / VENDEUR
+
+import { Router } from 'express';
+import MessageController, {
+  sendMessageLimit,
+  threadValidation,
+  markAsReadValidation
+} from '../controllers/messageController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Toutes les routes de messagerie nécessitent une authentification
+router.use(authenticateToken);
+
+// ==============================================
+// CONVERSATIONS
+// ==============================================
+
+/**
+ * 💬 GET /api/messages/conversations
+ * Liste des conversations de l'utilisateur, groupées par (annonce, interlocuteur)
+ * Chaque conversation inclut le dernier message et le nombre de non-lus
+ */
+router.get('/conversations', MessageController.getConversations);
+
+/**
+ * 📜 GET /api/messages/conversations/:annonceId/:userId
+ * Fil de discussion paginé avec un interlocuteur sur une annonce
+ *
+ * Query params:
+ * - page: Numéro de page (défaut: 1)
+ * - limit: Messages par page (défaut: 30, max: 100)
+ */
+router.get('/conversations/:annonceId/:userId',
+  threadValidation,
+  MessageController.getThread
+);
+
+/**
+ * 👁️ PATCH /api/messages/conversations/:annonceId/:userId/lu
+ * Marque comme lus les messages reçus de l'interlocuteur (lu + dateLecture)
+ */
+router.patch('/conversations/:annonceId/:userId/lu',
+  markAsReadValidation,
+  MessageController.markAsRead
+);
+
+// ==============================================
+// ENVOI
+// ==============================================
+
+/**
+ * ✉️ POST /api/messages
+ * Envoyer un message au sujet d'une annonce
+ * Le destinataire est notifié en temps réel (événement NEW_MESSAGE)
+ *
+ * Body params:
+ * - annonceId, receiverId, contenu, type?, fichiers?
+ */
+router.post('/',
+  sendMessageLimit,
+  MessageController.sendMessage
+);
+
+export default router;
@@ -0,0 +1,53 @@
+// backend/src/routes/moderationRoutes.ts
+// ROUTES FILE DE MODÉRATION DES SIGNALEMENTS
+
+import { Router } from 'express';
+import SignalementController, {
+  queueValidation,
+  signalementIdValidation
+} from '../controllers/signalementController';
+import { requireModerator } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Réservé aux rôles MODERATOR et ADMIN
+router.use(requireModerator);
+
+/**
+ * 🛡️ GET /api/moderation/signalements
+ * File des signalements, les plus anciens en premier
+ *
+ * Query params:
+ * - statut: EN_ATTENTE (défaut) | EN_COURS | TRAITE | REJETE
+ * - motif: Filtrer par motif
+ * - page, limit: Pagination (défaut: 1, 20)
+ */
+router.get('/signalements',
+  queueValidation,
+  SignalementController.getQueue
+);
+
+/**
+ * 🔎 PATCH /api/moderation/signalements/:id/prise-en-charge
+ * Passage EN_ATTENTE → EN_COURS par le modérateur connecté
+ */
+router.patch('/signalements/:id/prise-en-charge',
+  signalementIdValidation,
+  SignalementController.prendreEnCharge
+);
+
+/**
+ * ⚖️ PATCH /api/moderation/signalements/:id/decision
+ * Passage EN_COURS → TRAITE / REJETE, avec suspension éventuelle de l'annonce
+ *
+ * Body params:
+ * - statut: 'TRAITE' | 'REJETE'
+ * - suspendreAnnonce: boolean (défaut: false)
+ * - commentaire?: Note interne du modérateur
+ */
+router.patch('/signalements/:id/decision',
+  signalementIdValidation,
+  SignalementController.resoudre
+);
+
+export default router;
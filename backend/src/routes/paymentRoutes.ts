@@ -0,0 +1,51 @@
+// backend/src/routes/paymentRoutes.ts
+// ROUTES PAIEMENTS MOBILES (ORANGE MONEY, WAVE, MOOV MONEY, STRIPE)
+
+import { Router } from 'express';
+import PaymentController, {
+  paymentIdValidation,
+  verifyPaymentLimit
+} from '../controllers/paymentController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// ==============================================
+// WEBHOOKS DES OPÉRATEURS (AUTHENTIFIÉS PAR SIGNATURE)
+// ==============================================
+
+/**
+ * 📨 POST /api/payments/webhooks/:provider
+ * Notification de statut : orange-money, wave, moov-money ou stripe
+ */
+router.post('/webhooks/:provider',
+  PaymentController.handleWebhook
+);
+
+// ==============================================
+// ROUTES AUTHENTIFIÉES
+// ==============================================
+
+/**
+ * 💳 GET /api/payments/:id
+ * Détail et statut d'un paiement de l'utilisateur. Les données brutes de
+ * l'opérateur (donneesOperateur) ne sont pas renvoyées
+ */
+router.get('/:id',
+  authenticateToken,
+  paymentIdValidation,
+  PaymentController.getPayment
+);
+
+/**
+ * 🔎 POST /api/payments/:id/verifier
+ * Réinterroge l'opérateur ; applique le boost si le paiement est validé
+ */
+router.post('/:id/verifier',
+  verifyPaymentLimit,
+  authenticateToken,
+  paymentIdValidation,
+  PaymentController.verifyPayment
+);
+
+export default router;
@@ -0,0 +1,55 @@
+// backend/src/routes/rechercheRoutes.ts
+// ROUTES RECHERCHES SAUVEGARDÉES ET ALERTES
+
+import { Router } from 'express';
+import RechercheSauvegardeeController from '../controllers/rechercheSauvegardeeController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// ==============================================
+// ROUTES AUTHENTIFIÉES
+// ==============================================
+
+/**
+ * 📋 GET /api/recherches
+ * Recherches sauvegardées de l'utilisateur et alertes en attente de digest
+ */
+router.get('/',
+  authenticateToken,
+  RechercheSauvegardeeController.getRecherches
+);
+
+/**
+ * 🔔 POST /api/recherches
+ * Sauvegarder une recherche et recevoir les nouvelles annonces correspondantes
+ *
+ * Body params:
+ * - nom: libellé de la recherche
+ * - filtres: q, categorie, sousCategorie, region, commune, prixMin, prixMax, etat
+ * - frequence: INSTANTANEE | QUOTIDIENNE | HEBDOMADAIRE
+ */
+router.post('/',
+  authenticateToken,
+  RechercheSauvegardeeController.createRecherche
+);
+
+/**
+ * ✏️ PATCH /api/recherches/:id
+ * Renommer, changer la fréquence ou suspendre les alertes
+ */
+router.patch('/:id',
+  authenticateToken,
+  RechercheSauvegardeeController.updateRecherche
+);
+
+/**
+ * 🗑️ DELETE /api/recherches/:id
+ * Supprimer une recherche sauvegardée
+ */
+router.delete('/:id',
+  authenticateToken,
+  RechercheSauvegardeeController.deleteRecherche
+);
+
+export default router;
@@ -0,0 +1,63 @@
+// backend/src/routes/regionRoutes.ts
+// ROUTES RÉFÉRENTIEL ET ADMINISTRATION DES RÉGIONS
+
+import { Router } from 'express';
+import AnnonceController from '../controllers/annonceController';
+import RegionController from '../controllers/regionController';
+import { authenticateToken, requireRole } from '../middleware/authMiddleware';
+import { UserRole } from '../../../shared/src/types';
+
+const router = Router();
+
+const requireAdmin = [authenticateToken, requireRole(UserRole.ADMIN)];
+
+// ==============================================
+// ROUTES PUBLIQUES
+// ==============================================
+
+/**
+ * 🌍 GET /api/regions
+ * Régions actives avec leurs communes et quartiers (coordonnées comprises)
+ */
+router.get('/',
+  AnnonceController.getRegions
+);
+
+// ==============================================
+// ROUTES ADMINISTRATEUR
+// ==============================================
+
+/**
+ * 🛡️ GET /api/regions/admin
+ * Référentiel complet, régions désactivées comprises
+ */
+router.get('/admin',
+  requireAdmin,
+  RegionController.getArbreAdmin
+);
+
+/**
+ * ➕ POST /api/regions
+ * Ajouter une région
+ *
+ * Body params:
+ * - nom, code (2 à 4 lettres), latitude?, longitude?, population?, superficie?
+ * - slug?: généré depuis le nom si absent, figé ensuite
+ * - communes: [{ nom, latitude?, longitude?, quartiers: [{ nom, latitude?, longitude? }] }]
+ */
+router.post('/',
+  requireAdmin,
+  RegionController.createRegion
+);
+
+/**
+ * ✏️ PATCH /api/regions/:id
+ * Modifier ou désactiver (actif: false) une région. communes remplace la
+ * liste complète ; ancienNom renomme une commune et ses annonces suivent
+ */
+router.patch('/:id',
+  requireAdmin,
+  RegionController.updateRegion
+);
+
+export default router;
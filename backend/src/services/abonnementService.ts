@@ -0,0 +1,160 @@
+// backend/src/services/abonnementService.ts
+// SERVICE ABONNEMENTS PRO : SOUSCRIPTION, RENOUVELLEMENT, RÉSILIATION
+
+import { PrismaClient } from '@prisma/client';
+import { StatutAbonnement, StatutPaiement, TypeAbonnement, TypePaiement } from '../../../shared/src/types';
+import type {
+  Abonnement,
+  MethodePaiement,
+  PaiementInitie,
+  PlanUtilisateur
+} from '../../../shared/src/types';
+import { DuplicateError, NotFoundError, ValidationError } from '../middleware/errorMiddleware';
+import PaymentService from './paymentService';
+import PlanService from './planService';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface SouscriptionData {
+  methode: MethodePaiement;
+  numeroTelephone?: string | undefined;
+}
+
+// Un paiement d'abonnement plus récent est encore en cours chez l'opérateur
+const PAIEMENT_EN_ATTENTE_MINUTES = parseInt(process.env['ABONNEMENT_PAIEMENT_EN_ATTENTE_MIN'] || '30');
+
+// ==============================================
+// CLASSE ABONNEMENTSERVICE
+// ==============================================
+
+export class AbonnementService {
+
+  static async getMonPlan(userId: string): Promise<PlanUtilisateur> {
+    return PlanService.getPlanUtilisateur(userId);
+  }
+
+  // ==============================================
+  // SOUSCRIPTION
+  // ==============================================
+
+  /**
+   * Initie le paiement du premier mois ; l'abonnement est créé
+   * à la validation du paiement. Refusé tant qu'un paiement d'abonnement
+   * récent est en attente (confirmation opérateur non reçue)
+   */
+  static async souscrire(userId: string, data: SouscriptionData): Promise<PaiementInitie> {
+    const [actif, enAttente] = await Promise.all([
+      PlanService.getActiveAbonnement(userId),
+      prisma.paiement.findFirst({
+        where: {
+          userId,
+          type: TypePaiement.ABONNEMENT,
+          statut: StatutPaiement.EN_ATTENTE,
+          createdAt: { gt: new Date(Date.now() - PAIEMENT_EN_ATTENTE_MINUTES * 60 * 1000) }
+        },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true }
+      })
+    ]);
+
+    if (actif) {
+      throw new DuplicateError('Un abonnement en cours', { abonnementId: actif.id });
+    }
+
+    if (enAttente) {
+      throw new DuplicateError('Un paiement d\'abonnement en attente', { paiementId: enAttente.id });
+    }
+
+    const initie = await PaymentService.createSubscriptionPayment(userId, data);
+
+    await this.logActivity('ABONNEMENT_SOUSCRIPTION', initie.paiement.id, userId, { methode: data.methode });
+
+    return initie;
+  }
+
+  // ==============================================
+  // RENOUVELLEMENT
+  // ==============================================
+
+  /**
+   * Ajoute une période au dernier abonnement Pro, à partir de sa date
+   * de fin s'il court encore. Un abonnement résilié est réactivé.
+   */
+  static async renouveler(userId: string, data: SouscriptionData): Promise<PaiementInitie> {
+    const dernier = await prisma.abonnement.findFirst({
+      where: { userId, type: TypeAbonnement.PRO },
+      orderBy: { dateFin: 'desc' }
+    });
+
+    if (!dernier) {
+      throw new NotFoundError('Abonnement');
+    }
+
+    if (dernier.statut === StatutAbonnement.SUSPENDU) {
+      throw new ValidationError('Abonnement suspendu : contactez le support');
+    }
+
+    const initie = await PaymentService.createSubscriptionPayment(userId, data, dernier.id);
+
+    await this.logActivity('ABONNEMENT_RENOUVELLEMENT', dernier.id, userId, { paiementId: initie.paiement.id });
+
+    return initie;
+  }
+
+  // ==============================================
+  // RÉSILIATION
+  // ==============================================
+
+  /**
+   * Résiliation en fin de période : les droits restent acquis
+   * jusqu'à la date de fin déjà payée
+   */
+  static async resilier(userId: string): Promise<Abonnement> {
+    const actif = await PlanService.getActiveAbonnement(userId);
+
+    if (!actif || actif.statut !== StatutAbonnement.ACTIF) {
+      throw new NotFoundError('Abonnement actif');
+    }
+
+    const abonnement = await prisma.abonnement.update({
+      where: { id: actif.id },
+      data: {
+        statut: StatutAbonnement.ANNULE,
+        metadata: {
+          ...(actif.metadata as Record<string, any>),
+          annuleLe: new Date().toISOString()
+        }
+      }
+    });
+
+    await this.logActivity('ABONNEMENT_RESILIE', abonnement.id, userId, { dateFin: abonnement.dateFin });
+
+    return PlanService.formatAbonnement(abonnement);
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async logActivity(action: string, entiteId: string, userId: string, details?: any): Promise<void> {
+    try {
+      await prisma.logActivite.create({
+        data: {
+          userId,
+          action,
+          entite: 'Abonnement',
+          entiteId,
+          details: details || {}
+        }
+      });
+    } catch (error) {
+      console.error('Erreur log activité:', error);
+    }
+  }
+}
+
+export default AbonnementService;
@@ -1,18 +1,44 @@
 // backend/src/services/annonceService.ts
 // SERVICE ANNONCES RÉVOLUTIONNAIRE AVEC IA ET GÉOLOCALISATION
 
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import slugify from 'slugify';
 import type { 
   Annonce, 
+  ExtraitsRecherche,
+  FacetteChamp,
+  FacettesRecherche,
+  FacetteTranche,
+  FiltresAttributs,
+  LotAnnonces,
   SearchFilters, 
   SearchResult, 
-  StatutAnnonce, 
+  StatutCache,
   EtatProduit,
   CreateInput,
   UpdateInput 
 } from '../../../shared/src/types';
-import { CATEGORIES_CI, REGIONS_COTE_IVOIRE } from '../../../shared/src/types';
+import { StatutAnnonce, proprietesSchema } from '../../../shared/src/types';
+import type { AttributCategorie } from '../../../shared/src/types';
+import AvisService from './avisService';
+import CacheService from './cacheService';
+import CategorieService from './categorieService';
+import ContactService from './contactService';
+import GazetteerService from './gazetteerService';
+import PlanService from './planService';
+import RechercheSauvegardeeService from './rechercheSauvegardeeService';
+import RecommandationService from './recommandationService';
+import RegionService from './regionService';
+import SuggestionService from './suggestionService';
+import TendanceService from './tendanceService';
+import VueService from './vueService';
+import type { ContexteVisite } from './vueService';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errorMiddleware';
+import { PUBLIC_USER_SELECT, toPublicUser } from '../utils/publicUser';
+import type { ReputationVendeur } from '../utils/publicUser';
+import { apresCurseur, decodeCurseur, encodeCurseur, orderByCles, valeursCles } from '../utils/curseur';
+import type { CleTri, SensTri, ValeurCle } from '../utils/curseur';
+import { haversineKm, toRadians } from '../utils/geo';
 
 const prisma = new PrismaClient();
 
@@ -52,7 +78,62 @@ interface SearchOptions {
   page: number;
   limit: number;
   sortBy: 'recent' | 'prix_asc' | 'prix_desc' | 'pertinence' | 'distance';
-  userLocation?: { latitude: number; longitude: number };
+  userLocation?: { latitude: number; longitude: number } | undefined;
+  rayonKm?: number | undefined; // Nécessite userLocation
+  totalApproximatif?: boolean | undefined; // Total mis en cache quelques minutes (mode page)
+}
+
+// Page (page, limit) ou curseur (modeCurseur, curseur absent pour le premier lot)
+interface ListeOptions {
+  page: number;
+  limit: number;
+  modeCurseur: boolean;
+  curseur?: string | undefined;
+}
+
+interface ListeAnnonces {
+  annonces: Annonce[];
+  total?: number; // Mode page seulement
+  nextCursor: string | null;
+}
+
+// Clause et classements d'une recherche, communs aux résultats et aux facettes
+interface PreparationRecherche {
+  whereClause: any;
+  rangs: Map<string, number> | null;
+  distances: Map<string, number> | null;
+  cleDeTri: ((id: string) => number) | null;
+}
+
+// Statut du cache par source de données, repris dans les métadonnées de la réponse
+type StatutsCache = Record<string, StatutCache>;
+
+// Tri calculé (pertinence plein texte, distance) : ordonné en mémoire
+interface CandidatTri {
+  id: string;
+  premium: boolean;
+  datePublication: Date | null;
+}
+
+interface AdminAnnonceFilters {
+  statut?: StatutAnnonce | undefined;
+  userId?: string | undefined;
+  dateDebut?: Date | undefined;
+  dateFin?: Date | undefined;
+  signalementsMin?: number | undefined;
+}
+
+interface AdminAnnonceOptions {
+  filters: AdminAnnonceFilters;
+  page: number;
+  limit: number;
+}
+
+interface AdminAnnonceResult {
+  annonces: (Annonce & { signalementsCount: number })[];
+  total: number;
+  page: number;
+  totalPages: number;
 }
 
 interface AnnonceStats {
@@ -61,9 +142,90 @@ interface AnnonceStats {
   totalFavoris: number;
   totalMessages: number;
   tauxConversion: number;
-  positionMoyenne: number;
+  positionMoyenne: number | null; // Position moyenne dans les résultats de recherche
 }
 
+// Une annonce active peut être renouvelée à l'approche de son expiration
+const RENOUVELLEMENT_ANTICIPE_JOURS = 3;
+
+// Recherche plein texte (configuration "french_unaccent" de la migration 20241214000001)
+const RECHERCHE_CONFIG = {
+  MAX_CORRESPONDANCES: 1000, // Mieux classées parmi les annonces qui respectent les filtres
+  DEBUT_SURLIGNAGE: '\u0002',
+  FIN_SURLIGNAGE: '\u0003'
+};
+
+// Facettes de recherche
+const FACETTES_CONFIG = {
+  MAX_TRANCHES_PRIX: 10,
+  MAX_ANNONCES_CHAMPS: 5000, // Au-delà, champs spécifiques calculés sur les plus récentes
+  MAX_VALEURS_CHAMP: 15
+};
+
+// Champs spécifiques numériques présentés en tranches (bornes basses)
+const TRANCHES_CHAMPS: Record<string, number[]> = {
+  kilometrage: [0, 25000, 50000, 100000, 150000, 200000],
+  annee: [0, 2005, 2010, 2015, 2020],
+  superficie: [0, 50, 100, 200, 500, 1000],
+  salaire: [0, 75000, 150000, 300000, 500000, 1000000]
+};
+
+// Clés des tris Prisma, l'id en dernier : ordre stable pour la pagination par curseur
+const CLES_TRI: Record<SearchOptions['sortBy'], CleTri[]> = {
+  recent: [{ champ: 'datePublication', sens: 'desc' }, { champ: 'id', sens: 'desc' }],
+  prix_asc: [{ champ: 'prix', sens: 'asc' }, { champ: 'id', sens: 'asc' }],
+  prix_desc: [{ champ: 'prix', sens: 'desc' }, { champ: 'id', sens: 'desc' }],
+  pertinence: [
+    { champ: 'premium', sens: 'desc' },
+    { champ: 'promue', sens: 'desc' },
+    { champ: 'scoreEngagement', sens: 'desc' }, // Engagement récent (TendanceService)
+    { champ: 'datePublication', sens: 'desc' },
+    { champ: 'id', sens: 'desc' }
+  ],
+  distance: [{ champ: 'datePublication', sens: 'desc' }, { champ: 'id', sens: 'desc' }]
+};
+
+// Listes personnelles : dernières ajoutées d'abord
+const CLES_TRI_LISTES: CleTri[] = [{ champ: 'createdAt', sens: 'desc' }, { champ: 'id', sens: 'desc' }];
+
+// Pagination : total approximatif des pages SEO (mode page)
+const PAGINATION_CONFIG = {
+  TTL_TOTAL_APPROXIMATIF_MS: 5 * 60 * 1000, // 5 minutes
+  MAX_TOTAUX_EN_CACHE: 500
+};
+
+const totauxApproximatifs = new Map<string, { total: number; expiresAt: number }>();
+
+// Cache des lectures publiques, invalidé par catégorie et région à chaque changement d'annonce
+const CACHE_CONFIG = {
+  TTL_RECHERCHE_S: 2 * 60,
+  TTL_FACETTES_S: 5 * 60,
+  TTL_SIMILAIRES_S: 10 * 60,
+  TTL_POUR_VOUS_S: 10 * 60,
+  TTL_TENDANCES_S: 5 * 60
+};
+
+// Données chargées avec chaque annonce d'une liste
+const ANNONCE_LISTE_INCLUDE = {
+  user: {
+    select: PUBLIC_USER_SELECT
+  },
+  _count: {
+    select: {
+      favoris: true,
+      messages: true,
+      vues: true
+    }
+  }
+} as const;
+
+// Recherche géographique : préfiltre rectangulaire puis distance haversine
+const GEO_CONFIG = {
+  RAYON_TERRE_KM: 6371,
+  KM_PAR_DEGRE_LATITUDE: 111.045,
+  MAX_CORRESPONDANCES: 2000 // Tri par distance sans rayon : annonces géolocalisées les plus proches
+};
+
 // ==============================================
 // CLASSE ANNONCESERVICE
 // ==============================================
@@ -78,6 +240,10 @@ export class AnnonceService {
     try {
       // Validation des données
       await this.validateAnnonceData(data);
+      const proprietes = this.validateProprietes(
+        await CategorieService.getAttributs(data.categorie, data.sousCategorie),
+        data.proprietes || {}
+      );
 
       // Générer un slug unique
       const slug = await this.generateUniqueSlug(data.titre);
@@ -102,79 +268,77 @@ export class AnnonceService {
       const telephoneNormalise = data.telephone ? this.normalizePhoneCI(data.telephone) : null;
       const whatsappNormalise = data.whatsapp ? this.normalizePhoneCI(data.whatsapp) : null;
 
-      // Création de l'annonce avec toutes les améliorations IA
-      const annonce = await prisma.annonce.create({
-        data: {
-          titre: data.titre.trim(),
-          description: data.description.trim(),
-          prix: data.prix,
-          devise: 'XOF',
-          negociable: data.negociable || false,
+      const scoreQualite = await this.calculateQualityScore(data);
+
+      // Création de l'annonce avec toutes les améliorations IA, sous le quota
+      // d'annonces et la limite d'images du plan (402 au-delà)
+      const annonce = await PlanService.publishWithinQuota(data.userId, data.images.length, (tx, droits) =>
+        tx.annonce.create({
+          data: {
+            titre: data.titre.trim(),
+            description: data.description.trim(),
+            prix: data.prix,
+            devise: 'XOF',
+            negociable: data.negociable || false,
           
-          // Catégorisation
-          categorie: data.categorie,
-          sousCategorie: data.sousCategorie,
+            // Catégorisation
+            categorie: data.categorie,
+            sousCategorie: data.sousCategorie,
           
-          // Géolocalisation
-          region: data.region,
-          commune: data.commune,
-          quartier: data.quartier,
-          latitude: coordinates?.latitude,
-          longitude: coordinates?.longitude,
-          adresseComplete: this.formatAddress(data.region, data.commune, data.quartier),
+            // Géolocalisation
+            region: data.region,
+            commune: data.commune,
+            quartier: data.quartier,
+            latitude: coordinates?.latitude,
+            longitude: coordinates?.longitude,
+            adresseComplete: this.formatAddress(data.region, data.commune, data.quartier),
           
-          // Contact
-          telephone: telephoneNormalise,
-          whatsapp: whatsappNormalise,
+            // Contact
+            telephone: telephoneNormalise,
+            whatsapp: whatsappNormalise,
           
-          // Médias
-          images: JSON.stringify(data.images),
-          videos: JSON.stringify(data.videos || []),
+            // Médias
+            images: JSON.stringify(data.images),
+            videos: JSON.stringify(data.videos || []),
           
-          // Métadonnées
-          slug,
-          tags: data.tags || [],
-          motsCles,
-          etat: data.etat,
-          proprietes: JSON.stringify({
-            ...data.proprietes,
-            ...proprietesAutomatic,
-            prixEstimeIA: prixEstime,
-            scoreQualite: await this.calculateQualityScore(data)
-          }),
+            // Métadonnées
+            slug,
+            tags: data.tags || [],
+            motsCles,
+            etat: data.etat,
+            // Marque et modèle en colonnes pour les suggestions de recherche
+            marque: typeof proprietes['marque'] === 'string' ? proprietes['marque'] : null,
+            modele: typeof proprietes['modele'] === 'string' ? proprietes['modele'] : null,
+            proprietes: {
+              ...proprietesAutomatic,
+              ...proprietes,
+              prixEstimeIA: prixEstime,
+              scoreQualite
+            } as Prisma.InputJsonObject,
           
-          // Statut
-          statut: StatutAnnonce.ACTIVE,
-          datePublication: new Date(),
-          dateExpiration: this.calculateExpirationDate(data.userId),
+            // Statut
+            statut: StatutAnnonce.ACTIVE,
+            datePublication: new Date(),
+            dateExpiration: PlanService.getExpirationDate(droits),
           
-          // Relations
-          userId: data.userId
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              avatar: true,
-              isProfessional: true,
-              companyName: true,
-              region: true,
-              commune: true,
-              emailVerified: true,
-              phoneVerified: true,
-              createdAt: true
+            // Relations
+            userId: data.userId
+          },
+          include: {
+            user: {
+              select: PUBLIC_USER_SELECT
             }
           }
-        }
-      });
+        })
+      );
+
+      // Recherches et similaires en cache de sa catégorie et de sa région
+      await CacheService.invalidateAnnonces([{ categorie: annonce.categorie, region: annonce.region }]);
 
       // Mise à jour des statistiques utilisateur
       await this.updateUserStats(data.userId, 'ANNONCE_CREATED');
 
-      // Indexation pour la recherche (ElasticSearch/Algolia plus tard)
-      await this.indexAnnonceForSearch(annonce.id);
+      // Indexation : le vecteur de recherche plein texte est généré par PostgreSQL
 
       // Notifications aux utilisateurs intéressés
       this.notifyInterestedUsers(annonce).catch(console.error);
@@ -186,7 +350,7 @@ export class AnnonceService {
         region: data.region
       });
 
-      return this.formatAnnonceForAPI(annonce);
+      return this.formatAnnonceForAPI(annonce, undefined, { contactVisible: true });
 
     } catch (error) {
       console.error('Erreur création annonce:', error);
@@ -198,112 +362,193 @@ export class AnnonceService {
   // RECHERCHE AVANCÉE AVEC IA
   // ==============================================
 
-  static async searchAnnonces(options: SearchOptions): Promise<SearchResult> {
+  /**
+   * Recherche paginée. Résultats et facettes sont mis en cache séparément :
+   * les facettes servent à toutes les pages et à tous les tris d'une recherche
+   */
+  static async searchAnnonces(options: SearchOptions): Promise<SearchResult & { cache: StatutsCache }> {
     try {
-      const { filters, page, limit, sortBy, userLocation } = options;
-
-      // Construction de la requête Prisma complexe
-      const whereClause = this.buildWhereClause(filters);
-      const orderByClause = this.buildOrderByClause(sortBy, userLocation);
-
-      // Requête principale avec pagination
-      const [annonces, total] = await Promise.all([
-        prisma.annonce.findMany({
-          where: whereClause,
-          orderBy: orderByClause,
-          skip: (page - 1) * limit,
-          take: limit,
-          include: {
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                avatar: true,
-                isProfessional: true,
-                companyName: true,
-                region: true,
-                commune: true,
-                emailVerified: true,
-                phoneVerified: true,
-                createdAt: true
-              }
-            },
-            _count: {
-              select: {
-                favoris: true,
-                messages: true,
-                vues: true
-              }
+      const { filters, page, limit, sortBy, userLocation, rayonKm } = options;
+
+      // Préparation faite une seule fois, et seulement si le cache ne suffit pas
+      let preparation: Promise<PreparationRecherche> | null = null;
+      const preparer = () => (preparation ??= this.prepareSearch(options));
+
+      const { value: resultats, cache: cacheResultats } = await CacheService.remember(
+        'recherche',
+        { filters, page, limit, sortBy, userLocation, rayonKm, totalApproximatif: options.totalApproximatif },
+        { ttlSeconds: CACHE_CONFIG.TTL_RECHERCHE_S, tags: CacheService.tagsAnnonces(filters) },
+        async () => {
+          const { whereClause, rangs, distances, cleDeTri } = await preparer();
+
+          let annonces;
+          let total: number;
+          let totalApproximatif = false;
+
+          if (cleDeTri) {
+            // Ordonnancement des identifiants puis chargement de la page
+            const candidats = await this.getCandidatsTries(whereClause, cleDeTri);
+
+            const pageIds = candidats.slice((page - 1) * limit, page * limit).map(candidat => candidat.id);
+            annonces = await this.loadAnnonces(pageIds);
+            total = candidats.length;
+          } else {
+            // Requête principale avec pagination ; total approximatif : pas de count() à chaque page
+            const cleTotal = JSON.stringify({ filters, userLocation, rayonKm });
+            const totalEnCache = options.totalApproximatif ? this.getTotalApproximatif(cleTotal) : null;
+
+            [annonces, total] = await Promise.all([
+              prisma.annonce.findMany({
+                where: whereClause,
+                orderBy: this.buildOrderByClause(sortBy),
+                skip: (page - 1) * limit,
+                take: limit,
+                include: ANNONCE_LISTE_INCLUDE
+              }),
+              totalEnCache ?? prisma.annonce.count({ where: whereClause })
+            ]);
+
+            if (options.totalApproximatif) {
+              totalApproximatif = true;
+              if (totalEnCache === null) this.setTotalApproximatif(cleTotal, total);
             }
           }
-        }),
-        prisma.annonce.count({ where: whereClause })
-      ]);
 
-      // Calcul des facettes pour filtres avancés
-      const facettes = await this.calculateFacets(whereClause);
+          return {
+            annonces: await this.enrichSearchResults(annonces, { q: filters.q, rangs, distances, userLocation }),
+            total,
+            totalApproximatif
+          };
+        }
+      );
 
-      // Ajout de données enrichies (distance, recommandations, etc.)
-      const annoncesEnrichies = await Promise.all(
-        annonces.map(async (annonce) => {
-          const enrichedAnnonce = this.formatAnnonceForAPI(annonce);
-          
-          // Calcul de distance si position utilisateur fournie
-          if (userLocation && annonce.latitude && annonce.longitude) {
-            enrichedAnnonce.distance = this.calculateDistance(
-              userLocation.latitude,
-              userLocation.longitude,
-              annonce.latitude,
-              annonce.longitude
-            );
-          }
+      // Requête mémorisée pour les suggestions populaires
+      if (filters.q && page === 1) {
+        SuggestionService.recordQuery(filters.q, resultats.total).catch(console.error);
+      }
 
-          return enrichedAnnonce;
-        })
-      );
+      // Calcul des facettes pour filtres avancés
+      const { value: facettes, cache: cacheFacettes } = await this.getFacettes(options, preparer);
 
-      const totalPages = Math.ceil(total / limit);
+      const totalPages = Math.ceil(resultats.total / limit);
 
       return {
-        annonces: annoncesEnrichies,
-        total,
+        annonces: resultats.annonces,
+        total: resultats.total,
         page,
         totalPages,
         hasNext: page < totalPages,
         hasPrev: page > 1,
-        facettes
+        facettes,
+        ...(resultats.totalApproximatif && { totalApproximatif: true }),
+        cache: { resultats: cacheResultats, facettes: cacheFacettes }
       };
 
     } catch (error) {
+      if (error instanceof ValidationError) throw error;
       console.error('Erreur recherche annonces:', error);
       throw new Error('Erreur lors de la recherche');
     }
   }
 
+  /**
+   * Défilement infini : lot suivant le curseur (keyset sur les clés du tri
+   * puis l'id), sans count(). Les annonces publiées entre deux lots ne
+   * décalent pas les résultats. Facettes calculées pour le premier lot seulement
+   */
+  static async searchAnnoncesCurseur(options: SearchOptions, curseur?: string): Promise<LotAnnonces & { cache: StatutsCache }> {
+    try {
+      const { filters, limit, sortBy, userLocation, rayonKm } = options;
+
+      let preparation: Promise<PreparationRecherche> | null = null;
+      const preparer = () => (preparation ??= this.prepareSearch(options));
+
+      const { value: lot, cache: cacheResultats } = await CacheService.remember(
+        'recherche-curseur',
+        { filters, limit, sortBy, userLocation, rayonKm, curseur },
+        { ttlSeconds: CACHE_CONFIG.TTL_RECHERCHE_S, tags: CacheService.tagsAnnonces(filters) },
+        async () => {
+          const { whereClause, rangs, distances, cleDeTri } = await preparer();
+
+          let annonces;
+          let nextCursor: string | null = null;
+
+          if (cleDeTri) {
+            // Tri calculé : le curseur porte le tuple de tri de la dernière annonce
+            const candidats = await this.getCandidatsTries(whereClause, cleDeTri);
+            const apres = curseur ? decodeCurseur(curseur, sortBy, 4) : null;
+            const debut = apres
+              ? candidats.findIndex(candidat => this.compareTuplesTri(this.tupleTri(candidat, cleDeTri), apres) > 0)
+              : 0;
+
+            const selection = debut === -1 ? [] : candidats.slice(debut, debut + limit + 1);
+            if (selection.length > limit) {
+              nextCursor = encodeCurseur(sortBy, this.tupleTri(selection[limit - 1]!, cleDeTri));
+            }
+
+            annonces = await this.loadAnnonces(selection.slice(0, limit).map(candidat => candidat.id));
+          } else {
+            const cles = CLES_TRI[sortBy];
+            const where = curseur
+              ? { AND: [whereClause, apresCurseur(cles, decodeCurseur(curseur, sortBy, cles.length))] }
+              : whereClause;
+
+            // Une annonce de plus que demandé : indique s'il reste un lot
+            const rows = await prisma.annonce.findMany({
+              where,
+              orderBy: orderByCles(cles),
+              take: limit + 1,
+              include: ANNONCE_LISTE_INCLUDE
+            });
+
+            if (rows.length > limit) {
+              nextCursor = encodeCurseur(sortBy, valeursCles(cles, rows[limit - 1]!));
+            }
+
+            annonces = rows.slice(0, limit);
+          }
+
+          return {
+            annonces: await this.enrichSearchResults(annonces, { q: filters.q, rangs, distances, userLocation }),
+            nextCursor
+          };
+        }
+      );
+
+      if (curseur) {
+        return { ...lot, cache: { resultats: cacheResultats } };
+      }
+
+      if (filters.q) {
+        SuggestionService.recordQuery(filters.q, lot.annonces.length).catch(console.error);
+      }
+
+      const { value: facettes, cache: cacheFacettes } = await this.getFacettes(options, preparer);
+
+      return { ...lot, facettes, cache: { resultats: cacheResultats, facettes: cacheFacettes } };
+
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      console.error('Erreur recherche annonces (curseur):', error);
+      throw new Error('Erreur lors de la recherche');
+    }
+  }
+
   // ==============================================
   // RÉCUPÉRATION ANNONCE AVEC ANALYTICS
   // ==============================================
 
-  static async getAnnonceById(id: string, userId?: string): Promise<Annonce | null> {
+  /**
+   * Détail d'une annonce. Avec le contexte de la requête (consultation de la
+   * page), une vue est comptée en différé
+   */
+  static async getAnnonceById(id: string, userId?: string, visite?: ContexteVisite): Promise<Annonce | null> {
     try {
       const annonce = await prisma.annonce.findUnique({
         where: { id },
         include: {
           user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              avatar: true,
-              isProfessional: true,
-              companyName: true,
-              region: true,
-              commune: true,
-              emailVerified: true,
-              phoneVerified: true,
-              createdAt: true
-            }
+            select: PUBLIC_USER_SELECT
           },
           favoris: userId ? {
             where: { userId }
@@ -322,13 +567,24 @@ export class AnnonceService {
         return null;
       }
 
-      // Incrémenter le compteur de vues (async)
-      this.incrementViewCount(id, userId).catch(console.error);
+      // Annonces masquées par la modération : visibles du seul propriétaire
+      const isHidden = annonce.statut === StatutAnnonce.EN_MODERATION || annonce.statut === StatutAnnonce.SUSPENDUE;
+      if (isHidden && userId !== annonce.userId) {
+        return null;
+      }
+
+      // Vue comptée par lots (propriétaire, bots et consultations répétées exclus)
+      if (visite) {
+        VueService.recordView(annonce, { ...visite, userId });
+      }
 
       // Recommandations similaires (async)
-      const recommandations = this.getSimilarAnnonces(id, 5).catch(() => []);
+      const recommandations = this.getSimilarAnnonces(id, 5).then(result => result.annonces).catch(() => []);
 
-      const formattedAnnonce = this.formatAnnonceForAPI(annonce);
+      const reputations = await AvisService.getReputations([annonce.userId]);
+      const formattedAnnonce = this.formatAnnonceForAPI(annonce, reputations.get(annonce.userId), {
+        contactVisible: userId === annonce.userId
+      });
       
       // Ajouter des métadonnées spéciales pour le propriétaire
       if (userId === annonce.userId) {
@@ -344,11 +600,208 @@ export class AnnonceService {
     }
   }
 
+  // ==============================================
+  // MODIFICATION D'ANNONCE
+  // ==============================================
+
+  /**
+   * Modification par le propriétaire. Les propriétés sont revalidées selon la
+   * catégorie de l'annonce ; les propriétés calculées (score, estimation) sont conservées
+   */
+  static async updateAnnonce(annonceId: string, userId: string, data: UpdateAnnonceData): Promise<Annonce> {
+    const annonce = await prisma.annonce.findUnique({
+      where: { id: annonceId },
+      select: { id: true, userId: true, statut: true, categorie: true, sousCategorie: true, region: true, proprietes: true }
+    });
+
+    if (!annonce || annonce.statut === StatutAnnonce.SUPPRIMEE) {
+      throw new NotFoundError('Annonce');
+    }
+
+    if (annonce.userId !== userId) {
+      throw new AuthorizationError('Seul le propriétaire peut modifier cette annonce');
+    }
+
+    if (data.titre !== undefined && (data.titre.trim().length < 5 || data.titre.trim().length > 200)) {
+      throw new ValidationError('Le titre doit contenir entre 5 et 200 caractères');
+    }
+
+    if (data.description !== undefined && (data.description.trim().length < 10 || data.description.trim().length > 5000)) {
+      throw new ValidationError('La description doit contenir entre 10 et 5000 caractères');
+    }
+
+    if (data.prix !== undefined && !(data.prix > 0)) {
+      throw new ValidationError('Le prix doit être positif');
+    }
+
+    if (data.categorie !== undefined && !(await CategorieService.isCategorieValide(data.categorie))) {
+      throw new ValidationError('Catégorie invalide');
+    }
+
+    for (const telephone of [data.telephone, data.whatsapp]) {
+      if (telephone && !this.isValidPhoneCI(telephone)) {
+        throw new ValidationError('Numéro de téléphone ivoirien invalide');
+      }
+    }
+
+    // Changement de catégorie sans nouvelles propriétés : les attributs de l'ancienne sont retirés
+    const changementCategorie = data.categorie !== undefined && data.categorie !== annonce.categorie;
+    let proprietes: Record<string, any> | null = null;
+
+    if (data.proprietes !== undefined || changementCategorie) {
+      const anciennes = this.parseProprietes(annonce.proprietes);
+      const attributsActuels = await CategorieService.getAttributs(annonce.categorie, annonce.sousCategorie);
+      const calculees = Object.fromEntries(
+        Object.entries(anciennes).filter(([champ]) => !(champ in attributsActuels))
+      );
+
+      proprietes = {
+        ...calculees,
+        ...(data.proprietes !== undefined
+          ? this.validateProprietes(
+              await CategorieService.getAttributs(
+                data.categorie ?? annonce.categorie,
+                data.sousCategorie ?? (changementCategorie ? undefined : annonce.sousCategorie)
+              ),
+              data.proprietes
+            )
+          : {})
+      };
+    }
+
+    const modifiee = await prisma.annonce.update({
+      where: { id: annonceId },
+      data: {
+        ...(data.titre !== undefined && {
+          titre: data.titre.trim(),
+          slug: await this.generateUniqueSlug(data.titre, annonceId)
+        }),
+        ...(data.description !== undefined && { description: data.description.trim() }),
+        ...(data.prix !== undefined && { prix: data.prix }),
+        ...(data.negociable !== undefined && { negociable: data.negociable }),
+        ...(data.categorie !== undefined && { categorie: data.categorie }),
+        ...(data.sousCategorie !== undefined && { sousCategorie: data.sousCategorie }),
+        ...(data.etat !== undefined && { etat: data.etat }),
+        ...(data.tags !== undefined && { tags: data.tags }),
+        ...(data.telephone !== undefined && { telephone: data.telephone ? this.normalizePhoneCI(data.telephone) : null }),
+        ...(data.whatsapp !== undefined && { whatsapp: data.whatsapp ? this.normalizePhoneCI(data.whatsapp) : null }),
+        ...(proprietes && {
+          proprietes: proprietes as Prisma.InputJsonObject,
+          marque: typeof proprietes['marque'] === 'string' ? proprietes['marque'] : null,
+          modele: typeof proprietes['modele'] === 'string' ? proprietes['modele'] : null
+        })
+      },
+      include: { user: { select: PUBLIC_USER_SELECT } }
+    });
+
+    // Ancienne et nouvelle catégorie
+    await CacheService.invalidateAnnonces([
+      { categorie: annonce.categorie, region: annonce.region },
+      { categorie: modifiee.categorie, region: modifiee.region }
+    ]);
+
+    await this.logActivity('ANNONCE_MODIFIEE', annonceId, userId, {
+      champs: Object.keys(data)
+    });
+
+    return this.formatAnnonceForAPI(modifiee, undefined, { contactVisible: true });
+  }
+
+  // ==============================================
+  // SUPPRESSION D'ANNONCE
+  // ==============================================
+
+  /**
+   * Suppression logique par le propriétaire : l'annonce disparaît des listes
+   * et des recherches, ses messages et statistiques sont conservés
+   */
+  static async deleteAnnonce(annonceId: string, userId: string): Promise<void> {
+    const annonce = await prisma.annonce.findUnique({
+      where: { id: annonceId },
+      select: { id: true, userId: true, statut: true, categorie: true, region: true }
+    });
+
+    if (!annonce || annonce.statut === StatutAnnonce.SUPPRIMEE) {
+      throw new NotFoundError('Annonce');
+    }
+
+    if (annonce.userId !== userId) {
+      throw new AuthorizationError('Seul le propriétaire peut supprimer cette annonce');
+    }
+
+    await prisma.annonce.update({
+      where: { id: annonceId },
+      data: {
+        statut: StatutAnnonce.SUPPRIMEE,
+        deletedAt: new Date()
+      }
+    });
+
+    await CacheService.invalidateAnnonces([{ categorie: annonce.categorie, region: annonce.region }]);
+
+    await this.logActivity('ANNONCE_SUPPRIMEE', annonceId, userId, {
+      statutPrecedent: annonce.statut
+    });
+  }
+
+  // ==============================================
+  // VENTE D'ANNONCE
+  // ==============================================
+
+  /**
+   * Passage au statut VENDUE par le propriétaire (annonce active ou expirée) :
+   * l'annonce sort des listes et des recherches, les acheteurs qui ont
+   * échangé avec le vendeur peuvent laisser un avis
+   */
+  static async markAsSold(annonceId: string, userId: string): Promise<Annonce> {
+    const annonce = await prisma.annonce.findUnique({
+      where: { id: annonceId },
+      select: { id: true, userId: true, statut: true }
+    });
+
+    if (!annonce || annonce.statut === StatutAnnonce.SUPPRIMEE) {
+      throw new NotFoundError('Annonce');
+    }
+
+    if (annonce.userId !== userId) {
+      throw new AuthorizationError('Seul le propriétaire peut marquer cette annonce comme vendue');
+    }
+
+    if (annonce.statut === StatutAnnonce.VENDUE) {
+      throw new ValidationError('Cette annonce est déjà marquée comme vendue');
+    }
+
+    if (annonce.statut !== StatutAnnonce.ACTIVE && annonce.statut !== StatutAnnonce.EXPIREE) {
+      throw new ValidationError('Seule une annonce active ou expirée peut être marquée comme vendue');
+    }
+
+    const vendue = await prisma.annonce.update({
+      where: { id: annonceId },
+      data: {
+        statut: StatutAnnonce.VENDUE,
+        dateVente: new Date()
+      },
+      include: { user: { select: PUBLIC_USER_SELECT } }
+    });
+
+    await CacheService.invalidateAnnonces([{ categorie: vendue.categorie, region: vendue.region }]);
+
+    await this.logActivity('ANNONCE_VENDUE', annonceId, userId, {
+      statutPrecedent: annonce.statut
+    });
+
+    return this.formatAnnonceForAPI(vendue, undefined, { contactVisible: true });
+  }
+
   // ==============================================
   // GESTION DES FAVORIS
   // ==============================================
 
-  static async toggleFavorite(annonceId: string, userId: string): Promise<{ isFavorite: boolean }> {
+  /**
+   * Ajoute ou retire l'annonce des favoris. Avec un état souhaité
+   * (POST : true, DELETE : false), l'appel est idempotent
+   */
+  static async toggleFavorite(annonceId: string, userId: string, souhaite?: boolean): Promise<{ isFavorite: boolean }> {
     try {
       const existingFavorite = await prisma.favori.findUnique({
         where: {
@@ -359,6 +812,10 @@ export class AnnonceService {
         }
       });
 
+      if (souhaite !== undefined && souhaite === !!existingFavorite) {
+        return { isFavorite: souhaite };
+      }
+
       if (existingFavorite) {
         // Supprimer des favoris
         await prisma.favori.delete({
@@ -399,6 +856,140 @@ export class AnnonceService {
     }
   }
 
+  // ==============================================
+  // LISTES PERSONNELLES (MES ANNONCES, FAVORIS)
+  // ==============================================
+
+  /**
+   * Annonces du vendeur, des plus récentes aux plus anciennes, tous statuts
+   * confondus sauf filtre
+   */
+  static async getUserAnnonces(userId: string, options: ListeOptions & { statut?: StatutAnnonce | undefined }): Promise<ListeAnnonces> {
+    const where: Prisma.AnnonceWhereInput = {
+      userId,
+      ...(options.statut && { statut: options.statut })
+    };
+
+    const { rows, total, nextCursor } = await this.paginer(
+      options,
+      'mes-annonces',
+      args => prisma.annonce.findMany({ ...args, where: { AND: [where, args.where] }, include: ANNONCE_LISTE_INCLUDE }),
+      () => prisma.annonce.count({ where })
+    );
+
+    return {
+      annonces: rows.map(row => this.formatAnnonceForAPI(row, undefined, { contactVisible: true })),
+      ...(total !== undefined && { total }),
+      nextCursor
+    };
+  }
+
+  /**
+   * Annonces mises en favori, des plus récemment ajoutées aux plus anciennes
+   */
+  static async getUserFavorites(userId: string, options: ListeOptions): Promise<ListeAnnonces> {
+    const where: Prisma.FavoriWhereInput = {
+      userId,
+      annonce: { statut: { not: StatutAnnonce.SUPPRIMEE } }
+    };
+
+    const { rows, total, nextCursor } = await this.paginer(
+      options,
+      'favoris',
+      args => prisma.favori.findMany({
+        ...args,
+        where: { AND: [where, args.where] },
+        include: { annonce: { include: ANNONCE_LISTE_INCLUDE } }
+      }),
+      () => prisma.favori.count({ where })
+    );
+
+    const reputations = await AvisService.getReputations(rows.map(favori => favori.annonce.userId));
+
+    return {
+      annonces: rows.map(favori => ({
+        ...this.formatAnnonceForAPI(favori.annonce, reputations.get(favori.annonce.userId)),
+        isFavorite: true
+      })),
+      ...(total !== undefined && { total }),
+      nextCursor
+    };
+  }
+
+  // ==============================================
+  // RENOUVELLEMENT EN UN CLIC
+  // ==============================================
+
+  /**
+   * Republie une annonce expirée, ou prolonge une annonce qui expire dans
+   * les 3 jours, pour la durée prévue par le plan du propriétaire.
+   * Une annonce expirée compte de nouveau dans le quota du plan.
+   */
+  static async renewAnnonce(annonceId: string, userId: string): Promise<Annonce> {
+    const annonce = await prisma.annonce.findUnique({
+      where: { id: annonceId },
+      select: { id: true, userId: true, statut: true, dateExpiration: true, images: true, categorie: true, region: true }
+    });
+
+    if (!annonce || annonce.statut === StatutAnnonce.SUPPRIMEE) {
+      throw new NotFoundError('Annonce');
+    }
+
+    if (annonce.userId !== userId) {
+      throw new AuthorizationError('Seul le propriétaire peut renouveler cette annonce');
+    }
+
+    const now = new Date();
+    const finFenetre = new Date(now.getTime() + RENOUVELLEMENT_ANTICIPE_JOURS * 24 * 60 * 60 * 1000);
+    const bientotExpiree = annonce.statut === StatutAnnonce.ACTIVE
+      && !!annonce.dateExpiration
+      && annonce.dateExpiration <= finFenetre;
+
+    if (annonce.statut !== StatutAnnonce.EXPIREE && !bientotExpiree) {
+      throw new ValidationError(
+        `Seule une annonce expirée ou expirant dans les ${RENOUVELLEMENT_ANTICIPE_JOURS} jours peut être renouvelée`
+      );
+    }
+
+    // Garde contre un renouvellement ou une expiration simultanés
+    const republier = async (client: Prisma.TransactionClient, droits: Awaited<ReturnType<typeof PlanService.getDroits>>) => {
+      const result = await client.annonce.updateMany({
+        where: { id: annonceId, statut: annonce.statut },
+        data: {
+          statut: StatutAnnonce.ACTIVE,
+          datePublication: now,
+          dateExpiration: PlanService.getExpirationDate(droits, now),
+          dateRappelExpiration: null
+        }
+      });
+
+      if (result.count === 0) {
+        throw new ValidationError('L\'annonce a changé de statut entre-temps, veuillez réessayer');
+      }
+
+      return droits;
+    };
+
+    // Une annonce expirée revient dans le quota : contrôle et republication atomiques
+    const droits = annonce.statut === StatutAnnonce.EXPIREE
+      ? await PlanService.publishWithinQuota(userId, JSON.parse((annonce.images as string) || '[]').length, republier)
+      : await republier(prisma, await PlanService.getDroits(userId));
+
+    await CacheService.invalidateAnnonces([{ categorie: annonce.categorie, region: annonce.region }]);
+
+    await this.logActivity('ANNONCE_RENOUVELEE', annonceId, userId, {
+      statutPrecedent: annonce.statut,
+      plan: droits.plan
+    });
+
+    const renouvelee = await prisma.annonce.findUniqueOrThrow({
+      where: { id: annonceId },
+      include: { user: { select: PUBLIC_USER_SELECT } }
+    });
+
+    return this.formatAnnonceForAPI(renouvelee, undefined, { contactVisible: true });
+  }
+
   // ==============================================
   // MÉTHODES UTILITAIRES PRIVÉES
   // ==============================================
@@ -420,15 +1011,19 @@ export class AnnonceService {
     }
 
     // Validation catégorie
-    if (!CATEGORIES_CI[data.categorie as keyof typeof CATEGORIES_CI]) {
+    if (!(await CategorieService.isCategorieValide(data.categorie))) {
       throw new Error('Catégorie invalide');
     }
 
-    // Validation région
-    if (!REGIONS_COTE_IVOIRE[data.region as keyof typeof REGIONS_COTE_IVOIRE]) {
+    // Validation région et commune
+    if (!(await RegionService.isRegionValide(data.region))) {
       throw new Error('Région invalide');
     }
 
+    if (!(await RegionService.isCommuneValide(data.region, data.commune))) {
+      throw new Error('Commune invalide pour cette région');
+    }
+
     // Validation téléphone si fourni
     if (data.telephone && !this.isValidPhoneCI(data.telephone)) {
       throw new Error('Numéro de téléphone ivoirien invalide');
@@ -444,6 +1039,28 @@ export class AnnonceService {
     }
   }
 
+  /**
+   * Propriétés typées selon la catégorie (nombres, booléens, valeurs autorisées),
+   * sans les attributs non renseignés
+   */
+  private static validateProprietes(
+    attributs: Record<string, AttributCategorie>,
+    proprietes: Record<string, any>
+  ): Record<string, any> {
+    const result = proprietesSchema(attributs).safeParse(proprietes);
+
+    if (!result.success) {
+      const [erreur] = result.error.errors;
+      throw new ValidationError(erreur?.message || 'Propriétés invalides', {
+        champ: erreur?.path.join('.')
+      });
+    }
+
+    return Object.fromEntries(
+      Object.entries(result.data).filter(([, valeur]) => valeur !== undefined)
+    );
+  }
+
   private static async generateUniqueSlug(titre: string, excludeId?: string): Promise<string> {
     const baseSlug = slugify(titre, {
       lower: true,
@@ -517,15 +1134,9 @@ export class AnnonceService {
 
   private static async geocodeLocation(region: string, commune: string, quartier?: string): Promise<{latitude: number; longitude: number} | null> {
     try {
-      // TODO: Intégrer une API de géocodage (Google Maps, Mapbox)
-      // Pour l'instant, retourner des coordonnées par défaut pour Abidjan
-      if (region.toLowerCase().includes('abidjan')) {
-        return {
-          latitude: 5.3600,
-          longitude: -4.0083
-        };
-      }
-      return null;
+      // Gazetteer local : quartier, sinon commune, sinon centre de la région
+      const position = await GazetteerService.geocode(region, commune, quartier);
+      return position ? { latitude: position.latitude, longitude: position.longitude } : null;
     } catch (error) {
       console.error('Erreur géocodage:', error);
       return null;
@@ -584,14 +1195,6 @@ export class AnnonceService {
     return address;
   }
 
-  private static calculateExpirationDate(userId: string): Date {
-    // TODO: Vérifier le type d'abonnement de l'utilisateur
-    // Pour l'instant, 30 jours par défaut
-    const date = new Date();
-    date.setDate(date.getDate() + 30);
-    return date;
-  }
-
   private static async calculateQualityScore(data: CreateAnnonceData): Promise<number> {
     let score = 0;
 
@@ -615,19 +1218,181 @@ export class AnnonceService {
     return Math.min(score, 100);
   }
 
+  /**
+   * Listes personnelles : page (skip/take et total) ou lot suivant le curseur
+   * (keyset sur la date d'ajout puis l'id, sans count())
+   */
+  private static async paginer<T extends { createdAt: Date; id: string }>(
+    options: ListeOptions,
+    tri: string,
+    findMany: (args: { where: any; orderBy: any; skip?: number; take: number }) => Promise<T[]>,
+    count: () => Promise<number>
+  ): Promise<{ rows: T[]; total?: number; nextCursor: string | null }> {
+    const orderBy = orderByCles(CLES_TRI_LISTES);
+
+    if (!options.modeCurseur) {
+      const [rows, total] = await Promise.all([
+        findMany({ where: {}, orderBy, skip: (options.page - 1) * options.limit, take: options.limit }),
+        count()
+      ]);
+      return { rows, total, nextCursor: null };
+    }
+
+    const rows = await findMany({
+      where: options.curseur
+        ? apresCurseur(CLES_TRI_LISTES, decodeCurseur(options.curseur, tri, CLES_TRI_LISTES.length))
+        : {},
+      orderBy,
+      take: options.limit + 1
+    });
+
+    return {
+      rows: rows.slice(0, options.limit),
+      nextCursor: rows.length > options.limit
+        ? encodeCurseur(tri, valeursCles(CLES_TRI_LISTES, rows[options.limit - 1]!))
+        : null
+    };
+  }
+
+  /**
+   * Clause commune aux deux modes de pagination : filtres, puis restrictions
+   * plein texte, attributs texte et rayon calculées en SQL
+   */
+  private static async prepareSearch(options: SearchOptions): Promise<PreparationRecherche> {
+    const { filters, sortBy, userLocation, rayonKm } = options;
+
+    const whereClause = this.buildWhereClause(filters);
+
+    // Recherche textuelle : correspondances plein texte et leur rang, filtres appliqués en base
+    const rangs = filters.q ? await this.findFullTextMatches(filters.q, filters) : null;
+    if (rangs) {
+      this.restrictToIds(whereClause, rangs.keys());
+    }
+
+    // Attributs texte ("marque" contenant "toyota")
+    const correspondancesAttributs = filters.attributs
+      ? await this.findAttributeTextMatches(filters.attributs)
+      : null;
+    if (correspondancesAttributs) {
+      this.restrictToIds(whereClause, correspondancesAttributs);
+    }
+
+    // Autour de moi : rayon et/ou tri par distance calculés en base
+    const distances = userLocation && (rayonKm || sortBy === 'distance')
+      ? await this.findNearby(userLocation, filters, rayonKm)
+      : null;
+    if (distances) {
+      this.restrictToIds(whereClause, distances.keys());
+    }
+
+    // Tris calculés hors Prisma : rang plein texte ou distance
+    const cleDeTri = sortBy === 'pertinence' && rangs
+      ? (id: string) => -(rangs.get(id) || 0)
+      : sortBy === 'distance' && distances
+        ? (id: string) => distances.get(id) ?? Number.MAX_VALUE
+        : null;
+
+    return { whereClause, rangs, distances, cleDeTri };
+  }
+
+  // Candidats d'un tri calculé : clé calculée, mises en avant, récence puis id
+  private static async getCandidatsTries(whereClause: any, cleDeTri: (id: string) => number): Promise<CandidatTri[]> {
+    const candidats = await prisma.annonce.findMany({
+      where: whereClause,
+      select: { id: true, premium: true, datePublication: true }
+    });
+
+    return candidats.sort((a, b) => this.compareTuplesTri(this.tupleTri(a, cleDeTri), this.tupleTri(b, cleDeTri)));
+  }
+
+  private static tupleTri(candidat: CandidatTri, cleDeTri: (id: string) => number): ValeurCle[] {
+    return [cleDeTri(candidat.id), candidat.premium, candidat.datePublication?.getTime() || 0, candidat.id];
+  }
+
+  private static compareTuplesTri(a: ValeurCle[], b: ValeurCle[]): number {
+    const [cleA, premiumA, dateA, idA] = a as [number, boolean, number, string];
+    const [cleB, premiumB, dateB, idB] = b as [number, boolean, number, string];
+
+    return cleA - cleB ||
+      Number(premiumB) - Number(premiumA) ||
+      dateB - dateA ||
+      (idA < idB ? -1 : idA > idB ? 1 : 0);
+  }
+
+  // Annonces d'une page ou d'un lot, dans l'ordre des identifiants
+  private static async loadAnnonces(ids: string[]) {
+    const rows = await prisma.annonce.findMany({ where: { id: { in: ids } }, include: ANNONCE_LISTE_INCLUDE });
+    const parId = new Map(rows.map(row => [row.id, row]));
+
+    return ids.map(id => parId.get(id)).filter((row): row is NonNullable<typeof row> => !!row);
+  }
+
+  // Surlignage, réputation des vendeurs, pertinence et distance
+  private static async enrichSearchResults(
+    annonces: any[],
+    contexte: {
+      q?: string | undefined;
+      rangs: Map<string, number> | null;
+      distances: Map<string, number> | null;
+      userLocation?: { latitude: number; longitude: number } | undefined;
+    }
+  ): Promise<Annonce[]> {
+    const { q, rangs, distances, userLocation } = contexte;
+
+    // Passages surlignés des annonces de la page
+    const extraits = q
+      ? await this.getHighlights(annonces.map(annonce => annonce.id), q)
+      : new Map<string, ExtraitsRecherche>();
+
+    // Réputation des vendeurs de la page (une seule requête groupée)
+    const reputations = await AvisService.getReputations(annonces.map(annonce => annonce.userId));
+
+    return annonces.map(annonce => {
+      const enrichedAnnonce = this.formatAnnonceForAPI(annonce, reputations.get(annonce.userId));
+
+      if (rangs) {
+        enrichedAnnonce.pertinence = rangs.get(annonce.id) || 0;
+        const extrait = extraits.get(annonce.id);
+        if (extrait) enrichedAnnonce.extraits = extrait;
+      }
+
+      // Distance en km si position utilisateur fournie
+      const distance = distances?.get(annonce.id);
+      if (distance !== undefined) {
+        enrichedAnnonce.distance = Math.round(distance * 10) / 10;
+      } else if (userLocation && annonce.latitude && annonce.longitude) {
+        enrichedAnnonce.distance = Math.round(haversineKm(
+          userLocation.latitude,
+          userLocation.longitude,
+          annonce.latitude,
+          annonce.longitude
+        ) * 10) / 10;
+      }
+
+      return enrichedAnnonce;
+    });
+  }
+
+  private static getTotalApproximatif(cle: string): number | null {
+    const entree = totauxApproximatifs.get(cle);
+    return entree && entree.expiresAt > Date.now() ? entree.total : null;
+  }
+
+  private static setTotalApproximatif(cle: string, total: number): void {
+    if (totauxApproximatifs.size >= PAGINATION_CONFIG.MAX_TOTAUX_EN_CACHE) {
+      const oldest = totauxApproximatifs.keys().next().value;
+      if (oldest !== undefined) totauxApproximatifs.delete(oldest);
+    }
+    totauxApproximatifs.set(cle, { total, expiresAt: Date.now() + PAGINATION_CONFIG.TTL_TOTAL_APPROXIMATIF_MS });
+  }
+
   private static buildWhereClause(filters: SearchFilters): any {
     const where: any = {
       statut: StatutAnnonce.ACTIVE,
       dateExpiration: { gt: new Date() }
     };
 
-    if (filters.q) {
-      where.OR = [
-        { titre: { contains: filters.q, mode: 'insensitive' } },
-        { description: { contains: filters.q, mode: 'insensitive' } },
-        { motsCles: { contains: filters.q, mode: 'insensitive' } }
-      ];
-    }
+    // filters.q : voir findFullTextMatches (restriction sur les identifiants)
 
     if (filters.categorie) where.categorie = filters.categorie;
     if (filters.sousCategorie) where.sousCategorie = filters.sousCategorie;
@@ -659,106 +1424,493 @@ export class AnnonceService {
       if (filters.dateMax) where.datePublication.lte = filters.dateMax;
     }
 
+    if (filters.attributs) {
+      const conditions = this.buildAttributeConditions(filters.attributs);
+      if (conditions.length > 0) where.AND = conditions;
+    }
+
     return where;
   }
 
-  private static buildOrderByClause(sortBy: string, userLocation?: { latitude: number; longitude: number }): any {
-    switch (sortBy) {
-      case 'prix_asc':
-        return { prix: 'asc' };
-      case 'prix_desc':
-        return { prix: 'desc' };
-      case 'pertinence':
-        return [
-          { premium: 'desc' },
-          { promue: 'desc' },
-          { vuesCount: 'desc' },
-          { datePublication: 'desc' }
-        ];
-      case 'distance':
-        // TODO: Implémenter tri par distance avec SQL spatial
-        return { datePublication: 'desc' };
-      default:
-        return { datePublication: 'desc' };
-    }
-  }
-
-  private static async calculateFacets(whereClause: any): Promise<any> {
-    // Calcul des facettes pour les filtres
-    const [categories, regions, prixStats] = await Promise.all([
+  /**
+   * Filtres d'attributs traduits en conditions sur les chemins JSON de proprietes.
+   * Attributs texte : voir findAttributeTextMatches (insensible à la casse et aux accents)
+   */
+  private static buildAttributeConditions(attributs: FiltresAttributs): Prisma.AnnonceWhereInput[] {
+    return Object.entries(attributs).flatMap(([champ, filtre]) => {
+      const conditions: Prisma.AnnonceWhereInput[] = [];
+
+      if (filtre.valeurs?.length) {
+        conditions.push({
+          OR: filtre.valeurs.map(valeur => ({ proprietes: { path: [champ], equals: valeur } }))
+        });
+      }
+
+      if (filtre.min !== undefined) {
+        conditions.push({ proprietes: { path: [champ], gte: filtre.min } });
+      }
+
+      if (filtre.max !== undefined) {
+        conditions.push({ proprietes: { path: [champ], lte: filtre.max } });
+      }
+
+      return conditions;
+    });
+  }
+
+  private static async findAttributeTextMatches(attributs: FiltresAttributs): Promise<string[] | null> {
+    const conditions = Object.entries(attributs)
+      .filter(([, filtre]) => filtre.contient)
+      .map(([champ, filtre]) => {
+        const motif = `%${filtre.contient!.replace(/[\\%_]/g, '\\$&')}%`;
+        return Prisma.sql`unaccent(lower(a."proprietes" ->> ${champ})) LIKE unaccent(lower(${motif}))`;
+      });
+
+    if (conditions.length === 0) return null;
+
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+      SELECT a."id"
+      FROM "annonces" a
+      WHERE a."statut" = 'ACTIVE'
+        AND a."dateExpiration" > NOW()
+        AND ${Prisma.join(conditions, ' AND ')}
+    `;
+
+    return rows.map(row => row.id);
+  }
+
+  // Pertinence sans recherche textuelle : mises en avant puis popularité.
+  // Distance avec position : tri calculé dans prepareSearch (findNearby)
+  private static buildOrderByClause(sortBy: SearchOptions['sortBy']): Record<string, SensTri>[] {
+    return orderByCles(CLES_TRI[sortBy]);
+  }
+
+  /**
+   * Équivalent SQL de buildWhereClause (hors recherche textuelle), pour les
+   * requêtes brutes qui doivent filtrer avant de plafonner leurs résultats
+   */
+  private static buildSqlFilters(filters: SearchFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`a."statut" = 'ACTIVE'`,
+      Prisma.sql`a."dateExpiration" > NOW()`
+    ];
+
+    if (filters.categorie) conditions.push(Prisma.sql`a."categorie" = ${filters.categorie}`);
+    if (filters.sousCategorie) conditions.push(Prisma.sql`a."sousCategorie" = ${filters.sousCategorie}`);
+    if (filters.region) conditions.push(Prisma.sql`a."region" = ${filters.region}`);
+    if (filters.commune) conditions.push(Prisma.sql`a."commune" = ${filters.commune}`);
+    if (filters.etat) conditions.push(Prisma.sql`a."etat"::text = ${filters.etat}`);
+    if (filters.prixMin !== undefined) conditions.push(Prisma.sql`a."prix" >= ${filters.prixMin}`);
+    if (filters.prixMax !== undefined) conditions.push(Prisma.sql`a."prix" <= ${filters.prixMax}`);
+    if (filters.dateMin) conditions.push(Prisma.sql`a."datePublication" >= ${filters.dateMin}`);
+    if (filters.dateMax) conditions.push(Prisma.sql`a."datePublication" <= ${filters.dateMax}`);
+    if (filters.urgentesOnly) conditions.push(Prisma.sql`a."urgente" = true`);
+
+    if (filters.utilisateurPro !== undefined) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "users" u WHERE u."id" = a."userId" AND u."isProfessional" = ${filters.utilisateurPro}
+      )`);
+    }
+
+    // Liste vide en tableau JSON ou en chaîne sérialisée
+    if (filters.avecImages) {
+      conditions.push(Prisma.sql`a."images" NOT IN ('[]'::jsonb, '"[]"'::jsonb)`);
+    }
+
+    for (const [champ, filtre] of Object.entries(filters.attributs || {})) {
+      if (filtre.valeurs?.length) {
+        const valeurs = filtre.valeurs.map(valeur => JSON.stringify(valeur));
+        conditions.push(Prisma.sql`a."proprietes" -> ${champ} = ANY(${valeurs}::jsonb[])`);
+      }
+
+      const nombre = Prisma.sql`CASE WHEN jsonb_typeof(a."proprietes" -> ${champ}) = 'number'
+        THEN (a."proprietes" ->> ${champ})::float8 END`;
+      if (filtre.min !== undefined) conditions.push(Prisma.sql`${nombre} >= ${filtre.min}`);
+      if (filtre.max !== undefined) conditions.push(Prisma.sql`${nombre} <= ${filtre.max}`);
+
+      if (filtre.contient) {
+        const motif = `%${filtre.contient.replace(/[\\%_]/g, '\\$&')}%`;
+        conditions.push(Prisma.sql`unaccent(lower(a."proprietes" ->> ${champ})) LIKE unaccent(lower(${motif}))`);
+      }
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  /**
+   * Annonces actives dont le vecteur correspond à la requête, avec leur rang.
+   * Les filtres de la recherche s'appliquent dans la même requête : le plafond
+   * ne retient que les mieux classées parmi les annonces qui les respectent.
+   * Poids ts_rank {D, C, B, A} : description (C) < mots-clés (B) < titre (A)
+   */
+  private static async findFullTextMatches(q: string, filters: SearchFilters): Promise<Map<string, number>> {
+    const rows = await prisma.$queryRaw<{ id: string; rang: number }[]>`
+      SELECT a."id", ts_rank('{0.1, 0.2, 0.4, 1.0}', a."searchVector", query) AS rang
+      FROM "annonces" a, websearch_to_tsquery('french_unaccent', ${q}) query
+      WHERE a."searchVector" @@ query
+        AND ${this.buildSqlFilters(filters)}
+      ORDER BY rang DESC
+      LIMIT ${RECHERCHE_CONFIG.MAX_CORRESPONDANCES}
+    `;
+
+    return new Map(rows.map(row => [row.id, Number(row.rang)]));
+  }
+
+  /**
+   * Distances (km) des annonces actives géolocalisées, les plus proches d'abord,
+   * parmi celles qui respectent les filtres de la recherche.
+   * Le rectangle englobant du rayon exploite l'index (latitude, longitude),
+   * la formule haversine ne s'applique qu'aux annonces retenues.
+   * Avec un rayon, toutes les annonces du rayon sont retenues ; sans rayon
+   * (simple tri par distance), seules les plus proches
+   */
+  private static async findNearby(
+    position: { latitude: number; longitude: number },
+    filters: SearchFilters,
+    rayonKm?: number
+  ): Promise<Map<string, number>> {
+    const { latitude, longitude } = position;
+
+    let filtreRectangle = Prisma.empty;
+    let filtreRayon = Prisma.empty;
+    let plafond = Prisma.sql`LIMIT ${GEO_CONFIG.MAX_CORRESPONDANCES}`;
+    if (rayonKm) {
+      const deltaLat = rayonKm / GEO_CONFIG.KM_PAR_DEGRE_LATITUDE;
+      const deltaLon = rayonKm / (GEO_CONFIG.KM_PAR_DEGRE_LATITUDE * Math.max(Math.cos(toRadians(latitude)), 0.01));
+
+      filtreRectangle = Prisma.sql`
+        AND a."latitude" BETWEEN ${latitude - deltaLat} AND ${latitude + deltaLat}
+        AND a."longitude" BETWEEN ${longitude - deltaLon} AND ${longitude + deltaLon}
+      `;
+      filtreRayon = Prisma.sql`WHERE t."distance" <= ${rayonKm}`;
+      plafond = Prisma.empty;
+    }
+
+    const rows = await prisma.$queryRaw<{ id: string; distance: number }[]>`
+      SELECT t."id", t."distance" FROM (
+        SELECT a."id",
+          ${GEO_CONFIG.RAYON_TERRE_KM} * 2 * ASIN(SQRT(
+            POWER(SIN(RADIANS(a."latitude" - ${latitude}) / 2), 2) +
+            COS(RADIANS(${latitude})) * COS(RADIANS(a."latitude")) *
+            POWER(SIN(RADIANS(a."longitude" - ${longitude}) / 2), 2)
+          )) AS distance
+        FROM "annonces" a
+        WHERE a."latitude" IS NOT NULL
+          AND a."longitude" IS NOT NULL
+          AND ${this.buildSqlFilters(filters)}
+          ${filtreRectangle}
+      ) t
+      ${filtreRayon}
+      ORDER BY t."distance" ASC
+      ${plafond}
+    `;
+
+    return new Map(rows.map(row => [row.id, Number(row.distance)]));
+  }
+
+  // Restreint la recherche à des identifiants (intersection si déjà restreinte)
+  private static restrictToIds(where: any, ids: Iterable<string>): void {
+    const retenus = new Set(ids);
+    where.id = {
+      in: where.id?.in
+        ? (where.id.in as string[]).filter(id => retenus.has(id))
+        : [...retenus]
+    };
+  }
+
+  /**
+   * Extraits ts_headline. Les délimiteurs sont des caractères de contrôle
+   * remplacés par <mark> après échappement du texte de l'annonce
+   */
+  private static async getHighlights(ids: string[], q: string): Promise<Map<string, ExtraitsRecherche>> {
+    if (ids.length === 0) return new Map();
+
+    const { DEBUT_SURLIGNAGE: debut, FIN_SURLIGNAGE: fin } = RECHERCHE_CONFIG;
+    const optionsTitre = `StartSel="${debut}", StopSel="${fin}", HighlightAll=true`;
+    const optionsDescription = `StartSel="${debut}", StopSel="${fin}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+    const rows = await prisma.$queryRaw<{ id: string; titre: string; description: string }[]>`
+      SELECT a."id",
+        ts_headline('french_unaccent', a."titre", query, ${optionsTitre}) AS titre,
+        ts_headline('french_unaccent', a."description", query, ${optionsDescription}) AS description
+      FROM "annonces" a, websearch_to_tsquery('french_unaccent', ${q}) query
+      WHERE a."id" IN (${Prisma.join(ids)})
+    `;
+
+    const surligner = (texte: string): string => this.escapeHtml(texte)
+      .split(debut).join('<mark>')
+      .split(fin).join('</mark>');
+
+    return new Map(rows.map(row => [row.id, {
+      titre: surligner(row.titre),
+      description: surligner(row.description)
+    }]));
+  }
+
+  private static escapeHtml(texte: string): string {
+    return texte
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  // Facettes en cache : ne dépendent ni de la page ni du tri (sauf la
+  // restriction aux annonces les plus proches du tri par distance)
+  private static async getFacettes(
+    options: SearchOptions,
+    preparer: () => Promise<PreparationRecherche>
+  ): Promise<{ value: FacettesRecherche; cache: StatutCache }> {
+    const { filters, sortBy, userLocation, rayonKm } = options;
+
+    return CacheService.remember(
+      'facettes',
+      { filters, userLocation, rayonKm, proximite: sortBy === 'distance' },
+      { ttlSeconds: CACHE_CONFIG.TTL_FACETTES_S, tags: CacheService.tagsAnnonces(filters) },
+      async () => this.calculateFacets((await preparer()).whereClause, filters)
+    );
+  }
+
+  /**
+   * Facettes de la recherche. Chaque dimension est comptée sans son propre
+   * filtre pour que le frontend puisse proposer les valeurs voisines
+   */
+  private static async calculateFacets(whereClause: any, filters: SearchFilters): Promise<FacettesRecherche> {
+    const sansFiltre = (...cles: string[]) => {
+      const where = { ...whereClause };
+      for (const cle of cles) delete where[cle];
+      return where;
+    };
+
+    const wherePrix = sansFiltre('prix');
+    const whereVendeurs = sansFiltre('user');
+
+    const [categories, regions, sousCategories, communes, etats, professionnels, particuliers, prixStats] = await Promise.all([
       prisma.annonce.groupBy({
         by: ['categorie'],
-        where: whereClause,
+        where: sansFiltre('categorie', 'sousCategorie'),
         _count: true,
         orderBy: { _count: { categorie: 'desc' } }
       }),
       prisma.annonce.groupBy({
         by: ['region'],
-        where: whereClause,
+        where: sansFiltre('region', 'commune'),
         _count: true,
         orderBy: { _count: { region: 'desc' } }
       }),
+      prisma.annonce.groupBy({
+        by: ['sousCategorie'],
+        where: { ...sansFiltre('sousCategorie'), sousCategorie: { not: null } },
+        _count: true,
+        orderBy: { _count: { sousCategorie: 'desc' } }
+      }),
+      filters.region
+        ? prisma.annonce.groupBy({
+            by: ['commune'],
+            where: sansFiltre('commune'),
+            _count: true,
+            orderBy: { _count: { commune: 'desc' } }
+          })
+        : Promise.resolve([]),
+      prisma.annonce.groupBy({
+        by: ['etat'],
+        where: { ...sansFiltre('etat'), etat: { not: null } },
+        _count: true,
+        orderBy: { _count: { etat: 'desc' } }
+      }),
+      prisma.annonce.count({ where: { ...whereVendeurs, user: { isProfessional: true } } }),
+      prisma.annonce.count({ where: { ...whereVendeurs, user: { isProfessional: false } } }),
       prisma.annonce.aggregate({
-        where: whereClause,
+        where: wherePrix,
         _min: { prix: true },
         _max: { prix: true },
         _avg: { prix: true }
       })
     ]);
 
+    const prixMin = prixStats._min.prix || 0;
+    const prixMax = prixStats._max.prix || 0;
+
+    const [histogramme, champs] = await Promise.all([
+      this.calculatePriceHistogram(wherePrix, prixMin, prixMax),
+      filters.categorie
+        ? this.calculateFieldFacets(whereClause, filters.categorie)
+        : Promise.resolve({ champs: {}, partiel: false })
+    ]);
+
     return {
       categories: categories.map(c => ({ nom: c.categorie, count: c._count })),
       regions: regions.map(r => ({ nom: r.region, count: r._count })),
+      sousCategories: sousCategories.map(sc => ({ nom: sc.sousCategorie!, count: sc._count })),
+      communes: communes.map(c => ({ nom: c.commune, count: c._count })),
+      etats: etats.map(e => ({ nom: e.etat as EtatProduit, count: e._count })),
+      vendeurs: { professionnels, particuliers },
       prix: {
-        min: prixStats._min.prix || 0,
-        max: prixStats._max.prix || 0,
-        moyenne: Math.round(prixStats._avg.prix || 0)
-      }
+        min: prixMin,
+        max: prixMax,
+        moyenne: Math.round(prixStats._avg.prix || 0),
+        histogramme
+      },
+      champs: champs.champs,
+      ...(champs.partiel && { champsPartiels: true })
     };
   }
 
-  private static calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Rayon de la Terre en km
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLon = this.deg2rad(lon2 - lon1);
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(this.deg2rad(lat1)) * Math.cos(this.deg2rad(lat2)) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+  /**
+   * Histogramme du curseur de prix. Bornes "rondes" en progression 1 / 2,5 / 5
+   * (les prix vont de quelques milliers à plusieurs dizaines de millions de FCFA)
+   */
+  private static async calculatePriceHistogram(where: any, min: number, max: number): Promise<FacetteTranche[]> {
+    if (max <= 0) return [];
+
+    const rondes: number[] = [0];
+    for (let puissance = 1; puissance <= max * 10; puissance *= 10) {
+      rondes.push(puissance, puissance * 2.5, puissance * 5);
+    }
+
+    const debut = rondes.filter(borne => borne <= min).pop() ?? 0;
+    const fin = rondes.find(borne => borne > max) ?? max + 1;
+    let bornes = rondes.filter(borne => borne >= debut && borne <= fin);
+
+    // Une borne sur deux tant qu'il y a trop de tranches
+    while (bornes.length - 1 > FACETTES_CONFIG.MAX_TRANCHES_PRIX) {
+      bornes = bornes.filter((_, index) => index % 2 === 0 || index === bornes.length - 1);
+    }
+
+    const tranches = bornes.slice(0, -1).map((borne, index) => ({ min: borne, max: bornes[index + 1]! }));
+
+    const counts = await Promise.all(
+      tranches.map(tranche => prisma.annonce.count({
+        where: { AND: [where, { prix: { gte: tranche.min, lt: tranche.max } }] }
+      }))
+    );
+
+    return tranches.map((tranche, index) => ({ ...tranche, count: counts[index]! }));
+  }
+
+  /**
+   * Répartition des attributs de la catégorie (CategorieService.getAttributs) :
+   * tranches pour les champs numériques, valeurs les plus fréquentes sinon
+   */
+  private static async calculateFieldFacets(
+    whereClause: any,
+    categorie: string
+  ): Promise<{ champs: Record<string, FacetteChamp>; partiel: boolean }> {
+    const attributs = await CategorieService.getAttributs(categorie);
+    if (Object.keys(attributs).length === 0) return { champs: {}, partiel: false };
+
+    // L'état du produit a sa propre facette (colonne etat)
+    const champsSpecifiques = Object.keys(attributs).filter(champ => champ !== 'etat');
+
+    const annonces = await prisma.annonce.findMany({
+      where: whereClause,
+      select: { proprietes: true },
+      orderBy: { datePublication: 'desc' },
+      take: FACETTES_CONFIG.MAX_ANNONCES_CHAMPS + 1
+    });
+
+    const partiel = annonces.length > FACETTES_CONFIG.MAX_ANNONCES_CHAMPS;
+    const echantillon = annonces.slice(0, FACETTES_CONFIG.MAX_ANNONCES_CHAMPS).map(annonce => this.parseProprietes(annonce.proprietes));
+
+    const champs: Record<string, FacetteChamp> = {};
+
+    for (const champ of champsSpecifiques) {
+      const bornes = TRANCHES_CHAMPS[champ];
+
+      if (bornes) {
+        const tranches: FacetteTranche[] = bornes.map((borne, index) => ({
+          min: borne,
+          max: bornes[index + 1] ?? null,
+          count: 0
+        }));
+
+        for (const proprietes of echantillon) {
+          const valeur = Number(proprietes[champ]);
+          if (proprietes[champ] === undefined || proprietes[champ] === null || Number.isNaN(valeur)) continue;
+
+          const tranche = tranches.find(t => valeur >= t.min && (t.max === null || valeur < t.max));
+          if (tranche) tranche.count++;
+        }
+
+        if (tranches.some(tranche => tranche.count > 0)) {
+          champs[champ] = { type: 'tranches', tranches };
+        }
+        continue;
+      }
+
+      const counts = new Map<string, number>();
+      for (const proprietes of echantillon) {
+        const brute = proprietes[champ];
+        const valeurs = Array.isArray(brute) ? brute : [brute];
+
+        for (const valeur of valeurs) {
+          if (valeur === undefined || valeur === null || valeur === '') continue;
+          const cle = String(valeur).trim();
+          counts.set(cle, (counts.get(cle) || 0) + 1);
+        }
+      }
+
+      if (counts.size > 0) {
+        champs[champ] = {
+          type: 'valeurs',
+          valeurs: [...counts.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, FACETTES_CONFIG.MAX_VALEURS_CHAMP)
+            .map(([valeur, count]) => ({ valeur, count }))
+        };
+      }
+    }
+
+    return { champs, partiel };
   }
 
-  private static deg2rad(deg: number): number {
-    return deg * (Math.PI/180);
+  // Les anciennes annonces stockaient leurs propriétés en chaîne JSON
+  private static parseProprietes(proprietes: unknown): Record<string, any> {
+    if (typeof proprietes === 'string') {
+      try {
+        return JSON.parse(proprietes || '{}');
+      } catch {
+        return {};
+      }
+    }
+    return (proprietes && typeof proprietes === 'object') ? proprietes as Record<string, any> : {};
   }
 
-  private static formatAnnonceForAPI(annonce: any): Annonce {
+  /**
+   * Numéros masqués par défaut (anti-scraping) : complets pour le
+   * propriétaire et l'administration seulement (contactVisible)
+   */
+  private static formatAnnonceForAPI(
+    annonce: any,
+    reputation?: ReputationVendeur,
+    options: { contactVisible?: boolean } = {}
+  ): Annonce {
+    const masquer = !options.contactVisible && !!(annonce.telephone || annonce.whatsapp);
+
     return {
       ...annonce,
+      ...(masquer && {
+        telephone: annonce.telephone ? ContactService.maskTelephone(annonce.telephone) : annonce.telephone,
+        whatsapp: annonce.whatsapp ? ContactService.maskTelephone(annonce.whatsapp) : annonce.whatsapp,
+        contactMasque: true
+      }),
       images: JSON.parse(annonce.images || '[]'),
       videos: JSON.parse(annonce.videos || '[]'),
-      proprietes: JSON.parse(annonce.proprietes || '{}'),
+      proprietes: this.parseProprietes(annonce.proprietes),
       isFavorite: annonce.favoris && annonce.favoris.length > 0,
-      user: annonce.user
+      user: annonce.user ? toPublicUser(annonce.user, reputation) : annonce.user
     };
   }
 
   // Autres méthodes utilitaires
-  private static async incrementViewCount(annonceId: string, userId?: string): Promise<void> {
-    // Implémentation du comptage des vues
-  }
-
   private static async updateUserStats(userId: string, action: string): Promise<void> {
     // Mise à jour des statistiques utilisateur
   }
 
-  private static async indexAnnonceForSearch(annonceId: string): Promise<void> {
-    // Indexation pour moteur de recherche
-  }
-
   private static async notifyInterestedUsers(annonce: any): Promise<void> {
-    // Notifications aux utilisateurs intéressés
+    // Alertes des recherches sauvegardées correspondantes
+    await RechercheSauvegardeeService.notifyNewAnnonce(annonce);
   }
 
   private static async logActivity(action: string, annonceId: string, userId: string, details?: any): Promise<void> {
@@ -783,7 +1935,7 @@ export class AnnonceService {
 
   static async getAnnonceStats(annonceId: string): Promise<AnnonceStats> {
     try {
-      const [vuesTotal, vuesToday, favorisCount, messagesCount] = await Promise.all([
+      const [vuesTotal, vuesToday, favorisCount, messagesCount, affichages] = await Promise.all([
         prisma.vueAnnonce.count({ where: { annonceId } }),
         prisma.vueAnnonce.count({
           where: { 
@@ -792,9 +1944,18 @@ export class AnnonceService {
           }
         }),
         prisma.favori.count({ where: { annonceId } }),
-        prisma.message.count({ where: { annonceId } })
+        prisma.message.count({ where: { annonceId } }),
+        prisma.statistiqueAnnonceJour.aggregate({
+          where: { annonceId },
+          _sum: { affichages: true, sommePositions: true }
+        })
       ]);
 
+      const nombreAffichages = affichages._sum.affichages || 0;
+      const positionMoyenne = nombreAffichages > 0
+        ? Math.round(((affichages._sum.sommePositions || 0) / nombreAffichages) * 10) / 10
+        : null;
+
       const tauxConversion = vuesTotal > 0 ? (messagesCount / vuesTotal) * 100 : 0;
 
       return {
@@ -803,7 +1964,7 @@ export class AnnonceService {
         totalFavoris: favorisCount,
         totalMessages: messagesCount,
         tauxConversion: Math.round(tauxConversion * 100) / 100,
-        positionMoyenne: 0
+        positionMoyenne
       };
 
     } catch (error) {
@@ -816,7 +1977,11 @@ export class AnnonceService {
   // RECOMMANDATIONS IA
   // ==============================================
 
-  static async getSimilarAnnonces(annonceId: string, limit: number = 5): Promise<Annonce[]> {
+  /**
+   * Annonces proches de la même catégorie, en cache jusqu'au prochain
+   * changement d'annonce dans cette catégorie
+   */
+  static async getSimilarAnnonces(annonceId: string, limit: number = 5): Promise<{ annonces: Annonce[]; cache: StatutCache }> {
     try {
       const sourceAnnonce = await prisma.annonce.findUnique({
         where: { id: annonceId },
@@ -830,55 +1995,188 @@ export class AnnonceService {
         }
       });
 
-      if (!sourceAnnonce) return [];
-
-      const similarAnnonces = await prisma.annonce.findMany({
-        where: {
-          id: { not: annonceId },
-          statut: StatutAnnonce.ACTIVE,
-          OR: [
-            {
-              categorie: sourceAnnonce.categorie,
-              region: sourceAnnonce.region
+      if (!sourceAnnonce) return { annonces: [], cache: 'miss' };
+
+      const { value: annonces, cache } = await CacheService.remember(
+        'similaires',
+        { annonceId, limit },
+        { ttlSeconds: CACHE_CONFIG.TTL_SIMILAIRES_S, tags: CacheService.tagsAnnonces({ categorie: sourceAnnonce.categorie }) },
+        async () => {
+          const similarAnnonces = await prisma.annonce.findMany({
+            where: {
+              id: { not: annonceId },
+              statut: StatutAnnonce.ACTIVE,
+              OR: [
+                {
+                  categorie: sourceAnnonce.categorie,
+                  region: sourceAnnonce.region
+                },
+                {
+                  sousCategorie: sourceAnnonce.sousCategorie
+                },
+                {
+                  categorie: sourceAnnonce.categorie,
+                  prix: {
+                    gte: sourceAnnonce.prix * 0.5,
+                    lte: sourceAnnonce.prix * 1.5
+                  }
+                }
+              ]
             },
-            {
-              sousCategorie: sourceAnnonce.sousCategorie
+            include: {
+              user: {
+                select: PUBLIC_USER_SELECT
+              }
             },
-            {
-              categorie: sourceAnnonce.categorie,
-              prix: {
-                gte: sourceAnnonce.prix * 0.5,
-                lte: sourceAnnonce.prix * 1.5
+            take: limit,
+            orderBy: [
+              { premium: 'desc' },
+              { datePublication: 'desc' }
+            ]
+          });
+
+          const reputations = await AvisService.getReputations(similarAnnonces.map(annonce => annonce.userId));
+
+          return similarAnnonces.map(annonce => this.formatAnnonceForAPI(annonce, reputations.get(annonce.userId)));
+        }
+      );
+
+      return { annonces, cache };
+
+    } catch (error) {
+      console.error('Erreur recommandations:', error);
+      return { annonces: [], cache: 'miss' };
+    }
+  }
+
+  /**
+   * Fil « Pour vous » : classement mis en cache quelques minutes par
+   * utilisateur (par région pour les visiteurs anonymes), annonces rechargées
+   * à chaque lecture pour écarter celles qui ne sont plus en ligne
+   */
+  static async getPourVous(
+    userId: string | undefined,
+    options: { limite: number; region?: string | undefined }
+  ): Promise<{ annonces: Annonce[]; cache: StatutCache }> {
+    const { value: recommandations, cache } = await CacheService.remember(
+      'pour-vous',
+      { userId: userId || null, limite: options.limite, region: options.region || null },
+      {
+        ttlSeconds: CACHE_CONFIG.TTL_POUR_VOUS_S,
+        tags: userId ? [] : CacheService.tagsAnnonces({ region: options.region })
+      },
+      () => RecommandationService.getRecommandations(userId, options)
+    );
+
+    const maintenant = new Date();
+    const rows = (await this.loadAnnonces(recommandations.map(recommandation => recommandation.id)))
+      .filter(row => row.statut === StatutAnnonce.ACTIVE && (!row.dateExpiration || row.dateExpiration > maintenant));
+    const parId = new Map(recommandations.map(recommandation => [recommandation.id, recommandation]));
+
+    const annonces = (await this.enrichSearchResults(rows, { rangs: null, distances: null }))
+      .map(annonce => {
+        const { score, motifs } = parId.get(annonce.id)!;
+        return { ...annonce, recommandation: { score, motifs } };
+      });
+
+    return { annonces, cache };
+  }
+
+  /**
+   * Fil Tendances : annonces à l'engagement récent le plus fort, par région
+   * et/ou catégorie, avec leurs indicateurs d'engagement
+   */
+  static async getTendances(options: {
+    limite: number;
+    region?: string | undefined;
+    categorie?: string | undefined;
+  }): Promise<{ annonces: Annonce[]; cache: StatutCache }> {
+    const { region, categorie, limite } = options;
+
+    const { value: annonces, cache } = await CacheService.remember(
+      'tendances',
+      { region: region || null, categorie: categorie || null, limite },
+      { ttlSeconds: CACHE_CONFIG.TTL_TENDANCES_S, tags: CacheService.tagsAnnonces({ categorie, region }) },
+      async () => {
+        const classement = await TendanceService.getClassement({ region, categorie }, limite);
+        const parId = new Map(classement.map(({ annonceId, ...tendance }) => [annonceId, tendance]));
+
+        const rows = await this.loadAnnonces(classement.map(tendance => tendance.annonceId));
+
+        return (await this.enrichSearchResults(rows, { rangs: null, distances: null }))
+          .map(annonce => ({ ...annonce, tendance: parId.get(annonce.id)! }));
+      }
+    );
+
+    return { annonces, cache };
+  }
+
+  // ==============================================
+  // ADMINISTRATION
+  // ==============================================
+
+  /**
+   * Liste toutes les annonces (tous statuts) pour l'interface d'administration
+   */
+  static async getAdminAnnonces(options: AdminAnnonceOptions): Promise<AdminAnnonceResult> {
+    try {
+      const { filters, page, limit } = options;
+      const where: Prisma.AnnonceWhereInput = {
+        ...(filters.statut && { statut: filters.statut }),
+        ...(filters.userId && { userId: filters.userId }),
+        ...((filters.dateDebut || filters.dateFin) && {
+          createdAt: {
+            ...(filters.dateDebut && { gte: filters.dateDebut }),
+            ...(filters.dateFin && { lte: filters.dateFin })
+          }
+        })
+      };
+
+      // Annonces ayant reçu au moins N signalements
+      if (filters.signalementsMin && filters.signalementsMin > 0) {
+        const signalees = await prisma.signalement.groupBy({
+          by: ['annonceId'],
+          _count: { _all: true },
+          having: {
+            annonceId: { _count: { gte: filters.signalementsMin } }
+          }
+        });
+        where.id = { in: signalees.map(group => group.annonceId) };
+      }
+
+      const [annonces, total] = await Promise.all([
+        prisma.annonce.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          include: {
+            user: { select: PUBLIC_USER_SELECT },
+            _count: {
+              select: {
+                signalements: true,
+                favoris: true,
+                messages: true
               }
             }
-          ]
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              avatar: true,
-              isProfessional: true,
-              companyName: true,
-              region: true,
-              commune: true
-            }
           }
-        },
-        take: limit,
-        orderBy: [
-          { premium: 'desc' },
-          { datePublication: 'desc' }
-        ]
-      });
+        }),
+        prisma.annonce.count({ where })
+      ]);
 
-      return similarAnnonces.map(annonce => this.formatAnnonceForAPI(annonce));
+      return {
+        annonces: annonces.map(annonce => ({
+          ...this.formatAnnonceForAPI(annonce, undefined, { contactVisible: true }),
+          signalementsCount: annonce._count.signalements
+        })),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit)
+      };
 
     } catch (error) {
-      console.error('Erreur recommandations:', error);
-      return [];
+      console.error('Erreur liste admin annonces:', error);
+      throw new Error('Erreur lors de la récupération des annonces');
     }
   }
 }
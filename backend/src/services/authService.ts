@@ -5,7 +5,7 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { PrismaClient } from '@prisma/client';
-import type { User, UserStatus, AuthTokens } from '../../../shared/src/types';
+import type { User, UserStatus, UserRole, AuthTokens } from '../../../shared/src/types';
 
 const prisma = new PrismaClient();
 
@@ -34,6 +34,7 @@ interface LoginData {
 interface TokenPayload {
   userId: string;
   email: string;
+  role?: UserRole; // Présent sur les access et refresh tokens
   type: 'access' | 'refresh' | 'verification' | 'reset';
   iat?: number;
   exp?: number;
@@ -127,13 +128,14 @@ export class AuthService {
           emailVerified: true,
           phoneVerified: true,
           status: true,
+          role: true,
           createdAt: true,
           updatedAt: true
         }
       });
       
       // Générer les tokens
-      const tokens = await this.generateTokenPair(user.id, user.email);
+      const tokens = await this.generateTokenPair(user.id, user.email, user.role as UserRole);
       
       // Envoyer l'email de vérification (async, ne pas attendre)
       this.sendVerificationEmail(user.email, user.firstName).catch(console.error);
@@ -196,7 +198,7 @@ export class AuthService {
       });
       
       // Générer les tokens
-      const tokens = await this.generateTokenPair(user.id, user.email, data.rememberMe);
+      const tokens = await this.generateTokenPair(user.id, user.email, user.role as UserRole, data.rememberMe);
       
       // Log de la connexion
       await this.logActivity('USER_LOGIN', user.id, {
@@ -244,7 +246,8 @@ export class AuthService {
       // Générer de nouveaux tokens
       const tokens = await this.generateTokenPair(
         tokenRecord.userId, 
-        tokenRecord.user.email
+        tokenRecord.user.email,
+        tokenRecord.user.role as UserRole
       );
       
       // Supprimer l'ancien refresh token
@@ -468,12 +471,13 @@ export class AuthService {
   private static async generateTokenPair(
     userId: string, 
     email: string, 
+    role: UserRole,
     rememberMe = false
   ): Promise<AuthTokens> {
-    const accessToken = this.generateToken(userId, email, 'access', JWT_CONFIG.ACCESS_TOKEN_EXPIRES);
+    const accessToken = this.generateToken(userId, email, 'access', JWT_CONFIG.ACCESS_TOKEN_EXPIRES, role);
     
     const refreshTokenExpires = rememberMe ? '30d' : JWT_CONFIG.REFRESH_TOKEN_EXPIRES;
-    const refreshToken = this.generateToken(userId, email, 'refresh', refreshTokenExpires);
+    const refreshToken = this.generateToken(userId, email, 'refresh', refreshTokenExpires, role);
     
     // Sauvegarder le refresh token en base
     const expiresAt = new Date();
@@ -498,7 +502,8 @@ export class AuthService {
     userId: string,
     email: string,
     type: 'access' | 'refresh' | 'verification' | 'reset',
-    expiresIn: string
+    expiresIn: string,
+    role?: UserRole
   ): string {
     const secret = type === 'refresh' ? JWT_CONFIG.REFRESH_SECRET : JWT_CONFIG.SECRET;
     
@@ -506,7 +511,8 @@ export class AuthService {
       {
         userId,
         email,
-        type
+        type,
+        ...(role && { role })
       } as TokenPayload,
       secret,
       {
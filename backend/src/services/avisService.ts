@@ -0,0 +1,350 @@
+// backend/src/services/avisService.ts
+// SERVICE AVIS ET RÉPUTATION DES VENDEURS
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { StatutAnnonce } from '../../../shared/src/types';
+import type { Avis } from '../../../shared/src/types';
+import {
+  AuthorizationError,
+  DuplicateError,
+  NotFoundError,
+  ValidationError
+} from '../middleware/errorMiddleware';
+import { PUBLIC_USER_SELECT, toPublicUser } from '../utils/publicUser';
+import type { ReputationVendeur } from '../utils/publicUser';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface CreateAvisData {
+  annonceId: string;
+  note: number;
+  commentaire?: string | undefined;
+  communication?: number | undefined;
+  ponctualite?: number | undefined;
+  description?: number | undefined;
+}
+
+interface AvisListOptions {
+  page: number;
+  limit: number;
+}
+
+interface ResumeAvis extends ReputationVendeur {
+  moyennes: {
+    communication: number | null;
+    ponctualite: number | null;
+    description: number | null;
+  };
+  repartition: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+interface AvisListResult {
+  avis: Avis[];
+  resume: ResumeAvis;
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+const AVIS_INCLUDE = {
+  evaluateur: { select: PUBLIC_USER_SELECT },
+  annonce: { select: { id: true, titre: true } }
+} as const;
+
+const MAX_REPONSE_LENGTH = 1000;
+
+// ==============================================
+// CLASSE AVISSERVICE
+// ==============================================
+
+export class AvisService {
+
+  // ==============================================
+  // DÉPÔT D'UN AVIS
+  // ==============================================
+
+  /**
+   * Un acheteur ne peut évaluer le vendeur que s'il a échangé des messages
+   * avec lui au sujet de l'annonce ou, une fois celle-ci marquée VENDUE,
+   * s'il en a affiché les coordonnées (l'acheteur n'est pas enregistré sur l'annonce)
+   */
+  static async createAvis(evaluateurId: string, data: CreateAvisData): Promise<Avis> {
+    try {
+      const annonce = await prisma.annonce.findUnique({
+        where: { id: data.annonceId },
+        select: { id: true, userId: true, statut: true }
+      });
+
+      if (!annonce || annonce.statut === StatutAnnonce.SUPPRIMEE) {
+        throw new NotFoundError('Annonce');
+      }
+
+      if (annonce.userId === evaluateurId) {
+        throw new ValidationError('Vous ne pouvez pas évaluer votre propre annonce');
+      }
+
+      const isEligible = await this.canReview(evaluateurId, annonce);
+      if (!isEligible) {
+        throw new AuthorizationError('Vous devez avoir contacté le vendeur au sujet de cette annonce pour laisser un avis');
+      }
+
+      const avis = await prisma.avis.create({
+        data: {
+          userId: annonce.userId,
+          evaluateurId,
+          annonceId: annonce.id,
+          note: data.note,
+          commentaire: data.commentaire?.trim() || null,
+          communication: data.communication ?? null,
+          ponctualite: data.ponctualite ?? null,
+          description: data.description ?? null
+        },
+        include: AVIS_INCLUDE
+      });
+
+      await this.logActivity('AVIS_CREATED', avis.id, evaluateurId, {
+        vendeurId: annonce.userId,
+        annonceId: annonce.id,
+        note: data.note
+      });
+
+      return this.formatAvis(avis);
+
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateError('Un avis pour cette annonce');
+      }
+      console.error('Erreur création avis:', error);
+      throw error instanceof Error ? error : new Error('Erreur lors de la création de l\'avis');
+    }
+  }
+
+  // ==============================================
+  // RÉPONSE DU VENDEUR
+  // ==============================================
+
+  static async replyToAvis(avisId: string, vendeurId: string, reponse: string): Promise<Avis> {
+    try {
+      const contenu = reponse.trim();
+      if (contenu.length === 0 || contenu.length > MAX_REPONSE_LENGTH) {
+        throw new ValidationError(`La réponse doit contenir entre 1 et ${MAX_REPONSE_LENGTH} caractères`);
+      }
+
+      const avis = await prisma.avis.findUnique({
+        where: { id: avisId },
+        select: { id: true, userId: true, reponse: true }
+      });
+
+      if (!avis) {
+        throw new NotFoundError('Avis');
+      }
+
+      if (avis.userId !== vendeurId) {
+        throw new AuthorizationError('Seul le vendeur évalué peut répondre à cet avis');
+      }
+
+      // Mise à jour conditionnelle : une seule réponse possible, même en concurrence
+      const result = await prisma.avis.updateMany({
+        where: { id: avisId, reponse: null },
+        data: {
+          reponse: contenu,
+          reponseAt: new Date()
+        }
+      });
+
+      if (result.count === 0) {
+        throw new DuplicateError('Une réponse à cet avis');
+      }
+
+      const updated = await prisma.avis.findUniqueOrThrow({
+        where: { id: avisId },
+        include: AVIS_INCLUDE
+      });
+
+      await this.logActivity('AVIS_REPLIED', avisId, vendeurId);
+
+      return this.formatAvis(updated);
+
+    } catch (error) {
+      console.error('Erreur réponse avis:', error);
+      throw error instanceof Error ? error : new Error('Erreur lors de la réponse à l\'avis');
+    }
+  }
+
+  // ==============================================
+  // AVIS REÇUS PAR UN UTILISATEUR
+  // ==============================================
+
+  static async getUserAvis(userId: string, options: AvisListOptions): Promise<AvisListResult> {
+    try {
+      const { page, limit } = options;
+
+      const [avis, total, resume] = await Promise.all([
+        prisma.avis.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          include: AVIS_INCLUDE
+        }),
+        prisma.avis.count({ where: { userId } }),
+        this.getResume(userId)
+      ]);
+
+      return {
+        avis: avis.map(item => this.formatAvis(item)),
+        resume,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit)
+      };
+
+    } catch (error) {
+      console.error('Erreur liste avis:', error);
+      throw new Error('Erreur lors de la récupération des avis');
+    }
+  }
+
+  // ==============================================
+  // AGRÉGATS DE RÉPUTATION
+  // ==============================================
+
+  /**
+   * Note moyenne et nombre d'avis pour une liste d'utilisateurs (une seule requête)
+   */
+  static async getReputations(userIds: string[]): Promise<Map<string, ReputationVendeur>> {
+    const reputations = new Map<string, ReputationVendeur>();
+    const uniqueIds = [...new Set(userIds)];
+
+    for (const id of uniqueIds) {
+      reputations.set(id, { noteGlobale: null, nombreAvis: 0 });
+    }
+
+    if (uniqueIds.length === 0) return reputations;
+
+    try {
+      const groups = await prisma.avis.groupBy({
+        by: ['userId'],
+        where: { userId: { in: uniqueIds } },
+        _avg: { note: true },
+        _count: { _all: true }
+      });
+
+      for (const group of groups) {
+        reputations.set(group.userId, {
+          noteGlobale: this.roundNote(group._avg.note),
+          nombreAvis: group._count._all
+        });
+      }
+
+    } catch (error) {
+      // La réputation ne doit jamais faire échouer l'affichage des annonces
+      console.error('Erreur calcul réputations:', error);
+    }
+
+    return reputations;
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async canReview(
+    evaluateurId: string,
+    annonce: { id: string; userId: string; statut: string }
+  ): Promise<boolean> {
+    const [echanges, revelations] = await Promise.all([
+      prisma.message.count({
+        where: {
+          annonceId: annonce.id,
+          OR: [
+            { senderId: evaluateurId, receiverId: annonce.userId },
+            { senderId: annonce.userId, receiverId: evaluateurId }
+          ]
+        }
+      }),
+      annonce.statut === StatutAnnonce.VENDUE
+        ? prisma.contactRevele.count({ where: { annonceId: annonce.id, userId: evaluateurId } })
+        : Promise.resolve(0)
+    ]);
+
+    return echanges > 0 || revelations > 0;
+  }
+
+  private static async getResume(userId: string): Promise<ResumeAvis> {
+    const [aggregate, repartition] = await Promise.all([
+      prisma.avis.aggregate({
+        where: { userId },
+        _avg: { note: true, communication: true, ponctualite: true, description: true },
+        _count: { _all: true }
+      }),
+      prisma.avis.groupBy({
+        by: ['note'],
+        where: { userId },
+        _count: { _all: true }
+      })
+    ]);
+
+    const distribution: ResumeAvis['repartition'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const group of repartition) {
+      if (group.note >= 1 && group.note <= 5) {
+        distribution[group.note as 1 | 2 | 3 | 4 | 5] = group._count._all;
+      }
+    }
+
+    return {
+      noteGlobale: this.roundNote(aggregate._avg.note),
+      nombreAvis: aggregate._count._all,
+      moyennes: {
+        communication: this.roundNote(aggregate._avg.communication),
+        ponctualite: this.roundNote(aggregate._avg.ponctualite),
+        description: this.roundNote(aggregate._avg.description)
+      },
+      repartition: distribution
+    };
+  }
+
+  private static roundNote(value: number | null): number | null {
+    return value === null ? null : Math.round(value * 10) / 10;
+  }
+
+  private static formatAvis(avis: any): Avis {
+    return {
+      id: avis.id,
+      userId: avis.userId,
+      evaluateurId: avis.evaluateurId,
+      annonceId: avis.annonceId,
+      note: avis.note,
+      ...(avis.commentaire && { commentaire: avis.commentaire }),
+      ...(avis.communication && { communication: avis.communication }),
+      ...(avis.ponctualite && { ponctualite: avis.ponctualite }),
+      ...(avis.description && { description: avis.description }),
+      ...(avis.reponse && { reponse: avis.reponse, reponseAt: avis.reponseAt }),
+      createdAt: avis.createdAt,
+      evaluateur: toPublicUser(avis.evaluateur),
+      ...(avis.annonce && { annonce: avis.annonce })
+    };
+  }
+
+  private static async logActivity(action: string, avisId: string, userId: string, details?: any): Promise<void> {
+    try {
+      await prisma.logActivite.create({
+        data: {
+          userId,
+          action,
+          entite: 'Avis',
+          entiteId: avisId,
+          details: details || {}
+        }
+      });
+    } catch (error) {
+      console.error('Erreur log activité:', error);
+    }
+  }
+}
+
+export default AvisService;
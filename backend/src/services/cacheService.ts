@@ -0,0 +1,171 @@
+// backend/src/services/cacheService.ts
+// SERVICE DE CACHE DES LECTURES D'ANNONCES (RECHERCHE, FACETTES, SIMILAIRES)
+
+import { createHash } from 'crypto';
+import type { StatutCache } from '../../../shared/src/types';
+import { createCacheStore } from '../lib/cacheStore';
+import type { CacheStore } from '../lib/cacheStore';
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+// Périmètre d'une lecture : catégorie et région filtrées (toutes si absentes)
+interface PerimetreAnnonces {
+  categorie?: string | undefined;
+  region?: string | undefined;
+}
+
+// Emplacement d'une annonce créée, modifiée, vendue ou expirée
+interface EmplacementAnnonce {
+  categorie: string;
+  region: string;
+}
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const TOUTES = '*';
+
+let store: CacheStore | null = null;
+
+// ==============================================
+// CLASSE CACHESERVICE
+// ==============================================
+
+export class CacheService {
+
+  // ==============================================
+  // LECTURE AVEC MISE EN CACHE
+  // ==============================================
+
+  /**
+   * Valeur en cache pour ces paramètres, sinon calculée puis mise en cache.
+   * Le cache ne fait jamais échouer une requête : en cas d'erreur du
+   * stockage, la valeur est calculée normalement (statut "miss")
+   */
+  static async remember<T>(
+    espace: string,
+    params: unknown,
+    options: { ttlSeconds: number; tags: string[] },
+    loader: () => Promise<T>
+  ): Promise<{ value: T; cache: StatutCache }> {
+    const key = this.buildKey(espace, params);
+
+    try {
+      const cached = await this.getStore().get<T>(key);
+      if (cached !== null) {
+        return { value: cached, cache: 'hit' };
+      }
+    } catch (error) {
+      console.error('⚠️ Cache indisponible (lecture):', error);
+    }
+
+    const value = await loader();
+
+    this.getStore().set(key, value, options).catch(error => {
+      console.error('⚠️ Cache indisponible (écriture):', error);
+    });
+
+    return { value, cache: 'miss' };
+  }
+
+  /**
+   * Étiquettes d'une lecture d'annonces. L'étiquette combinée permet de
+   * n'invalider que les lectures dont le périmètre contient l'annonce modifiée
+   */
+  static tagsAnnonces(perimetre: PerimetreAnnonces = {}): string[] {
+    const categorie = perimetre.categorie || TOUTES;
+    const region = perimetre.region || TOUTES;
+
+    return [`categorie:${categorie}`, `region:${region}`, `annonces:${categorie}:${region}`];
+  }
+
+  // ==============================================
+  // INVALIDATION
+  // ==============================================
+
+  /**
+   * Annonces créées, modifiées, vendues ou expirées : lectures de leur
+   * catégorie et/ou de leur région, et lectures sans filtre
+   */
+  static async invalidateAnnonces(emplacements: EmplacementAnnonce[]): Promise<void> {
+    const tags = new Set<string>();
+
+    for (const { categorie, region } of emplacements) {
+      tags.add(`annonces:${categorie}:${region}`);
+      tags.add(`annonces:${categorie}:${TOUTES}`);
+      tags.add(`annonces:${TOUTES}:${region}`);
+      tags.add(`annonces:${TOUTES}:${TOUTES}`);
+    }
+
+    await this.invalidate([...tags]);
+  }
+
+  /**
+   * Toutes les lectures d'une catégorie (annonces reclassées), quelle que soit la région
+   */
+  static async invalidateCategorie(categorie: string): Promise<void> {
+    await this.invalidate([`categorie:${categorie}`, `categorie:${TOUTES}`]);
+  }
+
+  /**
+   * Toutes les lectures d'une région (communes renommées), quelle que soit la catégorie
+   */
+  static async invalidateRegion(region: string): Promise<void> {
+    await this.invalidate([`region:${region}`, `region:${TOUTES}`]);
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static getStore(): CacheStore {
+    if (!store) {
+      store = createCacheStore();
+    }
+    return store;
+  }
+
+  private static async invalidate(tags: string[]): Promise<void> {
+    if (tags.length === 0) return;
+
+    try {
+      const count = await this.getStore().invalidateTags(tags);
+      if (count > 0) {
+        console.log(`🗄️ ${count} entrée(s) de cache invalidée(s):`, tags);
+      }
+    } catch (error) {
+      console.error('⚠️ Cache indisponible (invalidation):', error);
+    }
+  }
+
+  // Clé normalisée : mêmes filtres dans un autre ordre, même clé
+  private static buildKey(espace: string, params: unknown): string {
+    const hash = createHash('sha1').update(this.stableStringify(params)).digest('hex');
+    return `${espace}:${hash}`;
+  }
+
+  private static stableStringify(value: unknown): string {
+    if (value instanceof Date) {
+      return JSON.stringify(value.toISOString());
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item ?? null)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value)
+        .filter(([, item]) => item !== undefined && item !== '')
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+      return `{${entries.map(([cle, item]) => `${JSON.stringify(cle)}:${this.stableStringify(item)}`).join(',')}}`;
+    }
+
+    return JSON.stringify(value ?? null);
+  }
+}
+
+export default CacheService;
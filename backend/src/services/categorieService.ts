@@ -0,0 +1,426 @@
+// backend/src/services/categorieService.ts
+// SERVICE RÉFÉRENTIEL DES CATÉGORIES (ARBRE EN BASE, ADMINISTRABLE)
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import slugify from 'slugify';
+import { ATTRIBUTS_CATEGORIES, CATEGORIES_CI } from '../../../shared/src/types';
+import type {
+  AttributCategorie,
+  CategorieCode,
+  CategorieNoeud,
+  ChampPersonnalise
+} from '../../../shared/src/types';
+import { DuplicateError, NotFoundError, ValidationError } from '../middleware/errorMiddleware';
+import CacheService from './cacheService';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface CategorieData {
+  nom: string;
+  slug?: string | undefined;
+  description?: string | undefined;
+  icone?: string | undefined;
+  image?: string | undefined;
+  couleur?: string | undefined;
+  parentId?: string | undefined;
+  champsPersonnalises: ChampPersonnalise[];
+  active: boolean;
+}
+
+interface CategorieUpdateData {
+  nom?: string | undefined;
+  description?: string | null | undefined;
+  icone?: string | null | undefined;
+  image?: string | null | undefined;
+  couleur?: string | null | undefined;
+  parentId?: string | null | undefined;
+  champsPersonnalises?: ChampPersonnalise[] | undefined;
+  active?: boolean | undefined;
+}
+
+type CategorieRow = Prisma.CategorieGetPayload<{}>;
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const CATEGORIE_CONFIG = {
+  CACHE_TTL_MS: 10 * 60 * 1000, // 10 minutes, vidé à chaque modification
+  SLUG: { lower: true, strict: true } // Accents retirés, ponctuation supprimée
+};
+
+let cache: { arbre: CategorieNoeud[]; expiresAt: number } | null = null;
+
+// ==============================================
+// CLASSE CATEGORIESERVICE
+// ==============================================
+
+export class CategorieService {
+
+  // ==============================================
+  // LECTURE DU RÉFÉRENTIEL
+  // ==============================================
+
+  /**
+   * Arbre ordonné des catégories. Les catégories désactivées (et leurs
+   * sous-catégories) ne sont visibles que de l'administration
+   */
+  static async getArbre(options: { inclureInactives?: boolean } = {}): Promise<CategorieNoeud[]> {
+    const arbre = await this.loadArbre();
+    if (options.inclureInactives) return arbre;
+
+    const actives = (noeuds: CategorieNoeud[]): CategorieNoeud[] => noeuds
+      .filter(noeud => noeud.active)
+      .map(noeud => ({ ...noeud, sousCategories: actives(noeud.sousCategories) }));
+
+    return actives(arbre);
+  }
+
+  /**
+   * Catégorie principale active par son slug (valeur stockée dans annonce.categorie)
+   */
+  static async getCategorie(slug: string): Promise<CategorieNoeud | null> {
+    const arbre = await this.getArbre();
+    return arbre.find(categorie => categorie.slug === slug) || null;
+  }
+
+  static async isCategorieValide(slug: string): Promise<boolean> {
+    return !!(await this.getCategorie(slug));
+  }
+
+  /**
+   * Noms des sous-catégories actives (valeurs stockées dans annonce.sousCategorie)
+   */
+  static async getSousCategories(slug: string): Promise<string[]> {
+    const categorie = await this.getCategorie(slug);
+    return categorie ? categorie.sousCategories.map(sousCategorie => sousCategorie.nom) : [];
+  }
+
+  /**
+   * Attributs typés d'une catégorie, complétés par ceux de la sous-catégorie
+   */
+  static async getAttributs(slug: string, sousCategorie?: string | null): Promise<Record<string, AttributCategorie>> {
+    const categorie = await this.getCategorie(slug);
+    if (!categorie) return {};
+
+    const enfant = sousCategorie
+      ? categorie.sousCategories.find(noeud => noeud.nom === sousCategorie)
+      : undefined;
+
+    return Object.fromEntries(
+      [...categorie.champsPersonnalises, ...(enfant?.champsPersonnalises || [])]
+        .map(({ cle, ...attribut }) => [cle, attribut])
+    );
+  }
+
+  /**
+   * À appeler après toute modification de la table categories
+   */
+  static clearCache(): void {
+    cache = null;
+  }
+
+  // ==============================================
+  // ADMINISTRATION
+  // ==============================================
+
+  static async createCategorie(data: CategorieData): Promise<CategorieNoeud> {
+    const parent = data.parentId ? await this.assertParent(data.parentId) : null;
+
+    await this.assertNomDisponible(data.nom, parent?.id ?? null);
+
+    const slugNom = slugify(data.nom, CATEGORIE_CONFIG.SLUG);
+    const slugBase = data.slug || (parent ? `${parent.slug}-${slugNom}` : slugNom);
+    const slug = data.slug ? await this.assertSlugDisponible(data.slug) : await this.uniqueSlug(slugBase);
+
+    // Ajoutée en fin de liste de ses sœurs
+    const derniere = await prisma.categorie.findFirst({
+      where: { parentId: parent?.id ?? null },
+      orderBy: { ordre: 'desc' },
+      select: { ordre: true }
+    });
+
+    const categorie = await prisma.categorie.create({
+      data: {
+        nom: data.nom,
+        slug,
+        description: data.description ?? null,
+        icone: data.icone ?? null,
+        image: data.image ?? null,
+        couleur: data.couleur ?? null,
+        parentId: parent?.id ?? null,
+        champsPersonnalises: data.champsPersonnalises as unknown as Prisma.InputJsonArray,
+        active: data.active,
+        ordre: derniere ? derniere.ordre + 1 : 0
+      }
+    });
+
+    this.clearCache();
+    console.log('📂 Catégorie créée:', { slug, parent: parent?.slug });
+
+    return this.toNoeud(categorie, []);
+  }
+
+  /**
+   * Modification, désactivation ou déplacement dans l'arbre. Les annonces
+   * suivent : une catégorie imbriquée devient leur sous-catégorie
+   */
+  static async updateCategorie(id: string, data: CategorieUpdateData): Promise<CategorieNoeud> {
+    const categorie = await prisma.categorie.findUnique({
+      where: { id },
+      include: { parent: true, _count: { select: { sousCategories: true } } }
+    });
+
+    if (!categorie) {
+      throw new NotFoundError('Catégorie');
+    }
+
+    const deplacement = data.parentId !== undefined && data.parentId !== categorie.parentId;
+    const parent = deplacement
+      ? (data.parentId ? await this.assertParent(data.parentId, id) : null)
+      : categorie.parent;
+
+    if (deplacement && parent && categorie._count.sousCategories > 0) {
+      throw new ValidationError('Une catégorie qui a des sous-catégories ne peut pas être imbriquée');
+    }
+
+    const nom = data.nom ?? categorie.nom;
+    if (nom !== categorie.nom || deplacement) {
+      await this.assertNomDisponible(nom, parent?.id ?? null, id);
+    }
+
+    // Emplacement des annonces avant / après : { categorie, sousCategorie }
+    const avant = this.emplacement(categorie, categorie.parent);
+    const apres = this.emplacement({ slug: categorie.slug, nom }, parent);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.categorie.update({
+        where: { id },
+        data: {
+          ...(data.nom !== undefined && { nom: data.nom }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.icone !== undefined && { icone: data.icone }),
+          ...(data.image !== undefined && { image: data.image }),
+          ...(data.couleur !== undefined && { couleur: data.couleur }),
+          ...(data.active !== undefined && { active: data.active }),
+          ...(data.champsPersonnalises !== undefined && {
+            champsPersonnalises: data.champsPersonnalises as unknown as Prisma.InputJsonArray
+          }),
+          ...(deplacement && { parentId: parent?.id ?? null })
+        }
+      });
+
+      if (avant.categorie !== apres.categorie || avant.sousCategorie !== apres.sousCategorie) {
+        const { count } = await tx.annonce.updateMany({
+          where: {
+            categorie: avant.categorie,
+            ...(avant.sousCategorie !== null && { sousCategorie: avant.sousCategorie })
+          },
+          data: {
+            categorie: apres.categorie,
+            ...((avant.sousCategorie !== null || apres.sousCategorie !== null) && { sousCategorie: apres.sousCategorie })
+          }
+        });
+
+        if (count > 0) {
+          console.log(`📂 ${count} annonce(s) reclassée(s):`, { avant, apres });
+        }
+      }
+    });
+
+    this.clearCache();
+
+    // Annonces reclassées : lectures en cache des deux catégories
+    if (avant.categorie !== apres.categorie || avant.sousCategorie !== apres.sousCategorie) {
+      await CacheService.invalidateCategorie(avant.categorie);
+      await CacheService.invalidateCategorie(apres.categorie);
+    }
+
+    const arbre = await this.getArbre({ inclureInactives: true });
+    return this.findNoeud(arbre, id)!;
+  }
+
+  /**
+   * Nouvel ordre d'affichage des catégories d'un même niveau
+   */
+  static async reorderCategories(parentId: string | null, ids: string[]): Promise<CategorieNoeud[]> {
+    const soeurs = await prisma.categorie.findMany({
+      where: { parentId },
+      select: { id: true }
+    });
+
+    const attendus = new Set(soeurs.map(soeur => soeur.id));
+    if (ids.length !== attendus.size || new Set(ids).size !== ids.length || !ids.every(id => attendus.has(id))) {
+      throw new ValidationError('La liste doit contenir une et une seule fois chaque catégorie de ce niveau');
+    }
+
+    await prisma.$transaction(
+      ids.map((id, ordre) => prisma.categorie.update({ where: { id }, data: { ordre } }))
+    );
+
+    this.clearCache();
+
+    const arbre = await this.getArbre({ inclureInactives: true });
+    return parentId ? this.findNoeud(arbre, parentId)?.sousCategories || [] : arbre;
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async loadArbre(): Promise<CategorieNoeud[]> {
+    if (cache && cache.expiresAt > Date.now()) {
+      return cache.arbre;
+    }
+
+    const rows = await prisma.categorie.findMany({
+      orderBy: [{ ordre: 'asc' }, { nom: 'asc' }]
+    });
+
+    let arbre: CategorieNoeud[];
+
+    if (rows.length === 0) {
+      // Base non initialisée : référentiel statique en attendant le seed
+      console.warn('⚠️ Table categories vide, référentiel statique utilisé (lancer le seed)');
+      arbre = this.arbreStatique();
+    } else {
+      const enfants = new Map<string, CategorieRow[]>();
+      for (const row of rows) {
+        if (!row.parentId) continue;
+        enfants.set(row.parentId, [...(enfants.get(row.parentId) || []), row]);
+      }
+
+      // Deux niveaux : catégorie (annonce.categorie) et sous-catégorie (annonce.sousCategorie)
+      arbre = rows
+        .filter(row => !row.parentId)
+        .map(row => this.toNoeud(row, (enfants.get(row.id) || []).map(enfant => this.toNoeud(enfant, []))));
+    }
+
+    cache = { arbre, expiresAt: Date.now() + CATEGORIE_CONFIG.CACHE_TTL_MS };
+
+    return arbre;
+  }
+
+  private static arbreStatique(): CategorieNoeud[] {
+    return Object.entries(CATEGORIES_CI).map(([code, categorie], ordre) => {
+      const attributs = ATTRIBUTS_CATEGORIES[code as CategorieCode] as Record<string, AttributCategorie>;
+
+      return {
+        id: code,
+        nom: categorie.nom,
+        slug: code,
+        icone: categorie.icon,
+        ordre,
+        active: true,
+        champsPersonnalises: categorie.champsSpecifiques.map(cle => ({ cle, ...attributs[cle]! })),
+        sousCategories: categorie.sousCategories.map((nom, index) => ({
+          id: `${code}-${slugify(nom, CATEGORIE_CONFIG.SLUG)}`,
+          nom,
+          slug: `${code}-${slugify(nom, CATEGORIE_CONFIG.SLUG)}`,
+          parentId: code,
+          ordre: index,
+          active: true,
+          champsPersonnalises: [],
+          sousCategories: []
+        }))
+      };
+    });
+  }
+
+  private static toNoeud(row: CategorieRow, sousCategories: CategorieNoeud[]): CategorieNoeud {
+    return {
+      id: row.id,
+      nom: row.nom,
+      slug: row.slug,
+      ...(row.description && { description: row.description }),
+      ...(row.icone && { icone: row.icone }),
+      ...(row.image && { image: row.image }),
+      ...(row.couleur && { couleur: row.couleur }),
+      ...(row.parentId && { parentId: row.parentId }),
+      ordre: row.ordre,
+      active: row.active,
+      champsPersonnalises: Array.isArray(row.champsPersonnalises)
+        ? row.champsPersonnalises as unknown as ChampPersonnalise[]
+        : [],
+      sousCategories
+    };
+  }
+
+  private static findNoeud(noeuds: CategorieNoeud[], id: string): CategorieNoeud | undefined {
+    for (const noeud of noeuds) {
+      if (noeud.id === id) return noeud;
+      const trouve = this.findNoeud(noeud.sousCategories, id);
+      if (trouve) return trouve;
+    }
+    return undefined;
+  }
+
+  // Valeurs stockées dans les annonces d'une catégorie selon sa place dans l'arbre
+  private static emplacement(
+    categorie: { slug: string; nom: string },
+    parent: { slug: string } | null
+  ): { categorie: string; sousCategorie: string | null } {
+    return parent
+      ? { categorie: parent.slug, sousCategorie: categorie.nom }
+      : { categorie: categorie.slug, sousCategorie: null };
+  }
+
+  // Deux niveaux au plus : le parent doit être une catégorie principale
+  private static async assertParent(parentId: string, id?: string): Promise<CategorieRow> {
+    if (parentId === id) {
+      throw new ValidationError('Une catégorie ne peut pas être son propre parent');
+    }
+
+    const parent = await prisma.categorie.findUnique({ where: { id: parentId } });
+
+    if (!parent) {
+      throw new NotFoundError('Catégorie parente');
+    }
+
+    if (parent.parentId) {
+      throw new ValidationError('Une sous-catégorie ne peut pas avoir de sous-catégories');
+    }
+
+    return parent;
+  }
+
+  private static async assertNomDisponible(nom: string, parentId: string | null, excludeId?: string): Promise<void> {
+    const existante = await prisma.categorie.findFirst({
+      where: {
+        parentId,
+        nom: { equals: nom, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } })
+      },
+      select: { id: true }
+    });
+
+    if (existante) {
+      throw new DuplicateError('Une catégorie de ce nom');
+    }
+  }
+
+  private static async assertSlugDisponible(slug: string): Promise<string> {
+    const existante = await prisma.categorie.findUnique({ where: { slug }, select: { id: true } });
+    if (existante) {
+      throw new DuplicateError('Ce slug');
+    }
+    return slug;
+  }
+
+  private static async uniqueSlug(base: string): Promise<string> {
+    let slug = base;
+    let suffixe = 2;
+
+    while (await prisma.categorie.findUnique({ where: { slug }, select: { id: true } })) {
+      slug = `${base}-${suffixe++}`;
+    }
+
+    return slug;
+  }
+}
+
+export default CategorieService;
@@ -0,0 +1,161 @@
+// backend/src/services/contactService.ts
+// SERVICE AFFICHAGE DES COORDONNÉES : NUMÉROS MASQUÉS, RÉVÉLATION SUIVIE, ANTI-SCRAPING
+
+import { PrismaClient } from '@prisma/client';
+import { StatutAnnonce } from '../../../shared/src/types';
+import type { CanalContact, ContactAnnonce } from '../../../shared/src/types';
+import { AuthenticationError, AuthorizationError, NotFoundError, RateLimitError } from '../middleware/errorMiddleware';
+import { detectBot } from '../middleware/loggingMiddleware';
+import StatistiqueService from './statistiqueService';
+import type { ContexteContact } from './statistiqueService';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const CONTACT_CONFIG = {
+  // Annonces distinctes dont un visiteur peut afficher les coordonnées par
+  // jour : au-delà, comportement de collecte automatique
+  MAX_ANNONCES_PAR_JOUR_CONNECTE: 50,
+  MAX_ANNONCES_PAR_JOUR_ANONYME: 10,
+  FENETRE_MS: 24 * 60 * 60 * 1000,
+  MAX_VISITEURS: 50000,
+  SITE_URL: process.env['FRONTEND_URL'] || 'https://petites-annonces-ci.com'
+};
+
+// Annonces révélées par visiteur sur la fenêtre : clé visiteur → annonceId → date
+const revelations = new Map<string, Map<string, number>>();
+
+// ==============================================
+// CLASSE CONTACTSERVICE
+// ==============================================
+
+export class ContactService {
+
+  // ==============================================
+  // RÉVÉLATION DES COORDONNÉES
+  // ==============================================
+
+  /**
+   * Coordonnées d'une annonce active pour un canal, comptées comme un clic
+   * contact dans les statistiques du vendeur. Refusé aux bots, et au-delà
+   * d'un nombre d'annonces distinctes par visiteur et par jour
+   */
+  static async revealContact(annonceId: string, canal: CanalContact, contexte: ContexteContact): Promise<ContactAnnonce> {
+    if (!contexte.userId && process.env['CONTACT_CONNEXION_REQUISE'] === 'true') {
+      throw new AuthenticationError('Connectez-vous pour afficher les coordonnées du vendeur');
+    }
+
+    if (!contexte.userAgent || detectBot(contexte.userAgent)) {
+      throw new AuthorizationError('Affichage des coordonnées refusé');
+    }
+
+    const annonce = await prisma.annonce.findUnique({
+      where: { id: annonceId },
+      select: { id: true, titre: true, userId: true, statut: true, telephone: true, whatsapp: true, email: true }
+    });
+
+    if (!annonce || annonce.statut !== StatutAnnonce.ACTIVE) {
+      throw new NotFoundError('Annonce');
+    }
+
+    const valeur = annonce[canal];
+    if (!valeur) {
+      throw new NotFoundError(`Contact ${canal} de cette annonce`);
+    }
+
+    if (contexte.userId !== annonce.userId) {
+      this.assertQuota(annonce.id, contexte);
+      StatistiqueService.recordContactClick(annonce, canal, contexte);
+
+      if (contexte.userId) {
+        await this.recordRevelation(contexte.userId, annonce.id);
+      }
+    }
+
+    return {
+      canal,
+      valeur,
+      ...(canal === 'whatsapp' && { lienWhatsapp: this.buildLienWhatsapp(valeur, annonce) })
+    };
+  }
+
+  // ==============================================
+  // MASQUAGE DANS LES RÉPONSES
+  // ==============================================
+
+  /**
+   * +2250701020304 → +225 07 •• •• •• 04
+   */
+  static maskTelephone(telephone: string): string {
+    const indicatif = telephone.startsWith('+225') ? '+225 ' : '';
+    const chiffres = telephone.replace(/^\+225/, '').replace(/\D/g, '');
+
+    if (chiffres.length <= 4) {
+      return indicatif + '•'.repeat(chiffres.length);
+    }
+
+    const masque = chiffres.substring(0, 2) + '•'.repeat(chiffres.length - 4) + chiffres.substring(chiffres.length - 2);
+    return indicatif + (masque.match(/.{1,2}/g) || []).join(' ');
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  // Une même annonce peut être réaffichée sans consommer le quota
+  private static assertQuota(annonceId: string, contexte: ContexteContact): void {
+    const visiteur = contexte.userId ? `u:${contexte.userId}` : `ip:${contexte.ip || ''}`;
+    const maximum = contexte.userId
+      ? CONTACT_CONFIG.MAX_ANNONCES_PAR_JOUR_CONNECTE
+      : CONTACT_CONFIG.MAX_ANNONCES_PAR_JOUR_ANONYME;
+    const now = Date.now();
+
+    const annonces = revelations.get(visiteur) || new Map<string, number>();
+    for (const [id, date] of annonces) {
+      if (date <= now - CONTACT_CONFIG.FENETRE_MS) annonces.delete(id);
+    }
+
+    if (!annonces.has(annonceId) && annonces.size >= maximum) {
+      console.warn('⚠️ Collecte de coordonnées suspecte:', { visiteur, annonces: annonces.size });
+      throw new RateLimitError(
+        contexte.userId
+          ? 'Trop de coordonnées affichées aujourd\'hui, réessayez demain'
+          : 'Trop de coordonnées affichées aujourd\'hui, connectez-vous pour continuer',
+        '24 heures'
+      );
+    }
+
+    annonces.set(annonceId, now);
+
+    revelations.delete(visiteur);
+    if (revelations.size >= CONTACT_CONFIG.MAX_VISITEURS) {
+      const oldest = revelations.keys().next().value;
+      if (oldest !== undefined) revelations.delete(oldest);
+    }
+    revelations.set(visiteur, annonces);
+  }
+
+  // Acheteur potentiel de l'annonce : ouvre les avis une fois l'annonce vendue
+  private static async recordRevelation(userId: string, annonceId: string): Promise<void> {
+    try {
+      await prisma.contactRevele.upsert({
+        where: { userId_annonceId: { userId, annonceId } },
+        create: { userId, annonceId },
+        update: {}
+      });
+    } catch (error) {
+      console.error('Erreur enregistrement coordonnées révélées:', error);
+    }
+  }
+
+  // Conversation WhatsApp avec un message prérempli citant l'annonce
+  private static buildLienWhatsapp(whatsapp: string, annonce: { id: string; titre: string }): string {
+    const message = `Bonjour, votre annonce « ${annonce.titre} » sur Petites Annonces CI m'intéresse : ${CONTACT_CONFIG.SITE_URL}/annonces/${annonce.id}`;
+    return `https://wa.me/${whatsapp.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+  }
+}
+
+export default ContactService;
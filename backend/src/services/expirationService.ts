@@ -0,0 +1,168 @@
+// backend/src/services/expirationService.ts
+// EXPIRATIONS PLANIFIÉES : ANNONCES, RAPPELS AUX PROPRIÉTAIRES, BOOSTS, ABONNEMENTS
+
+import { PrismaClient } from '@prisma/client';
+import { StatutAbonnement, StatutAnnonce } from '../../../shared/src/types';
+import type { NotificationPreferences } from '../../../shared/src/types';
+import CacheService from './cacheService';
+import { EmailService, SMSService } from './uploadService';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const EXPIRATION_CONFIG = {
+  RAPPEL_JOURS: 3,
+  BATCH_SIZE: 100
+};
+
+// Drapeau de chaque mise en avant et sa date de fin
+const BOOST_FIELDS = [
+  { flag: 'premium', fin: 'datePremiumFin' },
+  { flag: 'promue', fin: 'datePromotionFin' },
+  { flag: 'urgente', fin: 'dateUrgenceFin' }
+] as const;
+
+// ==============================================
+// CLASSE EXPIRATIONSERVICE
+// ==============================================
+
+export class ExpirationService {
+
+  // ==============================================
+  // ANNONCES ÉCHUES
+  // ==============================================
+
+  static async expireAnnonces(): Promise<number> {
+    const where = {
+      statut: StatutAnnonce.ACTIVE,
+      dateExpiration: { lte: new Date() }
+    };
+
+    // Catégories et régions touchées, pour les recherches en cache
+    const emplacements = await prisma.annonce.groupBy({ by: ['categorie', 'region'], where });
+
+    const result = await prisma.annonce.updateMany({
+      where,
+      data: { statut: StatutAnnonce.EXPIREE }
+    });
+
+    if (result.count > 0) {
+      await CacheService.invalidateAnnonces(emplacements);
+    }
+
+    return result.count;
+  }
+
+  // ==============================================
+  // RAPPELS "EXPIRE DANS 3 JOURS"
+  // ==============================================
+
+  /**
+   * Un seul rappel par période de publication : dateRappelExpiration est
+   * posée avant l'envoi et remise à zéro au renouvellement
+   */
+  static async sendExpirationReminders(): Promise<number> {
+    const now = new Date();
+    const limite = new Date(now.getTime() + EXPIRATION_CONFIG.RAPPEL_JOURS * 24 * 60 * 60 * 1000);
+
+    const annonces = await prisma.annonce.findMany({
+      where: {
+        statut: StatutAnnonce.ACTIVE,
+        dateExpiration: { gt: now, lte: limite },
+        dateRappelExpiration: null
+      },
+      select: {
+        id: true,
+        titre: true,
+        dateExpiration: true,
+        user: {
+          select: { firstName: true, email: true, phone: true, notifications: true }
+        }
+      },
+      take: EXPIRATION_CONFIG.BATCH_SIZE
+    });
+
+    let envoyes = 0;
+
+    for (const annonce of annonces) {
+      // Réservation du rappel : une autre exécution ne le renverra pas
+      const claimed = await prisma.annonce.updateMany({
+        where: { id: annonce.id, dateRappelExpiration: null },
+        data: { dateRappelExpiration: now }
+      });
+
+      if (claimed.count === 0) continue;
+
+      const preferences = (annonce.user.notifications || {}) as Partial<NotificationPreferences>;
+      if (preferences.rappelExpiration === false) continue;
+
+      const jours = Math.max(1, Math.ceil((annonce.dateExpiration!.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)));
+
+      if (preferences.email !== false && annonce.user.email) {
+        const template = EmailService.getExpirationReminderTemplate(
+          annonce.user.firstName,
+          annonce.titre,
+          annonce.dateExpiration!
+        );
+        await EmailService.sendEmail({ to: annonce.user.email, ...template });
+      }
+
+      if (preferences.sms !== false && annonce.user.phone) {
+        await SMSService.sendSMS({
+          to: annonce.user.phone,
+          message: SMSService.getExpirationReminderSMS(annonce.titre, jours)
+        });
+      }
+
+      envoyes++;
+    }
+
+    return envoyes;
+  }
+
+  // ==============================================
+  // BOOSTS ET ABONNEMENTS TERMINÉS
+  // ==============================================
+
+  static async expireBoosts(): Promise<number> {
+    const now = new Date();
+    let total = 0;
+
+    for (const { flag, fin } of BOOST_FIELDS) {
+      const where = { [flag]: true, [fin]: { lte: now } };
+      const emplacements = await prisma.annonce.groupBy({ by: ['categorie', 'region'], where });
+
+      const result = await prisma.annonce.updateMany({
+        where,
+        data: { [flag]: false }
+      });
+
+      if (result.count > 0) {
+        await CacheService.invalidateAnnonces(emplacements);
+      }
+      total += result.count;
+    }
+
+    return total;
+  }
+
+  /**
+   * Les abonnements résiliés gardent leur statut ANNULE une fois échus
+   */
+  static async expireAbonnements(): Promise<number> {
+    const result = await prisma.abonnement.updateMany({
+      where: {
+        statut: StatutAbonnement.ACTIF,
+        dateFin: { lte: new Date() }
+      },
+      data: { statut: StatutAbonnement.EXPIRE }
+    });
+
+    return result.count;
+  }
+}
+
+export default ExpirationService;
@@ -0,0 +1,229 @@
+// backend/src/services/gazetteerService.ts
+// GAZETTEER CÔTE D'IVOIRE : GÉOCODAGE RÉGION / COMMUNE / QUARTIER ET GÉOCODAGE INVERSE
+
+import type { Geolocalisation } from '../../../shared/src/types';
+import { haversineKm, similariteNomLieu } from '../utils/geo';
+import RegionService from './regionService';
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+interface LieuQuartier extends Point {
+  nom: string;
+}
+
+interface LieuCommune {
+  nom: string;
+  position: Point | null;
+  quartiers: LieuQuartier[];
+}
+
+interface LieuRegion {
+  cle: string; // Slug de la région ("san-pedro")
+  nom: string;
+  code: string;
+  position: Point | null;
+  communes: LieuCommune[];
+}
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const GAZETTEER_CONFIG = {
+  SEUIL_SIMILARITE: 0.8,
+  MAX_DISTANCE_COMMUNE_KM: 50, // Au-delà, le point est hors de la zone couverte
+  MAX_DISTANCE_QUARTIER_KM: 2
+};
+
+// ==============================================
+// CLASSE GAZETTEERSERVICE
+// ==============================================
+
+export class GazetteerService {
+
+  // ==============================================
+  // GÉOCODAGE
+  // ==============================================
+
+  /**
+   * Coordonnées d'un triplet région / commune / quartier, au niveau le plus
+   * précis connu. Les variantes d'orthographe sont tolérées
+   * ("Port Bouet", "port-bouët", "Port-Bou")
+   */
+  static async geocode(region: string, commune: string, quartier?: string): Promise<Geolocalisation | null> {
+    const regions = await this.getRegions();
+
+    const regionTrouvee = this.findRegion(regions, region);
+
+    // Commune cherchée dans sa région, ou partout si la région est inconnue
+    const candidates = (regionTrouvee ? [regionTrouvee] : regions).flatMap(item =>
+      item.communes.map(lieu => ({ region: item, commune: lieu }))
+    );
+    const communeTrouvee = this.bestMatch(candidates, commune, candidate => candidate.commune.nom);
+
+    if (communeTrouvee) {
+      const { region: lieuRegion, commune: lieuCommune } = communeTrouvee;
+
+      const quartierTrouve = quartier
+        ? this.bestMatch(lieuCommune.quartiers, quartier, lieu => lieu.nom)
+        : null;
+
+      if (quartierTrouve) {
+        return {
+          latitude: quartierTrouve.latitude,
+          longitude: quartierTrouve.longitude,
+          precision: 'quartier',
+          region: lieuRegion.cle,
+          regionNom: lieuRegion.nom,
+          commune: lieuCommune.nom,
+          quartier: quartierTrouve.nom
+        };
+      }
+
+      if (lieuCommune.position) {
+        return {
+          ...lieuCommune.position,
+          precision: 'commune',
+          region: lieuRegion.cle,
+          regionNom: lieuRegion.nom,
+          commune: lieuCommune.nom
+        };
+      }
+
+      if (lieuRegion.position) {
+        return this.regionLocation(lieuRegion);
+      }
+    }
+
+    return regionTrouvee?.position ? this.regionLocation(regionTrouvee) : null;
+  }
+
+  // ==============================================
+  // GÉOCODAGE INVERSE
+  // ==============================================
+
+  /**
+   * Commune la plus proche d'une position GPS (et son quartier s'il est tout
+   * proche). null hors de la zone couverte par le gazetteer
+   */
+  static async reverseGeocode(latitude: number, longitude: number): Promise<Geolocalisation | null> {
+    const regions = await this.getRegions();
+
+    let plusProche: { region: LieuRegion; commune: LieuCommune; position: Point; distance: number } | null = null;
+
+    for (const region of regions) {
+      for (const commune of region.communes) {
+        if (!commune.position) continue;
+
+        const distance = haversineKm(latitude, longitude, commune.position.latitude, commune.position.longitude);
+        if (!plusProche || distance < plusProche.distance) {
+          plusProche = { region, commune, position: commune.position, distance };
+        }
+      }
+    }
+
+    if (!plusProche || plusProche.distance > GAZETTEER_CONFIG.MAX_DISTANCE_COMMUNE_KM) {
+      return null;
+    }
+
+    const { region, commune } = plusProche;
+
+    let quartierProche: { lieu: LieuQuartier; distance: number } | null = null;
+    for (const lieu of commune.quartiers) {
+      const distance = haversineKm(latitude, longitude, lieu.latitude, lieu.longitude);
+      if (!quartierProche || distance < quartierProche.distance) {
+        quartierProche = { lieu, distance };
+      }
+    }
+
+    if (quartierProche && quartierProche.distance <= GAZETTEER_CONFIG.MAX_DISTANCE_QUARTIER_KM) {
+      return {
+        latitude: quartierProche.lieu.latitude,
+        longitude: quartierProche.lieu.longitude,
+        precision: 'quartier',
+        region: region.cle,
+        regionNom: region.nom,
+        commune: commune.nom,
+        quartier: quartierProche.lieu.nom,
+        distanceKm: Math.round(quartierProche.distance * 10) / 10
+      };
+    }
+
+    return {
+      ...plusProche.position,
+      precision: 'commune',
+      region: region.cle,
+      regionNom: region.nom,
+      commune: commune.nom,
+      distanceKm: Math.round(plusProche.distance * 10) / 10
+    };
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  // Référentiel en cache dans RegionService, vidé à chaque modification
+  private static async getRegions(): Promise<LieuRegion[]> {
+    const regions = await RegionService.getArbre();
+
+    return regions.map(region => ({
+      cle: region.slug,
+      nom: region.nom,
+      code: region.code,
+      position: this.toPoint(region),
+      communes: region.communes.map(commune => ({
+        nom: commune.nom,
+        position: this.toPoint(commune),
+        // Quartiers sans coordonnées : géocodés au niveau de leur commune
+        quartiers: commune.quartiers.flatMap(quartier => {
+          const point = this.toPoint(quartier);
+          return point ? [{ nom: quartier.nom, ...point }] : [];
+        })
+      }))
+    }));
+  }
+
+  private static findRegion(regions: LieuRegion[], saisie: string): LieuRegion | null {
+    const parCode = regions.find(region => region.code.toLowerCase() === saisie.trim().toLowerCase());
+    if (parCode) return parCode;
+
+    return this.bestMatch(regions, saisie, region => region.nom);
+  }
+
+  private static bestMatch<T>(candidates: T[], saisie: string, nom: (candidate: T) => string): T | null {
+    let meilleur: { candidate: T; score: number } | null = null;
+
+    for (const candidate of candidates) {
+      const score = similariteNomLieu(saisie, nom(candidate));
+      if (score >= GAZETTEER_CONFIG.SEUIL_SIMILARITE && (!meilleur || score > meilleur.score)) {
+        meilleur = { candidate, score };
+      }
+    }
+
+    return meilleur?.candidate ?? null;
+  }
+
+  private static regionLocation(region: LieuRegion): Geolocalisation {
+    return {
+      ...region.position!,
+      precision: 'region',
+      region: region.cle,
+      regionNom: region.nom
+    };
+  }
+
+  private static toPoint(lieu: { latitude?: number; longitude?: number }): Point | null {
+    if (lieu.latitude === undefined || lieu.longitude === undefined) return null;
+    return { latitude: lieu.latitude, longitude: lieu.longitude };
+  }
+}
+
+export default GazetteerService;
@@ -0,0 +1,397 @@
+// backend/src/services/messageService.ts
+// SERVICE MESSAGERIE ACHETEUR / VENDEUR TEMPS RÉEL
+
+import { PrismaClient } from '@prisma/client';
+import { StatutAnnonce, TypeMessage } from '../../../shared/src/types';
+import type { Conversation, Message, MessageEvent, ReadReceiptEvent } from '../../../shared/src/types';
+import { NotFoundError, AuthorizationError, ValidationError } from '../middleware/errorMiddleware';
+import { PUBLIC_USER_SELECT, toPublicUser } from '../utils/publicUser';
+import { emitToUser } from '../sockets/socketGateway';
+import AvisService from './avisService';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface SendMessageData {
+  annonceId: string;
+  receiverId: string;
+  contenu: string;
+  type: TypeMessage;
+  fichiers: string[];
+}
+
+interface ThreadOptions {
+  page: number;
+  limit: number;
+}
+
+interface ThreadResult {
+  messages: Message[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+const MESSAGE_INCLUDE = {
+  sender: { select: PUBLIC_USER_SELECT },
+  receiver: { select: PUBLIC_USER_SELECT }
+} as const;
+
+// ==============================================
+// CLASSE MESSAGESERVICE
+// ==============================================
+
+export class MessageService {
+
+  // ==============================================
+  // ENVOI DE MESSAGE
+  // ==============================================
+
+  static async sendMessage(senderId: string, data: SendMessageData): Promise<Message> {
+    try {
+      if (senderId === data.receiverId) {
+        throw new ValidationError('Vous ne pouvez pas vous envoyer un message');
+      }
+
+      const annonce = await prisma.annonce.findUnique({
+        where: { id: data.annonceId },
+        select: { id: true, userId: true, statut: true }
+      });
+
+      if (!annonce || annonce.statut === StatutAnnonce.SUPPRIMEE) {
+        throw new NotFoundError('Annonce');
+      }
+
+      // Un échange concerne toujours le vendeur de l'annonce
+      if (annonce.userId !== senderId && annonce.userId !== data.receiverId) {
+        throw new AuthorizationError('Les messages doivent être échangés avec le vendeur de l\'annonce');
+      }
+
+      // Un acheteur ne peut initier de conversation que sur une annonce active
+      if (annonce.userId !== senderId && annonce.statut !== StatutAnnonce.ACTIVE) {
+        throw new ValidationError('Cette annonce n\'accepte plus de nouveaux messages');
+      }
+
+      // Le vendeur ne peut répondre qu'à un acheteur qui l'a déjà contacté
+      if (annonce.userId === senderId) {
+        const existingThread = await prisma.message.count({
+          where: {
+            annonceId: data.annonceId,
+            senderId: data.receiverId,
+            receiverId: senderId
+          }
+        });
+
+        if (existingThread === 0) {
+          throw new AuthorizationError('Aucune conversation avec cet utilisateur pour cette annonce');
+        }
+      }
+
+      const [message] = await prisma.$transaction([
+        prisma.message.create({
+          data: {
+            annonceId: data.annonceId,
+            senderId,
+            receiverId: data.receiverId,
+            contenu: data.contenu.trim(),
+            type: data.type,
+            fichiers: data.fichiers
+          },
+          include: MESSAGE_INCLUDE
+        }),
+        prisma.annonce.update({
+          where: { id: data.annonceId },
+          data: { messagesCount: { increment: 1 } }
+        })
+      ]);
+
+      const formattedMessage = this.formatMessage(message);
+
+      // Notification temps réel du destinataire
+      const event: MessageEvent = {
+        type: 'NEW_MESSAGE',
+        payload: formattedMessage,
+        timestamp: new Date(),
+        userId: senderId
+      };
+      emitToUser(data.receiverId, event);
+
+      return formattedMessage;
+
+    } catch (error) {
+      console.error('Erreur envoi message:', error);
+      throw error instanceof Error ? error : new Error('Erreur lors de l\'envoi du message');
+    }
+  }
+
+  // ==============================================
+  // LISTE DES CONVERSATIONS
+  // ==============================================
+
+  /**
+   * Une conversation = un couple (annonce, interlocuteur)
+   */
+  static async getConversations(userId: string): Promise<Conversation[]> {
+    try {
+      // Dernier message de chaque couple (annonce, expéditeur, destinataire)
+      const [latestMessages, unreadGroups] = await Promise.all([
+        prisma.message.findMany({
+          where: {
+            OR: [{ senderId: userId }, { receiverId: userId }]
+          },
+          distinct: ['annonceId', 'senderId', 'receiverId'],
+          orderBy: { dateEnvoi: 'desc' },
+          include: {
+            ...MESSAGE_INCLUDE,
+            annonce: {
+              select: { id: true, titre: true, images: true, prix: true, statut: true }
+            }
+          }
+        }),
+        prisma.message.groupBy({
+          by: ['annonceId', 'senderId'],
+          where: { receiverId: userId, lu: false },
+          _count: { _all: true }
+        })
+      ]);
+
+      const unreadByKey = new Map<string, number>();
+      for (const group of unreadGroups) {
+        unreadByKey.set(this.conversationId(group.annonceId, group.senderId), group._count._all);
+      }
+
+      const reputations = await AvisService.getReputations(
+        latestMessages.map(message => message.senderId === userId ? message.receiverId : message.senderId)
+      );
+
+      // Fusion des deux sens d'un même échange, en gardant le plus récent
+      const conversations = new Map<string, Conversation>();
+
+      for (const message of latestMessages) {
+        const otherUser = message.senderId === userId ? message.receiver : message.sender;
+        const id = this.conversationId(message.annonceId, otherUser.id);
+        const existing = conversations.get(id);
+
+        if (existing && existing.updatedAt >= message.dateEnvoi) {
+          continue;
+        }
+
+        conversations.set(id, {
+          id,
+          annonce: {
+            id: message.annonce.id,
+            titre: message.annonce.titre,
+            images: this.parseJsonArray(message.annonce.images),
+            prix: message.annonce.prix,
+            statut: message.annonce.statut as StatutAnnonce
+          },
+          otherUser: toPublicUser(otherUser, reputations.get(otherUser.id)),
+          lastMessage: this.formatMessage(message),
+          unreadCount: unreadByKey.get(id) || 0,
+          updatedAt: message.dateEnvoi
+        });
+      }
+
+      return [...conversations.values()].sort(
+        (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+      );
+
+    } catch (error) {
+      console.error('Erreur liste conversations:', error);
+      throw new Error('Erreur lors de la récupération des conversations');
+    }
+  }
+
+  // ==============================================
+  // FIL DE DISCUSSION PAGINÉ
+  // ==============================================
+
+  /**
+   * Messages échangés entre l'utilisateur et un interlocuteur sur une annonce,
+   * du plus récent au plus ancien
+   */
+  static async getThread(
+    userId: string,
+    annonceId: string,
+    otherUserId: string,
+    options: ThreadOptions
+  ): Promise<ThreadResult> {
+    try {
+      const { page, limit } = options;
+
+      const where = {
+        annonceId,
+        OR: [
+          { senderId: userId, receiverId: otherUserId },
+          { senderId: otherUserId, receiverId: userId }
+        ]
+      };
+
+      const [messages, total] = await Promise.all([
+        prisma.message.findMany({
+          where,
+          orderBy: { dateEnvoi: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          include: MESSAGE_INCLUDE
+        }),
+        prisma.message.count({ where })
+      ]);
+
+      return {
+        messages: messages.map(message => this.formatMessage(message)),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit)
+      };
+
+    } catch (error) {
+      console.error('Erreur fil de discussion:', error);
+      throw new Error('Erreur lors de la récupération des messages');
+    }
+  }
+
+  // ==============================================
+  // ACCUSÉS DE LECTURE
+  // ==============================================
+
+  /**
+   * Marque comme lus tous les messages reçus de l'interlocuteur sur l'annonce
+   * et notifie ce dernier (READ_RECEIPT)
+   */
+  static async markConversationAsRead(
+    userId: string,
+    annonceId: string,
+    otherUserId: string
+  ): Promise<{ count: number; dateLecture: Date }> {
+    try {
+      const dateLecture = new Date();
+
+      const result = await prisma.message.updateMany({
+        where: {
+          annonceId,
+          senderId: otherUserId,
+          receiverId: userId,
+          lu: false
+        },
+        data: {
+          lu: true,
+          dateLecture
+        }
+      });
+
+      // Accusé de lecture temps réel pour l'expéditeur
+      if (result.count > 0) {
+        const event: ReadReceiptEvent = {
+          type: 'READ_RECEIPT',
+          payload: {
+            annonceId,
+            readerId: userId,
+            count: result.count,
+            dateLecture
+          },
+          timestamp: dateLecture,
+          userId
+        };
+        emitToUser(otherUserId, event);
+      }
+
+      return { count: result.count, dateLecture };
+
+    } catch (error) {
+      console.error('Erreur marquage lecture:', error);
+      throw new Error('Erreur lors du marquage des messages comme lus');
+    }
+  }
+
+  // ==============================================
+  // INTERLOCUTEURS (CONTRÔLE TEMPS RÉEL)
+  // ==============================================
+
+  /**
+   * Vrai si les deux utilisateurs ont déjà échangé au moins un message sur l'annonce
+   */
+  static async hasConversation(userId: string, annonceId: string, otherUserId: string): Promise<boolean> {
+    const message = await prisma.message.findFirst({
+      where: {
+        annonceId,
+        OR: [
+          { senderId: userId, receiverId: otherUserId },
+          { senderId: otherUserId, receiverId: userId }
+        ]
+      },
+      select: { id: true }
+    });
+
+    return message !== null;
+  }
+
+  /**
+   * Parmi les utilisateurs demandés, ceux avec qui l'utilisateur a une conversation
+   */
+  static async filterInterlocutors(userId: string, candidateIds: string[]): Promise<string[]> {
+    if (candidateIds.length === 0) return [];
+
+    const [envoyes, recus] = await Promise.all([
+      prisma.message.findMany({
+        where: { senderId: userId, receiverId: { in: candidateIds } },
+        distinct: ['receiverId'],
+        select: { receiverId: true }
+      }),
+      prisma.message.findMany({
+        where: { receiverId: userId, senderId: { in: candidateIds } },
+        distinct: ['senderId'],
+        select: { senderId: true }
+      })
+    ]);
+
+    const interlocuteurs = new Set([
+      ...envoyes.map(message => message.receiverId),
+      ...recus.map(message => message.senderId)
+    ]);
+
+    return candidateIds.filter(id => interlocuteurs.has(id));
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static conversationId(annonceId: string, otherUserId: string): string {
+    return `${annonceId}_${otherUserId}`;
+  }
+
+  private static parseJsonArray(value: unknown): string[] {
+    if (Array.isArray(value)) return value as string[];
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  }
+
+  private static formatMessage(message: any): Message {
+    return {
+      id: message.id,
+      annonceId: message.annonceId,
+      senderId: message.senderId,
+      receiverId: message.receiverId,
+      contenu: message.contenu,
+      type: message.type as TypeMessage,
+      fichiers: this.parseJsonArray(message.fichiers),
+      lu: message.lu,
+      dateEnvoi: message.dateEnvoi,
+      ...(message.dateLecture && { dateLecture: message.dateLecture }),
+      sender: toPublicUser(message.sender),
+      receiver: toPublicUser(message.receiver)
+    };
+  }
+}
+
+export default MessageService;
@@ -0,0 +1,827 @@
+// backend/src/services/paymentService.ts
+// SERVICE PAIEMENTS MOBILES ET BOOSTS D'ANNONCES
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  BOOSTS,
+  DUREE_ABONNEMENT_JOURS,
+  MethodePaiement,
+  PLANS,
+  StatutAbonnement,
+  StatutAnnonce,
+  StatutPaiement,
+  TypeAbonnement,
+  TypePaiement
+} from '../../../shared/src/types';
+import type { Paiement, PaiementInitie, TypeBoost } from '../../../shared/src/types';
+import {
+  AppError,
+  AuthenticationError,
+  AuthorizationError,
+  ErrorTypes,
+  NotFoundError,
+  PaymentError,
+  ValidationError
+} from '../middleware/errorMiddleware';
+import { getPaymentProvider } from './payments';
+import type { WebhookEvent, WebhookRequest } from './payments';
+import { safeEqual } from './payments/signature';
+import CacheService from './cacheService';
+import PlanService from './planService';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface BoostPaymentData {
+  type: TypeBoost;
+  methode: MethodePaiement;
+  numeroTelephone?: string | undefined;
+}
+
+interface SubscriptionPaymentData {
+  methode: MethodePaiement;
+  numeroTelephone?: string | undefined;
+}
+
+interface BoostMetadata {
+  boost: {
+    type: TypeBoost;
+    dureeJours: number;
+  };
+}
+
+interface AbonnementMetadata {
+  abonnement: {
+    type: TypeAbonnement;
+    dureeJours: number;
+    abonnementId?: string; // renseigné pour un renouvellement, ou après activation
+  };
+}
+
+export type TransitionResult = 'APPLIQUE' | 'DOUBLON' | 'IGNORE';
+
+export interface WebhookResult {
+  paiementId?: string;
+  resultat: TransitionResult;
+}
+
+interface PendingReconciliationOptions {
+  olderThanMinutes: number;
+  abandonAfterHours: number;
+  batchSize: number;
+}
+
+export interface ReconciliationReport {
+  verifies: number;
+  resolus: number;
+  abandonnes: number;
+  erreurs: number;
+}
+
+// Machine à états : transitions autorisées depuis chaque statut
+const TRANSITIONS: Record<StatutPaiement, StatutPaiement[]> = {
+  [StatutPaiement.EN_ATTENTE]: [StatutPaiement.VALIDE, StatutPaiement.ECHOUE, StatutPaiement.ANNULE],
+  [StatutPaiement.VALIDE]: [StatutPaiement.REMBOURSE],
+  [StatutPaiement.ECHOUE]: [],
+  [StatutPaiement.REMBOURSE]: [],
+  [StatutPaiement.ANNULE]: []
+};
+
+// Segment d'URL des webhooks → opérateur
+const WEBHOOK_PROVIDERS: Record<string, MethodePaiement> = {
+  'orange-money': MethodePaiement.ORANGE_MONEY,
+  'wave': MethodePaiement.WAVE,
+  'moov-money': MethodePaiement.MOOV_MONEY,
+  'stripe': MethodePaiement.STRIPE
+};
+
+// Nombre de notifications brutes conservées dans donneesOperateur
+const MAX_STORED_WEBHOOKS = 10;
+
+// Colonne de l'identifiant externe selon l'opérateur
+const EXTERNAL_ID_FIELDS: Partial<Record<MethodePaiement, 'stripeId' | 'orangeMoneyId' | 'waveId' | 'moovMoneyId'>> = {
+  [MethodePaiement.STRIPE]: 'stripeId',
+  [MethodePaiement.ORANGE_MONEY]: 'orangeMoneyId',
+  [MethodePaiement.WAVE]: 'waveId',
+  [MethodePaiement.MOOV_MONEY]: 'moovMoneyId'
+};
+
+// Drapeau et date de fin de chaque mise en avant
+const BOOST_FIELDS: Record<TypeBoost, { flag: 'premium' | 'promue' | 'urgente'; fin: 'datePremiumFin' | 'datePromotionFin' | 'dateUrgenceFin' }> = {
+  premium: { flag: 'premium', fin: 'datePremiumFin' },
+  promue: { flag: 'promue', fin: 'datePromotionFin' },
+  urgente: { flag: 'urgente', fin: 'dateUrgenceFin' }
+};
+
+// ==============================================
+// CLASSE PAYMENTSERVICE
+// ==============================================
+
+export class PaymentService {
+
+  // ==============================================
+  // INITIATION D'UN BOOST PAYANT
+  // ==============================================
+
+  /**
+   * Crée un paiement EN_ATTENTE et l'initie chez l'opérateur.
+   * Le boost n'est appliqué qu'une fois le paiement VALIDE.
+   */
+  static async createBoostPayment(
+    userId: string,
+    annonceId: string,
+    data: BoostPaymentData
+  ): Promise<PaiementInitie> {
+    const annonce = await prisma.annonce.findUnique({
+      where: { id: annonceId },
+      select: { id: true, userId: true, titre: true, statut: true }
+    });
+
+    if (!annonce || annonce.statut === StatutAnnonce.SUPPRIMEE) {
+      throw new NotFoundError('Annonce');
+    }
+
+    if (annonce.userId !== userId) {
+      throw new AuthorizationError('Seul le propriétaire peut booster cette annonce');
+    }
+
+    if (annonce.statut !== StatutAnnonce.ACTIVE) {
+      throw new ValidationError('Seule une annonce active peut être boostée');
+    }
+
+    const offre = BOOSTS[data.type];
+    const metadata: BoostMetadata = {
+      boost: { type: data.type, dureeJours: offre.dureeJours }
+    };
+
+    // Les abonnés consomment d'abord les boosts "promue" inclus dans leur plan
+    if (data.type === 'promue') {
+      const inclus = await this.applyIncludedBoost(userId, annonceId, data.methode, metadata);
+      if (inclus) {
+        return {
+          paiement: this.formatPaiement(inclus),
+          instructions: 'Boost inclus dans votre abonnement : aucun paiement requis'
+        };
+      }
+    }
+
+    const paiement = await prisma.paiement.create({
+      data: {
+        userId,
+        annonceId,
+        montant: offre.tarif,
+        devise: 'XOF',
+        type: data.type === 'premium' ? TypePaiement.ANNONCE_PREMIUM : TypePaiement.BOOST_ANNONCE,
+        methode: data.methode,
+        statut: StatutPaiement.EN_ATTENTE,
+        metadata: metadata as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    return this.initiate(paiement, `Boost ${data.type} - ${annonce.titre}`, data.numeroTelephone);
+  }
+
+  // ==============================================
+  // ABONNEMENT PRO
+  // ==============================================
+
+  /**
+   * Paiement d'une période d'abonnement Pro. Avec abonnementId, la période
+   * prolonge cet abonnement ; sinon un nouvel abonnement est créé à la validation.
+   */
+  static async createSubscriptionPayment(
+    userId: string,
+    data: SubscriptionPaymentData,
+    abonnementId?: string
+  ): Promise<PaiementInitie> {
+    const tarif = PLANS[TypeAbonnement.PRO].tarifMensuel!;
+    const metadata: AbonnementMetadata = {
+      abonnement: {
+        type: TypeAbonnement.PRO,
+        dureeJours: DUREE_ABONNEMENT_JOURS,
+        ...(abonnementId && { abonnementId })
+      }
+    };
+
+    const paiement = await prisma.paiement.create({
+      data: {
+        userId,
+        montant: tarif,
+        devise: 'XOF',
+        type: TypePaiement.ABONNEMENT,
+        methode: data.methode,
+        statut: StatutPaiement.EN_ATTENTE,
+        metadata: metadata as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    const description = abonnementId ? 'Renouvellement abonnement Pro' : 'Abonnement Pro mensuel';
+    return this.initiate(paiement, description, data.numeroTelephone);
+  }
+
+  // ==============================================
+  // VÉRIFICATION AUPRÈS DE L'OPÉRATEUR
+  // ==============================================
+
+  /**
+   * Réinterroge l'opérateur et applique le nouveau statut.
+   * Sans userId (tâches internes), aucun contrôle de propriété n'est fait.
+   */
+  static async verifyPayment(paiementId: string, userId?: string): Promise<Paiement> {
+    const paiement = await prisma.paiement.findUnique({ where: { id: paiementId } });
+
+    if (!paiement) {
+      throw new NotFoundError('Paiement');
+    }
+
+    if (userId && paiement.userId !== userId) {
+      throw new AuthorizationError('Ce paiement ne vous appartient pas');
+    }
+
+    if (paiement.statut !== StatutPaiement.EN_ATTENTE) {
+      return this.formatPaiement(paiement);
+    }
+
+    const externalId = this.getExternalId(paiement);
+    if (!externalId) {
+      throw new PaymentError('Paiement non initié chez l\'opérateur', paiement.methode);
+    }
+
+    const provider = getPaymentProvider(paiement.methode as MethodePaiement);
+    const status = await provider.getPaymentStatus({
+      paiementId: paiement.id,
+      externalId,
+      montant: paiement.montant,
+      devise: paiement.devise
+    });
+
+    if (status.statut !== StatutPaiement.EN_ATTENTE) {
+      await this.applyStatus(paiement.id, status.statut);
+    }
+
+    return this.getPayment(paiement.id);
+  }
+
+  // ==============================================
+  // NOTIFICATIONS DES OPÉRATEURS (WEBHOOKS)
+  // ==============================================
+
+  /**
+   * Vérifie et applique une notification d'opérateur. Une notification
+   * rejouée ou hors machine à états est acquittée sans effet, pour que
+   * l'opérateur cesse de la renvoyer.
+   */
+  static async handleWebhook(providerSlug: string, request: WebhookRequest): Promise<WebhookResult> {
+    const methode = WEBHOOK_PROVIDERS[providerSlug];
+    if (!methode) {
+      throw new NotFoundError('Opérateur');
+    }
+
+    const event = getPaymentProvider(methode).parseWebhook(request);
+    if (!event) {
+      return { resultat: 'IGNORE' };
+    }
+
+    const paiement = await this.findByWebhookEvent(methode, event);
+    if (!paiement) {
+      console.warn(`⚠️ Webhook ${providerSlug} pour un paiement inconnu:`, event.externalId || event.paiementId);
+      return { resultat: 'IGNORE' };
+    }
+
+    // Orange Money : le jeton de notification tient lieu de signature
+    if (event.notifToken) {
+      const expected = (paiement.donneesOperateur as Record<string, any>)?.['operateur']?.notif_token;
+      if (!expected || !safeEqual(expected, event.notifToken)) {
+        throw new AuthenticationError('Jeton de notification invalide');
+      }
+    }
+
+    const resultat = await this.applyStatus(paiement.id, event.statut, event);
+
+    return { paiementId: paiement.id, resultat };
+  }
+
+  // ==============================================
+  // RÉCONCILIATION DES PAIEMENTS EN ATTENTE
+  // ==============================================
+
+  /**
+   * Rattrape les webhooks perdus : réinterroge l'opérateur pour les paiements
+   * restés EN_ATTENTE et annule ceux qui n'aboutiront plus.
+   */
+  static async reconcilePendingPayments(options: PendingReconciliationOptions): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = { verifies: 0, resolus: 0, abandonnes: 0, erreurs: 0 };
+    const now = Date.now();
+
+    const pending = await prisma.paiement.findMany({
+      where: {
+        statut: StatutPaiement.EN_ATTENTE,
+        createdAt: { lt: new Date(now - options.olderThanMinutes * 60 * 1000) }
+      },
+      orderBy: { createdAt: 'asc' },
+      take: options.batchSize
+    });
+
+    const abandonBefore = new Date(now - options.abandonAfterHours * 60 * 60 * 1000);
+
+    for (const paiement of pending) {
+      report.verifies++;
+
+      try {
+        if (this.getExternalId(paiement)) {
+          const updated = await this.verifyPayment(paiement.id);
+          if (updated.statut !== StatutPaiement.EN_ATTENTE) {
+            report.resolus++;
+            continue;
+          }
+        }
+
+        // Jamais initié chez l'opérateur, ou sans réponse depuis trop longtemps
+        if (paiement.createdAt < abandonBefore || !this.getExternalId(paiement)) {
+          if (await this.applyStatus(paiement.id, StatutPaiement.ANNULE) === 'APPLIQUE') {
+            report.abandonnes++;
+          }
+        }
+
+      } catch (error) {
+        report.erreurs++;
+        console.error(`❌ Erreur réconciliation paiement ${paiement.id}:`, error);
+      }
+    }
+
+    return report;
+  }
+
+  static async getPayment(paiementId: string, userId?: string): Promise<Paiement> {
+    const paiement = await prisma.paiement.findUnique({ where: { id: paiementId } });
+
+    if (!paiement) {
+      throw new NotFoundError('Paiement');
+    }
+
+    if (userId && paiement.userId !== userId) {
+      throw new AuthorizationError('Ce paiement ne vous appartient pas');
+    }
+
+    return this.formatPaiement(paiement);
+  }
+
+  // ==============================================
+  // APPLICATION DU STATUT
+  // ==============================================
+
+  /**
+   * Applique une transition de la machine à états. Le changement de statut
+   * et l'activation (ou le retrait) du boost se font dans la même transaction.
+   *
+   * Avec un événement d'opérateur, son identifiant est mémorisé pour ignorer
+   * les rejeux ; une mise à jour concurrente lève une erreur 409 afin que
+   * l'opérateur renvoie la notification.
+   */
+  static async applyStatus(
+    paiementId: string,
+    statut: StatutPaiement,
+    event?: WebhookEvent
+  ): Promise<TransitionResult> {
+    let annonceBoostee: string | null = null;
+
+    const resultat = await prisma.$transaction(async (tx): Promise<TransitionResult> => {
+      const paiement = await tx.paiement.findUnique({ where: { id: paiementId } });
+      if (!paiement) {
+        throw new NotFoundError('Paiement');
+      }
+
+      const donneesOperateur = (paiement.donneesOperateur as Record<string, any>) || {};
+      const processedEvents: string[] = donneesOperateur['webhookEvents'] || [];
+
+      if (event && processedEvents.includes(event.eventId)) {
+        return 'DOUBLON';
+      }
+
+      const current = paiement.statut as StatutPaiement;
+      const allowed = TRANSITIONS[current].includes(statut);
+
+      const data: Prisma.PaiementUpdateManyMutationInput = {};
+
+      if (event) {
+        data.donneesOperateur = {
+          ...donneesOperateur,
+          webhookEvents: [...processedEvents, event.eventId],
+          webhooks: [
+            ...(donneesOperateur['webhooks'] || []),
+            {
+              eventId: event.eventId,
+              statut: event.statut,
+              recuLe: new Date().toISOString(),
+              resultat: allowed ? 'APPLIQUE' : 'IGNORE',
+              payload: event.raw
+            }
+          ].slice(-MAX_STORED_WEBHOOKS)
+        };
+      }
+
+      if (allowed) {
+        data.statut = statut;
+        if (statut === StatutPaiement.VALIDE) {
+          data.validatedAt = new Date();
+        }
+      } else if (!event) {
+        return 'IGNORE';
+      }
+
+      // Garde optimiste : le statut ne doit pas avoir changé depuis la lecture
+      const result = await tx.paiement.updateMany({
+        where: { id: paiementId, statut: current },
+        data
+      });
+
+      if (result.count === 0) {
+        if (event) {
+          throw new AppError('Paiement modifié simultanément, notification à renvoyer', 409, ErrorTypes.BUSINESS_LOGIC_ERROR);
+        }
+        return 'IGNORE';
+      }
+
+      if (!allowed) {
+        console.warn(`⚠️ Transition refusée pour le paiement ${paiementId}: ${current} → ${statut}`);
+        return 'IGNORE';
+      }
+
+      if (statut === StatutPaiement.VALIDE) {
+        await this.applyBenefits(tx, paiement);
+        annonceBoostee = paiement.annonceId;
+      } else if (statut === StatutPaiement.REMBOURSE) {
+        await this.revokeBenefits(tx, paiement);
+        annonceBoostee = paiement.annonceId;
+      }
+
+      return 'APPLIQUE';
+    });
+
+    if (resultat === 'APPLIQUE') {
+      await this.invalidateAnnonceCache(annonceBoostee);
+      console.log(`💰 Paiement ${paiementId} → ${statut}`);
+      await this.logActivity(`PAIEMENT_${statut}`, paiementId, undefined, event && { eventId: event.eventId });
+    }
+
+    return resultat;
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async initiate(
+    paiement: any,
+    description: string,
+    numeroTelephone?: string
+  ): Promise<PaiementInitie> {
+    const provider = getPaymentProvider(paiement.methode as MethodePaiement);
+
+    try {
+      const result = await provider.initiatePayment({
+        paiementId: paiement.id,
+        montant: paiement.montant,
+        devise: paiement.devise,
+        description,
+        numeroTelephone,
+        metadata: { annonceId: paiement.annonceId }
+      });
+
+      const field = EXTERNAL_ID_FIELDS[paiement.methode as MethodePaiement];
+      const updated = await prisma.paiement.update({
+        where: { id: paiement.id },
+        data: {
+          ...(field && { [field]: result.externalId }),
+          metadata: {
+            ...(paiement.metadata as Record<string, any>),
+            ...(numeroTelephone && { numeroTelephone }),
+            ...(result.paymentUrl && { paymentUrl: result.paymentUrl })
+          },
+          ...(result.raw && {
+            donneesOperateur: {
+              ...(paiement.donneesOperateur as Record<string, any>),
+              operateur: result.raw
+            }
+          })
+        }
+      });
+
+      await this.logActivity('PAIEMENT_INITIE', paiement.id, paiement.userId, {
+        methode: paiement.methode,
+        montant: paiement.montant
+      });
+
+      return {
+        paiement: this.formatPaiement(updated),
+        ...(result.paymentUrl && { paymentUrl: result.paymentUrl }),
+        ...(result.instructions && { instructions: result.instructions })
+      };
+
+    } catch (error) {
+      // L'opérateur a refusé l'initiation : le paiement ne pourra jamais aboutir
+      await prisma.paiement.update({
+        where: { id: paiement.id },
+        data: { statut: StatutPaiement.ECHOUE }
+      });
+
+      console.error('❌ Erreur initiation paiement:', error);
+      throw error instanceof PaymentError
+        ? error
+        : new PaymentError('Impossible d\'initier le paiement', paiement.methode);
+    }
+  }
+
+  /**
+   * Boost "promue" offert par l'abonnement : paiement à 0 validé d'emblée,
+   * dans la même transaction que le décompte du boost inclus
+   */
+  private static async applyIncludedBoost(
+    userId: string,
+    annonceId: string,
+    methode: MethodePaiement,
+    metadata: BoostMetadata
+  ): Promise<any | null> {
+    const paiement = await prisma.$transaction(async (tx) => {
+      const abonnementId = await PlanService.consumeIncludedBoost(tx, userId);
+      if (!abonnementId) return null;
+
+      const paiement = await tx.paiement.create({
+        data: {
+          userId,
+          annonceId,
+          montant: 0,
+          devise: 'XOF',
+          type: TypePaiement.BOOST_ANNONCE,
+          methode,
+          statut: StatutPaiement.VALIDE,
+          validatedAt: new Date(),
+          metadata: { ...metadata, abonnementId } as unknown as Prisma.InputJsonValue
+        }
+      });
+
+      await this.applyBenefits(tx, paiement);
+      console.log(`🎁 Boost inclus utilisé pour l'annonce ${annonceId}`);
+
+      return paiement;
+    });
+
+    if (paiement) {
+      await this.invalidateAnnonceCache(annonceId);
+    }
+
+    return paiement;
+  }
+
+  /**
+   * Active ce qui a été payé. Un boost ou un abonnement déjà actif est prolongé.
+   */
+  private static async applyBenefits(tx: Prisma.TransactionClient, paiement: any): Promise<void> {
+    const metadata = paiement.metadata as Partial<BoostMetadata & AbonnementMetadata>;
+
+    if (metadata.abonnement) {
+      await this.activateAbonnement(tx, paiement, metadata as AbonnementMetadata);
+      return;
+    }
+
+    if (!paiement.annonceId || !metadata.boost) return;
+
+    const { type, dureeJours } = metadata.boost;
+    const fields = BOOST_FIELDS[type];
+
+    const annonce = await tx.annonce.findUnique({
+      where: { id: paiement.annonceId },
+      select: { datePremiumFin: true, datePromotionFin: true, dateUrgenceFin: true }
+    });
+
+    if (!annonce) return;
+
+    const now = new Date();
+    const finActuelle = annonce[fields.fin];
+    const debut = finActuelle && finActuelle > now ? finActuelle : now;
+    const fin = new Date(debut.getTime() + dureeJours * 24 * 60 * 60 * 1000);
+
+    await tx.annonce.update({
+      where: { id: paiement.annonceId },
+      data: {
+        [fields.flag]: true,
+        [fields.fin]: fin
+      }
+    });
+  }
+
+  /**
+   * Nouvelle période : prolongation de l'abonnement renouvelé ou, pour une
+   * souscription, de l'abonnement Pro encore en cours (paiement relancé après
+   * un délai opérateur), à partir de sa date de fin ; création sinon. Les
+   * boosts inclus ne sont remis à zéro que si l'abonnement avait expiré.
+   */
+  private static async activateAbonnement(
+    tx: Prisma.TransactionClient,
+    paiement: any,
+    metadata: AbonnementMetadata
+  ): Promise<void> {
+    const { type, dureeJours, abonnementId } = metadata.abonnement;
+    const now = new Date();
+
+    let existant = abonnementId
+      ? await tx.abonnement.findUnique({ where: { id: abonnementId } })
+      : null;
+
+    if (!abonnementId) {
+      // Verrou utilisateur : deux souscriptions validées en parallèle prolongent le même abonnement
+      await tx.$executeRaw`SELECT "id" FROM "users" WHERE "id" = ${paiement.userId} FOR UPDATE`;
+      existant = await tx.abonnement.findFirst({
+        where: {
+          userId: paiement.userId,
+          type,
+          statut: { in: [StatutAbonnement.ACTIF, StatutAbonnement.ANNULE] },
+          dateFin: { gt: now }
+        },
+        orderBy: { dateFin: 'desc' }
+      });
+    }
+
+    const enCours = !!existant && existant.dateFin > now;
+    const debut = enCours ? existant!.dateFin : now;
+    const dateFin = new Date(debut.getTime() + dureeJours * 24 * 60 * 60 * 1000);
+
+    if (existant) {
+      const boostsUtilises = enCours
+        ? (existant.metadata as { boostsUtilises?: number } | null)?.boostsUtilises || 0
+        : 0;
+
+      await tx.abonnement.update({
+        where: { id: existant.id },
+        data: {
+          dateFin,
+          statut: StatutAbonnement.ACTIF,
+          prix: paiement.montant,
+          metadata: { boostsUtilises, dernierPaiementId: paiement.id }
+        }
+      });
+
+      if (!abonnementId) {
+        await this.linkAbonnement(tx, paiement.id, metadata, existant.id);
+      }
+      return;
+    }
+
+    const abonnement = await tx.abonnement.create({
+      data: {
+        userId: paiement.userId,
+        type,
+        prix: paiement.montant,
+        devise: paiement.devise,
+        dateDebut: now,
+        dateFin,
+        statut: StatutAbonnement.ACTIF,
+        metadata: { boostsUtilises: 0, dernierPaiementId: paiement.id }
+      }
+    });
+
+    await this.linkAbonnement(tx, paiement.id, metadata, abonnement.id);
+  }
+
+  /**
+   * Conserve l'abonnement crédité pour pouvoir retirer la période en cas de
+   * remboursement (relu : les métadonnées ont pu changer plus tôt dans la transaction)
+   */
+  private static async linkAbonnement(
+    tx: Prisma.TransactionClient,
+    paiementId: string,
+    metadata: AbonnementMetadata,
+    abonnementId: string
+  ): Promise<void> {
+    const courant = await tx.paiement.findUniqueOrThrow({ where: { id: paiementId }, select: { metadata: true } });
+    await tx.paiement.update({
+      where: { id: paiementId },
+      data: {
+        metadata: {
+          ...(courant.metadata as Record<string, any>),
+          abonnement: { ...metadata.abonnement, abonnementId }
+        }
+      }
+    });
+  }
+
+  /**
+   * Retire la durée payée d'un boost ou d'un abonnement remboursé ; le boost
+   * est désactivé s'il ne reste plus de durée couverte par un autre paiement.
+   */
+  private static async revokeBenefits(tx: Prisma.TransactionClient, paiement: any): Promise<void> {
+    const metadata = paiement.metadata as Partial<BoostMetadata & AbonnementMetadata>;
+
+    if (metadata.abonnement?.abonnementId) {
+      const abonnement = await tx.abonnement.findUnique({ where: { id: metadata.abonnement.abonnementId } });
+      if (!abonnement) return;
+
+      const dateFin = new Date(abonnement.dateFin.getTime() - metadata.abonnement.dureeJours * 24 * 60 * 60 * 1000);
+      await tx.abonnement.update({
+        where: { id: abonnement.id },
+        data: {
+          dateFin,
+          ...(dateFin <= new Date() && { statut: StatutAbonnement.EXPIRE })
+        }
+      });
+      return;
+    }
+
+    if (!paiement.annonceId || !metadata.boost) return;
+
+    const { type, dureeJours } = metadata.boost;
+    const fields = BOOST_FIELDS[type];
+
+    const annonce = await tx.annonce.findUnique({
+      where: { id: paiement.annonceId },
+      select: { datePremiumFin: true, datePromotionFin: true, dateUrgenceFin: true }
+    });
+
+    const finActuelle = annonce?.[fields.fin];
+    if (!finActuelle) return;
+
+    const fin = new Date(finActuelle.getTime() - dureeJours * 24 * 60 * 60 * 1000);
+    const encoreActif = fin > new Date();
+
+    await tx.annonce.update({
+      where: { id: paiement.annonceId },
+      data: {
+        [fields.flag]: encoreActif,
+        [fields.fin]: encoreActif ? fin : null
+      }
+    });
+  }
+
+  // Mise en avant modifiée (après validation de la transaction) : l'ordre
+  // des recherches en cache de l'annonce change
+  private static async invalidateAnnonceCache(annonceId: string | null): Promise<void> {
+    if (!annonceId) return;
+
+    const annonce = await prisma.annonce.findUnique({
+      where: { id: annonceId },
+      select: { categorie: true, region: true }
+    });
+
+    if (annonce) {
+      await CacheService.invalidateAnnonces([annonce]);
+    }
+  }
+
+  private static async findByWebhookEvent(methode: MethodePaiement, event: WebhookEvent) {
+    if (event.paiementId) {
+      return prisma.paiement.findFirst({ where: { id: event.paiementId, methode } });
+    }
+
+    const field = EXTERNAL_ID_FIELDS[methode];
+    if (!field || !event.externalId) return null;
+
+    return prisma.paiement.findFirst({ where: { [field]: event.externalId } });
+  }
+
+  private static getExternalId(paiement: any): string | null {
+    const field = EXTERNAL_ID_FIELDS[paiement.methode as MethodePaiement];
+    return field ? paiement[field] : null;
+  }
+
+  /**
+   * Données renvoyées au payeur. Les réponses brutes de l'opérateur (jeton de
+   * notification, payloads des webhooks) sont dans donneesOperateur, jamais
+   * renvoyé : le jeton permettrait de forger une notification
+   */
+  private static formatPaiement(paiement: any): Paiement {
+    return {
+      id: paiement.id,
+      userId: paiement.userId,
+      ...(paiement.annonceId && { annonceId: paiement.annonceId }),
+      montant: paiement.montant,
+      devise: paiement.devise,
+      type: paiement.type as TypePaiement,
+      methode: paiement.methode as MethodePaiement,
+      statut: paiement.statut as StatutPaiement,
+      metadata: paiement.metadata || {},
+      createdAt: paiement.createdAt,
+      ...(paiement.validatedAt && { validatedAt: paiement.validatedAt })
+    };
+  }
+
+  private static async logActivity(action: string, paiementId: string, userId?: string, details?: any): Promise<void> {
+    try {
+      await prisma.logActivite.create({
+        data: {
+          userId: userId ?? null,
+          action,
+          entite: 'Paiement',
+          entiteId: paiementId,
+          details: details || {}
+        }
+      });
+    } catch (error) {
+      console.error('Erreur log activité:', error);
+    }
+  }
+}
+
+export default PaymentService;
@@ -0,0 +1,68 @@
+// backend/src/services/payments/fakeProvider.ts
+// OPÉRATEUR FICTIF POUR LE DÉVELOPPEMENT HORS LIGNE (MOCK_PAYMENTS=true)
+
+import { StatutPaiement } from '../../../../shared/src/types';
+import type { MethodePaiement } from '../../../../shared/src/types';
+import { ValidationError } from '../../middleware/errorMiddleware';
+import type {
+  InitiatePaymentRequest,
+  InitiatePaymentResponse,
+  PaymentProvider,
+  PaymentReference,
+  PaymentStatusResponse,
+  WebhookEvent,
+  WebhookRequest
+} from './types';
+
+// Numéro de test dont les paiements échouent systématiquement
+const FAILING_PHONE_SUFFIX = '0000';
+
+/**
+ * Simule un opérateur : le paiement est EN_ATTENTE à l'initiation puis
+ * VALIDE à la première vérification, sauf pour les numéros finissant par 0000
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  private readonly outcomes = new Map<string, StatutPaiement>();
+
+  constructor(readonly methode: MethodePaiement) {}
+
+  async initiatePayment(request: InitiatePaymentRequest): Promise<InitiatePaymentResponse> {
+    const externalId = `fake_${this.methode.toLowerCase()}_${request.paiementId}`;
+    const willFail = request.numeroTelephone?.endsWith(FAILING_PHONE_SUFFIX) ?? false;
+
+    this.outcomes.set(externalId, willFail ? StatutPaiement.ECHOUE : StatutPaiement.VALIDE);
+
+    console.log(`🧪 Paiement fictif ${this.methode} initié:`, { externalId, montant: request.montant, willFail });
+
+    return {
+      externalId,
+      statut: StatutPaiement.EN_ATTENTE,
+      instructions: 'Paiement de test : appelez la vérification pour le finaliser'
+    };
+  }
+
+  async getPaymentStatus(reference: PaymentReference): Promise<PaymentStatusResponse> {
+    return {
+      externalId: reference.externalId,
+      statut: this.outcomes.get(reference.externalId) ?? StatutPaiement.VALIDE
+    };
+  }
+
+  /**
+   * Notifications de test non signées : { externalId, statut, eventId? }
+   */
+  parseWebhook(request: WebhookRequest): WebhookEvent | null {
+    const { externalId, statut, eventId } = request.body || {};
+
+    if (!externalId || !Object.values(StatutPaiement).includes(statut)) {
+      throw new ValidationError('Notification de test invalide : externalId et statut requis');
+    }
+
+    return {
+      eventId: eventId || `fake_${externalId}_${statut}`,
+      externalId,
+      statut,
+      raw: request.body
+    };
+  }
+}
@@ -0,0 +1,54 @@
+// backend/src/services/payments/index.ts
+// REGISTRE DES OPÉRATEURS DE PAIEMENT
+
+import { MethodePaiement } from '../../../../shared/src/types';
+import { ValidationError } from '../../middleware/errorMiddleware';
+import { OrangeMoneyProvider } from './orangeMoneyProvider';
+import { WaveProvider } from './waveProvider';
+import { MoovMoneyProvider } from './moovMoneyProvider';
+import { StripeProvider } from './stripeProvider';
+import { FakePaymentProvider } from './fakeProvider';
+import type { PaymentProvider } from './types';
+
+export type {
+  InitiatePaymentRequest,
+  InitiatePaymentResponse,
+  PaymentProvider,
+  PaymentReference,
+  PaymentStatusResponse,
+  WebhookEvent,
+  WebhookRequest
+} from './types';
+
+const providers = new Map<MethodePaiement, PaymentProvider>();
+
+const createProvider = (methode: MethodePaiement): PaymentProvider => {
+  if (process.env['MOCK_PAYMENTS'] === 'true') {
+    return new FakePaymentProvider(methode);
+  }
+
+  switch (methode) {
+    case MethodePaiement.ORANGE_MONEY:
+      return new OrangeMoneyProvider();
+    case MethodePaiement.WAVE:
+      return new WaveProvider();
+    case MethodePaiement.MOOV_MONEY:
+      return new MoovMoneyProvider();
+    case MethodePaiement.STRIPE:
+      return new StripeProvider();
+    default:
+      throw new ValidationError(`Méthode de paiement non supportée: ${methode}`);
+  }
+};
+
+/**
+ * Opérateur associé à une méthode de paiement (instance unique par méthode)
+ */
+export const getPaymentProvider = (methode: MethodePaiement): PaymentProvider => {
+  let provider = providers.get(methode);
+  if (!provider) {
+    provider = createProvider(methode);
+    providers.set(methode, provider);
+  }
+  return provider;
+};
@@ -0,0 +1,116 @@
+// backend/src/services/payments/moovMoneyProvider.ts
+// ADAPTATEUR MOOV MONEY (FLOOZ) CÔTE D'IVOIRE
+
+import { MethodePaiement, StatutPaiement } from '../../../../shared/src/types';
+import { AuthenticationError, PaymentError, ValidationError } from '../../middleware/errorMiddleware';
+import { headerValue, verifyHmacSha256 } from './signature';
+import type {
+  InitiatePaymentRequest,
+  InitiatePaymentResponse,
+  PaymentProvider,
+  PaymentReference,
+  PaymentStatusResponse,
+  WebhookEvent,
+  WebhookRequest
+} from './types';
+
+// Statuts de l'agrégateur Moov → statuts internes
+const STATUS_MAP: Record<string, StatutPaiement> = {
+  PENDING: StatutPaiement.EN_ATTENTE,
+  SUCCESSFUL: StatutPaiement.VALIDE,
+  SUCCESS: StatutPaiement.VALIDE,
+  FAILED: StatutPaiement.ECHOUE,
+  CANCELLED: StatutPaiement.ANNULE,
+  EXPIRED: StatutPaiement.ANNULE
+};
+
+/**
+ * Paiement par push USSD : le client valide la transaction sur son téléphone,
+ * il n'y a donc pas d'URL de paiement
+ */
+export class MoovMoneyProvider implements PaymentProvider {
+  readonly methode = MethodePaiement.MOOV_MONEY;
+
+  async initiatePayment(request: InitiatePaymentRequest): Promise<InitiatePaymentResponse> {
+    if (!request.numeroTelephone) {
+      throw new ValidationError('Numéro Moov Money requis');
+    }
+
+    const data = await this.request('POST', '/payments', {
+      merchantId: process.env['MOOV_MONEY_MERCHANT_ID'],
+      reference: request.paiementId,
+      amount: Math.round(request.montant),
+      currency: request.devise,
+      msisdn: request.numeroTelephone.replace(/^\+/, ''),
+      description: request.description.substring(0, 50)
+    });
+
+    return {
+      externalId: data.transactionId,
+      statut: STATUS_MAP[data.status] || StatutPaiement.EN_ATTENTE,
+      instructions: 'Validez le paiement sur votre téléphone Moov Money avec votre code secret',
+      raw: data
+    };
+  }
+
+  async getPaymentStatus(reference: PaymentReference): Promise<PaymentStatusResponse> {
+    const data = await this.request('GET', `/payments/${reference.externalId}`);
+
+    return {
+      externalId: reference.externalId,
+      statut: STATUS_MAP[data.status] || StatutPaiement.EN_ATTENTE,
+      raw: data
+    };
+  }
+
+  /**
+   * En-tête X-Moov-Signature : HMAC-SHA256 hexadécimal du corps brut
+   */
+  parseWebhook(request: WebhookRequest): WebhookEvent | null {
+    const secret = process.env['MOOV_MONEY_WEBHOOK_SECRET'];
+    const signature = headerValue(request.headers, 'x-moov-signature');
+
+    if (!secret || !signature || !verifyHmacSha256(secret, request.rawBody, signature)) {
+      throw new AuthenticationError('Signature Moov Money invalide');
+    }
+
+    const { eventId, transactionId, status } = request.body || {};
+    const statut = STATUS_MAP[status];
+
+    if (!transactionId || !statut || statut === StatutPaiement.EN_ATTENTE) return null;
+
+    return {
+      eventId: eventId || `moov_${transactionId}_${status}`,
+      externalId: transactionId,
+      statut,
+      raw: request.body
+    };
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: Record<string, any>): Promise<any> {
+    const baseUrl = process.env['MOOV_MONEY_API_URL'];
+    if (!baseUrl) {
+      throw new PaymentError('Moov Money non configuré', 'MOOV_MONEY');
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${process.env['MOOV_MONEY_API_KEY']}`,
+        'Content-Type': 'application/json'
+      },
+      ...(body && { body: JSON.stringify(body) })
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error('❌ Erreur API Moov Money:', response.status, data);
+      throw new PaymentError(data.message || 'Moov Money indisponible', 'MOOV_MONEY', {
+        status: response.status
+      });
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,144 @@
+// backend/src/services/payments/orangeMoneyProvider.ts
+// ADAPTATEUR ORANGE MONEY CÔTE D'IVOIRE (WEB PAYMENT)
+
+import { MethodePaiement, StatutPaiement } from '../../../../shared/src/types';
+import { AuthenticationError, PaymentError } from '../../middleware/errorMiddleware';
+import type {
+  InitiatePaymentRequest,
+  InitiatePaymentResponse,
+  PaymentProvider,
+  PaymentReference,
+  PaymentStatusResponse,
+  WebhookEvent,
+  WebhookRequest
+} from './types';
+
+const ORANGE_API_URL = 'https://api.orange.com';
+const WEBPAY_PATH = '/orange-money-webpay/ci/v1';
+
+// Statuts Orange → statuts internes
+const STATUS_MAP: Record<string, StatutPaiement> = {
+  INITIATED: StatutPaiement.EN_ATTENTE,
+  PENDING: StatutPaiement.EN_ATTENTE,
+  SUCCESS: StatutPaiement.VALIDE,
+  FAILED: StatutPaiement.ECHOUE,
+  EXPIRED: StatutPaiement.ANNULE
+};
+
+export class OrangeMoneyProvider implements PaymentProvider {
+  readonly methode = MethodePaiement.ORANGE_MONEY;
+
+  async initiatePayment(request: InitiatePaymentRequest): Promise<InitiatePaymentResponse> {
+    const siteUrl = process.env['NEXT_PUBLIC_SITE_URL'] || 'http://localhost:3000';
+    const apiUrl = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:5000/api';
+
+    const data = await this.request(`${WEBPAY_PATH}/webpayment`, {
+      merchant_key: process.env['ORANGE_MONEY_MERCHANT_KEY'],
+      currency: request.devise === 'XOF' ? 'XOF' : request.devise,
+      order_id: request.paiementId,
+      amount: Math.round(request.montant),
+      return_url: `${siteUrl}/paiements/${request.paiementId}`,
+      cancel_url: `${siteUrl}/paiements/${request.paiementId}?annule=1`,
+      notif_url: `${apiUrl}/payments/webhooks/orange-money?ref=${request.paiementId}`,
+      lang: 'fr',
+      reference: request.description.substring(0, 30)
+    });
+
+    if (!data.pay_token || !data.payment_url) {
+      throw new PaymentError('Réponse Orange Money invalide', 'ORANGE_MONEY');
+    }
+
+    return {
+      externalId: data.pay_token,
+      statut: StatutPaiement.EN_ATTENTE,
+      paymentUrl: data.payment_url,
+      raw: { notif_token: data.notif_token }
+    };
+  }
+
+  async getPaymentStatus(reference: PaymentReference): Promise<PaymentStatusResponse> {
+    const data = await this.request(`${WEBPAY_PATH}/transactionstatus`, {
+      order_id: reference.paiementId,
+      amount: Math.round(reference.montant),
+      pay_token: reference.externalId
+    });
+
+    return {
+      externalId: reference.externalId,
+      statut: STATUS_MAP[data.status] || StatutPaiement.EN_ATTENTE,
+      raw: data
+    };
+  }
+
+  /**
+   * Orange ne signe pas ses notifications : l'authenticité repose sur le
+   * notif_token, comparé par le service à celui reçu lors de l'initiation
+   */
+  parseWebhook(request: WebhookRequest): WebhookEvent | null {
+    const { status, notif_token: notifToken, txnid } = request.body || {};
+    const paiementId = request.query['ref'];
+
+    if (!notifToken || typeof paiementId !== 'string' || !status) {
+      throw new AuthenticationError('Notification Orange Money invalide');
+    }
+
+    const statut = STATUS_MAP[status];
+    if (!statut || statut === StatutPaiement.EN_ATTENTE) return null;
+
+    return {
+      eventId: `orange_${txnid || notifToken}_${status}`,
+      paiementId,
+      statut,
+      notifToken,
+      raw: request.body
+    };
+  }
+
+  // ==============================================
+  // APPELS HTTP AUTHENTIFIÉS
+  // ==============================================
+
+  private async request(path: string, body: Record<string, any>): Promise<any> {
+    const response = await fetch(`${ORANGE_API_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${await this.getAccessToken()}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error('❌ Erreur API Orange Money:', response.status, data);
+      throw new PaymentError(data.message || 'Orange Money indisponible', 'ORANGE_MONEY', {
+        status: response.status
+      });
+    }
+
+    return data;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    const response = await fetch(`${ORANGE_API_URL}/oauth/v3/token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(
+          `${process.env['ORANGE_CI_CLIENT_ID']}:${process.env['ORANGE_CI_CLIENT_SECRET']}`
+        ).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: 'grant_type=client_credentials'
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.access_token) {
+      throw new PaymentError('Authentification Orange Money impossible', 'ORANGE_MONEY');
+    }
+
+    return data.access_token;
+  }
+}
@@ -0,0 +1,32 @@
+// backend/src/services/payments/signature.ts
+// VÉRIFICATION DES SIGNATURES DE WEBHOOKS
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Comparaison à temps constant de deux chaînes
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Vérifie une signature HMAC-SHA256 hexadécimale
+ */
+export const verifyHmacSha256 = (secret: string, payload: string | Buffer, signature: string): boolean => {
+  const expected = createHmac('sha256', secret).update(payload).digest('hex');
+  return safeEqual(expected, signature.trim().toLowerCase());
+};
+
+/**
+ * Valeur d'un en-tête HTTP (les en-têtes multiples sont ignorés)
+ */
+export const headerValue = (
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined => {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? undefined : value;
+};
@@ -0,0 +1,127 @@
+// backend/src/services/payments/stripeProvider.ts
+// ADAPTATEUR STRIPE (CARTES INTERNATIONALES)
+
+import Stripe from 'stripe';
+import { MethodePaiement, StatutPaiement } from '../../../../shared/src/types';
+import { AuthenticationError, PaymentError } from '../../middleware/errorMiddleware';
+import { headerValue } from './signature';
+import type {
+  InitiatePaymentRequest,
+  InitiatePaymentResponse,
+  PaymentProvider,
+  PaymentReference,
+  PaymentStatusResponse,
+  WebhookEvent,
+  WebhookRequest
+} from './types';
+
+// Événements Stripe pris en compte
+const EVENT_STATUS: Record<string, StatutPaiement> = {
+  'payment_intent.succeeded': StatutPaiement.VALIDE,
+  'payment_intent.payment_failed': StatutPaiement.ECHOUE,
+  'payment_intent.canceled': StatutPaiement.ANNULE,
+  'charge.refunded': StatutPaiement.REMBOURSE
+};
+
+export class StripeProvider implements PaymentProvider {
+  readonly methode = MethodePaiement.STRIPE;
+  private client: Stripe | null = null;
+
+  async initiatePayment(request: InitiatePaymentRequest): Promise<InitiatePaymentResponse> {
+    try {
+      // Le franc CFA est une devise sans décimales chez Stripe
+      const intent = await this.getClient().paymentIntents.create({
+        amount: Math.round(request.montant),
+        currency: request.devise.toLowerCase(),
+        description: request.description,
+        automatic_payment_methods: { enabled: true },
+        metadata: {
+          paiementId: request.paiementId,
+          ...(request.metadata?.['annonceId'] && { annonceId: request.metadata['annonceId'] })
+        }
+      }, {
+        idempotencyKey: `paiement_${request.paiementId}`
+      });
+
+      return {
+        externalId: intent.id,
+        statut: StripeProvider.mapStatus(intent.status),
+        raw: { client_secret: intent.client_secret }
+      };
+
+    } catch (error) {
+      console.error('❌ Erreur Stripe:', error);
+      throw new PaymentError(error instanceof Error ? error.message : 'Stripe indisponible', 'STRIPE');
+    }
+  }
+
+  async getPaymentStatus(reference: PaymentReference): Promise<PaymentStatusResponse> {
+    try {
+      const intent = await this.getClient().paymentIntents.retrieve(reference.externalId);
+
+      return {
+        externalId: intent.id,
+        statut: StripeProvider.mapStatus(intent.status),
+        raw: { status: intent.status }
+      };
+
+    } catch (error) {
+      console.error('❌ Erreur Stripe:', error);
+      throw new PaymentError(error instanceof Error ? error.message : 'Stripe indisponible', 'STRIPE');
+    }
+  }
+
+  parseWebhook(request: WebhookRequest): WebhookEvent | null {
+    const secret = process.env['STRIPE_WEBHOOK_SECRET'];
+    const signature = headerValue(request.headers, 'stripe-signature');
+
+    if (!secret || !signature) {
+      throw new AuthenticationError('Signature Stripe manquante');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.getClient().webhooks.constructEvent(request.rawBody, signature, secret);
+    } catch (error) {
+      throw new AuthenticationError('Signature Stripe invalide');
+    }
+
+    const statut = EVENT_STATUS[event.type];
+    if (!statut) return null;
+
+    const object = event.data.object as Stripe.PaymentIntent | Stripe.Charge;
+    const externalId = object.object === 'charge'
+      ? (typeof object.payment_intent === 'string' ? object.payment_intent : object.payment_intent?.id)
+      : object.id;
+
+    if (!externalId) return null;
+
+    return {
+      eventId: event.id,
+      externalId,
+      statut,
+      raw: { type: event.type, objectId: object.id }
+    };
+  }
+
+  static mapStatus(status: Stripe.PaymentIntent.Status): StatutPaiement {
+    switch (status) {
+      case 'succeeded':
+        return StatutPaiement.VALIDE;
+      case 'canceled':
+        return StatutPaiement.ANNULE;
+      default:
+        return StatutPaiement.EN_ATTENTE;
+    }
+  }
+
+  protected getClient(): Stripe {
+    if (!this.client) {
+      if (!process.env['STRIPE_SECRET_KEY']) {
+        throw new PaymentError('Stripe non configuré', 'STRIPE');
+      }
+      this.client = new Stripe(process.env['STRIPE_SECRET_KEY'], { apiVersion: '2023-10-16' });
+    }
+    return this.client;
+  }
+}
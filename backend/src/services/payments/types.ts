@@ -0,0 +1,89 @@
+// backend/src/services/payments/types.ts
+// CONTRAT COMMUN DES OPÉRATEURS DE PAIEMENT
+
+import type { MethodePaiement, StatutPaiement } from '../../../../shared/src/types';
+
+// ==============================================
+// REQUÊTES ET RÉPONSES
+// ==============================================
+
+export interface InitiatePaymentRequest {
+  paiementId: string;
+  montant: number;
+  devise: string;
+  description: string;
+  numeroTelephone?: string | undefined;
+  metadata?: Record<string, any>;
+}
+
+export interface InitiatePaymentResponse {
+  externalId: string;
+  statut: StatutPaiement;
+  paymentUrl?: string;
+  instructions?: string;
+  raw?: any;
+}
+
+/**
+ * Référence d'un paiement déjà initié chez l'opérateur
+ */
+export interface PaymentReference {
+  paiementId: string;
+  externalId: string;
+  montant: number;
+  devise: string;
+}
+
+export interface PaymentStatusResponse {
+  externalId: string;
+  statut: StatutPaiement;
+  raw?: any;
+}
+
+// ==============================================
+// NOTIFICATIONS ASYNCHRONES (WEBHOOKS)
+// ==============================================
+
+export interface WebhookRequest {
+  rawBody: Buffer;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, any>;
+  body: any;
+}
+
+export interface WebhookEvent {
+  // Identifiant unique de la notification, pour ignorer les rejeux
+  eventId: string;
+  // Identifiant de la transaction chez l'opérateur, ou à défaut notre référence
+  externalId?: string;
+  paiementId?: string;
+  statut: StatutPaiement;
+  // Jeton à comparer à celui reçu lors de l'initiation (Orange Money)
+  notifToken?: string;
+  raw: any;
+}
+
+// ==============================================
+// INTERFACE OPÉRATEUR
+// ==============================================
+
+export interface PaymentProvider {
+  readonly methode: MethodePaiement;
+
+  /**
+   * Crée la transaction chez l'opérateur (le paiement reste EN_ATTENTE)
+   */
+  initiatePayment(request: InitiatePaymentRequest): Promise<InitiatePaymentResponse>;
+
+  /**
+   * Interroge l'opérateur : seule source de vérité pour valider un paiement
+   */
+  getPaymentStatus(reference: PaymentReference): Promise<PaymentStatusResponse>;
+
+  /**
+   * Vérifie la signature d'une notification et la traduit en événement.
+   * Lève une AuthenticationError si la signature est invalide ;
+   * retourne null pour les notifications sans effet sur le statut.
+   */
+  parseWebhook(request: WebhookRequest): WebhookEvent | null;
+}
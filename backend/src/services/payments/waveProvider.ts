@@ -0,0 +1,136 @@
+// backend/src/services/payments/waveProvider.ts
+// ADAPTATEUR WAVE (CHECKOUT API)
+
+import { MethodePaiement, StatutPaiement } from '../../../../shared/src/types';
+import { AuthenticationError, PaymentError } from '../../middleware/errorMiddleware';
+import { headerValue, verifyHmacSha256 } from './signature';
+import type {
+  InitiatePaymentRequest,
+  InitiatePaymentResponse,
+  PaymentProvider,
+  PaymentReference,
+  PaymentStatusResponse,
+  WebhookEvent,
+  WebhookRequest
+} from './types';
+
+const WAVE_API_URL = 'https://api.wave.com/v1';
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export class WaveProvider implements PaymentProvider {
+  readonly methode = MethodePaiement.WAVE;
+
+  async initiatePayment(request: InitiatePaymentRequest): Promise<InitiatePaymentResponse> {
+    const siteUrl = process.env['NEXT_PUBLIC_SITE_URL'] || 'http://localhost:3000';
+
+    const session = await this.request('POST', '/checkout/sessions', {
+      amount: String(Math.round(request.montant)),
+      currency: request.devise,
+      client_reference: request.paiementId,
+      success_url: `${siteUrl}/paiements/${request.paiementId}`,
+      error_url: `${siteUrl}/paiements/${request.paiementId}?erreur=1`,
+      ...(request.numeroTelephone && { restrict_payer_mobile: request.numeroTelephone })
+    });
+
+    return {
+      externalId: session.id,
+      statut: StatutPaiement.EN_ATTENTE,
+      paymentUrl: session.wave_launch_url,
+      raw: { checkout_status: session.checkout_status }
+    };
+  }
+
+  async getPaymentStatus(reference: PaymentReference): Promise<PaymentStatusResponse> {
+    const session = await this.request('GET', `/checkout/sessions/${reference.externalId}`);
+
+    return {
+      externalId: reference.externalId,
+      statut: WaveProvider.mapStatus(session.checkout_status, session.payment_status),
+      raw: session
+    };
+  }
+
+  /**
+   * En-tête Wave-Signature : "t=<timestamp>,v1=<hmac>[,v1=<hmac>]"
+   * HMAC-SHA256 de "<timestamp><corps brut>" avec le secret du webhook
+   */
+  parseWebhook(request: WebhookRequest): WebhookEvent | null {
+    const secret = process.env['WAVE_WEBHOOK_SECRET'];
+    const header = headerValue(request.headers, 'wave-signature');
+
+    if (!secret || !header) {
+      throw new AuthenticationError('Signature Wave manquante');
+    }
+
+    const parts = header.split(',').map(part => part.trim().split('='));
+    const timestamp = parts.find(([key]) => key === 't')?.[1];
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value || '');
+
+    if (!timestamp || Math.abs(Date.now() / 1000 - parseInt(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new AuthenticationError('Signature Wave expirée');
+    }
+
+    const payload = Buffer.concat([Buffer.from(timestamp), request.rawBody]);
+    if (!signatures.some(signature => verifyHmacSha256(secret, payload, signature))) {
+      throw new AuthenticationError('Signature Wave invalide');
+    }
+
+    const event = request.body;
+    const session = event?.data || {};
+
+    let statut: StatutPaiement;
+    switch (event?.type) {
+      case 'checkout.session.completed':
+        statut = WaveProvider.mapStatus(session.checkout_status, session.payment_status);
+        break;
+      case 'checkout.session.payment_failed':
+        statut = StatutPaiement.ECHOUE;
+        break;
+      default:
+        return null;
+    }
+
+    if (statut === StatutPaiement.EN_ATTENTE) return null;
+
+    return {
+      eventId: event.id,
+      externalId: session.id,
+      statut,
+      raw: event
+    };
+  }
+
+  /**
+   * checkout_status : open | complete | expired
+   * payment_status  : processing | cancelled | succeeded
+   */
+  static mapStatus(checkoutStatus: string, paymentStatus: string): StatutPaiement {
+    if (paymentStatus === 'succeeded') return StatutPaiement.VALIDE;
+    if (paymentStatus === 'cancelled') return StatutPaiement.ANNULE;
+    if (checkoutStatus === 'expired') return StatutPaiement.ANNULE;
+    return StatutPaiement.EN_ATTENTE;
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: Record<string, any>): Promise<any> {
+    const response = await fetch(`${WAVE_API_URL}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${process.env['WAVE_API_KEY']}`,
+        'Content-Type': 'application/json'
+      },
+      ...(body && { body: JSON.stringify(body) })
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error('❌ Erreur API Wave:', response.status, data);
+      throw new PaymentError(data.message || 'Wave indisponible', 'WAVE', {
+        status: response.status,
+        code: data.code
+      });
+    }
+
+    return data;
+  }
+}
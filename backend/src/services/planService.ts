@@ -0,0 +1,211 @@
+// backend/src/services/planService.ts
+// DROITS DES PLANS : QUOTAS D'ANNONCES, DURÉE DE VIE, IMAGES ET BOOSTS INCLUS
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  PLANS,
+  StatutAbonnement,
+  StatutAnnonce,
+  TypeAbonnement
+} from '../../../shared/src/types';
+import type { Abonnement, DroitsPlan, PlanUtilisateur } from '../../../shared/src/types';
+import { QuotaError } from '../middleware/errorMiddleware';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface AbonnementMetadata {
+  boostsUtilises?: number;
+  annuleLe?: string;
+}
+
+// Statuts d'annonce comptés dans le quota
+const STATUTS_QUOTA = [StatutAnnonce.ACTIVE, StatutAnnonce.EN_MODERATION];
+
+// Un abonnement annulé reste effectif jusqu'à sa date de fin
+const STATUTS_EFFECTIFS = [StatutAbonnement.ACTIF, StatutAbonnement.ANNULE];
+
+// ==============================================
+// CLASSE PLANSERVICE
+// ==============================================
+
+export class PlanService {
+
+  // ==============================================
+  // PLAN COURANT
+  // ==============================================
+
+  /**
+   * Abonnement en cours de validité, le plus lointain en cas de chevauchement
+   */
+  static async getActiveAbonnement(userId: string, client: Prisma.TransactionClient = prisma) {
+    const now = new Date();
+
+    return client.abonnement.findFirst({
+      where: {
+        userId,
+        statut: { in: STATUTS_EFFECTIFS },
+        dateDebut: { lte: now },
+        dateFin: { gt: now }
+      },
+      orderBy: { dateFin: 'desc' }
+    });
+  }
+
+  static async getDroits(
+    userId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<DroitsPlan & { plan: TypeAbonnement }> {
+    const abonnement = await this.getActiveAbonnement(userId, client);
+    const plan = (abonnement?.type as TypeAbonnement) || TypeAbonnement.BASIC;
+    const { tarifMensuel, ...droits } = PLANS[plan];
+
+    return { plan, ...droits };
+  }
+
+  static async getPlanUtilisateur(userId: string): Promise<PlanUtilisateur> {
+    const [abonnement, annoncesActives] = await Promise.all([
+      this.getActiveAbonnement(userId),
+      this.countAnnoncesActives(userId)
+    ]);
+
+    const plan = (abonnement?.type as TypeAbonnement) || TypeAbonnement.BASIC;
+    const { tarifMensuel, ...droits } = PLANS[plan];
+    const boostsUtilises = (abonnement?.metadata as AbonnementMetadata)?.boostsUtilises || 0;
+
+    return {
+      plan,
+      droits,
+      ...(abonnement && { abonnement: this.formatAbonnement(abonnement) }),
+      annoncesActives,
+      boostsRestants: abonnement ? Math.max(droits.boostsInclus - boostsUtilises, 0) : 0
+    };
+  }
+
+  // ==============================================
+  // CONTRÔLES À LA PUBLICATION
+  // ==============================================
+
+  /**
+   * Publie (création ou republication) sous le quota du plan : le compte des
+   * annonces actives et l'écriture se font dans une transaction qui verrouille
+   * l'utilisateur, deux publications simultanées ne peuvent donc pas dépasser
+   * le quota. Lève une QuotaError (402) invitant à passer à un plan supérieur.
+   */
+  static async publishWithinQuota<T>(
+    userId: string,
+    nombreImages: number,
+    publish: (tx: Prisma.TransactionClient, droits: DroitsPlan & { plan: TypeAbonnement }) => Promise<T>
+  ): Promise<T> {
+    return prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT "id" FROM "users" WHERE "id" = ${userId} FOR UPDATE`;
+
+      const droits = await this.assertCanPublish(userId, nombreImages, tx);
+      return publish(tx, droits);
+    });
+  }
+
+  /**
+   * Vérifie le quota d'annonces et le nombre d'images du plan
+   */
+  private static async assertCanPublish(
+    userId: string,
+    nombreImages: number,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<DroitsPlan & { plan: TypeAbonnement }> {
+    const droits = await this.getDroits(userId, client);
+
+    if (droits.maxAnnoncesActives !== null) {
+      const annoncesActives = await this.countAnnoncesActives(userId, client);
+
+      if (annoncesActives >= droits.maxAnnoncesActives) {
+        throw new QuotaError(
+          `Limite de ${droits.maxAnnoncesActives} annonces actives atteinte pour le plan ${droits.plan}. ` +
+          'Passez à l\'abonnement Pro pour publier davantage.',
+          { plan: droits.plan, limite: droits.maxAnnoncesActives, annoncesActives }
+        );
+      }
+    }
+
+    if (nombreImages > droits.maxImages) {
+      throw new QuotaError(
+        `Le plan ${droits.plan} autorise ${droits.maxImages} images par annonce`,
+        { plan: droits.plan, limite: droits.maxImages, images: nombreImages }
+      );
+    }
+
+    return droits;
+  }
+
+  /**
+   * Date d'expiration d'une annonce publiée maintenant
+   */
+  static getExpirationDate(droits: DroitsPlan, from: Date = new Date()): Date {
+    const date = new Date(from);
+    date.setDate(date.getDate() + droits.dureeAnnonceJours);
+    return date;
+  }
+
+  // ==============================================
+  // BOOSTS INCLUS
+  // ==============================================
+
+  /**
+   * Consomme un boost inclus de l'abonnement en cours.
+   * Retourne l'id de l'abonnement débité, ou null s'il n'en reste aucun.
+   */
+  static async consumeIncludedBoost(tx: Prisma.TransactionClient, userId: string): Promise<string | null> {
+    const abonnement = await this.getActiveAbonnement(userId, tx);
+    if (!abonnement) return null;
+
+    const metadata = (abonnement.metadata as AbonnementMetadata) || {};
+    const boostsUtilises = metadata.boostsUtilises || 0;
+
+    if (boostsUtilises >= PLANS[abonnement.type as TypeAbonnement].boostsInclus) {
+      return null;
+    }
+
+    // Garde optimiste contre deux consommations simultanées
+    const result = await tx.abonnement.updateMany({
+      where: { id: abonnement.id, updatedAt: abonnement.updatedAt },
+      data: {
+        metadata: { ...metadata, boostsUtilises: boostsUtilises + 1 }
+      }
+    });
+
+    return result.count > 0 ? abonnement.id : null;
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES
+  // ==============================================
+
+  static formatAbonnement(abonnement: any): Abonnement {
+    const metadata = (abonnement.metadata as AbonnementMetadata) || {};
+
+    return {
+      id: abonnement.id,
+      userId: abonnement.userId,
+      type: abonnement.type as TypeAbonnement,
+      prix: abonnement.prix,
+      devise: abonnement.devise,
+      dateDebut: abonnement.dateDebut,
+      dateFin: abonnement.dateFin,
+      statut: abonnement.statut as StatutAbonnement,
+      boostsUtilises: metadata.boostsUtilises || 0,
+      ...(metadata.annuleLe && { annuleLe: new Date(metadata.annuleLe) }),
+      createdAt: abonnement.createdAt
+    };
+  }
+
+  private static async countAnnoncesActives(userId: string, client: Prisma.TransactionClient = prisma): Promise<number> {
+    return client.annonce.count({
+      where: { userId, statut: { in: STATUTS_QUOTA } }
+    });
+  }
+}
+
+export default PlanService;
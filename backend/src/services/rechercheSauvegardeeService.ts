@@ -0,0 +1,368 @@
+// backend/src/services/rechercheSauvegardeeService.ts
+// SERVICE RECHERCHES SAUVEGARDÉES ET ALERTES NOUVELLES ANNONCES
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { FrequenceAlerte, LIMITS, StatutAnnonce } from '../../../shared/src/types';
+import type {
+  NotificationPreferences,
+  RechercheSauvegardee,
+  SearchFilters
+} from '../../../shared/src/types';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errorMiddleware';
+import { EmailService, SMSService } from './uploadService';
+import { emitToUser } from '../sockets/socketGateway';
+import { normalizeNomLieu } from '../utils/geo';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface RechercheData {
+  nom: string;
+  filtres: SearchFilters;
+  frequence: FrequenceAlerte;
+}
+
+interface RechercheUpdateData {
+  nom?: string | undefined;
+  frequence?: FrequenceAlerte | undefined;
+  active?: boolean | undefined;
+}
+
+// Champs de l'annonce publiée nécessaires à la correspondance
+export interface AnnonceAlerte {
+  id: string;
+  userId: string;
+  titre: string;
+  description: string;
+  motsCles?: string | null;
+  prix: number;
+  categorie: string;
+  sousCategorie?: string | null;
+  region: string;
+  commune: string;
+  etat?: string | null;
+}
+
+const ALERT_USER_SELECT = {
+  id: true,
+  firstName: true,
+  email: true,
+  phone: true,
+  notifications: true
+} as const;
+
+// Période minimale entre deux digests
+const PERIODES_DIGEST: Record<Exclude<FrequenceAlerte, FrequenceAlerte.INSTANTANEE>, number> = {
+  [FrequenceAlerte.QUOTIDIENNE]: 24 * 60 * 60 * 1000,
+  [FrequenceAlerte.HEBDOMADAIRE]: 7 * 24 * 60 * 60 * 1000
+};
+
+// Nombre maximum d'annonces par recherche dans un digest
+const MAX_ANNONCES_PAR_DIGEST = 10;
+
+// ==============================================
+// CLASSE RECHERCHESAUVEGARDEESERVICE
+// ==============================================
+
+export class RechercheSauvegardeeService {
+
+  // ==============================================
+  // GESTION DES RECHERCHES
+  // ==============================================
+
+  static async createRecherche(userId: string, data: RechercheData): Promise<RechercheSauvegardee> {
+    const count = await prisma.rechercheSauvegardee.count({ where: { userId } });
+
+    if (count >= LIMITS.USER.MAX_RECHERCHES_SAUVEGARDEES) {
+      throw new ValidationError(
+        `Maximum ${LIMITS.USER.MAX_RECHERCHES_SAUVEGARDEES} recherches sauvegardées : supprimez-en une avant d'en créer une nouvelle`
+      );
+    }
+
+    const recherche = await prisma.rechercheSauvegardee.create({
+      data: {
+        userId,
+        nom: data.nom,
+        filtres: data.filtres as Prisma.InputJsonValue,
+        frequence: data.frequence,
+        categorie: data.filtres.categorie ?? null,
+        region: data.filtres.region ?? null
+      }
+    });
+
+    return this.formatRecherche(recherche);
+  }
+
+  static async getRecherches(userId: string): Promise<RechercheSauvegardee[]> {
+    const recherches = await prisma.rechercheSauvegardee.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        _count: { select: { alertes: { where: { envoyeeAt: null } } } }
+      }
+    });
+
+    return recherches.map(recherche => ({
+      ...this.formatRecherche(recherche),
+      alertesEnAttente: recherche._count.alertes
+    }));
+  }
+
+  static async updateRecherche(id: string, userId: string, data: RechercheUpdateData): Promise<RechercheSauvegardee> {
+    await this.assertOwnership(id, userId);
+
+    const recherche = await prisma.rechercheSauvegardee.update({
+      where: { id },
+      data: {
+        ...(data.nom !== undefined && { nom: data.nom }),
+        ...(data.frequence !== undefined && { frequence: data.frequence }),
+        ...(data.active !== undefined && { active: data.active })
+      }
+    });
+
+    return this.formatRecherche(recherche);
+  }
+
+  static async deleteRecherche(id: string, userId: string): Promise<void> {
+    await this.assertOwnership(id, userId);
+    await prisma.rechercheSauvegardee.delete({ where: { id } });
+  }
+
+  // ==============================================
+  // CORRESPONDANCE À LA PUBLICATION
+  // ==============================================
+
+  /**
+   * Rapproche une annonce publiée des recherches actives. Les alertes
+   * instantanées partent aussitôt, les autres attendent le digest.
+   * Retourne le nombre de recherches correspondantes.
+   */
+  static async notifyNewAnnonce(annonce: AnnonceAlerte): Promise<number> {
+    // Présélection en base sur les critères indexés
+    const candidates = await prisma.rechercheSauvegardee.findMany({
+      where: {
+        active: true,
+        userId: { not: annonce.userId },
+        AND: [
+          { OR: [{ categorie: null }, { categorie: annonce.categorie }] },
+          { OR: [{ region: null }, { region: annonce.region }] }
+        ]
+      },
+      include: { user: { select: ALERT_USER_SELECT } }
+    });
+
+    const correspondantes = candidates.filter(recherche =>
+      this.matchesFilters(recherche.filtres as SearchFilters, annonce)
+    );
+
+    if (correspondantes.length === 0) return 0;
+
+    await prisma.alerteAnnonce.createMany({
+      data: correspondantes.map(recherche => ({ rechercheId: recherche.id, annonceId: annonce.id })),
+      skipDuplicates: true
+    });
+
+    const instantanees = correspondantes.filter(recherche => recherche.frequence === FrequenceAlerte.INSTANTANEE);
+
+    for (const recherche of instantanees) {
+      try {
+        await this.sendInstantAlert(recherche.user, recherche.nom, annonce);
+
+        const now = new Date();
+        await prisma.alerteAnnonce.updateMany({
+          where: { rechercheId: recherche.id, annonceId: annonce.id },
+          data: { envoyeeAt: now }
+        });
+        await prisma.rechercheSauvegardee.update({
+          where: { id: recherche.id },
+          data: { derniereNotification: now }
+        });
+
+      } catch (error) {
+        console.error(`❌ Erreur alerte instantanée ${recherche.id}:`, error);
+      }
+    }
+
+    console.log(`🔔 Annonce ${annonce.id}: ${correspondantes.length} recherche(s) correspondante(s)`);
+
+    return correspondantes.length;
+  }
+
+  // ==============================================
+  // DIGESTS QUOTIDIENS ET HEBDOMADAIRES
+  // ==============================================
+
+  /**
+   * Un email par utilisateur regroupant ses recherches arrivées à échéance.
+   * Retourne le nombre d'emails envoyés.
+   */
+  static async sendDigests(frequence: FrequenceAlerte.QUOTIDIENNE | FrequenceAlerte.HEBDOMADAIRE): Promise<number> {
+    const now = new Date();
+    const echeance = new Date(now.getTime() - PERIODES_DIGEST[frequence]);
+
+    const recherches = await prisma.rechercheSauvegardee.findMany({
+      where: {
+        active: true,
+        frequence,
+        OR: [{ derniereNotification: null }, { derniereNotification: { lte: echeance } }],
+        alertes: { some: { envoyeeAt: null } }
+      },
+      include: {
+        user: { select: ALERT_USER_SELECT },
+        alertes: {
+          where: { envoyeeAt: null },
+          orderBy: { createdAt: 'desc' },
+          include: {
+            annonce: {
+              select: { id: true, titre: true, prix: true, commune: true, statut: true }
+            }
+          }
+        }
+      }
+    });
+
+    // Regroupement par utilisateur
+    const parUtilisateur = new Map<string, typeof recherches>();
+    for (const recherche of recherches) {
+      const groupe = parUtilisateur.get(recherche.userId) || [];
+      groupe.push(recherche);
+      parUtilisateur.set(recherche.userId, groupe);
+    }
+
+    let envoyes = 0;
+
+    for (const groupe of parUtilisateur.values()) {
+      const user = groupe[0]!.user;
+      const preferences = (user.notifications || {}) as Partial<NotificationPreferences>;
+
+      // Seules les annonces encore en ligne sont proposées
+      const groupes = groupe
+        .map(recherche => ({
+          nomRecherche: recherche.nom,
+          annonces: recherche.alertes
+            .filter(alerte => alerte.annonce.statut === StatutAnnonce.ACTIVE)
+            .slice(0, MAX_ANNONCES_PAR_DIGEST)
+            .map(alerte => alerte.annonce)
+        }))
+        .filter(item => item.annonces.length > 0);
+
+      if (groupes.length > 0 && preferences.email !== false && user.email) {
+        const template = EmailService.getAlertDigestTemplate(
+          user.firstName,
+          groupes,
+          frequence === FrequenceAlerte.QUOTIDIENNE ? 'jour' : 'semaine'
+        );
+
+        if (await EmailService.sendEmail({ to: user.email, ...template })) {
+          envoyes++;
+        }
+      }
+
+      const rechercheIds = groupe.map(recherche => recherche.id);
+      await prisma.alerteAnnonce.updateMany({
+        where: { rechercheId: { in: rechercheIds }, envoyeeAt: null, createdAt: { lte: now } },
+        data: { envoyeeAt: now }
+      });
+      await prisma.rechercheSauvegardee.updateMany({
+        where: { id: { in: rechercheIds } },
+        data: { derniereNotification: now }
+      });
+    }
+
+    return envoyes;
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async sendInstantAlert(
+    user: { id: string; firstName: string; email: string; phone: string; notifications: Prisma.JsonValue },
+    nomRecherche: string,
+    annonce: AnnonceAlerte
+  ): Promise<void> {
+    const preferences = (user.notifications || {}) as Partial<NotificationPreferences>;
+
+    if (preferences.push !== false) {
+      emitToUser(user.id, {
+        type: 'NOTIFICATION',
+        payload: {
+          titre: `Nouvelle annonce pour "${nomRecherche}"`,
+          contenu: `${annonce.titre} - ${annonce.prix} FCFA (${annonce.commune})`,
+          type: 'info',
+          lien: `/annonces/${annonce.id}`
+        },
+        timestamp: new Date(),
+        userId: user.id
+      });
+    }
+
+    if (preferences.email !== false && user.email) {
+      const template = EmailService.getNewAnnonceAlertTemplate(user.firstName, nomRecherche, annonce);
+      await EmailService.sendEmail({ to: user.email, ...template });
+    }
+
+    if (preferences.sms !== false && user.phone) {
+      await SMSService.sendSMS({
+        to: user.phone,
+        message: SMSService.getNewAnnonceAlertSMS(nomRecherche, annonce.titre, annonce.prix)
+      });
+    }
+  }
+
+  /**
+   * Critères non indexés : sous-catégorie, commune, prix, état et mots-clés
+   * (tous les mots de la requête, sans tenir compte des accents)
+   */
+  private static matchesFilters(filtres: SearchFilters, annonce: AnnonceAlerte): boolean {
+    if (filtres.categorie && filtres.categorie !== annonce.categorie) return false;
+    if (filtres.sousCategorie && filtres.sousCategorie !== annonce.sousCategorie) return false;
+    if (filtres.region && filtres.region !== annonce.region) return false;
+    if (filtres.commune && normalizeNomLieu(filtres.commune) !== normalizeNomLieu(annonce.commune)) return false;
+    if (filtres.prixMin !== undefined && annonce.prix < filtres.prixMin) return false;
+    if (filtres.prixMax !== undefined && annonce.prix > filtres.prixMax) return false;
+    if (filtres.etat && filtres.etat !== annonce.etat) return false;
+
+    if (filtres.q) {
+      const texte = normalizeNomLieu(`${annonce.titre} ${annonce.description} ${annonce.motsCles || ''}`);
+      const mots = normalizeNomLieu(filtres.q).split(/\s+/).filter(mot => mot.length >= 2);
+      if (!mots.every(mot => texte.includes(mot))) return false;
+    }
+
+    return true;
+  }
+
+
+  private static async assertOwnership(id: string, userId: string): Promise<void> {
+    const recherche = await prisma.rechercheSauvegardee.findUnique({
+      where: { id },
+      select: { userId: true }
+    });
+
+    if (!recherche) {
+      throw new NotFoundError('Recherche sauvegardée');
+    }
+
+    if (recherche.userId !== userId) {
+      throw new AuthorizationError('Cette recherche ne vous appartient pas');
+    }
+  }
+
+  private static formatRecherche(recherche: any): RechercheSauvegardee {
+    return {
+      id: recherche.id,
+      userId: recherche.userId,
+      nom: recherche.nom,
+      filtres: recherche.filtres as SearchFilters,
+      frequence: recherche.frequence as FrequenceAlerte,
+      active: recherche.active,
+      ...(recherche.derniereNotification && { derniereNotification: recherche.derniereNotification }),
+      createdAt: recherche.createdAt
+    };
+  }
+}
+
+export default RechercheSauvegardeeService;
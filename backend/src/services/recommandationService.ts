@@ -0,0 +1,214 @@
+// backend/src/services/recommandationService.ts
+// SERVICE RECOMMANDATIONS : SIGNAUX D'INTÉRÊT DE L'UTILISATEUR ET ANNONCES CANDIDATES
+
+import { PrismaClient } from '@prisma/client';
+import { StatutAnnonce } from '../../../shared/src/types';
+import TendanceService from './tendanceService';
+import { buildProfilInteret, rankCandidats, topAffinites } from '../utils/recommandation';
+import type { AnnonceRecommandee, ProfilInteret, SignalInteret } from '../utils/recommandation';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const RECOMMANDATION_SERVICE_CONFIG = {
+  HISTORIQUE_JOURS: 90,
+  MAX_VUES: 500,
+  MAX_FAVORIS: 200,
+  MAX_MESSAGES: 200,
+  MAX_CANDIDATS: 500,
+  TOP_CATEGORIES: 5,
+  TOP_REGIONS: 3,
+  POIDS_PROFIL_MIN: 1 // En deçà (nouvel utilisateur) : annonces tendances
+};
+
+const JOUR_MS = 24 * 60 * 60 * 1000;
+
+// Caractéristiques d'une annonce reprises dans les signaux et les candidats
+const ANNONCE_SIGNAL_SELECT = {
+  categorie: true,
+  sousCategorie: true,
+  prix: true,
+  region: true,
+  commune: true,
+  latitude: true,
+  longitude: true
+} as const;
+
+// ==============================================
+// CLASSE RECOMMANDATIONSERVICE
+// ==============================================
+
+export class RecommandationService {
+
+  // ==============================================
+  // FIL « POUR VOUS »
+  // ==============================================
+
+  /**
+   * Annonces classées selon le profil d'intérêts de l'utilisateur (vues,
+   * favoris, messages envoyés, recherches sauvegardées), complétées par les
+   * tendances de sa région. Visiteur anonyme ou sans historique : tendances
+   * de la région demandée
+   */
+  static async getRecommandations(
+    userId: string | undefined,
+    options: { limite: number; region?: string | undefined }
+  ): Promise<AnnonceRecommandee[]> {
+    if (!userId) {
+      return this.getTendances(options.region, [], options.limite);
+    }
+
+    const maintenant = new Date();
+    const [signaux, utilisateur, exclus] = await Promise.all([
+      this.collectSignaux(userId, maintenant),
+      prisma.user.findUnique({ where: { id: userId }, select: { region: true, latitude: true, longitude: true } }),
+      this.getAnnoncesExclues(userId)
+    ]);
+
+    const profil = buildProfilInteret(signaux, maintenant);
+    const region = options.region || utilisateur?.region || undefined;
+
+    // Localisation du profil : à défaut d'annonces géolocalisées consultées, celle du compte
+    if (!profil.position && utilisateur?.latitude != null && utilisateur.longitude != null) {
+      profil.position = { latitude: utilisateur.latitude, longitude: utilisateur.longitude };
+    }
+    if (Object.keys(profil.regions).length === 0 && region) {
+      profil.regions = { [region]: 1 };
+    }
+
+    const recommandations = profil.poidsTotal >= RECOMMANDATION_SERVICE_CONFIG.POIDS_PROFIL_MIN
+      ? rankCandidats(profil, await this.getCandidats(userId, profil, exclus), maintenant, options.limite)
+      : [];
+
+    if (recommandations.length >= options.limite) return recommandations;
+
+    const tendances = await this.getTendances(
+      region,
+      [...exclus, ...recommandations.map(recommandation => recommandation.id)],
+      options.limite - recommandations.length,
+      userId
+    );
+
+    return [...recommandations, ...tendances];
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async collectSignaux(userId: string, maintenant: Date): Promise<SignalInteret[]> {
+    const { HISTORIQUE_JOURS, MAX_VUES, MAX_FAVORIS, MAX_MESSAGES } = RECOMMANDATION_SERVICE_CONFIG;
+    const depuis = new Date(maintenant.getTime() - HISTORIQUE_JOURS * JOUR_MS);
+
+    const [vues, favoris, messages, recherches] = await Promise.all([
+      prisma.vueAnnonce.findMany({
+        where: { userId, createdAt: { gte: depuis }, annonce: { userId: { not: userId } } },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_VUES,
+        select: { createdAt: true, dureeVisite: true, annonce: { select: ANNONCE_SIGNAL_SELECT } }
+      }),
+      prisma.favori.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_FAVORIS,
+        select: { createdAt: true, annonce: { select: ANNONCE_SIGNAL_SELECT } }
+      }),
+      // Premier message de chaque conversation initiée par l'utilisateur
+      prisma.message.findMany({
+        where: { senderId: userId, annonce: { userId: { not: userId } } },
+        distinct: ['annonceId'],
+        orderBy: { dateEnvoi: 'desc' },
+        take: MAX_MESSAGES,
+        select: { dateEnvoi: true, annonce: { select: ANNONCE_SIGNAL_SELECT } }
+      }),
+      prisma.rechercheSauvegardee.findMany({
+        where: { userId, active: true },
+        select: { filtres: true, categorie: true, region: true, updatedAt: true }
+      })
+    ]);
+
+    return [
+      ...vues.map(vue => ({ type: 'vue' as const, date: vue.createdAt, dureeVisite: vue.dureeVisite, ...vue.annonce })),
+      ...favoris.map(favori => ({ type: 'favori' as const, date: favori.createdAt, ...favori.annonce })),
+      ...messages.map(message => ({ type: 'message' as const, date: message.dateEnvoi, ...message.annonce })),
+      ...recherches.map(recherche => {
+        const filtres = (recherche.filtres || {}) as { sousCategorie?: string; commune?: string; prixMin?: number; prixMax?: number };
+        return {
+          type: 'recherche' as const,
+          date: recherche.updatedAt,
+          categorie: recherche.categorie,
+          sousCategorie: filtres.sousCategorie,
+          region: recherche.region,
+          commune: filtres.commune,
+          prix: this.milieuFourchette(filtres.prixMin, filtres.prixMax)
+        };
+      })
+    ];
+  }
+
+  // Annonces déjà mises en favori ou contactées : inutile de les proposer
+  private static async getAnnoncesExclues(userId: string): Promise<string[]> {
+    const [favoris, messages] = await Promise.all([
+      prisma.favori.findMany({ where: { userId }, select: { annonceId: true } }),
+      prisma.message.findMany({ where: { senderId: userId }, distinct: ['annonceId'], select: { annonceId: true } })
+    ]);
+
+    return [...new Set([...favoris, ...messages].map(ligne => ligne.annonceId))];
+  }
+
+  // Annonces actives récentes des catégories ou régions préférées
+  private static async getCandidats(userId: string, profil: ProfilInteret, exclus: string[]) {
+    const categories = topAffinites(profil.categories, RECOMMANDATION_SERVICE_CONFIG.TOP_CATEGORIES);
+    const regions = topAffinites(profil.regions, RECOMMANDATION_SERVICE_CONFIG.TOP_REGIONS);
+
+    if (categories.length === 0 && regions.length === 0) return [];
+
+    return prisma.annonce.findMany({
+      where: {
+        statut: StatutAnnonce.ACTIVE,
+        userId: { not: userId },
+        id: { notIn: exclus },
+        AND: [
+          // Sans date d'expiration : n'expire pas
+          { OR: [{ dateExpiration: null }, { dateExpiration: { gt: new Date() } }] },
+          {
+            OR: [
+              ...(categories.length > 0 ? [{ categorie: { in: categories } }] : []),
+              ...(regions.length > 0 ? [{ region: { in: regions } }] : [])
+            ]
+          }
+        ]
+      },
+      orderBy: [{ datePublication: 'desc' }, { id: 'desc' }],
+      take: RECOMMANDATION_SERVICE_CONFIG.MAX_CANDIDATS,
+      select: { id: true, datePublication: true, ...ANNONCE_SIGNAL_SELECT }
+    });
+  }
+
+  // Fil Tendances de la région, score ramené entre 0 et 1
+  private static async getTendances(
+    region: string | undefined,
+    exclus: string[],
+    limite: number,
+    userId?: string
+  ): Promise<AnnonceRecommandee[]> {
+    const classement = await TendanceService.getClassement({ region, excludeIds: exclus, excludeUserId: userId }, limite);
+    const max = classement[0]?.score || 1;
+
+    return classement.map(tendance => ({
+      id: tendance.annonceId,
+      score: Math.round((tendance.score / max) * 1000) / 1000,
+      motifs: ['tendance']
+    }));
+  }
+
+  private static milieuFourchette(prixMin?: number, prixMax?: number): number | null {
+    if (prixMin && prixMax) return (prixMin + prixMax) / 2;
+    return prixMax || prixMin || null;
+  }
+}
+
+export default RecommandationService;
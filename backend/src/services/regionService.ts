@@ -0,0 +1,371 @@
+// backend/src/services/regionService.ts
+// SERVICE RÉFÉRENTIEL GÉOGRAPHIQUE (RÉGIONS, COMMUNES ET QUARTIERS EN BASE)
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import slugify from 'slugify';
+import { StatutAnnonce } from '../../../shared/src/types';
+import type { RegionNoeud } from '../../../shared/src/types';
+import { DuplicateError, NotFoundError, ValidationError } from '../middleware/errorMiddleware';
+import CacheService from './cacheService';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface LieuData {
+  nom: string;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+}
+
+interface CommuneData extends LieuData {
+  ancienNom?: string | undefined; // La commune est renommée et ses annonces suivent
+  quartiers: LieuData[];
+}
+
+interface RegionData {
+  nom: string;
+  slug?: string | undefined;
+  code: string;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+  population?: number | undefined;
+  superficie?: number | undefined;
+  communes: CommuneData[];
+  actif: boolean;
+}
+
+interface RegionUpdateData {
+  nom?: string | undefined;
+  code?: string | undefined;
+  latitude?: number | null | undefined;
+  longitude?: number | null | undefined;
+  population?: number | null | undefined;
+  superficie?: number | null | undefined;
+  communes?: CommuneData[] | undefined;
+  actif?: boolean | undefined;
+}
+
+type RegionRow = Prisma.RegionCIGetPayload<{}>;
+
+// Contenu JSON de RegionCI (voir prisma/seed.ts)
+type PositionJson = { lat?: number; lng?: number };
+type CoordonneesJson = PositionJson & { communes?: Record<string, PositionJson> };
+type QuartiersJson = Record<string, Record<string, PositionJson>>;
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const REGION_CONFIG = {
+  CACHE_TTL_MS: 60 * 60 * 1000, // 1 heure : les régions changent rarement, vidé à chaque modification
+  SLUG: { lower: true, strict: true } // Accents retirés, ponctuation supprimée
+};
+
+let cache: { regions: RegionNoeud[]; expiresAt: number } | null = null;
+
+// ==============================================
+// CLASSE REGIONSERVICE
+// ==============================================
+
+export class RegionService {
+
+  // ==============================================
+  // LECTURE DU RÉFÉRENTIEL
+  // ==============================================
+
+  /**
+   * Régions avec leurs communes et quartiers. Les régions désactivées ne
+   * sont visibles que de l'administration
+   */
+  static async getArbre(options: { inclureInactives?: boolean } = {}): Promise<RegionNoeud[]> {
+    const regions = await this.loadRegions();
+    return options.inclureInactives ? regions : regions.filter(region => region.actif);
+  }
+
+  /**
+   * Région active par son slug (valeur stockée dans annonce.region)
+   */
+  static async getRegion(slug: string): Promise<RegionNoeud | null> {
+    const regions = await this.getArbre();
+    return regions.find(region => region.slug === slug) || null;
+  }
+
+  static async isRegionValide(slug: string): Promise<boolean> {
+    return !!(await this.getRegion(slug));
+  }
+
+  /**
+   * Noms des communes d'une région active (valeurs stockées dans annonce.commune)
+   */
+  static async getCommunes(slug: string): Promise<string[]> {
+    const region = await this.getRegion(slug);
+    return region ? region.communes.map(commune => commune.nom) : [];
+  }
+
+  static async isCommuneValide(slug: string, commune: string): Promise<boolean> {
+    return (await this.getCommunes(slug)).includes(commune);
+  }
+
+  /**
+   * À appeler après toute modification de la table regions_ci
+   */
+  static clearCache(): void {
+    cache = null;
+  }
+
+  // ==============================================
+  // ADMINISTRATION
+  // ==============================================
+
+  static async createRegion(data: RegionData): Promise<RegionNoeud> {
+    await this.assertNomDisponible(data.nom);
+    await this.assertCodeDisponible(data.code);
+
+    const slug = data.slug ? await this.assertSlugDisponible(data.slug) : await this.uniqueSlug(slugify(data.nom, REGION_CONFIG.SLUG));
+
+    const region = await prisma.regionCI.create({
+      data: {
+        nom: data.nom,
+        slug,
+        code: data.code,
+        ...this.toJson(data.communes, data),
+        population: data.population ?? null,
+        superficie: data.superficie ?? null,
+        actif: data.actif
+      }
+    });
+
+    this.clearCache();
+    console.log('🌍 Région créée:', { slug, communes: data.communes.length });
+
+    return this.toNoeud(region);
+  }
+
+  /**
+   * Modification ou désactivation d'une région. La liste des communes est
+   * remplacée en entier : une commune renommée (ancienNom) emporte ses
+   * annonces, une commune encore utilisée ne peut pas être retirée
+   */
+  static async updateRegion(id: string, data: RegionUpdateData): Promise<RegionNoeud> {
+    const region = await prisma.regionCI.findUnique({ where: { id } });
+
+    if (!region) {
+      throw new NotFoundError('Région');
+    }
+
+    if (data.nom !== undefined && data.nom !== region.nom) {
+      await this.assertNomDisponible(data.nom, id);
+    }
+
+    if (data.code !== undefined && data.code !== region.code) {
+      await this.assertCodeDisponible(data.code, id);
+    }
+
+    const actuelle = this.toNoeud(region);
+    const renommages: { ancienNom: string; nom: string }[] = [];
+
+    if (data.communes) {
+      const existantes = new Set(actuelle.communes.map(commune => commune.nom));
+
+      for (const commune of data.communes) {
+        if (!commune.ancienNom || commune.ancienNom === commune.nom) continue;
+
+        if (!existantes.has(commune.ancienNom)) {
+          throw new ValidationError(`Commune inconnue dans cette région : ${commune.ancienNom}`);
+        }
+        renommages.push({ ancienNom: commune.ancienNom, nom: commune.nom });
+      }
+
+      const conservees = new Set(data.communes.map(commune => commune.ancienNom || commune.nom));
+      const retirees = [...existantes].filter(nom => !conservees.has(nom));
+
+      if (retirees.length > 0) {
+        const utilisees = await prisma.annonce.groupBy({
+          by: ['commune'],
+          where: {
+            region: region.slug,
+            commune: { in: retirees },
+            statut: { not: StatutAnnonce.SUPPRIMEE }
+          },
+          _count: true
+        });
+
+        if (utilisees.length > 0) {
+          throw new ValidationError(
+            `Communes encore utilisées par des annonces : ${utilisees.map(row => row.commune).join(', ')}. Renommez-les (ancienNom) plutôt que de les retirer`,
+            { communes: utilisees.map(row => ({ nom: row.commune, annonces: row._count })) }
+          );
+        }
+      }
+    }
+
+    // Centre de la région : conservé sauf s'il est modifié
+    const position = data.latitude !== undefined
+      ? { latitude: data.latitude ?? undefined, longitude: data.longitude ?? undefined }
+      : { latitude: actuelle.latitude, longitude: actuelle.longitude };
+
+    await prisma.$transaction(async (tx) => {
+      await tx.regionCI.update({
+        where: { id },
+        data: {
+          ...(data.nom !== undefined && { nom: data.nom }),
+          ...(data.code !== undefined && { code: data.code }),
+          ...(data.population !== undefined && { population: data.population }),
+          ...(data.superficie !== undefined && { superficie: data.superficie }),
+          ...(data.actif !== undefined && { actif: data.actif }),
+          ...((data.communes !== undefined || data.latitude !== undefined) &&
+            this.toJson(data.communes ?? actuelle.communes, position))
+        }
+      });
+
+      for (const renommage of renommages) {
+        const { count } = await tx.annonce.updateMany({
+          where: { region: region.slug, commune: renommage.ancienNom },
+          data: { commune: renommage.nom }
+        });
+
+        if (count > 0) {
+          console.log(`🌍 ${count} annonce(s) déplacée(s):`, { region: region.slug, ...renommage });
+        }
+      }
+    });
+
+    this.clearCache();
+
+    // Annonces déplacées vers la commune renommée
+    if (renommages.length > 0) {
+      await CacheService.invalidateRegion(region.slug);
+    }
+
+    const regions = await this.getArbre({ inclureInactives: true });
+    return regions.find(item => item.id === id)!;
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async loadRegions(): Promise<RegionNoeud[]> {
+    if (cache && cache.expiresAt > Date.now()) {
+      return cache.regions;
+    }
+
+    const rows = await prisma.regionCI.findMany({
+      orderBy: { nom: 'asc' }
+    });
+
+    if (rows.length === 0) {
+      console.warn('⚠️ Table regions_ci vide : aucune région disponible (lancer le seed)');
+    }
+
+    const regions = rows.map(row => this.toNoeud(row));
+
+    cache = { regions, expiresAt: Date.now() + REGION_CONFIG.CACHE_TTL_MS };
+
+    return regions;
+  }
+
+  private static toNoeud(row: RegionRow): RegionNoeud {
+    const coordonnees = (row.coordonnees || {}) as CoordonneesJson;
+    const quartiers = (row.quartiers || {}) as QuartiersJson;
+    const communes = Array.isArray(row.communes) ? (row.communes as string[]) : [];
+
+    return {
+      id: row.id,
+      nom: row.nom,
+      slug: row.slug,
+      code: row.code,
+      ...this.toPosition(coordonnees),
+      ...(row.population !== null && { population: row.population }),
+      ...(row.superficie !== null && { superficie: row.superficie }),
+      actif: row.actif,
+      communes: communes.map(nom => ({
+        nom,
+        ...this.toPosition(coordonnees.communes?.[nom]),
+        quartiers: Object.entries(quartiers[nom] || {}).map(([nomQuartier, point]) => ({
+          nom: nomQuartier,
+          ...this.toPosition(point)
+        }))
+      }))
+    };
+  }
+
+  // Colonnes JSON de RegionCI depuis l'arbre des communes
+  private static toJson(
+    communes: CommuneData[],
+    centre: { latitude?: number | undefined; longitude?: number | undefined }
+  ): { communes: string[]; coordonnees: Prisma.InputJsonObject; quartiers: Prisma.InputJsonObject } {
+    const point = (lieu: { latitude?: number | undefined; longitude?: number | undefined }): PositionJson =>
+      lieu.latitude !== undefined && lieu.longitude !== undefined ? { lat: lieu.latitude, lng: lieu.longitude } : {};
+
+    return {
+      communes: communes.map(commune => commune.nom),
+      coordonnees: {
+        ...point(centre),
+        communes: Object.fromEntries(communes.map(commune => [commune.nom, point(commune)]))
+      },
+      quartiers: Object.fromEntries(communes.map(commune => [
+        commune.nom,
+        Object.fromEntries(commune.quartiers.map(quartier => [quartier.nom, point(quartier)]))
+      ]))
+    };
+  }
+
+  private static toPosition(point: PositionJson | undefined): { latitude?: number; longitude?: number } {
+    return typeof point?.lat === 'number' && typeof point.lng === 'number'
+      ? { latitude: point.lat, longitude: point.lng }
+      : {};
+  }
+
+  private static async assertNomDisponible(nom: string, excludeId?: string): Promise<void> {
+    const existante = await prisma.regionCI.findFirst({
+      where: {
+        nom: { equals: nom, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } })
+      },
+      select: { id: true }
+    });
+
+    if (existante) {
+      throw new DuplicateError('Une région de ce nom');
+    }
+  }
+
+  private static async assertCodeDisponible(code: string, excludeId?: string): Promise<void> {
+    const existante = await prisma.regionCI.findFirst({
+      where: {
+        code,
+        ...(excludeId && { id: { not: excludeId } })
+      },
+      select: { id: true }
+    });
+
+    if (existante) {
+      throw new DuplicateError('Ce code de région');
+    }
+  }
+
+  private static async assertSlugDisponible(slug: string): Promise<string> {
+    const existante = await prisma.regionCI.findUnique({ where: { slug }, select: { id: true } });
+    if (existante) {
+      throw new DuplicateError('Ce slug');
+    }
+    return slug;
+  }
+
+  private static async uniqueSlug(base: string): Promise<string> {
+    let slug = base;
+    let suffixe = 2;
+
+    while (await prisma.regionCI.findUnique({ where: { slug }, select: { id: true } })) {
+      slug = `${base}-${suffixe++}`;
+    }
+
+    return slug;
+  }
+}
+
+export default RegionService;
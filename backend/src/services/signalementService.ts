@@ -0,0 +1,421 @@
+// backend/src/services/signalementService.ts
+// SERVICE SIGNALEMENTS ET FILE DE MODÉRATION
+
+import { PrismaClient } from '@prisma/client';
+import { StatutAnnonce, StatutSignalement } from '../../../shared/src/types';
+import type { MotifSignalement, Signalement } from '../../../shared/src/types';
+import {
+  AuthorizationError,
+  DuplicateError,
+  NotFoundError,
+  ValidationError
+} from '../middleware/errorMiddleware';
+import CacheService from './cacheService';
+import { UploadService } from './uploadService';
+import { PUBLIC_USER_SELECT, toPublicUser } from '../utils/publicUser';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface CreateSignalementData {
+  motif: MotifSignalement;
+  description?: string | undefined;
+  preuves: Buffer[];
+}
+
+interface DecisionData {
+  statut: StatutSignalement.TRAITE | StatutSignalement.REJETE;
+  suspendreAnnonce: boolean;
+  commentaire?: string | undefined;
+}
+
+interface QueueOptions {
+  statut: StatutSignalement;
+  motif?: MotifSignalement | undefined;
+  page: number;
+  limit: number;
+}
+
+interface QueueResult {
+  signalements: Signalement[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+const SIGNALEMENT_INCLUDE = {
+  annonce: { select: { id: true, titre: true, statut: true, userId: true } },
+  user: { select: PUBLIC_USER_SELECT }
+} as const;
+
+const STATUTS_OUVERTS = [StatutSignalement.EN_ATTENTE, StatutSignalement.EN_COURS];
+
+// Nombre de signaleurs distincts au-delà duquel l'annonce est masquée
+const SEUIL_MASQUAGE = parseInt(process.env['SIGNALEMENT_SEUIL_MASQUAGE'] || '3');
+
+// ==============================================
+// CLASSE SIGNALEMENTSERVICE
+// ==============================================
+
+export class SignalementService {
+
+  // ==============================================
+  // SIGNALEMENT D'UNE ANNONCE
+  // ==============================================
+
+  static async createSignalement(
+    userId: string,
+    annonceId: string,
+    data: CreateSignalementData
+  ): Promise<Signalement> {
+    try {
+      const annonce = await prisma.annonce.findUnique({
+        where: { id: annonceId },
+        select: { id: true, userId: true, statut: true }
+      });
+
+      if (!annonce || annonce.statut === StatutAnnonce.SUPPRIMEE) {
+        throw new NotFoundError('Annonce');
+      }
+
+      if (annonce.userId === userId) {
+        throw new ValidationError('Vous ne pouvez pas signaler votre propre annonce');
+      }
+
+      // Un seul signalement ouvert par utilisateur et par annonce
+      const existing = await prisma.signalement.count({
+        where: { annonceId, userId, statut: { in: STATUTS_OUVERTS } }
+      });
+
+      if (existing > 0) {
+        throw new DuplicateError('Un signalement en cours pour cette annonce');
+      }
+
+      const preuves = await this.uploadPreuves(data.preuves);
+
+      const signalement = await prisma.signalement.create({
+        data: {
+          annonceId,
+          userId,
+          motif: data.motif,
+          description: data.description?.trim() || null,
+          preuves
+        },
+        include: SIGNALEMENT_INCLUDE
+      });
+
+      await this.logActivity('SIGNALEMENT_CREATED', signalement.id, userId, {
+        annonceId,
+        motif: data.motif,
+        preuves: preuves.length
+      });
+
+      await this.applyAutoHide(annonceId, annonce.statut);
+
+      return this.formatSignalement(signalement);
+
+    } catch (error) {
+      console.error('Erreur création signalement:', error);
+      throw error instanceof Error ? error : new Error('Erreur lors du signalement');
+    }
+  }
+
+  // ==============================================
+  // FILE DE MODÉRATION
+  // ==============================================
+
+  /**
+   * Signalements d'un statut donné, les plus anciens en premier
+   */
+  static async getQueue(options: QueueOptions): Promise<QueueResult> {
+    try {
+      const { statut, motif, page, limit } = options;
+
+      const where = {
+        statut,
+        ...(motif && { motif })
+      };
+
+      const [signalements, total] = await Promise.all([
+        prisma.signalement.findMany({
+          where,
+          orderBy: { createdAt: 'asc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          include: SIGNALEMENT_INCLUDE
+        }),
+        prisma.signalement.count({ where })
+      ]);
+
+      return {
+        signalements: signalements.map(signalement => this.formatSignalement(signalement)),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit)
+      };
+
+    } catch (error) {
+      console.error('Erreur file de modération:', error);
+      throw new Error('Erreur lors de la récupération des signalements');
+    }
+  }
+
+  // ==============================================
+  // PRISE EN CHARGE (EN_ATTENTE → EN_COURS)
+  // ==============================================
+
+  static async prendreEnCharge(signalementId: string, moderateurId: string): Promise<Signalement> {
+    try {
+      // Mise à jour conditionnelle : un seul modérateur par signalement
+      const result = await prisma.signalement.updateMany({
+        where: { id: signalementId, statut: StatutSignalement.EN_ATTENTE },
+        data: {
+          statut: StatutSignalement.EN_COURS,
+          traitePar: moderateurId
+        }
+      });
+
+      if (result.count === 0) {
+        await this.assertExists(signalementId);
+        throw new ValidationError('Ce signalement n\'est plus en attente');
+      }
+
+      const signalement = await prisma.signalement.findUniqueOrThrow({
+        where: { id: signalementId },
+        include: SIGNALEMENT_INCLUDE
+      });
+
+      await this.logActivity('SIGNALEMENT_EN_COURS', signalementId, moderateurId);
+
+      return this.formatSignalement(signalement);
+
+    } catch (error) {
+      console.error('Erreur prise en charge signalement:', error);
+      throw error instanceof Error ? error : new Error('Erreur lors de la prise en charge');
+    }
+  }
+
+  // ==============================================
+  // DÉCISION (EN_COURS → TRAITE / REJETE)
+  // ==============================================
+
+  /**
+   * Clôt le signalement. Une suspension clôt aussi les autres signalements
+   * ouverts de l'annonce ; sinon une annonce masquée redevient active
+   * dès qu'il ne reste plus de signalement ouvert.
+   */
+  static async resoudre(
+    signalementId: string,
+    moderateurId: string,
+    decision: DecisionData
+  ): Promise<Signalement> {
+    try {
+      const signalement = await prisma.signalement.findUnique({
+        where: { id: signalementId },
+        select: {
+          id: true,
+          statut: true,
+          traitePar: true,
+          annonceId: true,
+          annonce: { select: { statut: true, categorie: true, region: true } }
+        }
+      });
+
+      if (!signalement) {
+        throw new NotFoundError('Signalement');
+      }
+
+      if (signalement.statut !== StatutSignalement.EN_COURS) {
+        throw new ValidationError('Le signalement doit être pris en charge avant d\'être traité');
+      }
+
+      if (signalement.traitePar && signalement.traitePar !== moderateurId) {
+        throw new AuthorizationError('Ce signalement est pris en charge par un autre modérateur');
+      }
+
+      if (decision.suspendreAnnonce && decision.statut !== StatutSignalement.TRAITE) {
+        throw new ValidationError('Un signalement rejeté ne peut pas entraîner de suspension');
+      }
+
+      const traiteAt = new Date();
+
+      await prisma.$transaction(async (tx) => {
+        await tx.signalement.update({
+          where: { id: signalementId },
+          data: {
+            statut: decision.statut,
+            traitePar: moderateurId,
+            traiteAt
+          }
+        });
+
+        if (decision.suspendreAnnonce) {
+          await tx.annonce.update({
+            where: { id: signalement.annonceId },
+            data: { statut: StatutAnnonce.SUSPENDUE }
+          });
+
+          await tx.signalement.updateMany({
+            where: {
+              annonceId: signalement.annonceId,
+              statut: { in: STATUTS_OUVERTS }
+            },
+            data: {
+              statut: StatutSignalement.TRAITE,
+              traitePar: moderateurId,
+              traiteAt
+            }
+          });
+          return;
+        }
+
+        if (signalement.annonce.statut === StatutAnnonce.EN_MODERATION) {
+          const ouverts = await tx.signalement.count({
+            where: {
+              annonceId: signalement.annonceId,
+              statut: { in: STATUTS_OUVERTS }
+            }
+          });
+
+          if (ouverts === 0) {
+            await tx.annonce.update({
+              where: { id: signalement.annonceId },
+              data: { statut: StatutAnnonce.ACTIVE }
+            });
+          }
+        }
+      });
+
+      // Annonce suspendue ou réactivée : recherches en cache
+      if (decision.suspendreAnnonce || signalement.annonce.statut === StatutAnnonce.EN_MODERATION) {
+        await CacheService.invalidateAnnonces([signalement.annonce]);
+      }
+
+      await this.logActivity('SIGNALEMENT_RESOLU', signalementId, moderateurId, {
+        annonceId: signalement.annonceId,
+        statut: decision.statut,
+        suspendreAnnonce: decision.suspendreAnnonce,
+        commentaire: decision.commentaire
+      });
+
+      const updated = await prisma.signalement.findUniqueOrThrow({
+        where: { id: signalementId },
+        include: SIGNALEMENT_INCLUDE
+      });
+
+      return this.formatSignalement(updated);
+
+    } catch (error) {
+      console.error('Erreur résolution signalement:', error);
+      throw error instanceof Error ? error : new Error('Erreur lors du traitement du signalement');
+    }
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  /**
+   * Masque une annonce active dès que le seuil de signaleurs distincts est atteint
+   */
+  private static async applyAutoHide(annonceId: string, statut: string): Promise<void> {
+    if (statut !== StatutAnnonce.ACTIVE) return;
+
+    const signaleurs = await prisma.signalement.findMany({
+      where: { annonceId, statut: { in: STATUTS_OUVERTS } },
+      distinct: ['userId'],
+      select: { userId: true }
+    });
+
+    if (signaleurs.length < SEUIL_MASQUAGE) return;
+
+    // Conditionnel pour ne pas écraser un changement de statut concurrent
+    const result = await prisma.annonce.updateMany({
+      where: { id: annonceId, statut: StatutAnnonce.ACTIVE },
+      data: { statut: StatutAnnonce.EN_MODERATION }
+    });
+
+    if (result.count > 0) {
+      const annonce = await prisma.annonce.findUniqueOrThrow({
+        where: { id: annonceId },
+        select: { categorie: true, region: true }
+      });
+      await CacheService.invalidateAnnonces([annonce]);
+
+      console.log(`🚩 Annonce ${annonceId} masquée après ${signaleurs.length} signalements`);
+    }
+  }
+
+  private static async uploadPreuves(files: Buffer[]): Promise<string[]> {
+    if (files.length === 0) return [];
+
+    const result = await UploadService.uploadMultipleImages(files, {
+      folder: `${process.env['CLOUDINARY_FOLDER'] || 'petites-annonces-ci'}/signalements`,
+      maxWidth: 1600,
+      maxHeight: 1600
+    });
+
+    if (result.summary.failed > 0) {
+      throw new ValidationError(`${result.summary.failed} preuve(s) n'ont pas pu être envoyées`);
+    }
+
+    return result.success.map(upload => upload.secureUrl);
+  }
+
+  private static async assertExists(signalementId: string): Promise<void> {
+    const count = await prisma.signalement.count({ where: { id: signalementId } });
+    if (count === 0) {
+      throw new NotFoundError('Signalement');
+    }
+  }
+
+  private static parseJsonArray(value: unknown): string[] {
+    if (Array.isArray(value)) return value as string[];
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  }
+
+  private static formatSignalement(signalement: any): Signalement {
+    return {
+      id: signalement.id,
+      annonceId: signalement.annonceId,
+      userId: signalement.userId,
+      motif: signalement.motif as MotifSignalement,
+      ...(signalement.description && { description: signalement.description }),
+      preuves: this.parseJsonArray(signalement.preuves),
+      statut: signalement.statut as StatutSignalement,
+      createdAt: signalement.createdAt,
+      ...(signalement.traitePar && { traitePar: signalement.traitePar }),
+      ...(signalement.traiteAt && { traiteAt: signalement.traiteAt }),
+      ...(signalement.annonce && { annonce: signalement.annonce }),
+      ...(signalement.user && { user: toPublicUser(signalement.user) })
+    };
+  }
+
+  private static async logActivity(action: string, signalementId: string, userId: string, details?: any): Promise<void> {
+    try {
+      await prisma.logActivite.create({
+        data: {
+          userId,
+          action,
+          entite: 'Signalement',
+          entiteId: signalementId,
+          details: details || {}
+        }
+      });
+    } catch (error) {
+      console.error('Erreur log activité:', error);
+    }
+  }
+}
+
+export default SignalementService;
@@ -0,0 +1,731 @@
+// backend/src/services/statistiqueService.ts
+// SERVICE STATISTIQUES VENDEUR : AFFICHAGES EN RECHERCHE, CLICS CONTACT, SÉRIES TEMPORELLES
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { StatutAnnonce } from '../../../shared/src/types';
+import type {
+  CanalContact,
+  ComparaisonCategorie,
+  GranulariteStatistiques,
+  IndicateursAnnonce,
+  PeriodeStatistiques,
+  PointStatistiques,
+  SourceVisite,
+  SourcesTrafic,
+  StatistiquesAnnonce,
+  StatistiquesVendeur,
+  TotauxStatistiques
+} from '../../../shared/src/types';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errorMiddleware';
+import { detectBot } from '../middleware/loggingMiddleware';
+import CacheService from './cacheService';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+export interface PeriodeDemandee {
+  debut?: Date | undefined;
+  fin?: Date | undefined;
+  granularite: GranulariteStatistiques;
+}
+
+// Informations de la requête d'un clic contact
+export interface ContexteContact {
+  userId?: string | undefined;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+// Jours UTC : [debut, finExclue[
+interface Periode {
+  debut: Date;
+  finExclue: Date;
+  granularite: GranulariteStatistiques;
+}
+
+interface CompteursJour {
+  affichages: number;
+  sommePositions: number;
+  clicsTelephone: number;
+  clicsWhatsapp: number;
+  clicsEmail: number;
+}
+
+type ColonneClic = 'clicsTelephone' | 'clicsWhatsapp' | 'clicsEmail';
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const STATISTIQUE_CONFIG = {
+  PERIODE_DEFAUT_JOURS: 30,
+  // Nombre de jours maximum selon la granularité (nombre de points de la série)
+  MAX_JOURS: { jour: 366, semaine: 2 * 366, mois: 2 * 366 } as Record<GranulariteStatistiques, number>,
+  INTERVALLE_ENVOI_MS: 30 * 1000,
+  TAILLE_LOT: 500, // Lignes par requête d'enregistrement
+  MAX_ECHECS: 3,
+  FENETRE_CLIC_MS: 30 * 60 * 1000, // Un clic par visiteur, annonce et canal toutes les 30 minutes
+  MAX_VISITEURS_RECENTS: 50000,
+  TTL_MEDIANES_S: 60 * 60,
+  MAX_SITES: 10
+};
+
+const JOUR_MS = 24 * 60 * 60 * 1000;
+
+const UNITES_SQL: Record<GranulariteStatistiques, string> = {
+  jour: 'day',
+  semaine: 'week', // Semaines commençant le lundi
+  mois: 'month'
+};
+
+const COLONNES_CLIC: Record<CanalContact, ColonneClic> = {
+  telephone: 'clicsTelephone',
+  whatsapp: 'clicsWhatsapp',
+  email: 'clicsEmail'
+};
+
+// Classement des domaines référents (www. retiré)
+const SOURCES_EXTERNES: Array<{ source: SourceVisite; domaines: RegExp }> = [
+  { source: 'moteur_recherche', domaines: /(^|\.)(google|bing|yahoo|duckduckgo|qwant|ecosia)\.[a-z.]+$/ },
+  { source: 'reseau_social', domaines: /(^|\.)(facebook\.com|fb\.com|fb\.me|instagram\.com|twitter\.com|x\.com|t\.co|tiktok\.com|linkedin\.com|youtube\.com|snapchat\.com)$/ },
+  { source: 'messagerie', domaines: /(^|\.)(whatsapp\.com|wa\.me|telegram\.org|t\.me|messenger\.com)$/ }
+];
+
+// Compteurs du jour en attente d'enregistrement : clé "annonceId|AAAA-MM-JJ"
+let enAttente = new Map<string, CompteursJour>();
+let envoiEnCours: Promise<number> | null = null;
+let echecs = 0;
+let timer: NodeJS.Timeout | null = null;
+
+// Dernier clic compté par annonce, canal et visiteur : clé → fin de la fenêtre
+const clicsRecents = new Map<string, number>();
+
+// ==============================================
+// CLASSE STATISTIQUESERVICE
+// ==============================================
+
+export class StatistiqueService {
+
+  // ==============================================
+  // ENREGISTREMENT DES ÉVÉNEMENTS
+  // ==============================================
+
+  /**
+   * Annonces affichées dans une page de résultats de recherche, dans
+   * l'ordre, la première à positionDepart. Compteurs agrégés en mémoire
+   * puis enregistrés par lots (bots ignorés)
+   */
+  static recordImpressions(annonceIds: string[], positionDepart: number, userAgent: string | undefined): void {
+    if (annonceIds.length === 0 || !userAgent || detectBot(userAgent)) return;
+
+    const jour = this.formatJour(new Date());
+
+    annonceIds.forEach((annonceId, index) => {
+      const compteurs = this.getCompteurs(annonceId, jour);
+      compteurs.affichages++;
+      compteurs.sommePositions += positionDepart + index;
+    });
+
+    this.startTimer();
+  }
+
+  /**
+   * Coordonnées affichées (téléphone, WhatsApp, email), voir ContactService.
+   * Ignoré pour le propriétaire, les bots et les affichages répétés du
+   * même visiteur. Retourne true si le clic est compté
+   */
+  static recordContactClick(annonce: { id: string; userId: string }, canal: CanalContact, contexte: ContexteContact): boolean {
+    if (contexte.userId && contexte.userId === annonce.userId) return false;
+    if (!contexte.userAgent || detectBot(contexte.userAgent)) return false;
+
+    const cle = `${annonce.id}|${canal}|${contexte.userId || contexte.ip || ''}`;
+    const now = Date.now();
+
+    if ((clicsRecents.get(cle) || 0) > now) return false;
+
+    if (clicsRecents.size >= STATISTIQUE_CONFIG.MAX_VISITEURS_RECENTS) {
+      const oldest = clicsRecents.keys().next().value;
+      if (oldest !== undefined) clicsRecents.delete(oldest);
+    }
+    clicsRecents.delete(cle);
+    clicsRecents.set(cle, now + STATISTIQUE_CONFIG.FENETRE_CLIC_MS);
+
+    this.getCompteurs(annonce.id, this.formatJour(new Date(now)))[COLONNES_CLIC[canal]]++;
+    this.startTimer();
+
+    return true;
+  }
+
+  /**
+   * Ajoute les compteurs en attente à ceux du jour en base. En cas d'échec,
+   * ils sont remis en attente (abandonnés après plusieurs échecs successifs)
+   */
+  static async flush(): Promise<number> {
+    if (envoiEnCours) return envoiEnCours;
+    if (enAttente.size === 0) return 0;
+
+    const lot = enAttente;
+    enAttente = new Map();
+
+    envoiEnCours = this.persist(lot)
+      .then(count => {
+        echecs = 0;
+        return count;
+      })
+      .catch(error => {
+        console.error('❌ Erreur enregistrement des statistiques:', error);
+
+        if (++echecs < STATISTIQUE_CONFIG.MAX_ECHECS) {
+          for (const [cle, compteurs] of lot) {
+            const [annonceId, jour] = cle.split('|') as [string, string];
+            this.addCompteurs(this.getCompteurs(annonceId, jour), compteurs);
+          }
+        } else {
+          console.warn(`⚠️ Statistiques de ${lot.size} annonce(s) abandonnées après ${echecs} échecs`);
+          echecs = 0;
+        }
+        return 0;
+      })
+      .finally(() => {
+        envoiEnCours = null;
+      });
+
+    return envoiEnCours;
+  }
+
+  // ==============================================
+  // STATISTIQUES D'UNE ANNONCE
+  // ==============================================
+
+  /**
+   * Série temporelle, totaux, sources de trafic et comparaison avec les
+   * annonces de la même catégorie, pour le propriétaire de l'annonce
+   */
+  static async getStatistiquesAnnonce(annonceId: string, userId: string, demande: PeriodeDemandee): Promise<StatistiquesAnnonce> {
+    const annonce = await prisma.annonce.findUnique({
+      where: { id: annonceId },
+      select: { id: true, userId: true, categorie: true, statut: true }
+    });
+
+    if (!annonce || annonce.statut === StatutAnnonce.SUPPRIMEE) {
+      throw new NotFoundError('Annonce');
+    }
+
+    if (annonce.userId !== userId) {
+      throw new AuthorizationError('Vous ne pouvez consulter que les statistiques de vos propres annonces');
+    }
+
+    const periode = this.normalizePeriode(demande);
+    const ids = [annonce.id];
+
+    const [indicateurs, serie, trafic, medianes] = await Promise.all([
+      this.getIndicateursParAnnonce(ids, userId, periode),
+      this.getSerie(ids, userId, periode),
+      this.getSourcesTrafic(ids, periode),
+      this.getMedianesCategorie(annonce.categorie, periode)
+    ]);
+
+    return {
+      annonceId: annonce.id,
+      periode: this.formatPeriode(periode),
+      totaux: this.sumTotaux([...indicateurs.values()]),
+      serie,
+      ...trafic,
+      comparaisonCategorie: medianes
+    };
+  }
+
+  // ==============================================
+  // STATISTIQUES DU COMPTE VENDEUR
+  // ==============================================
+
+  /**
+   * Toutes les annonces du vendeur cumulées, avec le détail par annonce
+   * (les plus vues d'abord)
+   */
+  static async getStatistiquesVendeur(userId: string, demande: PeriodeDemandee): Promise<StatistiquesVendeur> {
+    const periode = this.normalizePeriode(demande);
+
+    const annonces = await prisma.annonce.findMany({
+      where: { userId },
+      select: { id: true, titre: true, categorie: true, statut: true }
+    });
+    const ids = annonces.map(annonce => annonce.id);
+
+    const [indicateurs, serie, trafic] = await Promise.all([
+      this.getIndicateursParAnnonce(ids, userId, periode),
+      this.getSerie(ids, userId, periode),
+      this.getSourcesTrafic(ids, periode)
+    ]);
+
+    const detail = annonces
+      .map(annonce => {
+        const { clicsParCanal, tauxContact, ...totaux } = indicateurs.get(annonce.id) || this.emptyTotaux();
+        return {
+          id: annonce.id,
+          titre: annonce.titre,
+          categorie: annonce.categorie,
+          statut: annonce.statut as StatutAnnonce,
+          ...totaux
+        };
+      })
+      // Annonces supprimées : seulement si elles ont eu de l'activité sur la période
+      .filter(annonce => annonce.statut !== StatutAnnonce.SUPPRIMEE || annonce.vues > 0 || annonce.affichages > 0)
+      .sort((a, b) => b.vues - a.vues);
+
+    return {
+      periode: this.formatPeriode(periode),
+      totaux: this.sumTotaux([...indicateurs.values()]),
+      serie,
+      ...trafic,
+      annonces: detail
+    };
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async getIndicateursParAnnonce(ids: string[], ownerId: string, periode: Periode): Promise<Map<string, TotauxStatistiques>> {
+    const indicateurs = new Map<string, TotauxStatistiques>();
+    if (ids.length === 0) return indicateurs;
+
+    const dates = { gte: periode.debut, lt: periode.finExclue };
+
+    const [vues, favoris, messages, compteurs] = await Promise.all([
+      prisma.vueAnnonce.groupBy({
+        by: ['annonceId'],
+        where: { annonceId: { in: ids }, createdAt: dates },
+        _count: { _all: true }
+      }),
+      prisma.favori.groupBy({
+        by: ['annonceId'],
+        where: { annonceId: { in: ids }, createdAt: dates },
+        _count: { _all: true }
+      }),
+      prisma.message.groupBy({
+        by: ['annonceId'],
+        where: { annonceId: { in: ids }, receiverId: ownerId, dateEnvoi: dates },
+        _count: { _all: true }
+      }),
+      prisma.statistiqueAnnonceJour.groupBy({
+        by: ['annonceId'],
+        where: { annonceId: { in: ids }, jour: dates },
+        _sum: { affichages: true, sommePositions: true, clicsTelephone: true, clicsWhatsapp: true, clicsEmail: true }
+      })
+    ]);
+
+    const get = (annonceId: string): TotauxStatistiques => {
+      let totaux = indicateurs.get(annonceId);
+      if (!totaux) {
+        totaux = this.emptyTotaux();
+        indicateurs.set(annonceId, totaux);
+      }
+      return totaux;
+    };
+
+    for (const row of vues) get(row.annonceId).vues = row._count._all;
+    for (const row of favoris) get(row.annonceId).favoris = row._count._all;
+    for (const row of messages) get(row.annonceId).messages = row._count._all;
+
+    for (const row of compteurs) {
+      const totaux = get(row.annonceId);
+      totaux.affichages = row._sum.affichages || 0;
+      totaux.clicsParCanal = {
+        telephone: row._sum.clicsTelephone || 0,
+        whatsapp: row._sum.clicsWhatsapp || 0,
+        email: row._sum.clicsEmail || 0
+      };
+      totaux.clicsContact = totaux.clicsParCanal.telephone + totaux.clicsParCanal.whatsapp + totaux.clicsParCanal.email;
+      totaux.positionMoyenne = this.positionMoyenne(row._sum.sommePositions || 0, totaux.affichages);
+    }
+
+    for (const totaux of indicateurs.values()) {
+      totaux.tauxContact = this.tauxContact(totaux);
+    }
+
+    return indicateurs;
+  }
+
+  // Un point par période, y compris sans activité
+  private static async getSerie(ids: string[], ownerId: string, periode: Periode): Promise<PointStatistiques[]> {
+    const points = new Map<string, PointStatistiques>();
+
+    for (let date = this.truncate(periode.debut, periode.granularite); date < periode.finExclue; date = this.next(date, periode.granularite)) {
+      const cle = this.formatJour(date);
+      points.set(cle, { date: cle, vues: 0, favoris: 0, messages: 0, clicsContact: 0, affichages: 0, positionMoyenne: null });
+    }
+
+    if (ids.length > 0) {
+      const unite = UNITES_SQL[periode.granularite];
+      const annonces = Prisma.join(ids);
+      const { debut, finExclue } = periode;
+
+      const [vues, favoris, messages, compteurs] = await Promise.all([
+        prisma.$queryRaw<{ periode: Date; total: number }[]>`
+          SELECT date_trunc(${unite}, v."createdAt") AS periode, COUNT(*)::int AS total
+          FROM "vues_annonces" v
+          WHERE v."annonceId" IN (${annonces})
+            AND v."createdAt" >= ${debut} AND v."createdAt" < ${finExclue}
+          GROUP BY 1
+        `,
+        prisma.$queryRaw<{ periode: Date; total: number }[]>`
+          SELECT date_trunc(${unite}, f."createdAt") AS periode, COUNT(*)::int AS total
+          FROM "favoris" f
+          WHERE f."annonceId" IN (${annonces})
+            AND f."createdAt" >= ${debut} AND f."createdAt" < ${finExclue}
+          GROUP BY 1
+        `,
+        prisma.$queryRaw<{ periode: Date; total: number }[]>`
+          SELECT date_trunc(${unite}, m."dateEnvoi") AS periode, COUNT(*)::int AS total
+          FROM "messages" m
+          WHERE m."annonceId" IN (${annonces})
+            AND m."receiverId" = ${ownerId}
+            AND m."dateEnvoi" >= ${debut} AND m."dateEnvoi" < ${finExclue}
+          GROUP BY 1
+        `,
+        prisma.$queryRaw<{ periode: Date; affichages: number; sommePositions: number; clics: number }[]>`
+          SELECT date_trunc(${unite}, s."jour"::timestamp) AS periode,
+            SUM(s."affichages")::int AS affichages,
+            SUM(s."sommePositions")::float8 AS "sommePositions",
+            SUM(s."clicsTelephone" + s."clicsWhatsapp" + s."clicsEmail")::int AS clics
+          FROM "statistiques_annonces_jour" s
+          WHERE s."annonceId" IN (${annonces})
+            AND s."jour" >= ${debut}::date AND s."jour" < ${finExclue}::date
+          GROUP BY 1
+        `
+      ]);
+
+      const point = (date: Date) => points.get(this.formatJour(date));
+
+      for (const row of vues) { const p = point(row.periode); if (p) p.vues = row.total; }
+      for (const row of favoris) { const p = point(row.periode); if (p) p.favoris = row.total; }
+      for (const row of messages) { const p = point(row.periode); if (p) p.messages = row.total; }
+
+      for (const row of compteurs) {
+        const p = point(row.periode);
+        if (!p) continue;
+        p.affichages = row.affichages;
+        p.clicsContact = row.clics;
+        p.positionMoyenne = this.positionMoyenne(row.sommePositions, row.affichages);
+      }
+    }
+
+    return [...points.values()];
+  }
+
+  // Vues par source (referer) et sites externes les plus fréquents
+  private static async getSourcesTrafic(ids: string[], periode: Periode): Promise<SourcesTrafic> {
+    if (ids.length === 0) return { sources: [], sites: [] };
+
+    const rows = await prisma.$queryRaw<{ domaine: string | null; vues: number }[]>`
+      SELECT lower(substring(v."referer" from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/:?#]+)')) AS domaine,
+        COUNT(*)::int AS vues
+      FROM "vues_annonces" v
+      WHERE v."annonceId" IN (${Prisma.join(ids)})
+        AND v."createdAt" >= ${periode.debut} AND v."createdAt" < ${periode.finExclue}
+      GROUP BY 1
+    `;
+
+    const domaineInterne = this.getDomaineInterne();
+    const parSource = new Map<SourceVisite, number>();
+    const sites = new Map<string, number>();
+    let total = 0;
+
+    for (const row of rows) {
+      const domaine = row.domaine?.replace(/^www\./, '') || null;
+      const source = this.classifyDomaine(domaine, domaineInterne);
+
+      parSource.set(source, (parSource.get(source) || 0) + row.vues);
+      if (domaine && source !== 'interne') {
+        sites.set(domaine, (sites.get(domaine) || 0) + row.vues);
+      }
+      total += row.vues;
+    }
+
+    return {
+      sources: [...parSource]
+        .map(([source, vues]) => ({ source, vues, pourcentage: Math.round((vues / total) * 1000) / 10 }))
+        .sort((a, b) => b.vues - a.vues),
+      sites: [...sites]
+        .map(([domaine, vues]) => ({ domaine, vues }))
+        .sort((a, b) => b.vues - a.vues)
+        .slice(0, STATISTIQUE_CONFIG.MAX_SITES)
+    };
+  }
+
+  /**
+   * Médianes des annonces de la catégorie en ligne pendant la période,
+   * en cache une heure (calcul sur toute la catégorie)
+   */
+  private static async getMedianesCategorie(categorie: string, periode: Periode): Promise<ComparaisonCategorie> {
+    const { value } = await CacheService.remember(
+      'medianes-categorie',
+      { categorie, debut: periode.debut, finExclue: periode.finExclue },
+      { ttlSeconds: STATISTIQUE_CONFIG.TTL_MEDIANES_S, tags: [] },
+      async () => {
+        const { debut, finExclue } = periode;
+
+        const [row] = await prisma.$queryRaw<(Omit<IndicateursAnnonce, 'positionMoyenne'> & { annonces: number; positionMoyenne: number | null })[]>`
+          WITH pairs AS (
+            SELECT a."id", a."userId"
+            FROM "annonces" a
+            WHERE a."categorie" = ${categorie}
+              AND a."statut" NOT IN ('BROUILLON', 'SUPPRIMEE')
+              AND a."datePublication" < ${finExclue}
+              AND (a."dateExpiration" IS NULL OR a."dateExpiration" >= ${debut})
+          ),
+          vues AS (
+            SELECT v."annonceId", COUNT(*) AS total
+            FROM "vues_annonces" v JOIN pairs p ON p."id" = v."annonceId"
+            WHERE v."createdAt" >= ${debut} AND v."createdAt" < ${finExclue}
+            GROUP BY 1
+          ),
+          favoris AS (
+            SELECT f."annonceId", COUNT(*) AS total
+            FROM "favoris" f JOIN pairs p ON p."id" = f."annonceId"
+            WHERE f."createdAt" >= ${debut} AND f."createdAt" < ${finExclue}
+            GROUP BY 1
+          ),
+          messages AS (
+            SELECT m."annonceId", COUNT(*) AS total
+            FROM "messages" m JOIN pairs p ON p."id" = m."annonceId" AND m."receiverId" = p."userId"
+            WHERE m."dateEnvoi" >= ${debut} AND m."dateEnvoi" < ${finExclue}
+            GROUP BY 1
+          ),
+          compteurs AS (
+            SELECT s."annonceId",
+              SUM(s."affichages") AS affichages,
+              SUM(s."sommePositions") AS "sommePositions",
+              SUM(s."clicsTelephone" + s."clicsWhatsapp" + s."clicsEmail") AS clics
+            FROM "statistiques_annonces_jour" s JOIN pairs p ON p."id" = s."annonceId"
+            WHERE s."jour" >= ${debut}::date AND s."jour" < ${finExclue}::date
+            GROUP BY 1
+          )
+          SELECT
+            COUNT(*)::int AS annonces,
+            COALESCE(percentile_cont(0.5) WITHIN GROUP (ORDER BY COALESCE(vues."total", 0)), 0) AS vues,
+            COALESCE(percentile_cont(0.5) WITHIN GROUP (ORDER BY COALESCE(favoris."total", 0)), 0) AS favoris,
+            COALESCE(percentile_cont(0.5) WITHIN GROUP (ORDER BY COALESCE(messages."total", 0)), 0) AS messages,
+            COALESCE(percentile_cont(0.5) WITHIN GROUP (ORDER BY COALESCE(c."clics", 0)), 0) AS "clicsContact",
+            COALESCE(percentile_cont(0.5) WITHIN GROUP (ORDER BY COALESCE(c."affichages", 0)), 0) AS affichages,
+            percentile_cont(0.5) WITHIN GROUP (ORDER BY c."sommePositions"::float8 / c."affichages")
+              FILTER (WHERE c."affichages" > 0) AS "positionMoyenne"
+          FROM pairs p
+          LEFT JOIN vues ON vues."annonceId" = p."id"
+          LEFT JOIN favoris ON favoris."annonceId" = p."id"
+          LEFT JOIN messages ON messages."annonceId" = p."id"
+          LEFT JOIN compteurs c ON c."annonceId" = p."id"
+        `;
+
+        const arrondi = (valeur: number) => Math.round(valeur * 10) / 10;
+
+        return {
+          categorie,
+          annoncesComparees: row?.annonces || 0,
+          medianes: {
+            vues: arrondi(row?.vues || 0),
+            favoris: arrondi(row?.favoris || 0),
+            messages: arrondi(row?.messages || 0),
+            clicsContact: arrondi(row?.clicsContact || 0),
+            affichages: arrondi(row?.affichages || 0),
+            positionMoyenne: row?.positionMoyenne != null ? arrondi(row.positionMoyenne) : null
+          }
+        };
+      }
+    );
+
+    return value;
+  }
+
+  private static async persist(lot: Map<string, CompteursJour>): Promise<number> {
+    const lignes = [...lot].map(([cle, compteurs]) => {
+      const [annonceId, jour] = cle.split('|') as [string, string];
+      return Prisma.sql`(
+        ${annonceId}, ${jour}::date, ${compteurs.affichages}::int, ${compteurs.sommePositions}::int,
+        ${compteurs.clicsTelephone}::int, ${compteurs.clicsWhatsapp}::int, ${compteurs.clicsEmail}::int
+      )`;
+    });
+
+    let count = 0;
+
+    for (let i = 0; i < lignes.length; i += STATISTIQUE_CONFIG.TAILLE_LOT) {
+      // Annonces supprimées depuis l'affichage : ignorées
+      count += await prisma.$executeRaw`
+        INSERT INTO "statistiques_annonces_jour" AS s
+          ("annonceId", "jour", "affichages", "sommePositions", "clicsTelephone", "clicsWhatsapp", "clicsEmail")
+        SELECT l.*
+        FROM (VALUES ${Prisma.join(lignes.slice(i, i + STATISTIQUE_CONFIG.TAILLE_LOT))})
+          AS l("annonceId", "jour", "affichages", "sommePositions", "clicsTelephone", "clicsWhatsapp", "clicsEmail")
+        WHERE EXISTS (SELECT 1 FROM "annonces" a WHERE a."id" = l."annonceId")
+        ON CONFLICT ("annonceId", "jour") DO UPDATE SET
+          "affichages" = s."affichages" + EXCLUDED."affichages",
+          "sommePositions" = s."sommePositions" + EXCLUDED."sommePositions",
+          "clicsTelephone" = s."clicsTelephone" + EXCLUDED."clicsTelephone",
+          "clicsWhatsapp" = s."clicsWhatsapp" + EXCLUDED."clicsWhatsapp",
+          "clicsEmail" = s."clicsEmail" + EXCLUDED."clicsEmail"
+      `;
+    }
+
+    this.purgeClicsRecents();
+
+    return count;
+  }
+
+  private static getCompteurs(annonceId: string, jour: string): CompteursJour {
+    const cle = `${annonceId}|${jour}`;
+    let compteurs = enAttente.get(cle);
+
+    if (!compteurs) {
+      compteurs = { affichages: 0, sommePositions: 0, clicsTelephone: 0, clicsWhatsapp: 0, clicsEmail: 0 };
+      enAttente.set(cle, compteurs);
+    }
+
+    return compteurs;
+  }
+
+  private static addCompteurs(cible: CompteursJour, source: CompteursJour): void {
+    cible.affichages += source.affichages;
+    cible.sommePositions += source.sommePositions;
+    cible.clicsTelephone += source.clicsTelephone;
+    cible.clicsWhatsapp += source.clicsWhatsapp;
+    cible.clicsEmail += source.clicsEmail;
+  }
+
+  private static purgeClicsRecents(): void {
+    const now = Date.now();
+    for (const [cle, fin] of clicsRecents) {
+      if (fin <= now) clicsRecents.delete(cle);
+    }
+  }
+
+  private static startTimer(): void {
+    if (timer) return;
+
+    timer = setInterval(() => {
+      this.flush().catch(console.error);
+    }, STATISTIQUE_CONFIG.INTERVALLE_ENVOI_MS);
+    timer.unref();
+  }
+
+  // Jours entiers en UTC, 30 derniers jours par défaut
+  private static normalizePeriode(demande: PeriodeDemandee): Periode {
+    const fin = this.truncate(demande.fin || new Date(), 'jour');
+    const debut = demande.debut
+      ? this.truncate(demande.debut, 'jour')
+      : new Date(fin.getTime() - (STATISTIQUE_CONFIG.PERIODE_DEFAUT_JOURS - 1) * JOUR_MS);
+
+    if (debut > fin) {
+      throw new ValidationError('La date de début doit précéder la date de fin');
+    }
+
+    const jours = Math.round((fin.getTime() - debut.getTime()) / JOUR_MS) + 1;
+    const maxJours = STATISTIQUE_CONFIG.MAX_JOURS[demande.granularite];
+
+    if (jours > maxJours) {
+      throw new ValidationError(`Période limitée à ${maxJours} jours par ${demande.granularite}`, { jours });
+    }
+
+    return { debut, finExclue: new Date(fin.getTime() + JOUR_MS), granularite: demande.granularite };
+  }
+
+  private static formatPeriode(periode: Periode): PeriodeStatistiques {
+    return {
+      debut: this.formatJour(periode.debut),
+      fin: this.formatJour(new Date(periode.finExclue.getTime() - JOUR_MS)),
+      granularite: periode.granularite
+    };
+  }
+
+  // Début de la période contenant la date (comme date_trunc)
+  private static truncate(date: Date, granularite: GranulariteStatistiques): Date {
+    const jour = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+    if (granularite === 'semaine') {
+      return new Date(jour.getTime() - ((jour.getUTCDay() + 6) % 7) * JOUR_MS);
+    }
+
+    if (granularite === 'mois') {
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    }
+
+    return jour;
+  }
+
+  private static next(date: Date, granularite: GranulariteStatistiques): Date {
+    if (granularite === 'mois') {
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+    }
+    return new Date(date.getTime() + (granularite === 'semaine' ? 7 : 1) * JOUR_MS);
+  }
+
+  private static formatJour(date: Date): string {
+    return date.toISOString().substring(0, 10);
+  }
+
+  private static emptyTotaux(): TotauxStatistiques {
+    return {
+      vues: 0,
+      favoris: 0,
+      messages: 0,
+      clicsContact: 0,
+      clicsParCanal: { telephone: 0, whatsapp: 0, email: 0 },
+      affichages: 0,
+      positionMoyenne: null,
+      tauxContact: 0
+    };
+  }
+
+  // Position moyenne pondérée par les affichages de chaque annonce
+  private static sumTotaux(liste: TotauxStatistiques[]): TotauxStatistiques {
+    const totaux = this.emptyTotaux();
+    let sommePositions = 0;
+
+    for (const item of liste) {
+      totaux.vues += item.vues;
+      totaux.favoris += item.favoris;
+      totaux.messages += item.messages;
+      totaux.clicsContact += item.clicsContact;
+      totaux.clicsParCanal.telephone += item.clicsParCanal.telephone;
+      totaux.clicsParCanal.whatsapp += item.clicsParCanal.whatsapp;
+      totaux.clicsParCanal.email += item.clicsParCanal.email;
+      totaux.affichages += item.affichages;
+      sommePositions += (item.positionMoyenne || 0) * item.affichages;
+    }
+
+    totaux.positionMoyenne = this.positionMoyenne(sommePositions, totaux.affichages);
+    totaux.tauxContact = this.tauxContact(totaux);
+
+    return totaux;
+  }
+
+  private static positionMoyenne(sommePositions: number, affichages: number): number | null {
+    return affichages > 0 ? Math.round((sommePositions / affichages) * 10) / 10 : null;
+  }
+
+  // Visiteurs ayant écrit ou cliqué sur un contact, plafonné à 100 %
+  private static tauxContact(totaux: IndicateursAnnonce): number {
+    if (totaux.vues === 0) return 0;
+    return Math.min(100, Math.round(((totaux.messages + totaux.clicsContact) / totaux.vues) * 10000) / 100);
+  }
+
+  private static getDomaineInterne(): string | null {
+    try {
+      return process.env['FRONTEND_URL'] ? new URL(process.env['FRONTEND_URL']).hostname.replace(/^www\./, '') : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static classifyDomaine(domaine: string | null, domaineInterne: string | null): SourceVisite {
+    if (!domaine) return 'direct';
+    if (domaine === domaineInterne) return 'interne';
+
+    return SOURCES_EXTERNES.find(({ domaines }) => domaines.test(domaine))?.source || 'autre';
+  }
+}
+
+export default StatistiqueService;
@@ -0,0 +1,318 @@
+// backend/src/services/suggestionService.ts
+// SERVICE D'AUTOCOMPLÉTION ET DE SUGGESTIONS DE RECHERCHE
+
+import { PrismaClient } from '@prisma/client';
+import { StatutAnnonce } from '../../../shared/src/types';
+import type { Suggestion, SuggestionsRecherche, TypeSuggestion } from '../../../shared/src/types';
+import CategorieService from './categorieService';
+import { normalizeNomLieu } from '../utils/geo';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const SUGGESTION_CONFIG = {
+  CACHE_TTL_MS: 5 * 60 * 1000, // 5 minutes
+  CACHE_MAX_ENTRIES: 1000,
+  LONGUEUR_MIN_MOT: 3,
+  MAX_MOTS_CORRIGES: 5
+};
+
+// Départage à fréquence égale : ce que les autres ont cherché d'abord
+const PRIORITE_TYPES: Record<TypeSuggestion, number> = {
+  requete: 0,
+  sousCategorie: 1,
+  marque: 2,
+  modele: 3,
+  titre: 4,
+  mot: 5
+};
+
+const cache = new Map<string, { value: SuggestionsRecherche; expiresAt: number }>();
+
+// ==============================================
+// CLASSE SUGGESTIONSERVICE
+// ==============================================
+
+export class SuggestionService {
+
+  // ==============================================
+  // SUGGESTIONS
+  // ==============================================
+
+  /**
+   * Complétions de la saisie classées par fréquence. La correction
+   * orthographique n'est calculée que pour une requête soumise (et non à
+   * chaque frappe), quand elle ne trouve aucune annonce
+   */
+  static async getSuggestions(q: string, limite: number, soumise: boolean = false): Promise<SuggestionsRecherche> {
+    const requete = normalizeNomLieu(q);
+    if (!requete) return { q, suggestions: [] };
+
+    const cacheKey = `${requete}|${limite}|${soumise ? 1 : 0}`;
+
+    const cached = cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const mots = requete.split(' ').filter(Boolean);
+    const dernierMot = mots[mots.length - 1] || '';
+    const debut = mots.slice(0, -1).join(' ');
+    const prefixeTsquery = mots.map(mot => `${mot}:*`).join(' & ');
+
+    const [requetes, titres, motsCles, marquesModeles, sousCategories] = await Promise.all([
+      this.getPopularQueries(requete, limite),
+      this.getTitleCompletions(requete, prefixeTsquery, limite),
+      dernierMot.length >= 2 ? this.getWordCompletions(dernierMot, prefixeTsquery, limite) : [],
+      dernierMot.length >= 2 ? this.getBrandCompletions(dernierMot, limite) : [],
+      this.getSubcategoryCompletions(requete)
+    ]);
+
+    // Le mot complété remplace le dernier mot saisi
+    const completer = (suggestion: Suggestion): Suggestion => ({
+      ...suggestion,
+      texte: debut ? `${debut} ${suggestion.texte}` : suggestion.texte
+    });
+
+    const suggestions = this.rank([
+      ...requetes,
+      ...titres,
+      ...motsCles.map(completer),
+      ...marquesModeles.map(completer),
+      ...sousCategories
+    ]).slice(0, limite);
+
+    const correction = soumise ? await this.getCorrection(q, mots) : null;
+
+    const value: SuggestionsRecherche = {
+      q,
+      suggestions,
+      ...(correction && { correction })
+    };
+
+    this.setCache(cacheKey, value);
+
+    return value;
+  }
+
+  /**
+   * Mémorise une requête tapée (première page seulement) pour les suggestions populaires
+   */
+  static async recordQuery(q: string, total: number): Promise<void> {
+    const requete = normalizeNomLieu(q);
+    if (requete.length < 2) return;
+
+    await prisma.requeteRecherche.upsert({
+      where: { requete },
+      create: { requete, dernierTotal: total },
+      update: {
+        compteur: { increment: 1 },
+        dernierTotal: total,
+        derniereRecherche: new Date()
+      }
+    });
+  }
+
+  // ==============================================
+  // SOURCES DE COMPLÉTION
+  // ==============================================
+
+  // Requêtes passées ayant donné des résultats
+  private static async getPopularQueries(requete: string, limite: number): Promise<Suggestion[]> {
+    const rows = await prisma.requeteRecherche.findMany({
+      where: {
+        requete: { startsWith: requete },
+        dernierTotal: { gt: 0 }
+      },
+      orderBy: { compteur: 'desc' },
+      take: limite
+    });
+
+    return rows.map(row => ({ texte: row.requete, type: 'requete' as const, frequence: row.compteur }));
+  }
+
+  // Titres d'annonces actives commençant par la saisie
+  private static async getTitleCompletions(requete: string, prefixeTsquery: string, limite: number): Promise<Suggestion[]> {
+    const rows = await prisma.$queryRaw<{ texte: string; frequence: number }[]>`
+      SELECT a."titre" AS texte, COUNT(*)::int AS frequence
+      FROM "annonces" a
+      WHERE a."statut" = 'ACTIVE'
+        AND a."dateExpiration" > NOW()
+        AND a."searchVector" @@ to_tsquery('french_unaccent', ${prefixeTsquery})
+        AND unaccent(lower(a."titre")) LIKE ${`${requete}%`}
+      GROUP BY a."titre"
+      ORDER BY frequence DESC
+      LIMIT ${limite}
+    `;
+
+    return rows.map(row => ({ texte: row.texte, type: 'titre' as const, frequence: row.frequence }));
+  }
+
+  // Mots des titres et mots-clés, comptés une fois par annonce
+  private static async getWordCompletions(prefixe: string, prefixeTsquery: string, limite: number): Promise<Suggestion[]> {
+    const rows = await prisma.$queryRaw<{ texte: string; frequence: number }[]>`
+      SELECT mots."mot" AS texte, COUNT(*)::int AS frequence
+      FROM (
+        SELECT DISTINCT a."id",
+          regexp_split_to_table(lower(a."titre" || ' ' || COALESCE(a."motsCles", '')), '[^[:alnum:]]+') AS mot
+        FROM "annonces" a
+        WHERE a."statut" = 'ACTIVE'
+          AND a."dateExpiration" > NOW()
+          AND a."searchVector" @@ to_tsquery('french_unaccent', ${prefixeTsquery})
+      ) mots
+      WHERE length(mots."mot") >= ${SUGGESTION_CONFIG.LONGUEUR_MIN_MOT}
+        AND unaccent(mots."mot") LIKE ${`${prefixe}%`}
+      GROUP BY mots."mot"
+      ORDER BY frequence DESC
+      LIMIT ${limite}
+    `;
+
+    return rows.map(row => ({ texte: row.texte, type: 'mot' as const, frequence: row.frequence }));
+  }
+
+  private static async getBrandCompletions(prefixe: string, limite: number): Promise<Suggestion[]> {
+    const where = {
+      statut: StatutAnnonce.ACTIVE,
+      dateExpiration: { gt: new Date() }
+    };
+
+    const [marques, modeles] = await Promise.all([
+      prisma.annonce.groupBy({
+        by: ['marque'],
+        where: { ...where, marque: { startsWith: prefixe, mode: 'insensitive' } },
+        _count: true,
+        orderBy: { _count: { marque: 'desc' } },
+        take: limite
+      }),
+      prisma.annonce.groupBy({
+        by: ['modele'],
+        where: { ...where, modele: { startsWith: prefixe, mode: 'insensitive' } },
+        _count: true,
+        orderBy: { _count: { modele: 'desc' } },
+        take: limite
+      })
+    ]);
+
+    return [
+      ...marques.map(row => ({ texte: row.marque!, type: 'marque' as const, frequence: row._count })),
+      ...modeles.map(row => ({ texte: row.modele!, type: 'modele' as const, frequence: row._count }))
+    ];
+  }
+
+  // Sous-catégories du référentiel, pondérées par leurs annonces actives
+  private static async getSubcategoryCompletions(requete: string): Promise<Suggestion[]> {
+    const noms = (await CategorieService.getArbre())
+      .flatMap(categorie => categorie.sousCategories.map(sousCategorie => sousCategorie.nom))
+      .filter(nom => normalizeNomLieu(nom).startsWith(requete));
+
+    if (noms.length === 0) return [];
+
+    const counts = await prisma.annonce.groupBy({
+      by: ['sousCategorie'],
+      where: {
+        statut: StatutAnnonce.ACTIVE,
+        dateExpiration: { gt: new Date() },
+        sousCategorie: { in: noms }
+      },
+      _count: true
+    });
+
+    const parNom = new Map(counts.map(row => [row.sousCategorie, row._count]));
+
+    return [...new Set(noms)].map(nom => ({
+      texte: nom,
+      type: 'sousCategorie' as const,
+      frequence: parNom.get(nom) || 0
+    }));
+  }
+
+  // ==============================================
+  // CORRECTION ORTHOGRAPHIQUE
+  // ==============================================
+
+  /**
+   * Recalcule le vocabulaire des annonces actives (vue matérialisée
+   * vocabulaire_annonces, index trigrammes). Retourne le nombre de mots
+   */
+  static async refreshVocabulaire(): Promise<number> {
+    await prisma.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY "vocabulaire_annonces"`;
+
+    const [resultat] = await prisma.$queryRaw<{ mots: number }[]>`
+      SELECT COUNT(*)::int AS mots FROM "vocabulaire_annonces"
+    `;
+
+    return resultat?.mots || 0;
+  }
+
+  /**
+   * "Vouliez-vous dire…" : chaque mot inconnu est remplacé par le mot le plus
+   * proche (trigrammes pg_trgm) du vocabulaire des annonces actives
+   */
+  private static async getCorrection(q: string, mots: string[]): Promise<string | null> {
+    const [resultat] = await prisma.$queryRaw<{ existe: boolean }[]>`
+      SELECT EXISTS (
+        SELECT 1 FROM "annonces" a
+        WHERE a."statut" = 'ACTIVE'
+          AND a."dateExpiration" > NOW()
+          AND a."searchVector" @@ websearch_to_tsquery('french_unaccent', ${q})
+      ) AS existe
+    `;
+
+    if (resultat?.existe) return null;
+
+    const corriges = await Promise.all(
+      mots.slice(0, SUGGESTION_CONFIG.MAX_MOTS_CORRIGES).map(async mot => {
+        if (mot.length < SUGGESTION_CONFIG.LONGUEUR_MIN_MOT) return mot;
+
+        const rows = await prisma.$queryRaw<{ mot: string }[]>`
+          SELECT v."mot"
+          FROM "vocabulaire_annonces" v
+          WHERE v."mot" % ${mot}
+          ORDER BY similarity(v."mot", ${mot}) DESC, v."frequence" DESC
+          LIMIT 1
+        `;
+
+        return rows[0]?.mot || mot;
+      })
+    );
+
+    const correction = [...corriges, ...mots.slice(SUGGESTION_CONFIG.MAX_MOTS_CORRIGES)].join(' ');
+
+    return correction !== mots.join(' ') ? correction : null;
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  // Dédoublonnage (même texte normalisé) puis tri par fréquence
+  private static rank(suggestions: Suggestion[]): Suggestion[] {
+    const parTexte = new Map<string, Suggestion>();
+
+    for (const suggestion of suggestions) {
+      const cle = normalizeNomLieu(suggestion.texte);
+      const existante = parTexte.get(cle);
+      if (!existante || suggestion.frequence > existante.frequence) {
+        parTexte.set(cle, suggestion);
+      }
+    }
+
+    return [...parTexte.values()].sort((a, b) =>
+      b.frequence - a.frequence || PRIORITE_TYPES[a.type] - PRIORITE_TYPES[b.type]
+    );
+  }
+
+
+  private static setCache(key: string, value: SuggestionsRecherche): void {
+    if (cache.size >= SUGGESTION_CONFIG.CACHE_MAX_ENTRIES) {
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) cache.delete(oldest);
+    }
+    cache.set(key, { value, expiresAt: Date.now() + SUGGESTION_CONFIG.CACHE_TTL_MS });
+  }
+}
+
+export default SuggestionService;
@@ -0,0 +1,151 @@
+// backend/src/services/tendanceService.ts
+// SERVICE TENDANCES : ENGAGEMENT RÉCENT DES ANNONCES (VUES, FAVORIS, CONVERSATIONS)
+
+import { PrismaClient } from '@prisma/client';
+import { StatutAnnonce } from '../../../shared/src/types';
+import type { IndicateursTendance } from '../../../shared/src/types';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+export interface FiltresTendances {
+  region?: string | undefined;
+  categorie?: string | undefined;
+  excludeIds?: string[] | undefined;
+  excludeUserId?: string | undefined; // Annonces d'un vendeur à écarter (ses propres annonces)
+}
+
+export interface TendanceClassee extends IndicateursTendance {
+  annonceId: string;
+}
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const TENDANCE_CONFIG = {
+  FENETRE_JOURS: 7,
+  DEMI_VIE_HEURES: 24, // Une vue d'hier compte moitié moins qu'une vue de l'instant
+  POIDS: { vue: 1, favori: 3, message: 5 } // Message : conversation ouverte par un acheteur
+};
+
+const HEURE_MS = 60 * 60 * 1000;
+
+// ==============================================
+// CLASSE TENDANCESERVICE
+// ==============================================
+
+export class TendanceService {
+
+  // ==============================================
+  // RECALCUL PÉRIODIQUE
+  // ==============================================
+
+  /**
+   * Recalcule l'engagement des annonces actives sur la fenêtre : chaque vue,
+   * favori et conversation pèse selon son type, amorti avec son ancienneté.
+   * Le score est recopié sur l'annonce pour le tri par pertinence. Retourne
+   * le nombre d'annonces en tendance
+   */
+  static async recompute(): Promise<number> {
+    const { FENETRE_JOURS, DEMI_VIE_HEURES, POIDS } = TENDANCE_CONFIG;
+    const maintenant = new Date();
+    const depuis = new Date(maintenant.getTime() - FENETRE_JOURS * 24 * HEURE_MS);
+    const depuis24h = new Date(maintenant.getTime() - 24 * HEURE_MS);
+
+    const [, count] = await prisma.$transaction([
+      prisma.$executeRaw`DELETE FROM "tendances_annonces"`,
+      prisma.$executeRaw`
+        WITH evenements AS (
+          SELECT v."annonceId", v."createdAt" AS date, 'vue' AS type
+          FROM "vues_annonces" v
+          WHERE v."createdAt" >= ${depuis}
+          UNION ALL
+          SELECT f."annonceId", f."createdAt", 'favori'
+          FROM "favoris" f
+          WHERE f."createdAt" >= ${depuis}
+          UNION ALL
+          -- Une conversation par acheteur, datée de son premier message
+          SELECT m."annonceId", MIN(m."dateEnvoi"), 'message'
+          FROM "messages" m JOIN "annonces" a ON a."id" = m."annonceId"
+          WHERE m."dateEnvoi" >= ${depuis} AND m."senderId" <> a."userId"
+          GROUP BY m."annonceId", m."senderId"
+        )
+        INSERT INTO "tendances_annonces"
+          ("annonceId", "categorie", "region", "score", "vues24h", "vues7j",
+           "favoris24h", "favoris7j", "messages24h", "messages7j", "calculeAt")
+        SELECT e."annonceId", a."categorie", a."region",
+          SUM(
+            CASE e.type WHEN 'vue' THEN ${POIDS.vue}::float8 WHEN 'favori' THEN ${POIDS.favori}::float8 ELSE ${POIDS.message}::float8 END
+            * power(0.5, EXTRACT(EPOCH FROM (${maintenant}::timestamp - e.date)) / ${DEMI_VIE_HEURES * 3600}::float8)
+          ),
+          (COUNT(*) FILTER (WHERE e.type = 'vue' AND e.date >= ${depuis24h}))::int,
+          (COUNT(*) FILTER (WHERE e.type = 'vue'))::int,
+          (COUNT(*) FILTER (WHERE e.type = 'favori' AND e.date >= ${depuis24h}))::int,
+          (COUNT(*) FILTER (WHERE e.type = 'favori'))::int,
+          (COUNT(*) FILTER (WHERE e.type = 'message' AND e.date >= ${depuis24h}))::int,
+          (COUNT(*) FILTER (WHERE e.type = 'message'))::int,
+          ${maintenant}
+        FROM evenements e JOIN "annonces" a ON a."id" = e."annonceId"
+        WHERE a."statut" = ${StatutAnnonce.ACTIVE}::"StatutAnnonce"
+          AND (a."dateExpiration" IS NULL OR a."dateExpiration" > ${maintenant})
+        GROUP BY e."annonceId", a."categorie", a."region"
+      `,
+      prisma.$executeRaw`
+        UPDATE "annonces" a SET "scoreEngagement" = 0
+        WHERE a."scoreEngagement" <> 0
+          AND NOT EXISTS (SELECT 1 FROM "tendances_annonces" t WHERE t."annonceId" = a."id")
+      `,
+      prisma.$executeRaw`
+        UPDATE "annonces" a SET "scoreEngagement" = t."score"
+        FROM "tendances_annonces" t
+        WHERE t."annonceId" = a."id" AND a."scoreEngagement" <> t."score"
+      `
+    ]);
+
+    return count;
+  }
+
+  // ==============================================
+  // CLASSEMENT
+  // ==============================================
+
+  /**
+   * Annonces les plus engageantes, dans une région et/ou une catégorie.
+   * Écarte les annonces retirées depuis le dernier recalcul
+   */
+  static async getClassement(filtres: FiltresTendances, limite: number): Promise<TendanceClassee[]> {
+    const rows = await prisma.tendanceAnnonce.findMany({
+      where: {
+        ...(filtres.region && { region: filtres.region }),
+        ...(filtres.categorie && { categorie: filtres.categorie }),
+        ...(filtres.excludeIds && filtres.excludeIds.length > 0 && { annonceId: { notIn: filtres.excludeIds } }),
+        annonce: {
+          statut: StatutAnnonce.ACTIVE,
+          OR: [{ dateExpiration: null }, { dateExpiration: { gt: new Date() } }],
+          ...(filtres.excludeUserId && { userId: { not: filtres.excludeUserId } })
+        }
+      },
+      orderBy: [{ score: 'desc' }, { annonceId: 'asc' }],
+      take: limite,
+      select: {
+        annonceId: true,
+        score: true,
+        vues24h: true,
+        vues7j: true,
+        favoris24h: true,
+        favoris7j: true,
+        messages24h: true,
+        messages7j: true,
+        calculeAt: true
+      }
+    });
+
+    return rows.map(row => ({ ...row, score: Math.round(row.score * 100) / 100 }));
+  }
+}
+
+export default TendanceService;
@@ -390,6 +390,18 @@ interface EmailTemplate {
   text: string;
 }
 
+interface AnnonceResume {
+  id: string;
+  titre: string;
+  prix: number;
+  commune: string;
+}
+
+interface GroupeDigest {
+  nomRecherche: string;
+  annonces: AnnonceResume[];
+}
+
 export class EmailService {
   private static transporter = createTransport({
     host: process.env.SMTP_HOST || 'smtp.gmail.com',
@@ -527,11 +539,119 @@ export class EmailService {
       text: `Nouveau message de ${senderName} pour "${annonceTitle}": ${messageContent}`
     };
   }
+
+  static getExpirationReminderTemplate(firstName: string, annonceTitle: string, dateExpiration: Date): EmailTemplate {
+    const date = dateExpiration.toLocaleDateString('fr-FR', { day: 'numeric', month: 'long' });
+
+    return {
+      subject: `⏰ Votre annonce "${annonceTitle}" expire bientôt`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: #fd7e14; color: white; padding: 20px;">
+            <h1>⏰ Votre annonce expire le ${date}</h1>
+          </div>
+          
+          <div style="padding: 20px;">
+            <p>Bonjour ${firstName},</p>
+            <p>Votre annonce <strong>"${annonceTitle}"</strong> ne sera plus visible après le ${date}.</p>
+            <p>Renouvelez-la en un clic pour continuer à recevoir des contacts.</p>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env['FRONTEND_URL']}/mes-annonces" 
+                 style="background: #fd7e14; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px;">
+                🔁 Renouveler mon annonce
+              </a>
+            </div>
+          </div>
+        </div>
+      `,
+      text: `Votre annonce "${annonceTitle}" expire le ${date}. Renouvelez-la sur ${process.env['FRONTEND_URL']}/mes-annonces`
+    };
+  }
+  
+  static getNewAnnonceAlertTemplate(firstName: string, nomRecherche: string, annonce: AnnonceResume): EmailTemplate {
+    return {
+      subject: `🔔 Nouvelle annonce pour "${nomRecherche}"`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: #007bff; color: white; padding: 20px;">
+            <h1>🔔 Nouvelle annonce pour votre alerte</h1>
+          </div>
+          
+          <div style="padding: 20px;">
+            <p>Bonjour ${firstName},</p>
+            <p>Une annonce correspondant à <strong>"${nomRecherche}"</strong> vient d'être publiée :</p>
+            ${this.renderAnnonceCard(annonce)}
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env['FRONTEND_URL']}/annonces/${annonce.id}" 
+                 style="background: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px;">
+                👀 Voir l'annonce
+              </a>
+            </div>
+            
+            <p style="color: #666; font-size: 14px;">
+              Gérez vos alertes depuis votre espace : ${process.env['FRONTEND_URL']}/mes-alertes
+            </p>
+          </div>
+        </div>
+      `,
+      text: `Nouvelle annonce pour "${nomRecherche}" : ${annonce.titre} - ${annonce.prix} FCFA (${annonce.commune})`
+    };
+  }
+  
+  static getAlertDigestTemplate(firstName: string, groupes: GroupeDigest[], periode: 'jour' | 'semaine'): EmailTemplate {
+    const total = groupes.reduce((sum, groupe) => sum + groupe.annonces.length, 0);
+    const intro = periode === 'jour' ? 'ces dernières 24 heures' : 'cette semaine';
+    
+    return {
+      subject: `📬 ${total} nouvelle(s) annonce(s) pour vos alertes`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; text-align: center;">
+            <h1>📬 Vos alertes ${periode === 'jour' ? 'du jour' : 'de la semaine'}</h1>
+          </div>
+          
+          <div style="padding: 20px; background: #f8f9fa;">
+            <p>Bonjour ${firstName},</p>
+            <p>${total} annonce(s) publiée(s) ${intro} correspondent à vos recherches.</p>
+            
+            ${groupes.map(groupe => `
+              <h3 style="color: #007bff;">🔔 ${groupe.nomRecherche}</h3>
+              ${groupe.annonces.map(annonce => this.renderAnnonceCard(annonce)).join('')}
+            `).join('')}
+            
+            <p style="color: #666; font-size: 14px;">
+              Gérez vos alertes depuis votre espace : ${process.env['FRONTEND_URL']}/mes-alertes
+            </p>
+          </div>
+        </div>
+      `,
+      text: groupes
+        .map(groupe => `${groupe.nomRecherche} :\n` + groupe.annonces
+          .map(annonce => `- ${annonce.titre} - ${annonce.prix} FCFA (${annonce.commune})`)
+          .join('\n'))
+        .join('\n\n')
+    };
+  }
   
   // ==============================================
   // UTILITAIRES
   // ==============================================
   
+  private static renderAnnonceCard(annonce: AnnonceResume): string {
+    return `
+      <div style="background: white; padding: 15px; border-left: 4px solid #007bff; margin: 10px 0;">
+        <a href="${process.env['FRONTEND_URL']}/annonces/${annonce.id}" style="color: #007bff; font-weight: bold; text-decoration: none;">
+          ${annonce.titre}
+        </a>
+        <p style="margin: 5px 0 0; color: #28a745; font-weight: bold;">
+          ${annonce.prix.toLocaleString('fr-FR')} FCFA · 📍 ${annonce.commune}
+        </p>
+      </div>
+    `;
+  }
+  
   private static htmlToText(html: string): string {
     return html
       .replace(/<[^>]*>/g, '')
@@ -613,6 +733,14 @@ export class SMSService {
     return `🎉 Bienvenue ${firstName} sur Petites Annonces CI ! Votre compte est activé. Bonne vente !`;
   }
   
+  static getNewAnnonceAlertSMS(nomRecherche: string, annonceTitle: string, prix: number): string {
+    return `🔔 Alerte "${nomRecherche.substring(0, 30)}" : ${annonceTitle.substring(0, 50)} - ${prix} FCFA. Voir sur petites-annonces-ci.com`;
+  }
+  
+  static getExpirationReminderSMS(annonceTitle: string, jours: number): string {
+    return `⏰ Votre annonce "${annonceTitle.substring(0, 40)}" expire dans ${jours} jour(s). Renouvelez-la sur petites-annonces-ci.com`;
+  }
+  
   // ==============================================
   // UTILITAIRES CÔTE D'IVOIRE
   // ==============================================
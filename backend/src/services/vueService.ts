@@ -0,0 +1,283 @@
+// backend/src/services/vueService.ts
+// SERVICE DE COMPTAGE DES VUES : DÉDOUBLONNAGE, FILTRAGE DES BOTS, ENREGISTREMENT PAR LOTS
+
+import { PrismaClient } from '@prisma/client';
+import { createHash, randomUUID } from 'crypto';
+import { detectBot } from '../middleware/loggingMiddleware';
+
+const prisma = new PrismaClient();
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+// Informations de la requête de consultation
+export interface ContexteVisite {
+  userId?: string | undefined;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+  referer?: string | undefined;
+}
+
+interface VueEnAttente {
+  id: string;
+  annonceId: string;
+  userId: string | null;
+  ipAddress: string | null; // Empreinte de l'IP, jamais l'adresse en clair
+  userAgent: string | null;
+  referer: string | null;
+  dureeVisite: number | null;
+  createdAt: Date;
+}
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+const VUE_CONFIG = {
+  FENETRE_DEDOUBLONNAGE_MS: 30 * 60 * 1000, // Une vue par visiteur et par annonce toutes les 30 minutes
+  INTERVALLE_ENVOI_MS: 10 * 1000,
+  TAILLE_LOT: 200, // Envoi anticipé au-delà
+  MAX_EN_ATTENTE: 5000, // Base indisponible : les plus anciennes sont abandonnées
+  MAX_ECHECS: 3, // Envois successifs en échec avant abandon du lot
+  MAX_VISITEURS_RECENTS: 50000,
+  MAX_LONGUEUR_TEXTE: 500
+};
+
+let enAttente: VueEnAttente[] = [];
+let envoiEnCours: Promise<number> | null = null;
+let echecs = 0;
+let timer: NodeJS.Timeout | null = null;
+
+// Dernière vue comptée par annonce et visiteur : clé → fin de la fenêtre
+const visiteursRecents = new Map<string, number>();
+
+// ==============================================
+// CLASSE VUESERVICE
+// ==============================================
+
+export class VueService {
+
+  // ==============================================
+  // ENREGISTREMENT D'UNE VUE
+  // ==============================================
+
+  /**
+   * Vue mise en file d'attente, sans attendre la base. Ignorée pour le
+   * propriétaire, les bots et les consultations répétées dans la fenêtre
+   * de dédoublonnage. Retourne true si la vue est comptée
+   */
+  static recordView(annonce: { id: string; userId: string }, contexte: ContexteVisite): boolean {
+    if (contexte.userId && contexte.userId === annonce.userId) return false;
+    if (this.isBot(contexte.userAgent)) return false;
+
+    const ipAddress = contexte.ip ? this.hashIp(contexte.ip) : null;
+    const cle = `${annonce.id}|${contexte.userId || ipAddress || ''}`;
+    const now = Date.now();
+
+    if ((visiteursRecents.get(cle) || 0) > now) return false;
+
+    if (visiteursRecents.size >= VUE_CONFIG.MAX_VISITEURS_RECENTS) {
+      const oldest = visiteursRecents.keys().next().value;
+      if (oldest !== undefined) visiteursRecents.delete(oldest);
+    }
+    visiteursRecents.delete(cle);
+    visiteursRecents.set(cle, now + VUE_CONFIG.FENETRE_DEDOUBLONNAGE_MS);
+
+    enAttente.push({
+      id: randomUUID(),
+      annonceId: annonce.id,
+      userId: contexte.userId || null,
+      ipAddress,
+      userAgent: this.truncate(contexte.userAgent),
+      referer: this.truncate(contexte.referer),
+      dureeVisite: null,
+      createdAt: new Date(now)
+    });
+
+    if (enAttente.length > VUE_CONFIG.MAX_EN_ATTENTE) {
+      enAttente.splice(0, enAttente.length - VUE_CONFIG.MAX_EN_ATTENTE);
+      console.warn('⚠️ File des vues saturée : vues les plus anciennes abandonnées');
+    }
+
+    if (enAttente.length >= VUE_CONFIG.TAILLE_LOT) {
+      this.flush().catch(console.error);
+    }
+
+    this.startTimer();
+
+    return true;
+  }
+
+  /**
+   * Durée de visite envoyée par le navigateur à la fermeture de la page
+   * (navigator.sendBeacon, sans jeton) : rattachée à la dernière vue du même
+   * visiteur, encore en file ou déjà enregistrée dans la fenêtre de dédoublonnage
+   */
+  static async recordVisitDuration(annonceId: string, contexte: ContexteVisite, dureeVisite: number): Promise<boolean> {
+    if (this.isBot(contexte.userAgent)) return false;
+
+    const ipAddress = contexte.ip ? this.hashIp(contexte.ip) : null;
+    if (!contexte.userId && !ipAddress) return false;
+
+    const memeVisiteur = (vue: { userId: string | null; ipAddress: string | null }) =>
+      contexte.userId ? vue.userId === contexte.userId : vue.ipAddress === ipAddress;
+
+    for (let i = enAttente.length - 1; i >= 0; i--) {
+      const vue = enAttente[i]!;
+      if (vue.annonceId === annonceId && vue.dureeVisite === null && memeVisiteur(vue)) {
+        vue.dureeVisite = dureeVisite;
+        return true;
+      }
+    }
+
+    const vue = await prisma.vueAnnonce.findFirst({
+      where: {
+        annonceId,
+        dureeVisite: null,
+        createdAt: { gte: new Date(Date.now() - VUE_CONFIG.FENETRE_DEDOUBLONNAGE_MS) },
+        ...(contexte.userId ? { userId: contexte.userId } : { ipAddress })
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true }
+    });
+
+    if (!vue) return false;
+
+    await prisma.vueAnnonce.update({
+      where: { id: vue.id },
+      data: { dureeVisite }
+    });
+
+    return true;
+  }
+
+  // ==============================================
+  // ENVOI PAR LOTS
+  // ==============================================
+
+  /**
+   * Enregistre les vues en attente et incrémente vuesCount, dans une même
+   * transaction. Les vues déjà enregistrées par une autre instance dans la
+   * fenêtre sont écartées. En cas d'échec, le lot est remis en file
+   * (abandonné après plusieurs échecs successifs)
+   */
+  static async flush(): Promise<number> {
+    if (envoiEnCours) return envoiEnCours;
+    if (enAttente.length === 0) return 0;
+
+    const lot = enAttente;
+    enAttente = [];
+
+    envoiEnCours = this.persist(lot)
+      .then(count => {
+        echecs = 0;
+        return count;
+      })
+      .catch(error => {
+        console.error('❌ Erreur enregistrement des vues:', error);
+
+        if (++echecs < VUE_CONFIG.MAX_ECHECS) {
+          enAttente = [...lot, ...enAttente].slice(-VUE_CONFIG.MAX_EN_ATTENTE);
+        } else {
+          console.warn(`⚠️ ${lot.length} vue(s) abandonnée(s) après ${echecs} échecs`);
+          echecs = 0;
+        }
+        return 0;
+      })
+      .finally(() => {
+        envoiEnCours = null;
+      });
+
+    return envoiEnCours;
+  }
+
+  // ==============================================
+  // MÉTHODES UTILITAIRES PRIVÉES
+  // ==============================================
+
+  private static async persist(lot: VueEnAttente[]): Promise<number> {
+    const vues = await this.excludeRecorded(lot);
+
+    const parAnnonce = new Map<string, number>();
+    for (const vue of vues) {
+      parAnnonce.set(vue.annonceId, (parAnnonce.get(vue.annonceId) || 0) + 1);
+    }
+
+    if (vues.length > 0) {
+      await prisma.$transaction([
+        prisma.vueAnnonce.createMany({ data: vues }),
+        ...[...parAnnonce].map(([annonceId, count]) => prisma.annonce.updateMany({
+          where: { id: annonceId },
+          data: { vuesCount: { increment: count } }
+        }))
+      ]);
+    }
+
+    this.purgeRecentVisitors();
+
+    return vues.length;
+  }
+
+  // Dédoublonnage entre instances : vues du même visiteur déjà en base
+  private static async excludeRecorded(lot: VueEnAttente[]): Promise<VueEnAttente[]> {
+    const debut = Math.min(...lot.map(vue => vue.createdAt.getTime())) - VUE_CONFIG.FENETRE_DEDOUBLONNAGE_MS;
+    const userIds = [...new Set(lot.flatMap(vue => (vue.userId ? [vue.userId] : [])))];
+    const ipAddresses = [...new Set(lot.flatMap(vue => (!vue.userId && vue.ipAddress ? [vue.ipAddress] : [])))];
+
+    const existantes = await prisma.vueAnnonce.findMany({
+      where: {
+        annonceId: { in: [...new Set(lot.map(vue => vue.annonceId))] },
+        createdAt: { gte: new Date(debut) },
+        OR: [
+          { userId: { in: userIds } },
+          { userId: null, ipAddress: { in: ipAddresses } }
+        ]
+      },
+      select: { annonceId: true, userId: true, ipAddress: true, createdAt: true }
+    });
+
+    const derniereVue = new Map<string, number>();
+    for (const vue of existantes) {
+      const cle = `${vue.annonceId}|${vue.userId || vue.ipAddress}`;
+      derniereVue.set(cle, Math.max(derniereVue.get(cle) || 0, vue.createdAt.getTime()));
+    }
+
+    return lot.filter(vue => {
+      const cle = `${vue.annonceId}|${vue.userId || vue.ipAddress}`;
+      const precedente = derniereVue.get(cle);
+      return precedente === undefined || vue.createdAt.getTime() - precedente >= VUE_CONFIG.FENETRE_DEDOUBLONNAGE_MS;
+    });
+  }
+
+  private static purgeRecentVisitors(): void {
+    const now = Date.now();
+    for (const [cle, fin] of visiteursRecents) {
+      if (fin <= now) visiteursRecents.delete(cle);
+    }
+  }
+
+  private static startTimer(): void {
+    if (timer) return;
+
+    timer = setInterval(() => {
+      this.flush().catch(console.error);
+    }, VUE_CONFIG.INTERVALLE_ENVOI_MS);
+    timer.unref();
+  }
+
+  // Bots légitimes (indexation, aperçus de liens) comme malveillants ; sans User-Agent : script
+  private static isBot(userAgent: string | undefined): boolean {
+    return !userAgent || detectBot(userAgent) !== null;
+  }
+
+  private static hashIp(ip: string): string {
+    return createHash('sha256').update(ip).digest('hex').substring(0, 16);
+  }
+
+  private static truncate(value: string | undefined): string | null {
+    return value ? value.substring(0, VUE_CONFIG.MAX_LONGUEUR_TEXTE) : null;
+  }
+}
+
+export default VueService;
@@ -0,0 +1,141 @@
+// backend/src/sockets/presenceStore.ts
+// STOCKAGE DE PRÉSENCE EN LIGNE (MÉMOIRE OU REDIS)
+
+import Redis from 'ioredis';
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+export interface PresenceStatus {
+  online: boolean;
+  lastSeen?: Date;
+}
+
+/**
+ * Contrat commun aux stockages de présence
+ * Un utilisateur est en ligne tant qu'au moins une de ses sockets est connectée
+ */
+export interface PresenceStore {
+  /** Retourne true si c'est la première connexion de l'utilisateur */
+  addConnection(userId: string, socketId: string): Promise<boolean>;
+  /** Retourne true si c'était la dernière connexion de l'utilisateur */
+  removeConnection(userId: string, socketId: string): Promise<boolean>;
+  getStatus(userId: string): Promise<PresenceStatus>;
+}
+
+// ==============================================
+// IMPLÉMENTATION EN MÉMOIRE (INSTANCE UNIQUE)
+// ==============================================
+
+export class InMemoryPresenceStore implements PresenceStore {
+  private connections = new Map<string, Set<string>>();
+  private lastSeen = new Map<string, Date>();
+
+  async addConnection(userId: string, socketId: string): Promise<boolean> {
+    const sockets = this.connections.get(userId) || new Set<string>();
+    const firstConnection = sockets.size === 0;
+
+    sockets.add(socketId);
+    this.connections.set(userId, sockets);
+
+    return firstConnection;
+  }
+
+  async removeConnection(userId: string, socketId: string): Promise<boolean> {
+    const sockets = this.connections.get(userId);
+    if (!sockets) return false;
+
+    sockets.delete(socketId);
+    if (sockets.size > 0) return false;
+
+    this.connections.delete(userId);
+    this.lastSeen.set(userId, new Date());
+    return true;
+  }
+
+  async getStatus(userId: string): Promise<PresenceStatus> {
+    const online = (this.connections.get(userId)?.size || 0) > 0;
+    const lastSeen = this.lastSeen.get(userId);
+
+    return online || !lastSeen ? { online } : { online, lastSeen };
+  }
+}
+
+// ==============================================
+// IMPLÉMENTATION REDIS (MULTI-INSTANCES)
+// ==============================================
+
+const CONNECTIONS_TTL_SECONDS = 24 * 60 * 60; // Filet de sécurité si une instance tombe
+const LAST_SEEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 jours
+
+export class RedisPresenceStore implements PresenceStore {
+  constructor(private readonly redis: Redis) {}
+
+  private connectionsKey(userId: string): string {
+    return `presence:sockets:${userId}`;
+  }
+
+  private lastSeenKey(userId: string): string {
+    return `presence:lastseen:${userId}`;
+  }
+
+  async addConnection(userId: string, socketId: string): Promise<boolean> {
+    const key = this.connectionsKey(userId);
+
+    const results = await this.redis
+      .multi()
+      .sadd(key, socketId)
+      .expire(key, CONNECTIONS_TTL_SECONDS)
+      .scard(key)
+      .exec();
+
+    const count = Number(results?.[2]?.[1] || 0);
+    return count === 1;
+  }
+
+  async removeConnection(userId: string, socketId: string): Promise<boolean> {
+    const key = this.connectionsKey(userId);
+
+    const results = await this.redis
+      .multi()
+      .srem(key, socketId)
+      .scard(key)
+      .exec();
+
+    const removed = Number(results?.[0]?.[1] || 0);
+    const remaining = Number(results?.[1]?.[1] || 0);
+
+    if (removed === 0 || remaining > 0) return false;
+
+    await this.redis.set(this.lastSeenKey(userId), new Date().toISOString(), 'EX', LAST_SEEN_TTL_SECONDS);
+    return true;
+  }
+
+  async getStatus(userId: string): Promise<PresenceStatus> {
+    const [count, lastSeen] = await Promise.all([
+      this.redis.scard(this.connectionsKey(userId)),
+      this.redis.get(this.lastSeenKey(userId))
+    ]);
+
+    const online = count > 0;
+    return online || !lastSeen ? { online } : { online, lastSeen: new Date(lastSeen) };
+  }
+}
+
+// ==============================================
+// FABRIQUE
+// ==============================================
+
+/**
+ * Redis si REDIS_URL est défini (plusieurs instances), mémoire sinon
+ */
+export const createPresenceStore = (): PresenceStore => {
+  if (process.env['REDIS_URL']) {
+    console.log('🟢 Présence: stockage Redis');
+    return new RedisPresenceStore(new Redis(process.env['REDIS_URL']));
+  }
+
+  console.log('🟢 Présence: stockage en mémoire');
+  return new InMemoryPresenceStore();
+};
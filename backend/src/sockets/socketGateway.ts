@@ -0,0 +1,258 @@
+// backend/src/sockets/socketGateway.ts
+// PASSERELLE WEBSOCKET TEMPS RÉEL (SOCKET.IO)
+
+import type { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { verifyAccessToken } from '../middleware/authMiddleware';
+import MessageService from '../services/messageService';
+import { createPresenceStore, PresenceStore } from './presenceStore';
+import type { WebSocketEvent, PresenceEvent } from '../../../shared/src/types';
+
+// ==============================================
+// INTERFACES ET TYPES
+// ==============================================
+
+interface SocketData {
+  userId: string;
+  email: string;
+  conversations: Set<string>; // Conversations vérifiées (annonceId:interlocuteur)
+}
+
+type AuthenticatedSocket = Socket<any, any, any, SocketData>;
+
+interface TypingPayload {
+  annonceId: string;
+  receiverId: string;
+  isTyping: boolean;
+}
+
+interface ReadReceiptPayload {
+  annonceId: string;
+  senderId: string;
+}
+
+interface PresencePayload {
+  userIds: string[];
+}
+
+type Ack = (response: { success: boolean; data?: any; message?: string }) => void;
+
+const MAX_PRESENCE_SUBSCRIPTIONS = 100;
+
+// ==============================================
+// ÉTAT DE LA PASSERELLE
+// ==============================================
+
+let io: Server | null = null;
+let presenceStore: PresenceStore | null = null;
+
+const userRoom = (userId: string): string => `user:${userId}`;
+const presenceRoom = (userId: string): string => `presence:${userId}`;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+// ==============================================
+// INITIALISATION
+// ==============================================
+
+/**
+ * Attache socket.io au serveur HTTP et authentifie chaque connexion par JWT
+ * Le token est lu dans handshake.auth.token ou dans l'header Authorization
+ */
+export const initSocketGateway = (server: HttpServer, corsOrigins: string[]): Server => {
+  io = new Server(server, {
+    cors: {
+      origin: corsOrigins,
+      credentials: true
+    },
+    path: '/socket.io'
+  });
+
+  // Authentification JWT au handshake
+  io.use((socket: AuthenticatedSocket, next) => {
+    try {
+      const authHeader = socket.handshake.headers.authorization;
+      const token = socket.handshake.auth?.['token']
+        || (authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null);
+
+      if (!token) {
+        next(new Error('Token d\'authentification requis'));
+        return;
+      }
+
+      const payload = verifyAccessToken(token);
+      socket.data.userId = payload.userId;
+      socket.data.email = payload.email;
+      socket.data.conversations = new Set<string>();
+      next();
+
+    } catch (error) {
+      console.error('❌ Authentification WebSocket refusée:', error instanceof Error ? error.message : error);
+      next(new Error('Token invalide'));
+    }
+  });
+
+  presenceStore = createPresenceStore();
+
+  io.on('connection', (socket: AuthenticatedSocket) => {
+    const { userId } = socket.data;
+
+    // Chaque utilisateur écoute sa propre room (multi-appareils)
+    socket.join(userRoom(userId));
+    console.log(`🔌 WebSocket connecté: ${userId} (${socket.id})`);
+
+    presenceStore!.addConnection(userId, socket.id)
+      .then((firstConnection) => {
+        if (firstConnection) broadcastPresence(userId, true);
+      })
+      .catch((error) => console.error('❌ Erreur présence (connexion):', error));
+
+    socket.on('TYPING', (payload: TypingPayload) => handleTyping(socket, payload));
+    socket.on('READ_RECEIPT', (payload: ReadReceiptPayload, ack?: Ack) => handleReadReceipt(socket, payload, ack));
+    socket.on('PRESENCE', (payload: PresencePayload, ack?: Ack) => handlePresence(socket, payload, ack));
+
+    socket.on('disconnect', (reason) => {
+      console.log(`🔌 WebSocket déconnecté: ${userId} (${reason})`);
+
+      presenceStore!.removeConnection(userId, socket.id)
+        .then((lastConnection) => {
+          if (lastConnection) broadcastPresence(userId, false, new Date());
+        })
+        .catch((error) => console.error('❌ Erreur présence (déconnexion):', error));
+    });
+  });
+
+  console.log('⚡ Passerelle WebSocket initialisée');
+  return io;
+};
+
+// ==============================================
+// GESTIONNAIRES D'ÉVÉNEMENTS CLIENT
+// ==============================================
+
+/**
+ * Relaye l'indicateur de saisie à l'interlocuteur
+ * Uniquement si une conversation existe déjà entre eux sur l'annonce
+ */
+const handleTyping = async (socket: AuthenticatedSocket, payload: TypingPayload): Promise<void> => {
+  try {
+    if (!payload || !isNonEmptyString(payload.annonceId) || !isNonEmptyString(payload.receiverId)) {
+      return;
+    }
+
+    const { userId, conversations } = socket.data;
+    const conversation = `${payload.annonceId}:${payload.receiverId}`;
+
+    // Vérification mise en cache sur la socket : l'événement part à chaque frappe
+    if (!conversations.has(conversation)) {
+      const autorise = await MessageService.hasConversation(userId, payload.annonceId, payload.receiverId);
+      if (!autorise) return;
+      conversations.add(conversation);
+    }
+
+    emitToUser(payload.receiverId, {
+      type: 'TYPING',
+      payload: {
+        annonceId: payload.annonceId,
+        userId,
+        isTyping: payload.isTyping !== false
+      },
+      timestamp: new Date(),
+      userId
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur indicateur de saisie WebSocket:', error);
+  }
+};
+
+/**
+ * Accusé de lecture : écrit dateLecture puis prévient l'expéditeur
+ */
+const handleReadReceipt = async (
+  socket: AuthenticatedSocket,
+  payload: ReadReceiptPayload,
+  ack?: Ack
+): Promise<void> => {
+  try {
+    if (!payload || !isNonEmptyString(payload.annonceId) || !isNonEmptyString(payload.senderId)) {
+      ack?.({ success: false, message: 'annonceId et senderId requis' });
+      return;
+    }
+
+    const result = await MessageService.markConversationAsRead(
+      socket.data.userId,
+      payload.annonceId,
+      payload.senderId
+    );
+
+    ack?.({ success: true, data: result });
+
+  } catch (error) {
+    console.error('❌ Erreur accusé de lecture WebSocket:', error);
+    ack?.({ success: false, message: 'Erreur lors du marquage des messages' });
+  }
+};
+
+/**
+ * Abonnement à la présence d'une liste d'utilisateurs
+ * Limité aux interlocuteurs (conversation commune), les autres sont ignorés
+ * Retourne leur statut actuel, les changements suivants sont poussés via PRESENCE
+ */
+const handlePresence = async (
+  socket: AuthenticatedSocket,
+  payload: PresencePayload,
+  ack?: Ack
+): Promise<void> => {
+  try {
+    const demandes = Array.isArray(payload?.userIds)
+      ? [...new Set(payload.userIds.filter(isNonEmptyString))].slice(0, MAX_PRESENCE_SUBSCRIPTIONS)
+      : [];
+
+    const userIds = await MessageService.filterInterlocutors(socket.data.userId, demandes);
+
+    const statuses = await Promise.all(
+      userIds.map(async (id) => ({ userId: id, ...(await presenceStore!.getStatus(id)) }))
+    );
+
+    userIds.forEach((id) => socket.join(presenceRoom(id)));
+
+    ack?.({ success: true, data: statuses });
+
+  } catch (error) {
+    console.error('❌ Erreur présence WebSocket:', error);
+    ack?.({ success: false, message: 'Erreur lors de la récupération de la présence' });
+  }
+};
+
+const broadcastPresence = (userId: string, online: boolean, lastSeen?: Date): void => {
+  if (!io) return;
+
+  const event: PresenceEvent = {
+    type: 'PRESENCE',
+    payload: lastSeen ? { userId, online, lastSeen } : { userId, online },
+    timestamp: new Date(),
+    userId
+  };
+
+  io.to(presenceRoom(userId)).emit(event.type, event);
+};
+
+// ==============================================
+// ÉMISSION D'ÉVÉNEMENTS
+// ==============================================
+
+/**
+ * Pousse un événement vers toutes les connexions d'un utilisateur
+ * Sans effet si la passerelle n'est pas initialisée (tests, scripts)
+ */
+export const emitToUser = (userId: string, event: WebSocketEvent): void => {
+  if (!io) return;
+  io.to(userRoom(userId)).emit(event.type, event);
+};
+
+export default {
+  initSocketGateway,
+  emitToUser
+};
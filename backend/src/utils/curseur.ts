@@ -0,0 +1,103 @@
+// backend/src/utils/curseur.ts
+// PAGINATION PAR CURSEUR (KEYSET) : CURSEURS OPAQUES ET CONDITIONS "APRÈS LE CURSEUR"
+
+import { ValidationError } from '../middleware/errorMiddleware';
+
+// ==============================================
+// TYPES
+// ==============================================
+
+export type SensTri = 'asc' | 'desc';
+
+export type ValeurCle = string | number | boolean | null;
+
+// Clé d'un tri lexicographique ; la dernière (l'id) départage les ex aequo.
+// Colonnes non nulles, sauf en tri décroissant
+export interface CleTri {
+  champ: string;
+  sens: SensTri;
+}
+
+// ==============================================
+// ENCODAGE
+// ==============================================
+
+/**
+ * Curseur opaque : tri et valeurs des clés de la dernière ligne du lot
+ */
+export function encodeCurseur(tri: string, valeurs: ValeurCle[]): string {
+  return Buffer.from(JSON.stringify({ t: tri, v: valeurs })).toString('base64url');
+}
+
+/**
+ * Valeurs des clés d'un curseur. Refusé s'il a été émis pour un autre tri
+ */
+export function decodeCurseur(curseur: string, tri: string, nombreCles: number): ValeurCle[] {
+  let contenu: { t?: unknown; v?: unknown };
+
+  try {
+    contenu = JSON.parse(Buffer.from(curseur, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Curseur invalide');
+  }
+
+  if (contenu?.t !== tri || !Array.isArray(contenu.v) || contenu.v.length !== nombreCles) {
+    throw new ValidationError('Curseur invalide pour ce tri');
+  }
+
+  return contenu.v as ValeurCle[];
+}
+
+/**
+ * Valeurs des clés d'une ligne (dates en ISO 8601)
+ */
+export function valeursCles(cles: CleTri[], ligne: Record<string, unknown>): ValeurCle[] {
+  return cles.map(({ champ }) => {
+    const valeur = ligne[champ];
+    return valeur instanceof Date ? valeur.toISOString() : (valeur ?? null) as ValeurCle;
+  });
+}
+
+// ==============================================
+// CONDITIONS PRISMA
+// ==============================================
+
+export function orderByCles(cles: CleTri[]): Record<string, SensTri>[] {
+  return cles.map(({ champ, sens }) => ({ [champ]: sens }));
+}
+
+/**
+ * Condition "strictement après la ligne du curseur" pour un tri lexicographique :
+ * (a > x) OU (a = x ET b > y) OU ...
+ */
+export function apresCurseur(cles: CleTri[], valeurs: ValeurCle[]): { OR: Record<string, unknown>[] } {
+  return {
+    OR: cles.flatMap((cle, index) => {
+      const suite = apresValeur(cle.sens, valeurs[index] ?? null);
+      if (!suite) return [];
+
+      return [{
+        AND: [
+          ...cles.slice(0, index).map((precedente, i) => ({ [precedente.champ]: valeurs[i] ?? null })),
+          { [cle.champ]: suite }
+        ]
+      }];
+    })
+  };
+}
+
+// null : aucune valeur après celle-ci dans ce sens
+function apresValeur(sens: SensTri, valeur: ValeurCle): Record<string, unknown> | null {
+  // Pas de lt/gt sur les booléens : false < true
+  if (typeof valeur === 'boolean') {
+    if (sens === 'desc') return valeur ? { equals: false } : null;
+    return valeur ? null : { equals: true };
+  }
+
+  // PostgreSQL : NULL en tête des tris décroissants, en fin des tris croissants
+  if (valeur === null) {
+    return sens === 'desc' ? { not: null } : null;
+  }
+
+  return sens === 'desc' ? { lt: valeur } : { gt: valeur };
+}
@@ -0,0 +1,72 @@
+// backend/src/utils/geo.ts
+// OUTILS GÉOGRAPHIQUES : DISTANCES ET NORMALISATION DES NOMS DE LIEUX
+
+const RAYON_TERRE_KM = 6371;
+
+// ==============================================
+// DISTANCES
+// ==============================================
+
+export function toRadians(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return RAYON_TERRE_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// ==============================================
+// NOMS DE LIEUX
+// ==============================================
+
+/**
+ * "Port-Bouët", "port bouet" et "PORT BOUËT" donnent "port bouet"
+ */
+export function normalizeNomLieu(nom: string): string {
+  return nom
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Similarité entre 0 et 1 de deux noms de lieux, tolérante aux variantes
+ * d'orthographe : espaces et tirets ignorés, préfixes ("Port-Bou"), fautes de frappe
+ */
+export function similariteNomLieu(saisie: string, reference: string): number {
+  const a = normalizeNomLieu(saisie).replace(/ /g, '');
+  const b = normalizeNomLieu(reference).replace(/ /g, '');
+
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length >= 4 && b.startsWith(a)) return 0.9;
+
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+function levenshtein(a: string, b: string): number {
+  let precedente = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const courante = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cout = a[i - 1] === b[j - 1] ? 0 : 1;
+      courante[j] = Math.min(
+        precedente[j]! + 1,
+        courante[j - 1]! + 1,
+        precedente[j - 1]! + cout
+      );
+    }
+    precedente = courante;
+  }
+
+  return precedente[b.length]!;
+}
@@ -0,0 +1,79 @@
+// backend/src/utils/publicUser.ts
+// SÉRIALISATION DES PROFILS PUBLICS UTILISATEURS
+
+import type { PublicUser } from '../../../shared/src/types';
+
+// ==============================================
+// SÉLECTION PRISMA COMMUNE
+// ==============================================
+
+/**
+ * Champs utilisateur exposables publiquement (jamais d'email, téléphone ou mot de passe)
+ */
+export const PUBLIC_USER_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  avatar: true,
+  isProfessional: true,
+  companyName: true,
+  region: true,
+  commune: true,
+  emailVerified: true,
+  phoneVerified: true,
+  createdAt: true
+} as const;
+
+/**
+ * Agrégats de réputation issus des avis reçus
+ */
+export interface ReputationVendeur {
+  noteGlobale: number | null;
+  nombreAvis: number;
+}
+
+interface PublicUserRecord {
+  id: string;
+  firstName: string;
+  lastName: string;
+  avatar: string | null;
+  isProfessional: boolean;
+  companyName: string | null;
+  region: string | null;
+  commune: string | null;
+  emailVerified?: boolean;
+  phoneVerified?: boolean;
+  createdAt: Date;
+}
+
+// ==============================================
+// FORMATAGE
+// ==============================================
+
+/**
+ * Convertit un enregistrement Prisma en PublicUser pour l'API,
+ * enrichi de la réputation si elle est fournie
+ */
+export const toPublicUser = (user: PublicUserRecord, reputation?: ReputationVendeur): PublicUser => {
+  const publicUser: PublicUser = {
+    id: user.id,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    isProfessional: user.isProfessional,
+    membereDepuis: user.createdAt
+  };
+
+  if (user.avatar) publicUser.avatar = user.avatar;
+  if (user.companyName) publicUser.companyName = user.companyName;
+  if (user.region) publicUser.region = user.region;
+  if (user.commune) publicUser.commune = user.commune;
+  if (user.emailVerified !== undefined) publicUser.emailVerified = user.emailVerified;
+  if (user.phoneVerified !== undefined) publicUser.phoneVerified = user.phoneVerified;
+
+  if (reputation) {
+    publicUser.nombreAvis = reputation.nombreAvis;
+    if (reputation.noteGlobale !== null) publicUser.noteGlobale = reputation.noteGlobale;
+  }
+
+  return publicUser;
+};
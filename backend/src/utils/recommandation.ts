@@ -0,0 +1,256 @@
+// backend/src/utils/recommandation.ts
+// RECOMMANDATIONS PERSONNALISÉES : PROFIL D'INTÉRÊTS ET SCORE DES ANNONCES (SANS ACCÈS À LA BASE)
+
+import type { MotifRecommandation } from '../../../shared/src/types';
+import { haversineKm } from './geo';
+
+// ==============================================
+// TYPES
+// ==============================================
+
+export type TypeSignal = 'vue' | 'favori' | 'message' | 'recherche';
+
+// Annonce consultée, mise en favori ou contactée, ou recherche sauvegardée
+export interface SignalInteret {
+  type: TypeSignal;
+  date: Date;
+  categorie?: string | null | undefined;
+  sousCategorie?: string | null | undefined;
+  prix?: number | null | undefined; // Recherche : milieu de la fourchette de prix
+  region?: string | null | undefined;
+  commune?: string | null | undefined;
+  latitude?: number | null | undefined;
+  longitude?: number | null | undefined;
+  dureeVisite?: number | null | undefined; // Vues, en secondes
+}
+
+/**
+ * Intérêts pondérés par l'ancienneté des signaux. Affinités entre 0 et 1
+ * (1 : la valeur la plus fréquente) ; prix habituel par catégorie en
+ * échelle logarithmique
+ */
+export interface ProfilInteret {
+  poidsTotal: number;
+  categories: Record<string, number>;
+  sousCategories: Record<string, number>;
+  regions: Record<string, number>;
+  communes: Record<string, number>;
+  prix: Record<string, { moyenneLog: number; ecartLog: number }>;
+  position: { latitude: number; longitude: number } | null;
+}
+
+export interface CandidatRecommandation {
+  id: string;
+  categorie: string;
+  sousCategorie: string | null;
+  prix: number;
+  region: string;
+  commune: string;
+  latitude: number | null;
+  longitude: number | null;
+  datePublication: Date | null;
+}
+
+export interface AnnonceRecommandee {
+  id: string;
+  score: number;
+  motifs: MotifRecommandation[];
+}
+
+// ==============================================
+// CONFIGURATION
+// ==============================================
+
+export const RECOMMANDATION_CONFIG = {
+  POIDS_SIGNAUX: { vue: 1, favori: 3, message: 5, recherche: 4 } as Record<TypeSignal, number>,
+  BONUS_VISITE_LONGUE: 1.5, // Vue d'au moins DUREE_VISITE_LONGUE_S
+  DUREE_VISITE_LONGUE_S: 30,
+  DEMI_VIE_SIGNAL_JOURS: 14,
+  POIDS_SCORE: { categorie: 0.4, prix: 0.2, proximite: 0.25, fraicheur: 0.15 },
+  ECART_LOG_PRIX_MIN: 0.4, // Environ ±50 % autour du prix habituel
+  DISTANCE_DEMI_SCORE_KM: 10,
+  DEMI_VIE_FRAICHEUR_JOURS: 7,
+  SEUIL_MOTIF: 0.6, // Composante du score retenue comme motif de la recommandation
+  PART_MAX_CATEGORIE: 0.5 // Diversité : part maximale d'une même catégorie
+};
+
+const JOUR_MS = 24 * 60 * 60 * 1000;
+
+// ==============================================
+// PROFIL D'INTÉRÊTS
+// ==============================================
+
+/**
+ * Profil construit à partir des signaux : poids du type de signal, divisé
+ * par deux toutes les deux semaines d'ancienneté
+ */
+export function buildProfilInteret(signaux: SignalInteret[], maintenant: Date): ProfilInteret {
+  const categories: Record<string, number> = {};
+  const sousCategories: Record<string, number> = {};
+  const regions: Record<string, number> = {};
+  const communes: Record<string, number> = {};
+  const prix: Record<string, { poids: number; somme: number; sommeCarres: number }> = {};
+  const position = { poids: 0, latitude: 0, longitude: 0 };
+  let poidsTotal = 0;
+
+  for (const signal of signaux) {
+    const poids = poidsSignal(signal, maintenant);
+    if (poids <= 0) continue;
+
+    poidsTotal += poids;
+
+    if (signal.categorie) add(categories, signal.categorie, poids);
+    if (signal.sousCategorie) add(sousCategories, signal.sousCategorie, poids);
+    if (signal.region) add(regions, signal.region, poids);
+    if (signal.commune) add(communes, signal.commune, poids);
+
+    if (signal.categorie && signal.prix && signal.prix > 0) {
+      const log = Math.log(signal.prix);
+      const stats = prix[signal.categorie] || { poids: 0, somme: 0, sommeCarres: 0 };
+      stats.poids += poids;
+      stats.somme += poids * log;
+      stats.sommeCarres += poids * log * log;
+      prix[signal.categorie] = stats;
+    }
+
+    if (signal.latitude != null && signal.longitude != null) {
+      position.poids += poids;
+      position.latitude += poids * signal.latitude;
+      position.longitude += poids * signal.longitude;
+    }
+  }
+
+  return {
+    poidsTotal,
+    categories: normalize(categories),
+    sousCategories: normalize(sousCategories),
+    regions: normalize(regions),
+    communes: normalize(communes),
+    prix: Object.fromEntries(Object.entries(prix).map(([categorie, stats]) => {
+      const moyenneLog = stats.somme / stats.poids;
+      const variance = Math.max(stats.sommeCarres / stats.poids - moyenneLog * moyenneLog, 0);
+      return [categorie, { moyenneLog, ecartLog: Math.max(Math.sqrt(variance), RECOMMANDATION_CONFIG.ECART_LOG_PRIX_MIN) }];
+    })),
+    position: position.poids > 0
+      ? { latitude: position.latitude / position.poids, longitude: position.longitude / position.poids }
+      : null
+  };
+}
+
+/**
+ * Valeurs préférées d'une affinité, les plus fortes d'abord
+ */
+export function topAffinites(affinites: Record<string, number>, nombre: number): string[] {
+  return Object.entries(affinites)
+    .sort(([a, poidsA], [b, poidsB]) => poidsB - poidsA || (a < b ? -1 : a > b ? 1 : 0))
+    .slice(0, nombre)
+    .map(([valeur]) => valeur);
+}
+
+// ==============================================
+// SCORE DES ANNONCES
+// ==============================================
+
+/**
+ * Score entre 0 et 1 : affinité pour la catégorie, prix proche du prix
+ * habituel dans cette catégorie, proximité et fraîcheur de l'annonce
+ */
+export function scoreCandidat(profil: ProfilInteret, candidat: CandidatRecommandation, maintenant: Date): AnnonceRecommandee {
+  const { POIDS_SCORE, SEUIL_MOTIF } = RECOMMANDATION_CONFIG;
+
+  const categorie = 0.7 * (profil.categories[candidat.categorie] || 0) +
+    0.3 * (candidat.sousCategorie ? profil.sousCategories[candidat.sousCategorie] || 0 : 0);
+
+  // Sans historique de prix dans la catégorie : neutre
+  const statsPrix = profil.prix[candidat.categorie];
+  const prix = statsPrix && candidat.prix > 0
+    ? Math.exp(-((Math.log(candidat.prix) - statsPrix.moyenneLog) ** 2) / (2 * statsPrix.ecartLog ** 2))
+    : 0.5;
+
+  const proximite = profil.position && candidat.latitude != null && candidat.longitude != null
+    ? 0.5 ** (haversineKm(profil.position.latitude, profil.position.longitude, candidat.latitude, candidat.longitude) /
+      RECOMMANDATION_CONFIG.DISTANCE_DEMI_SCORE_KM)
+    : 0.7 * (profil.regions[candidat.region] || 0) + 0.3 * (profil.communes[candidat.commune] || 0);
+
+  const fraicheur = candidat.datePublication
+    ? 0.5 ** (Math.max(maintenant.getTime() - candidat.datePublication.getTime(), 0) / JOUR_MS /
+      RECOMMANDATION_CONFIG.DEMI_VIE_FRAICHEUR_JOURS)
+    : 0;
+
+  const score = POIDS_SCORE.categorie * categorie +
+    POIDS_SCORE.prix * prix +
+    POIDS_SCORE.proximite * proximite +
+    POIDS_SCORE.fraicheur * fraicheur;
+
+  const motifs: MotifRecommandation[] = [];
+  if (categorie >= SEUIL_MOTIF) motifs.push('categorie');
+  if (statsPrix && prix >= SEUIL_MOTIF) motifs.push('prix');
+  if (proximite >= SEUIL_MOTIF) motifs.push('proximite');
+  if (fraicheur >= SEUIL_MOTIF) motifs.push('nouveaute');
+
+  return { id: candidat.id, score: Math.round(score * 1000) / 1000, motifs };
+}
+
+/**
+ * Meilleurs candidats, une même catégorie limitée à une part de la liste
+ * tant que d'autres candidats restent. Ordre stable : score, date de
+ * publication puis identifiant
+ */
+export function rankCandidats(
+  profil: ProfilInteret,
+  candidats: CandidatRecommandation[],
+  maintenant: Date,
+  limite: number
+): AnnonceRecommandee[] {
+  const scores = candidats
+    .map(candidat => ({ candidat, recommandation: scoreCandidat(profil, candidat, maintenant) }))
+    .sort((a, b) =>
+      b.recommandation.score - a.recommandation.score ||
+      (b.candidat.datePublication?.getTime() || 0) - (a.candidat.datePublication?.getTime() || 0) ||
+      (a.candidat.id < b.candidat.id ? -1 : a.candidat.id > b.candidat.id ? 1 : 0)
+    );
+
+  const maxParCategorie = Math.max(1, Math.ceil(limite * RECOMMANDATION_CONFIG.PART_MAX_CATEGORIE));
+  const parCategorie = new Map<string, number>();
+  const retenus: AnnonceRecommandee[] = [];
+  const reportes: AnnonceRecommandee[] = [];
+
+  for (const { candidat, recommandation } of scores) {
+    const nombre = parCategorie.get(candidat.categorie) || 0;
+
+    if (nombre < maxParCategorie) {
+      parCategorie.set(candidat.categorie, nombre + 1);
+      retenus.push(recommandation);
+    } else {
+      reportes.push(recommandation);
+    }
+
+    if (retenus.length >= limite) break;
+  }
+
+  return [...retenus, ...reportes].slice(0, limite);
+}
+
+// ==============================================
+// FONCTIONS INTERNES
+// ==============================================
+
+function poidsSignal(signal: SignalInteret, maintenant: Date): number {
+  const { POIDS_SIGNAUX, BONUS_VISITE_LONGUE, DUREE_VISITE_LONGUE_S, DEMI_VIE_SIGNAL_JOURS } = RECOMMANDATION_CONFIG;
+
+  const ageJours = Math.max(maintenant.getTime() - signal.date.getTime(), 0) / JOUR_MS;
+  const bonus = signal.type === 'vue' && (signal.dureeVisite || 0) >= DUREE_VISITE_LONGUE_S ? BONUS_VISITE_LONGUE : 1;
+
+  return POIDS_SIGNAUX[signal.type] * bonus * 0.5 ** (ageJours / DEMI_VIE_SIGNAL_JOURS);
+}
+
+function add(poids: Record<string, number>, cle: string, valeur: number): void {
+  poids[cle] = (poids[cle] || 0) + valeur;
+}
+
+function normalize(poids: Record<string, number>): Record<string, number> {
+  const max = Math.max(0, ...Object.values(poids));
+  if (max === 0) return {};
+
+  return Object.fromEntries(Object.entries(poids).map(([cle, valeur]) => [cle, valeur / max]));
+}
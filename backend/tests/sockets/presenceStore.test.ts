@@ -0,0 +1,57 @@
+// backend/tests/sockets/presenceStore.test.ts
+// TESTS DU STOCKAGE DE PRÉSENCE EN MÉMOIRE
+
+import { InMemoryPresenceStore } from '../../src/sockets/presenceStore';
+
+describe('InMemoryPresenceStore', () => {
+  let store: InMemoryPresenceStore;
+
+  beforeEach(() => {
+    store = new InMemoryPresenceStore();
+  });
+
+  it('signale la première connexion uniquement', async () => {
+    expect(await store.addConnection('user-1', 'socket-a')).toBe(true);
+    expect(await store.addConnection('user-1', 'socket-b')).toBe(false);
+    expect(await store.getStatus('user-1')).toEqual({ online: true });
+  });
+
+  it('reste en ligne tant qu\'une socket est connectée (multi-appareils)', async () => {
+    await store.addConnection('user-1', 'socket-a');
+    await store.addConnection('user-1', 'socket-b');
+
+    expect(await store.removeConnection('user-1', 'socket-a')).toBe(false);
+    expect((await store.getStatus('user-1')).online).toBe(true);
+  });
+
+  it('passe hors ligne à la dernière déconnexion avec la date de dernière activité', async () => {
+    await store.addConnection('user-1', 'socket-a');
+    const avant = Date.now();
+
+    expect(await store.removeConnection('user-1', 'socket-a')).toBe(true);
+
+    const status = await store.getStatus('user-1');
+    expect(status.online).toBe(false);
+    expect(status.lastSeen).toBeInstanceOf(Date);
+    expect(status.lastSeen!.getTime()).toBeGreaterThanOrEqual(avant);
+  });
+
+  it('ignore la déconnexion d\'un utilisateur inconnu', async () => {
+    expect(await store.removeConnection('inconnu', 'socket-a')).toBe(false);
+    expect(await store.getStatus('inconnu')).toEqual({ online: false });
+  });
+
+  it('masque la dernière activité après une reconnexion', async () => {
+    await store.addConnection('user-1', 'socket-a');
+    await store.removeConnection('user-1', 'socket-a');
+
+    expect(await store.addConnection('user-1', 'socket-c')).toBe(true);
+    expect(await store.getStatus('user-1')).toEqual({ online: true });
+  });
+
+  it('isole les utilisateurs entre eux', async () => {
+    await store.addConnection('user-1', 'socket-a');
+
+    expect((await store.getStatus('user-2')).online).toBe(false);
+  });
+});
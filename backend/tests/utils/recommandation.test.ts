@@ -0,0 +1,187 @@
+// backend/tests/utils/recommandation.test.ts
+// TESTS DU PROFIL D'INTÉRÊTS ET DU CLASSEMENT DES RECOMMANDATIONS
+
+import { buildProfilInteret, rankCandidats, scoreCandidat } from '../../src/utils/recommandation';
+import type { CandidatRecommandation, ProfilInteret, SignalInteret } from '../../src/utils/recommandation';
+
+const JOUR_MS = 24 * 60 * 60 * 1000;
+const maintenant = new Date('2024-12-20T12:00:00Z');
+
+const ilYa = (jours: number) => new Date(maintenant.getTime() - jours * JOUR_MS);
+
+const profilVide = (): ProfilInteret => ({
+  poidsTotal: 0,
+  categories: {},
+  sousCategories: {},
+  regions: {},
+  communes: {},
+  prix: {},
+  position: null
+});
+
+const candidat = (id: string, valeurs: Partial<CandidatRecommandation> = {}): CandidatRecommandation => ({
+  id,
+  categorie: 'Électronique',
+  sousCategorie: null,
+  prix: 100000,
+  region: 'Abidjan',
+  commune: 'Cocody',
+  latitude: null,
+  longitude: null,
+  datePublication: maintenant,
+  ...valeurs
+});
+
+describe('buildProfilInteret', () => {
+  it('pondère chaque signal selon son type', () => {
+    const signaux: SignalInteret[] = [
+      { type: 'vue', date: maintenant, categorie: 'Véhicules' },
+      { type: 'favori', date: maintenant, categorie: 'Mode' },
+      { type: 'message', date: maintenant, categorie: 'Immobilier' },
+      { type: 'recherche', date: maintenant, categorie: 'Emploi' }
+    ];
+
+    const profil = buildProfilInteret(signaux, maintenant);
+
+    expect(profil.poidsTotal).toBeCloseTo(13);
+    expect(profil.categories['Immobilier']).toBeCloseTo(1);
+    expect(profil.categories['Emploi']).toBeCloseTo(4 / 5);
+    expect(profil.categories['Mode']).toBeCloseTo(3 / 5);
+    expect(profil.categories['Véhicules']).toBeCloseTo(1 / 5);
+  });
+
+  it('divise le poids par deux toutes les deux semaines d\'ancienneté', () => {
+    const profil = buildProfilInteret([
+      { type: 'favori', date: maintenant, categorie: 'Mode' },
+      { type: 'favori', date: ilYa(14), categorie: 'Véhicules' },
+      { type: 'favori', date: ilYa(28), categorie: 'Immobilier' }
+    ], maintenant);
+
+    expect(profil.poidsTotal).toBeCloseTo(3 + 1.5 + 0.75);
+    expect(profil.categories['Véhicules']).toBeCloseTo(0.5);
+    expect(profil.categories['Immobilier']).toBeCloseTo(0.25);
+  });
+
+  it('majore les vues longues', () => {
+    const profil = buildProfilInteret([
+      { type: 'vue', date: maintenant, categorie: 'Mode', dureeVisite: 45 },
+      { type: 'vue', date: maintenant, categorie: 'Véhicules', dureeVisite: 5 }
+    ], maintenant);
+
+    expect(profil.poidsTotal).toBeCloseTo(2.5);
+    expect(profil.categories['Véhicules']).toBeCloseTo(1 / 1.5);
+  });
+
+  it('calcule le prix habituel et la position pondérés', () => {
+    const profil = buildProfilInteret([
+      { type: 'vue', date: maintenant, categorie: 'Mode', prix: 10000, latitude: 5.3, longitude: -4 },
+      { type: 'vue', date: maintenant, categorie: 'Mode', prix: 10000, latitude: 5.4, longitude: -4.1 }
+    ], maintenant);
+
+    expect(profil.prix['Mode']!.moyenneLog).toBeCloseTo(Math.log(10000));
+    expect(profil.prix['Mode']!.ecartLog).toBeCloseTo(0.4); // Écart minimal
+    expect(profil.position!.latitude).toBeCloseTo(5.35);
+    expect(profil.position!.longitude).toBeCloseTo(-4.05);
+  });
+
+  it('sans signal, retourne un profil vide', () => {
+    expect(buildProfilInteret([], maintenant)).toEqual(profilVide());
+  });
+});
+
+describe('scoreCandidat', () => {
+  it('favorise un prix proche du prix habituel de la catégorie', () => {
+    const profil = {
+      ...profilVide(),
+      prix: { 'Électronique': { moyenneLog: Math.log(100000), ecartLog: 0.4 } }
+    };
+
+    const habituel = scoreCandidat(profil, candidat('a', { prix: 100000 }), maintenant);
+    const tropCher = scoreCandidat(profil, candidat('b', { prix: 1000000 }), maintenant);
+
+    expect(habituel.score).toBeGreaterThan(tropCher.score);
+    expect(habituel.motifs).toContain('prix');
+    expect(tropCher.motifs).not.toContain('prix');
+  });
+
+  it('reste neutre sur le prix sans historique dans la catégorie', () => {
+    const profil = {
+      ...profilVide(),
+      prix: { 'Mode': { moyenneLog: Math.log(100000), ecartLog: 0.4 } }
+    };
+
+    const recommandation = scoreCandidat(profil, candidat('a', { datePublication: null }), maintenant);
+
+    expect(recommandation.score).toBeCloseTo(0.2 * 0.5);
+    expect(recommandation.motifs).not.toContain('prix');
+  });
+
+  it('mesure la proximité par la distance quand le profil et l\'annonce sont localisés', () => {
+    const profil = { ...profilVide(), position: { latitude: 5.35, longitude: -4.0 } };
+
+    const proche = scoreCandidat(profil, candidat('a', { latitude: 5.35, longitude: -4.0 }), maintenant);
+    const loin = scoreCandidat(profil, candidat('b', { latitude: 7.69, longitude: -5.03 }), maintenant); // Bouaké
+
+    expect(proche.motifs).toContain('proximite');
+    expect(loin.motifs).not.toContain('proximite');
+  });
+
+  it('se rabat sur la région et la commune sans coordonnées', () => {
+    const profil = {
+      ...profilVide(),
+      position: { latitude: 5.35, longitude: -4.0 },
+      regions: { 'Abidjan': 1, 'Yamoussoukro': 0.5 },
+      communes: { 'Cocody': 1 }
+    };
+    const sansDate = { datePublication: null };
+
+    const memeCommune = scoreCandidat(profil, candidat('a', sansDate), maintenant);
+    const memeRegion = scoreCandidat(profil, candidat('b', { ...sansDate, commune: 'Yopougon' }), maintenant);
+    const autreRegion = scoreCandidat(profil, candidat('c', { ...sansDate, region: 'Yamoussoukro', commune: 'Attiégouakro' }), maintenant);
+
+    expect(memeCommune.score).toBeCloseTo(0.2 * 0.5 + 0.25);
+    expect(memeRegion.score).toBeCloseTo(0.2 * 0.5 + 0.25 * 0.7);
+    expect(autreRegion.score).toBeCloseTo(0.2 * 0.5 + 0.25 * 0.35);
+    expect(memeCommune.motifs).toEqual(['proximite']);
+    expect(memeRegion.motifs).toEqual(['proximite']);
+    expect(autreRegion.motifs).toEqual([]);
+  });
+});
+
+describe('rankCandidats', () => {
+  const profil = { ...profilVide(), categories: { 'Électronique': 1, 'Mode': 0.5 } };
+
+  it('limite une même catégorie à la moitié de la liste', () => {
+    const candidats = [
+      candidat('e1'), candidat('e2'), candidat('e3'), candidat('e4'),
+      candidat('m1', { categorie: 'Mode' }), candidat('m2', { categorie: 'Mode' })
+    ];
+
+    const ids = rankCandidats(profil, candidats, maintenant, 4).map(recommandation => recommandation.id);
+
+    expect(ids).toEqual(['e1', 'e2', 'm1', 'm2']);
+  });
+
+  it('complète avec la catégorie dominante faute d\'autres candidats', () => {
+    const candidats = [
+      candidat('e1'), candidat('e2'), candidat('e3'), candidat('e4'),
+      candidat('m1', { categorie: 'Mode' })
+    ];
+
+    const ids = rankCandidats(profil, candidats, maintenant, 4).map(recommandation => recommandation.id);
+
+    expect(ids).toEqual(['e1', 'e2', 'm1', 'e3']);
+  });
+
+  it('départage les scores égaux par identifiant', () => {
+    const candidats = [
+      candidat('b', { datePublication: ilYa(1), categorie: 'Mode' }),
+      candidat('c', { datePublication: ilYa(1), categorie: 'Mode' }),
+      candidat('a', { datePublication: ilYa(1), categorie: 'Mode' })
+    ];
+
+    const ids = rankCandidats(profilVide(), candidats, maintenant, 3).map(recommandation => recommandation.id);
+
+    expect(ids).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -14,6 +14,13 @@ export enum UserStatus {
   PENDING_VERIFICATION = 'PENDING_VERIFICATION'
 }
 
+export enum UserRole {
+  USER = 'USER',
+  MODERATOR = 'MODERATOR',
+  ADMIN = 'ADMIN',
+  SUPPORT = 'SUPPORT'
+}
+
 export enum Gender {
   MALE = 'MALE',
   FEMALE = 'FEMALE',
@@ -27,7 +34,8 @@ export enum StatutAnnonce {
   VENDUE = 'VENDUE',
   EXPIREE = 'EXPIREE',
   SUSPENDUE = 'SUSPENDUE',
-  SUPPRIMEE = 'SUPPRIMEE'
+  SUPPRIMEE = 'SUPPRIMEE',
+  EN_MODERATION = 'EN_MODERATION' // Masquée automatiquement après signalements
 }
 
 export enum EtatProduit {
@@ -55,46 +63,57 @@ export enum MethodePaiement {
   VIREMENT = 'VIREMENT'
 }
 
-// ==============================================
-// RÉGIONS ET GÉOLOCALISATION CÔTE D'IVOIRE
-// ==============================================
+export enum StatutPaiement {
+  EN_ATTENTE = 'EN_ATTENTE',
+  VALIDE = 'VALIDE',
+  ECHOUE = 'ECHOUE',
+  REMBOURSE = 'REMBOURSE',
+  ANNULE = 'ANNULE'
+}
 
-export const REGIONS_COTE_IVOIRE = {
-  'abidjan': {
-    nom: 'Abidjan',
-    communes: [
-      'Abobo', 'Adjamé', 'Attécoubé', 'Cocody', 'Koumassi',
-      'Marcory', 'Plateau', 'Port-Bouët', 'Treichville', 'Yopougon',
-      'Bingerville', 'Songon'
-    ]
-  },
-  'bouake': {
-    nom: 'Bouaké',
-    communes: ['Bouaké', 'Béoumi', 'Bodokro', 'Botro', 'Kondé', 'Sakassou']
-  },
-  'yamoussoukro': {
-    nom: 'Yamoussoukro',
-    communes: ['Yamoussoukro', 'Attiégouakro', 'Toumodi']
-  },
-  'daloa': {
-    nom: 'Daloa',
-    communes: ['Daloa', 'Issia', 'Vavoua', 'Zuénoula']
-  },
-  'san-pedro': {
-    nom: 'San-Pédro',
-    communes: ['San-Pédro', 'Sassandra', 'Soubré', 'Tabou']
-  },
-  'korhogo': {
-    nom: 'Korhogo',
-    communes: ['Korhogo', 'Boundiali', 'Ferkessédougou', 'Sinématiali']
-  },
-  'man': {
-    nom: 'Man',
-    communes: ['Man', 'Biankouma', 'Danané', 'Sipilou']
-  }
-} as const;
+export enum TypePaiement {
+  BOOST_ANNONCE = 'BOOST_ANNONCE',
+  ANNONCE_PREMIUM = 'ANNONCE_PREMIUM',
+  ABONNEMENT = 'ABONNEMENT',
+  COMMISSION_VENTE = 'COMMISSION_VENTE'
+}
+
+export enum TypeAbonnement {
+  BASIC = 'BASIC',
+  PRO = 'PRO',
+  PREMIUM = 'PREMIUM',
+  ENTERPRISE = 'ENTERPRISE'
+}
+
+export enum StatutAbonnement {
+  ACTIF = 'ACTIF',
+  EXPIRE = 'EXPIRE',
+  SUSPENDU = 'SUSPENDU',
+  ANNULE = 'ANNULE'
+}
 
-export type RegionCode = keyof typeof REGIONS_COTE_IVOIRE;
+export enum FrequenceAlerte {
+  INSTANTANEE = 'INSTANTANEE',
+  QUOTIDIENNE = 'QUOTIDIENNE',
+  HEBDOMADAIRE = 'HEBDOMADAIRE'
+}
+
+export enum MotifSignalement {
+  CONTENU_INAPPROPRIE = 'CONTENU_INAPPROPRIE',
+  FAUSSE_ANNONCE = 'FAUSSE_ANNONCE',
+  PRIX_SUSPECT = 'PRIX_SUSPECT',
+  SPAM = 'SPAM',
+  ARNAQUE = 'ARNAQUE',
+  PRODUIT_ILLEGAL = 'PRODUIT_ILLEGAL',
+  AUTRE = 'AUTRE'
+}
+
+export enum StatutSignalement {
+  EN_ATTENTE = 'EN_ATTENTE',
+  EN_COURS = 'EN_COURS',
+  TRAITE = 'TRAITE',
+  REJETE = 'REJETE'
+}
 
 // ==============================================
 // CATÉGORIES SPÉCIALISÉES CÔTE D'IVOIRE
@@ -213,6 +232,96 @@ export const CATEGORIES_CI = {
 
 export type CategorieCode = keyof typeof CATEGORIES_CI;
 
+// ==============================================
+// ATTRIBUTS TYPÉS DES CATÉGORIES
+// ==============================================
+
+export type TypeAttribut = 'nombre' | 'enum' | 'booleen' | 'texte';
+
+export interface AttributCategorie {
+  type: TypeAttribut;
+  libelle: string;
+  unite?: string;
+  entier?: boolean;
+  min?: number;
+  max?: number;
+  valeurs?: readonly string[]; // Type enum
+  longueurMax?: number; // Type texte (100 par défaut)
+}
+
+type AttributsCategorie<C extends CategorieCode> = Record<
+  (typeof CATEGORIES_CI)[C]['champsSpecifiques'][number],
+  AttributCategorie
+>;
+
+const ATTRIBUT_ETAT: AttributCategorie = { type: 'enum', libelle: 'État', valeurs: Object.values(EtatProduit) };
+const ATTRIBUT_EXPERIENCE: AttributCategorie = { type: 'nombre', libelle: 'Expérience', unite: 'ans', entier: true, min: 0, max: 60 };
+
+// Un schéma par catégorie : chaque champ de champsSpecifiques y est typé
+export const ATTRIBUTS_CATEGORIES: { [C in CategorieCode]: AttributsCategorie<C> } = {
+  'immobilier': {
+    superficie: { type: 'nombre', libelle: 'Superficie', unite: 'm²', min: 1, max: 1000000 },
+    nombreChambres: { type: 'nombre', libelle: 'Nombre de chambres', entier: true, min: 0, max: 50 },
+    nombreSallesBain: { type: 'nombre', libelle: 'Nombre de salles de bain', entier: true, min: 0, max: 20 },
+    parking: { type: 'booleen', libelle: 'Parking' },
+    jardin: { type: 'booleen', libelle: 'Jardin' }
+  },
+  'vehicules': {
+    marque: { type: 'texte', libelle: 'Marque', longueurMax: 50 },
+    modele: { type: 'texte', libelle: 'Modèle', longueurMax: 50 },
+    annee: { type: 'nombre', libelle: 'Année', entier: true, min: 1950, max: new Date().getFullYear() + 1 },
+    kilometrage: { type: 'nombre', libelle: 'Kilométrage', unite: 'km', entier: true, min: 0, max: 2000000 },
+    carburant: { type: 'enum', libelle: 'Carburant', valeurs: ['essence', 'diesel', 'hybride', 'electrique', 'gpl'] },
+    transmission: { type: 'enum', libelle: 'Transmission', valeurs: ['manuel', 'automatique'] }
+  },
+  'electronique': {
+    marque: { type: 'texte', libelle: 'Marque', longueurMax: 50 },
+    modele: { type: 'texte', libelle: 'Modèle', longueurMax: 50 },
+    etat: ATTRIBUT_ETAT,
+    garantie: { type: 'booleen', libelle: 'Garantie' },
+    accessoires: { type: 'texte', libelle: 'Accessoires', longueurMax: 200 }
+  },
+  'mode-beaute': {
+    taille: { type: 'texte', libelle: 'Taille', longueurMax: 20 },
+    couleur: { type: 'texte', libelle: 'Couleur', longueurMax: 30 },
+    matiere: { type: 'texte', libelle: 'Matière', longueurMax: 50 },
+    marque: { type: 'texte', libelle: 'Marque', longueurMax: 50 }
+  },
+  'services': {
+    tarif: { type: 'nombre', libelle: 'Tarif', unite: 'FCFA', min: 0, max: 100000000 },
+    disponibilite: { type: 'texte', libelle: 'Disponibilité' },
+    zone: { type: 'texte', libelle: 'Zone d\'intervention' },
+    experience: ATTRIBUT_EXPERIENCE
+  },
+  'emploi': {
+    salaire: { type: 'nombre', libelle: 'Salaire', unite: 'FCFA', min: 0, max: 100000000 },
+    experience: ATTRIBUT_EXPERIENCE,
+    diplome: {
+      type: 'enum',
+      libelle: 'Diplôme',
+      valeurs: ['aucun', 'cepe', 'bepc', 'bac', 'bts', 'licence', 'master', 'doctorat']
+    },
+    langues: { type: 'texte', libelle: 'Langues' }
+  },
+  'maison-jardin': {
+    dimensions: { type: 'texte', libelle: 'Dimensions', longueurMax: 50 },
+    matiere: { type: 'texte', libelle: 'Matière', longueurMax: 50 },
+    couleur: { type: 'texte', libelle: 'Couleur', longueurMax: 30 },
+    etat: ATTRIBUT_ETAT
+  },
+  'loisirs': {
+    discipline: { type: 'texte', libelle: 'Discipline', longueurMax: 50 },
+    niveau: { type: 'enum', libelle: 'Niveau', valeurs: ['debutant', 'intermediaire', 'avance', 'professionnel'] },
+    age: { type: 'nombre', libelle: 'Âge conseillé', unite: 'ans', entier: true, min: 0, max: 99 },
+    etat: ATTRIBUT_ETAT
+  }
+};
+
+// Attributs du référentiel statique (données initiales de la table categories)
+export function getAttributsCategorie(categorie: string): Record<string, AttributCategorie> {
+  return ATTRIBUTS_CATEGORIES[categorie as CategorieCode] || {};
+}
+
 // ==============================================
 // SCHEMAS DE VALIDATION ZOD
 // ==============================================
@@ -239,6 +348,150 @@ export const loginSchema = z.object({
   rememberMe: z.boolean().default(false)
 });
 
+// Valeur d'un attribut de catégorie, saisie dans un formulaire ("2015", "oui") ou en JSON.
+// Une saisie vide équivaut à un attribut non renseigné
+function attributSchema(attribut: AttributCategorie): z.ZodTypeAny {
+  const { libelle, unite } = attribut;
+  const suffixe = unite ? ` ${unite}` : '';
+  const vide = (value: unknown) => value === '' || value === null ? undefined : value;
+
+  switch (attribut.type) {
+    case 'nombre': {
+      let schema = z.number({ invalid_type_error: `${libelle} doit être un nombre` });
+      if (attribut.entier) schema = schema.int(`${libelle} doit être un nombre entier`);
+      if (attribut.min !== undefined) schema = schema.min(attribut.min, `${libelle} min ${attribut.min}${suffixe}`);
+      if (attribut.max !== undefined) schema = schema.max(attribut.max, `${libelle} max ${attribut.max}${suffixe}`);
+
+      return z.preprocess(value => {
+        if (typeof value !== 'string') return vide(value);
+        const texte = value.replace(/\s/g, '').replace(',', '.');
+        return texte === '' ? undefined : Number(texte);
+      }, schema.optional());
+    }
+
+    case 'booleen':
+      return z.preprocess(value => {
+        if (typeof value !== 'string') return vide(value);
+        const texte = value.trim().toLowerCase();
+        if (['true', 'oui', '1'].includes(texte)) return true;
+        if (['false', 'non', '0'].includes(texte)) return false;
+        return vide(texte);
+      }, z.boolean({ invalid_type_error: `${libelle} doit valoir oui ou non` }).optional());
+
+    case 'enum': {
+      const valeurs = attribut.valeurs || [];
+      return z.preprocess(value => {
+        if (typeof value !== 'string') return vide(value);
+        const texte = value.trim().toLowerCase();
+        return valeurs.find(valeur => valeur.toLowerCase() === texte) ?? vide(value.trim());
+      }, z.string().refine(value => valeurs.includes(value), {
+        message: `${libelle} : valeurs acceptées ${valeurs.join(', ')}`
+      }).optional());
+    }
+
+    default:
+      return z.preprocess(
+        value => typeof value === 'string' ? vide(value.trim()) : vide(value),
+        z.string({ invalid_type_error: `${libelle} doit être un texte` })
+          .max(attribut.longueurMax ?? 100, `${libelle} trop long`)
+          .optional()
+      );
+  }
+}
+
+/**
+ * Propriétés d'une annonce typées selon les attributs de sa catégorie
+ * (champsPersonnalises en base). Les clés hors du schéma sont ignorées
+ */
+export function proprietesSchema(attributs: Record<string, AttributCategorie>) {
+  const shape = Object.fromEntries(
+    Object.entries(attributs).map(([champ, attribut]) => [champ, attributSchema(attribut)])
+  );
+  return z.object(shape);
+}
+
+// Filtre sur un attribut : une des valeurs, bornes numériques incluses, ou texte contenu
+export interface FiltreAttribut {
+  valeurs?: (string | number | boolean)[];
+  min?: number;
+  max?: number;
+  contient?: string;
+}
+
+export type FiltresAttributs = Record<string, FiltreAttribut>;
+
+/**
+ * Filtres d'attributs reçus en query string :
+ * attributs[transmission]=automatique, attributs[carburant]=essence,diesel,
+ * attributs[annee][min]=2015, attributs[superficie][min]=100&attributs[superficie][max]=300
+ */
+export function filtresAttributsSchema(attributs: Record<string, AttributCategorie>) {
+  const entree = z.union([
+    z.string(),
+    z.array(z.string()),
+    z.object({ min: z.string().optional(), max: z.string().optional() }).strict('Bornes acceptées : min et max')
+  ]);
+
+  return z.record(entree).transform((entrees, ctx) => {
+    const filtres: FiltresAttributs = {};
+
+    for (const [champ, valeur] of Object.entries(entrees)) {
+      const attribut = attributs[champ];
+      if (!attribut) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [champ], message: 'Attribut inconnu pour cette catégorie' });
+        continue;
+      }
+
+      const schema = attributSchema(attribut);
+      const lire = (texte: string, path: (string | number)[]) => {
+        const result = schema.safeParse(texte);
+        if (!result.success || result.data === undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path,
+            message: result.success ? `${attribut.libelle} : valeur requise` : result.error.errors[0]!.message
+          });
+          return undefined;
+        }
+        return result.data as string | number | boolean;
+      };
+
+      if (typeof valeur === 'string' && attribut.type === 'texte') {
+        const texte = valeur.trim();
+        if (texte) filtres[champ] = { contient: texte };
+        continue;
+      }
+
+      if (typeof valeur === 'string' || Array.isArray(valeur)) {
+        const saisies = (Array.isArray(valeur) ? valeur : valeur.split(',')).filter(saisie => saisie.trim());
+        const valeurs = saisies.map((saisie, index) => lire(saisie, [champ, index]));
+        filtres[champ] = { valeurs: valeurs.filter((v): v is string | number | boolean => v !== undefined) };
+        continue;
+      }
+
+      if (attribut.type !== 'nombre') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [champ], message: `${attribut.libelle} : bornes réservées aux attributs numériques` });
+        continue;
+      }
+
+      const min = valeur.min !== undefined ? lire(valeur.min, [champ, 'min']) as number | undefined : undefined;
+      const max = valeur.max !== undefined ? lire(valeur.max, [champ, 'max']) as number | undefined : undefined;
+
+      if (min !== undefined && max !== undefined && min > max) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [champ, 'min'], message: `${attribut.libelle} : min supérieur à max` });
+        continue;
+      }
+
+      filtres[champ] = {
+        ...(min !== undefined && { min }),
+        ...(max !== undefined && { max })
+      };
+    }
+
+    return filtres;
+  });
+}
+
 // Schema annonce
 export const annonceSchema = z.object({
   titre: z.string().min(5, 'Titre min 5 caractères').max(200),
@@ -255,7 +508,7 @@ export const annonceSchema = z.object({
   images: z.array(z.string().url()).max(10, 'Maximum 10 images'),
   tags: z.array(z.string()).max(20).default([]),
   etat: z.nativeEnum(EtatProduit).optional(),
-  proprietes: z.record(z.any()).default({})
+  proprietes: z.record(z.any()).default({}) // Typées par proprietesSchema selon la catégorie
 });
 
 // Schema message
@@ -267,6 +520,58 @@ export const messageSchema = z.object({
   fichiers: z.array(z.string().url()).max(5).default([])
 });
 
+// Schema avis
+export const avisSchema = z.object({
+  annonceId: z.string().cuid(),
+  note: z.number().int().min(1, 'Note min 1').max(5, 'Note max 5'),
+  commentaire: z.string().max(1000).optional(),
+  communication: z.number().int().min(1).max(5).optional(),
+  ponctualite: z.number().int().min(1).max(5).optional(),
+  description: z.number().int().min(1).max(5).optional()
+});
+
+// Schema signalement (les preuves arrivent en multipart)
+export const signalementSchema = z.object({
+  motif: z.nativeEnum(MotifSignalement),
+  description: z.string().max(1000, 'Description trop longue').optional()
+});
+
+// Schema décision de modération
+export const decisionSignalementSchema = z.object({
+  statut: z.enum([StatutSignalement.TRAITE, StatutSignalement.REJETE]),
+  suspendreAnnonce: z.boolean().default(false),
+  commentaire: z.string().max(1000).optional()
+});
+
+// Schema boost payant
+export const boostSchema = z.object({
+  type: z.enum(['premium', 'promue', 'urgente']),
+  methode: z.enum([
+    MethodePaiement.ORANGE_MONEY,
+    MethodePaiement.WAVE,
+    MethodePaiement.MOOV_MONEY,
+    MethodePaiement.STRIPE
+  ]),
+  numeroTelephone: z.string().regex(/^(\+225|00225|225)?[0-9]{8,10}$/, 'Numéro ivoirien invalide').optional()
+}).refine(
+  data => data.methode === MethodePaiement.STRIPE || !!data.numeroTelephone,
+  { message: 'Numéro de téléphone requis pour le paiement mobile', path: ['numeroTelephone'] }
+);
+
+// Schema souscription / renouvellement d'abonnement
+export const abonnementSchema = z.object({
+  methode: z.enum([
+    MethodePaiement.ORANGE_MONEY,
+    MethodePaiement.WAVE,
+    MethodePaiement.MOOV_MONEY,
+    MethodePaiement.STRIPE
+  ]),
+  numeroTelephone: z.string().regex(/^(\+225|00225|225)?[0-9]{8,10}$/, 'Numéro ivoirien invalide').optional()
+}).refine(
+  data => data.methode === MethodePaiement.STRIPE || !!data.numeroTelephone,
+  { message: 'Numéro de téléphone requis pour le paiement mobile', path: ['numeroTelephone'] }
+);
+
 // Schema recherche
 export const searchSchema = z.object({
   q: z.string().optional(),
@@ -277,9 +582,240 @@ export const searchSchema = z.object({
   prixMin: z.number().positive().optional(),
   prixMax: z.number().positive().optional(),
   etat: z.nativeEnum(EtatProduit).optional(),
-  tri: z.enum(['recent', 'prix_asc', 'prix_desc', 'pertinence']).default('recent'),
+  tri: z.enum(['recent', 'prix_asc', 'prix_desc', 'pertinence', 'distance']).default('recent'),
   page: z.number().positive().default(1),
-  limite: z.number().positive().max(50).default(20)
+  limite: z.number().positive().max(50).default(20),
+  // Défilement infini : curseur opaque renvoyé dans meta.pagination.nextCursor
+  pagination: z.enum(['page', 'curseur']).default('page'),
+  curseur: z.string().max(500).optional(),
+  totalApproximatif: z.boolean().default(false), // Mode page : total mis en cache, sans count() à chaque page
+  // Autour de moi
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  rayon: z.number().min(1).max(100).optional(), // km
+  // Attributs de la catégorie, typés par filtresAttributsSchema
+  attributs: z.record(z.unknown()).optional()
+}).refine(data => !data.attributs || !!data.categorie, {
+  message: 'Catégorie requise pour filtrer sur ses attributs',
+  path: ['attributs']
+}).refine(data => (data.latitude === undefined) === (data.longitude === undefined), {
+  message: 'Latitude et longitude doivent être fournies ensemble',
+  path: ['latitude']
+}).refine(data => (data.tri !== 'distance' && data.rayon === undefined) || data.latitude !== undefined, {
+  message: 'Position requise pour le tri par distance ou la recherche par rayon',
+  path: ['latitude']
+});
+
+// Listes personnelles (mes annonces, favoris) : par page ou par curseur
+export const paginationSchema = z.object({
+  page: z.number().int().positive().default(1),
+  limite: z.number().int().positive().max(50).default(20),
+  pagination: z.enum(['page', 'curseur']).default('page'),
+  curseur: z.string().max(500).optional()
+});
+
+// Autocomplétion de la barre de recherche
+export const suggestionsSchema = z.object({
+  q: z.string().trim().min(2, 'Au moins 2 caractères').max(100),
+  limite: z.number().int().min(1).max(20).default(10),
+  soumise: z.boolean().default(false) // Requête validée (Entrée) : correction orthographique
+});
+
+// Durée de visite d'une annonce, envoyée à la fermeture de la page (secondes)
+export const dureeVisiteSchema = z.object({
+  dureeVisite: z.number().int().min(1).max(24 * 60 * 60)
+});
+
+// Fil « Pour vous » : région des visiteurs anonymes (à défaut, celle du profil)
+export const recommandationsSchema = z.object({
+  limite: z.number().int().min(1).max(50).default(20),
+  region: z.string().trim().min(1).optional()
+});
+
+// Fil Tendances, par région et/ou catégorie
+export const tendancesSchema = z.object({
+  limite: z.number().int().min(1).max(50).default(20),
+  region: z.string().trim().min(1).optional(),
+  categorie: z.string().trim().min(1).optional()
+});
+
+// Affichage d'une coordonnée du vendeur
+export const contactAnnonceSchema = z.object({
+  canal: z.enum(['telephone', 'whatsapp', 'email'])
+});
+
+// Statistiques vendeur : jours UTC (heure d'Abidjan), 30 derniers jours par défaut
+export const periodeStatistiquesSchema = z.object({
+  debut: z.coerce.date().optional(),
+  fin: z.coerce.date().optional(),
+  granularite: z.enum(['jour', 'semaine', 'mois']).default('jour')
+}).refine(data => !data.debut || !data.fin || data.debut <= data.fin, {
+  message: 'La date de début doit précéder la date de fin',
+  path: ['debut']
+});
+
+// Géocodage d'une adresse et géocodage inverse d'une position GPS
+export const geocodageSchema = z.object({
+  region: z.string().trim().min(1, 'Région requise'),
+  commune: z.string().trim().min(1, 'Commune requise'),
+  quartier: z.string().trim().optional()
+});
+
+export const positionSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180)
+});
+
+// Filtres mémorisés d'une recherche sauvegardée
+const filtresAlerteSchema = z.object({
+  q: z.string().trim().min(2).max(100).optional(),
+  categorie: z.string().optional(),
+  sousCategorie: z.string().optional(),
+  region: z.string().optional(),
+  commune: z.string().optional(),
+  prixMin: z.number().nonnegative().optional(),
+  prixMax: z.number().positive().optional(),
+  etat: z.nativeEnum(EtatProduit).optional()
+}).refine(
+  filtres => Object.values(filtres).some(value => value !== undefined),
+  { message: 'Au moins un critère de recherche est requis' }
+).refine(
+  filtres => !filtres.prixMin || !filtres.prixMax || filtres.prixMin <= filtres.prixMax,
+  { message: 'Le prix minimum doit être inférieur au prix maximum', path: ['prixMin'] }
+);
+
+// Schema recherche sauvegardée
+export const rechercheSauvegardeeSchema = z.object({
+  nom: z.string().trim().min(2, 'Nom trop court').max(100, 'Nom trop long'),
+  filtres: filtresAlerteSchema,
+  frequence: z.nativeEnum(FrequenceAlerte).default(FrequenceAlerte.INSTANTANEE)
+});
+
+export const updateRechercheSauvegardeeSchema = z.object({
+  nom: z.string().trim().min(2, 'Nom trop court').max(100, 'Nom trop long').optional(),
+  frequence: z.nativeEnum(FrequenceAlerte).optional(),
+  active: z.boolean().optional()
+});
+
+// Attribut d'une catégorie administrable (élément de Categorie.champsPersonnalises)
+export const champPersonnaliseSchema = z.object({
+  cle: z.string().regex(/^[a-z][a-zA-Z0-9]{0,49}$/, 'Clé en camelCase (ex. nombreChambres)'),
+  type: z.enum(['nombre', 'enum', 'booleen', 'texte']),
+  libelle: z.string().trim().min(1, 'Libellé requis').max(100),
+  unite: z.string().trim().max(20).optional(),
+  entier: z.boolean().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  valeurs: z.array(z.string().trim().min(1).max(50)).max(50).optional(),
+  longueurMax: z.number().int().min(1).max(1000).optional()
+}).refine(champ => champ.type !== 'enum' || (champ.valeurs?.length ?? 0) > 0, {
+  message: 'Valeurs requises pour un attribut enum',
+  path: ['valeurs']
+}).refine(champ => champ.min === undefined || champ.max === undefined || champ.min <= champ.max, {
+  message: 'Le minimum doit être inférieur au maximum',
+  path: ['min']
+});
+
+const champsPersonnalisesSchema = z.array(champPersonnaliseSchema).max(30).refine(
+  champs => new Set(champs.map(champ => champ.cle)).size === champs.length,
+  { message: 'Clés d\'attributs en double' }
+);
+
+// Administration de l'arbre des catégories
+export const categorieSchema = z.object({
+  nom: z.string().trim().min(2, 'Nom trop court').max(100, 'Nom trop long'),
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug invalide (minuscules, chiffres et tirets)').max(100).optional(),
+  description: z.string().trim().max(500).optional(),
+  icone: z.string().trim().max(20).optional(),
+  image: z.string().url().optional(),
+  couleur: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Couleur hexadécimale attendue (#RRGGBB)').optional(),
+  parentId: z.string().cuid().optional(),
+  champsPersonnalises: champsPersonnalisesSchema.default([]),
+  active: z.boolean().default(true)
+});
+
+// Le slug est figé : les annonces y font référence
+export const updateCategorieSchema = z.object({
+  nom: z.string().trim().min(2, 'Nom trop court').max(100, 'Nom trop long').optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  icone: z.string().trim().max(20).nullable().optional(),
+  image: z.string().url().nullable().optional(),
+  couleur: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Couleur hexadécimale attendue (#RRGGBB)').nullable().optional(),
+  parentId: z.string().cuid().nullable().optional(), // null : remonte à la racine
+  champsPersonnalises: champsPersonnalisesSchema.optional(),
+  active: z.boolean().optional()
+});
+
+// Nouvel ordre des catégories sœurs (racines si parentId est absent)
+export const ordreCategoriesSchema = z.object({
+  parentId: z.string().cuid().nullable().default(null),
+  ids: z.array(z.string().cuid()).min(1, 'Au moins une catégorie').max(200)
+});
+
+// Administration du référentiel géographique (table regions_ci)
+const nomLieuSchema = z.string().trim().min(2, 'Nom trop court').max(100, 'Nom trop long');
+
+const positionLieuSchema = {
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional()
+};
+
+const positionComplete = (lieu: { latitude?: number | null | undefined; longitude?: number | null | undefined }) =>
+  (lieu.latitude == null) === (lieu.longitude == null);
+
+const quartierLieuSchema = z.object({
+  nom: nomLieuSchema,
+  ...positionLieuSchema
+}).refine(positionComplete, {
+  message: 'Latitude et longitude doivent être fournies ensemble',
+  path: ['latitude']
+});
+
+const communeLieuSchema = z.object({
+  nom: nomLieuSchema,
+  ancienNom: z.string().trim().optional(), // Renommage : les annonces de la commune suivent
+  ...positionLieuSchema,
+  quartiers: z.array(quartierLieuSchema).max(300).default([])
+}).refine(positionComplete, {
+  message: 'Latitude et longitude doivent être fournies ensemble',
+  path: ['latitude']
+}).refine(commune => new Set(commune.quartiers.map(quartier => quartier.nom.toLowerCase())).size === commune.quartiers.length, {
+  message: 'Quartiers en double',
+  path: ['quartiers']
+});
+
+const communesLieuSchema = z.array(communeLieuSchema).max(300).refine(
+  communes => new Set(communes.map(commune => commune.nom.toLowerCase())).size === communes.length,
+  { message: 'Communes en double' }
+);
+
+export const regionSchema = z.object({
+  nom: nomLieuSchema,
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug invalide (minuscules, chiffres et tirets)').max(100).optional(),
+  code: z.string().trim().toUpperCase().regex(/^[A-Z]{2,4}$/, 'Code de 2 à 4 lettres attendu'),
+  ...positionLieuSchema,
+  population: z.number().int().min(0).optional(),
+  superficie: z.number().positive().optional(),
+  communes: communesLieuSchema.default([]),
+  actif: z.boolean().default(true)
+}).refine(positionComplete, {
+  message: 'Latitude et longitude doivent être fournies ensemble',
+  path: ['latitude']
+});
+
+// Le slug est figé : les annonces y font référence. communes remplace la liste complète
+export const updateRegionSchema = z.object({
+  nom: nomLieuSchema.optional(),
+  code: z.string().trim().toUpperCase().regex(/^[A-Z]{2,4}$/, 'Code de 2 à 4 lettres attendu').optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  population: z.number().int().min(0).nullable().optional(),
+  superficie: z.number().positive().nullable().optional(),
+  communes: communesLieuSchema.optional(),
+  actif: z.boolean().optional()
+}).refine(data => (data.latitude === undefined) === (data.longitude === undefined) && positionComplete(data), {
+  message: 'Latitude et longitude doivent être fournies ensemble',
+  path: ['latitude']
 });
 
 // ==============================================
@@ -300,6 +836,7 @@ export interface User {
   emailVerified: boolean;
   phoneVerified: boolean;
   status: UserStatus;
+  role: UserRole;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -313,6 +850,8 @@ export interface PublicUser {
   companyName?: string;
   region?: string;
   commune?: string;
+  emailVerified?: boolean;
+  phoneVerified?: boolean;
   noteGlobale?: number;
   nombreAvis?: number;
   membereDepuis: Date;
@@ -332,8 +871,9 @@ export interface Annonce {
   region: string;
   commune: string;
   quartier?: string;
-  telephone?: string;
+  telephone?: string; // Masqué (+225 07 •• •• •• 04) sauf pour le propriétaire
   whatsapp?: string;
+  contactMasque?: boolean; // Numéros complets via POST /api/annonces/:id/contact
   statut: StatutAnnonce;
   premium: boolean;
   promue: boolean;
@@ -350,6 +890,111 @@ export interface Annonce {
   dateExpiration?: Date;
   createdAt: Date;
   updatedAt: Date;
+  distance?: number; // km, si la position de l'utilisateur est connue
+  pertinence?: number; // Rang plein texte (recherche avec q)
+  extraits?: ExtraitsRecherche;
+  recommandation?: RecommandationAnnonce; // Fil « Pour vous »
+  tendance?: IndicateursTendance; // Fil Tendances
+}
+
+// Passages correspondant à la recherche, termes entourés de <mark>
+export interface ExtraitsRecherche {
+  titre: string;
+  description: string;
+}
+
+// Raisons d'une recommandation, affichables à l'utilisateur
+export type MotifRecommandation = 'categorie' | 'prix' | 'proximite' | 'nouveaute' | 'tendance';
+
+export interface RecommandationAnnonce {
+  score: number; // Entre 0 et 1
+  motifs: MotifRecommandation[];
+}
+
+// Engagement récent d'une annonce (7 derniers jours), recalculé périodiquement
+export interface IndicateursTendance {
+  score: number;
+  vues24h: number;
+  vues7j: number;
+  favoris24h: number;
+  favoris7j: number;
+  messages24h: number; // Conversations ouvertes par des acheteurs
+  messages7j: number;
+  calculeAt: Date;
+}
+
+export type TypeSuggestion = 'requete' | 'titre' | 'mot' | 'sousCategorie' | 'marque' | 'modele';
+
+export interface Suggestion {
+  texte: string;
+  type: TypeSuggestion;
+  frequence: number; // Recherches passées ou annonces actives concernées
+}
+
+export interface SuggestionsRecherche {
+  q: string;
+  suggestions: Suggestion[];
+  correction?: string; // "Vouliez-vous dire…" si la requête soumise ne donne aucun résultat
+}
+
+export type PrecisionGeocodage = 'quartier' | 'commune' | 'region';
+
+export interface Geolocalisation {
+  latitude: number;
+  longitude: number;
+  precision: PrecisionGeocodage;
+  region: string; // Slug de la région (ex. 'san-pedro')
+  regionNom: string;
+  commune?: string;
+  quartier?: string;
+  distanceKm?: number; // Géocodage inverse : distance au lieu retenu
+}
+
+export interface ChampPersonnalise extends AttributCategorie {
+  cle: string;
+}
+
+// Nœud de l'arbre des catégories (table categories)
+export interface CategorieNoeud {
+  id: string;
+  nom: string;
+  slug: string;
+  description?: string;
+  icone?: string;
+  image?: string;
+  couleur?: string;
+  parentId?: string;
+  ordre: number;
+  active: boolean;
+  champsPersonnalises: ChampPersonnalise[];
+  sousCategories: CategorieNoeud[];
+}
+
+// Référentiel géographique (table regions_ci)
+export interface QuartierNoeud {
+  nom: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface CommuneNoeud {
+  nom: string;
+  latitude?: number;
+  longitude?: number;
+  quartiers: QuartierNoeud[];
+}
+
+export interface RegionNoeud {
+  id: string;
+  nom: string;
+  slug: string; // Valeur stockée dans annonce.region
+  code: string;
+  latitude?: number;
+  longitude?: number;
+  population?: number;
+  superficie?: number;
+  actif: boolean;
+  communes: CommuneNoeud[];
 }
 
 export interface Message {
@@ -376,6 +1021,50 @@ export interface Conversation {
   updatedAt: Date;
 }
 
+export interface Avis {
+  id: string;
+  userId: string;
+  evaluateurId: string;
+  annonceId: string;
+  note: number;
+  commentaire?: string;
+  communication?: number;
+  ponctualite?: number;
+  description?: number;
+  reponse?: string;
+  reponseAt?: Date;
+  createdAt: Date;
+  evaluateur: PublicUser;
+  annonce?: Pick<Annonce, 'id' | 'titre'>;
+}
+
+export interface Signalement {
+  id: string;
+  annonceId: string;
+  userId: string;
+  motif: MotifSignalement;
+  description?: string;
+  preuves: string[];
+  statut: StatutSignalement;
+  createdAt: Date;
+  traitePar?: string;
+  traiteAt?: Date;
+  annonce?: Pick<Annonce, 'id' | 'titre' | 'statut' | 'userId'>;
+  user?: PublicUser;
+}
+
+export interface RechercheSauvegardee {
+  id: string;
+  userId: string;
+  nom: string;
+  filtres: SearchFilters;
+  frequence: FrequenceAlerte;
+  active: boolean;
+  derniereNotification?: Date;
+  createdAt: Date;
+  alertesEnAttente?: number;
+}
+
 export interface NotificationPreferences {
   email: boolean;
   sms: boolean;
@@ -415,6 +1104,7 @@ export interface SearchFilters {
   urgentesOnly?: boolean;
   dateMin?: Date;
   dateMax?: Date;
+  attributs?: FiltresAttributs;
 }
 
 export interface SearchResult {
@@ -424,17 +1114,125 @@ export interface SearchResult {
   totalPages: number;
   hasNext: boolean;
   hasPrev: boolean;
-  facettes: {
-    categories: Array<{ nom: string; count: number }>;
-    regions: Array<{ nom: string; count: number }>;
-    prix: { min: number; max: number; moyenne: number };
-  };
+  facettes: FacettesRecherche;
+  totalApproximatif?: boolean; // Total mis en cache quelques minutes
+}
+
+// Lot d'annonces en pagination par curseur (défilement infini)
+export interface LotAnnonces {
+  annonces: Annonce[];
+  nextCursor: string | null; // null : fin de la liste
+  facettes?: FacettesRecherche; // Recherche : premier lot seulement
+}
+
+// Tranche d'un histogramme : [min, max[ (max nul pour la dernière tranche ouverte)
+export interface FacetteTranche {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+// Répartition d'un champ spécifique à la catégorie (proprietes)
+export type FacetteChamp =
+  | { type: 'valeurs'; valeurs: Array<{ valeur: string; count: number }> }
+  | { type: 'tranches'; tranches: FacetteTranche[] };
+
+/**
+ * Chaque facette ignore son propre filtre : les valeurs voisines restent
+ * proposées pour affiner ou élargir la recherche
+ */
+export interface FacettesRecherche {
+  categories: Array<{ nom: string; count: number }>;
+  regions: Array<{ nom: string; count: number }>;
+  sousCategories: Array<{ nom: string; count: number }>;
+  communes: Array<{ nom: string; count: number }>; // Région sélectionnée uniquement
+  etats: Array<{ nom: EtatProduit; count: number }>;
+  vendeurs: { professionnels: number; particuliers: number };
+  prix: { min: number; max: number; moyenne: number; histogramme: FacetteTranche[] };
+  champs: Record<string, FacetteChamp>; // Catégorie sélectionnée uniquement
+  champsPartiels?: boolean; // Champs calculés sur un échantillon des résultats
+}
+
+// ==============================================
+// TYPES STATISTIQUES VENDEUR
+// ==============================================
+
+export type GranulariteStatistiques = 'jour' | 'semaine' | 'mois';
+
+export type CanalContact = 'telephone' | 'whatsapp' | 'email';
+
+// Coordonnée révélée par POST /api/annonces/:id/contact
+export interface ContactAnnonce {
+  canal: CanalContact;
+  valeur: string;
+  lienWhatsapp?: string; // wa.me avec un message prérempli citant l'annonce
+}
+
+// Origine d'une visite, déduite du referer
+export type SourceVisite = 'direct' | 'interne' | 'moteur_recherche' | 'reseau_social' | 'messagerie' | 'autre';
+
+export interface PeriodeStatistiques {
+  debut: string; // AAAA-MM-JJ inclus
+  fin: string; // AAAA-MM-JJ inclus
+  granularite: GranulariteStatistiques;
+}
+
+export interface IndicateursAnnonce {
+  vues: number;
+  favoris: number;
+  messages: number; // Messages reçus par le vendeur
+  clicsContact: number;
+  affichages: number; // Apparitions dans les résultats de recherche
+  positionMoyenne: number | null; // 1 = premier résultat ; null sans affichage
+}
+
+// Un point par jour, semaine (lundi) ou mois, périodes sans activité comprises
+export interface PointStatistiques extends IndicateursAnnonce {
+  date: string; // Début de la période, AAAA-MM-JJ
+}
+
+export interface TotauxStatistiques extends IndicateursAnnonce {
+  clicsParCanal: Record<CanalContact, number>;
+  tauxContact: number; // % des vues suivies d'un message ou d'un clic contact
+}
+
+export interface SourcesTrafic {
+  sources: Array<{ source: SourceVisite; vues: number; pourcentage: number }>;
+  sites: Array<{ domaine: string; vues: number }>; // Sites externes les plus fréquents
+}
+
+/**
+ * Médiane des annonces de la même catégorie publiées sur la période.
+ * Pour la position, plus petit est meilleur
+ */
+export interface ComparaisonCategorie {
+  categorie: string;
+  annoncesComparees: number;
+  medianes: IndicateursAnnonce;
+}
+
+export interface StatistiquesAnnonce extends SourcesTrafic {
+  annonceId: string;
+  periode: PeriodeStatistiques;
+  totaux: TotauxStatistiques;
+  serie: PointStatistiques[];
+  comparaisonCategorie: ComparaisonCategorie;
+}
+
+export interface StatistiquesVendeur extends SourcesTrafic {
+  periode: PeriodeStatistiques;
+  totaux: TotauxStatistiques;
+  serie: PointStatistiques[];
+  annonces: Array<IndicateursAnnonce & { id: string; titre: string; categorie: string; statut: StatutAnnonce }>;
 }
 
 // ==============================================
 // TYPES API ET RÉPONSES
 // ==============================================
 
+// Réponse servie depuis le cache ou calculée, par source de données
+export type StatutCache = 'hit' | 'miss';
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -446,11 +1244,14 @@ export interface ApiResponse<T = any> {
   }>;
   meta?: {
     pagination?: {
-      page: number;
+      page?: number;
       limit: number;
-      total: number;
-      totalPages: number;
+      total?: number;
+      totalPages?: number;
+      totalApproximatif?: boolean;
+      nextCursor?: string | null; // Mode curseur : à renvoyer pour le lot suivant
     };
+    cache?: Record<string, StatutCache>; // Ex. { resultats: 'hit', facettes: 'miss' }
     timestamp: string;
     version: string;
   };
@@ -488,23 +1289,77 @@ export interface PaiementWave extends PaiementData {
   numeroTelephone: string;
 }
 
+export type TypeBoost = 'premium' | 'promue' | 'urgente';
+
+export interface Paiement {
+  id: string;
+  userId: string;
+  annonceId?: string;
+  montant: number;
+  devise: string;
+  type: TypePaiement;
+  methode: MethodePaiement;
+  statut: StatutPaiement;
+  metadata: Record<string, any>;
+  createdAt: Date;
+  validatedAt?: Date;
+}
+
+// Paiement initié : le client finalise chez l'opérateur
+export interface PaiementInitie {
+  paiement: Paiement;
+  paymentUrl?: string;
+  instructions?: string;
+}
+
+// Droits associés à un plan
+export interface DroitsPlan {
+  maxAnnoncesActives: number | null; // null = illimité
+  dureeAnnonceJours: number;
+  maxImages: number;
+  boostsInclus: number; // boosts "promue" offerts par période
+}
+
+export interface Abonnement {
+  id: string;
+  userId: string;
+  type: TypeAbonnement;
+  prix: number;
+  devise: string;
+  dateDebut: Date;
+  dateFin: Date;
+  statut: StatutAbonnement;
+  annuleLe?: Date; // droits conservés jusqu'à dateFin
+  boostsUtilises: number;
+  createdAt: Date;
+}
+
+// Plan courant de l'utilisateur et consommation
+export interface PlanUtilisateur {
+  plan: TypeAbonnement;
+  droits: DroitsPlan;
+  abonnement?: Abonnement;
+  annoncesActives: number;
+  boostsRestants: number;
+}
+
 // ==============================================
 // TYPES D'ÉVÉNEMENTS WEBSOCKET
 // ==============================================
 
-export interface WebSocketEvent {
+export interface BaseWebSocketEvent {
   type: string;
   payload: any;
   timestamp: Date;
   userId?: string;
 }
 
-export interface MessageEvent extends WebSocketEvent {
+export interface MessageEvent extends BaseWebSocketEvent {
   type: 'NEW_MESSAGE';
   payload: Message;
 }
 
-export interface NotificationEvent extends WebSocketEvent {
+export interface NotificationEvent extends BaseWebSocketEvent {
   type: 'NOTIFICATION';
   payload: {
     titre: string;
@@ -514,6 +1369,41 @@ export interface NotificationEvent extends WebSocketEvent {
   };
 }
 
+export interface TypingEvent extends BaseWebSocketEvent {
+  type: 'TYPING';
+  payload: {
+    annonceId: string;
+    userId: string;
+    isTyping: boolean;
+  };
+}
+
+export interface ReadReceiptEvent extends BaseWebSocketEvent {
+  type: 'READ_RECEIPT';
+  payload: {
+    annonceId: string;
+    readerId: string;
+    count: number;
+    dateLecture: Date;
+  };
+}
+
+export interface PresenceEvent extends BaseWebSocketEvent {
+  type: 'PRESENCE';
+  payload: {
+    userId: string;
+    online: boolean;
+    lastSeen?: Date;
+  };
+}
+
+export type WebSocketEvent =
+  | MessageEvent
+  | NotificationEvent
+  | TypingEvent
+  | ReadReceiptEvent
+  | PresenceEvent;
+
 // ==============================================
 // TYPES UTILITAIRES
 // ==============================================
@@ -546,7 +1436,8 @@ export const LIMITS = {
   },
   USER: {
     MAX_ANNONCES_GRATUITES: 5,
-    MAX_ANNONCES_PRO: 50
+    MAX_ANNONCES_PRO: 50,
+    MAX_RECHERCHES_SAUVEGARDEES: 20
   },
   FILE: {
     MAX_SIZE_IMAGE: 5 * 1024 * 1024, // 5MB
@@ -562,12 +1453,54 @@ export const TARIFS = {
   COMMISSION_VENTE: 0.05 // 5%
 } as const;
 
+// Options de mise en avant payantes
+export const BOOSTS = {
+  premium: { tarif: TARIFS.ANNONCE_PREMIUM, dureeJours: 30 },
+  promue: { tarif: TARIFS.BOOST_ANNONCE, dureeJours: 7 },
+  urgente: { tarif: TARIFS.BOOST_ANNONCE, dureeJours: 3 }
+} as const;
+
+// Droits par plan (BASIC = compte sans abonnement)
+export const PLANS: Record<TypeAbonnement, DroitsPlan & { tarifMensuel: number | null }> = {
+  [TypeAbonnement.BASIC]: {
+    tarifMensuel: 0,
+    maxAnnoncesActives: LIMITS.USER.MAX_ANNONCES_GRATUITES,
+    dureeAnnonceJours: 30,
+    maxImages: 5,
+    boostsInclus: 0
+  },
+  [TypeAbonnement.PRO]: {
+    tarifMensuel: TARIFS.ABONNEMENT_PRO_MENSUEL,
+    maxAnnoncesActives: LIMITS.USER.MAX_ANNONCES_PRO,
+    dureeAnnonceJours: 60,
+    maxImages: LIMITS.ANNONCE.MAX_IMAGES,
+    boostsInclus: 3
+  },
+  // Plans sur devis, attribués par l'équipe commerciale
+  [TypeAbonnement.PREMIUM]: {
+    tarifMensuel: null,
+    maxAnnoncesActives: 200,
+    dureeAnnonceJours: 90,
+    maxImages: LIMITS.ANNONCE.MAX_IMAGES,
+    boostsInclus: 10
+  },
+  [TypeAbonnement.ENTERPRISE]: {
+    tarifMensuel: null,
+    maxAnnoncesActives: null,
+    dureeAnnonceJours: 90,
+    maxImages: LIMITS.ANNONCE.MAX_IMAGES,
+    boostsInclus: 30
+  }
+};
+
+// Durée d'une période d'abonnement
+export const DUREE_ABONNEMENT_JOURS = 30;
+
 // ==============================================
 // TYPES D'EXPORT
 // ==============================================
 
 export type {
-  RegionCode,
   CategorieCode
 };
 